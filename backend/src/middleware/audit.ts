@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.js';
+import {
+  actionForMethod,
+  AuditChange,
+  diffRecords,
+  entityTypeForRoute,
+  recordAudit,
+} from '../services/auditService.js';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Describe the change a route made, for the audit entry written when the response is sent.
+ * Fields left out fall back to what the route path says.
+ */
+export const auditChange = (res: Response, change: AuditChange) => {
+  res.locals.audit = { ...(res.locals.audit as AuditChange | undefined), ...change };
+};
+
+/**
+ * Writes an audit entry for every successful mutating request. Unauthenticated requests
+ * (login, token refresh) are only logged when the route described a change.
+ */
+export const auditMutations = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!MUTATING_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  res.on('finish', () => {
+    const change = res.locals.audit as AuditChange | undefined;
+    if (res.statusCode >= 400 || (!req.userId && !change)) {
+      return;
+    }
+
+    // Matched route as a template, e.g. /api/worklogs/:id
+    const routePath = req.route
+      ? `${req.baseUrl}${req.route.path === '/' ? '' : req.route.path}`
+      : req.originalUrl.split('?')[0];
+
+    recordAudit({
+      actorId: req.userId,
+      action: change?.action ?? actionForMethod(req.method),
+      entityType: change?.entityType ?? entityTypeForRoute(routePath),
+      entityId: change?.entityId ?? req.params?.id,
+      changes: change && (change.before || change.after) ? diffRecords(change.before, change.after) : undefined,
+      route: `${req.method} ${routePath}`,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    }).catch((error) => console.error('Error writing audit log:', error));
+  });
+
+  next();
+};
@@ -1,6 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { getManagedUserIds } from '../services/reportingService.js';
+import { getEffectiveAccess, Permission } from '../services/permissionService.js';
+import { AccessTokenPayload, findActiveSession } from '../services/sessionService.js';
+import {
+  authenticateApiToken,
+  isApiToken,
+  isRequestAllowedForScopes,
+} from '../services/apiTokenService.js';
 
 const prisma = new PrismaClient();
 
@@ -8,6 +16,52 @@ export interface AuthRequest extends Request {
   userId?: string;
   userRole?: string;
   isAdmin?: boolean;
+  sessionId?: string;
+  apiTokenId?: string; // Set instead of sessionId when the request uses a personal API token
+  permissions?: Permission[]; // Effective permissions, loaded by authenticateToken
+  twoFactorSetupRequired?: boolean; // Elevated user who must enroll in 2FA; has no permissions until then
+  managedUserIds?: string[] | null; // Set by requireManager; null means every user
+}
+
+async function loadAccess(req: AuthRequest, userId: string, isAdmin: boolean, twoFactorEnabled: boolean) {
+  req.userId = userId;
+  req.isAdmin = isAdmin;
+  // Keep userRole for backward compatibility during migration
+  req.userRole = req.isAdmin ? 'ADMIN' : 'EMPLOYEE';
+  const access = await getEffectiveAccess(userId, isAdmin, twoFactorEnabled);
+  req.permissions = access.permissions;
+  req.twoFactorSetupRequired = access.twoFactorSetupRequired;
+}
+
+// Personal API token: the owner's access, limited to the endpoints of the token's scopes
+async function authenticateWithApiToken(
+  token: string,
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const apiToken = await authenticateApiToken(token, req.ip);
+    if (!apiToken) {
+      return res.status(401).json({ error: 'Invalid, expired or revoked API token' });
+    }
+
+    if (!isRequestAllowedForScopes(apiToken.scopes, req.method, req.originalUrl)) {
+      return res.status(403).json({ error: 'This API token does not allow this request' });
+    }
+
+    req.apiTokenId = apiToken.id;
+    await loadAccess(
+      req,
+      apiToken.userId,
+      apiToken.user.isAdmin,
+      !!apiToken.user.twoFactor?.enabledAt
+    );
+    next();
+  } catch (error) {
+    console.error('Error loading API token:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 }
 
 export const authenticateToken = async (
@@ -22,25 +76,75 @@ export const authenticateToken = async (
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  if (isApiToken(token)) {
+    return authenticateWithApiToken(token, req, res, next);
+  }
+
+  let decoded: AccessTokenPayload;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string; isAdmin: boolean };
-    req.userId = decoded.userId;
-    req.isAdmin = decoded.isAdmin;
-    // Keep userRole for backward compatibility during migration
-    req.userRole = decoded.isAdmin ? 'ADMIN' : 'EMPLOYEE';
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET!) as AccessTokenPayload;
   } catch (error) {
+    // 401 tells the client to use its refresh token
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Access token expired' });
+    }
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
+
+  try {
+    // Revoked sessions and deleted users lose access immediately, not when the token expires
+    const session = decoded.sessionId ? await findActiveSession(decoded.sessionId) : null;
+    if (!session || session.userId !== decoded.userId) {
+      return res.status(401).json({ error: 'Session expired or revoked' });
+    }
+
+    req.sessionId = session.id;
+    await loadAccess(req, session.userId, session.user.isAdmin, !!session.user.twoFactor?.enabledAt);
+    next();
+  } catch (error) {
+    console.error('Error loading session:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 };
 
-export const requireAdmin = (
+export const hasPermission = (req: AuthRequest, permission: Permission): boolean =>
+  !!req.permissions?.includes(permission);
+
+// Users managing people, projects, reports or billing see and log time to every project;
+// others only to the projects they are members of
+export const canAccessAllProjects = (req: AuthRequest): boolean =>
+  hasPermission(req, 'users.manage') ||
+  hasPermission(req, 'projects.manage') ||
+  hasPermission(req, 'reports.view') ||
+  hasPermission(req, 'billing.manage');
+
+// Allows the request when the user has any of the given permissions
+export const requirePermission =
+  (...permissions: Permission[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!permissions.some((permission) => hasPermission(req, permission))) {
+      return res.status(403).json({ error: 'You do not have permission to do this' });
+    }
+    next();
+  };
+
+// Users who can read reports, and managers with reports of their own, delegated to them
+// or (with `worklogs.approve`) on the projects they lead.
+// Sets `managedUserIds` so routes can limit data to those people.
+export const requireManager = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
-  if (!req.isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
+  try {
+    const managedUserIds = await getManagedUserIds(req.userId!, req.permissions ?? []);
+    if (managedUserIds && managedUserIds.length === 0) {
+      return res.status(403).json({ error: 'Manager or reports access required' });
+    }
+    req.managedUserIds = managedUserIds;
+    next();
+  } catch (error) {
+    console.error('Error resolving managed users:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  next();
 };
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect provider for trying out and testing SSO locally.
+ * Not for production: anyone can sign in as any email.
+ *
+ *   npm run mock-oidc
+ *
+ * and in backend/.env:
+ *
+ *   OIDC_ISSUER="http://localhost:4000"
+ *   OIDC_CLIENT_ID="teamstack"
+ *   OIDC_CLIENT_SECRET="teamstack-secret"
+ */
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4000;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'teamstack';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'teamstack-secret';
+const KEY_ID = 'mock-key';
+
+interface PendingCode {
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const codes = new Map<string, PendingCode>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// Sign-in form: pick the identity to log in as
+app.get('/authorize', (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+  if (query.client_id !== CLIENT_ID || !query.redirect_uri) {
+    return res.status(400).send('Unknown client_id or missing redirect_uri');
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(query[name] || '')}">`)
+    .join('');
+
+  res.send(`<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 60px auto">
+    <h2>Mock identity provider</h2>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br><input name="email" type="email" required style="width: 100%"></label></p>
+      <p><label>First name<br><input name="given_name" style="width: 100%"></label></p>
+      <p><label>Last name<br><input name="family_name" style="width: 100%"></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+      <button type="submit">Sign in</button>
+      <button type="submit" name="deny" value="1">Deny</button>
+    </form>
+  </body>
+</html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const body = req.body as Record<string, string | undefined>;
+  const redirect = new URL(body.redirect_uri!);
+  if (body.state) {
+    redirect.searchParams.set('state', body.state);
+  }
+
+  if (body.deny) {
+    redirect.searchParams.set('error', 'access_denied');
+    return res.redirect(redirect.toString());
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    redirectUri: body.redirect_uri!,
+    nonce: body.nonce || undefined,
+    codeChallenge: body.code_challenge || undefined,
+    claims: {
+      sub: `mock|${body.email}`,
+      email: body.email,
+      email_verified: body.email_verified === 'on',
+      given_name: body.given_name || undefined,
+      family_name: body.family_name || undefined,
+    },
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+// Client credentials from HTTP Basic auth or the form body
+function readClientCredentials(req: express.Request) {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+    return { id: decodeURIComponent(id), secret: decodeURIComponent(secret ?? '') };
+  }
+  return { id: req.body.client_id, secret: req.body.client_secret };
+}
+
+app.post('/token', (req, res) => {
+  const client = readClientCredentials(req);
+  if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  if (
+    req.body.grant_type !== 'authorization_code' ||
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.redirectUri !== req.body.redirect_uri
+  ) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  if (pending.codeChallenge) {
+    const challenge = crypto
+      .createHash('sha256')
+      .update(req.body.code_verifier || '')
+      .digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE check failed' });
+    }
+  }
+
+  const idToken = jwt.sign({ ...pending.claims, nonce: pending.nonce }, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: CLIENT_ID,
+    expiresIn: '5m',
+  });
+
+  res.json({
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running on ${ISSUER} (client ${CLIENT_ID})`);
+});
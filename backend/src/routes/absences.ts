@@ -3,10 +3,26 @@ import path from 'path';
 import fs from 'fs/promises';
 import multer from 'multer';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, hasPermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
 import { z } from 'zod';
 import { countWorkingDays, hasCompletedTrialPeriod, addWorkingDays } from '../utils/dateUtils.js';
 import { LocalStorageService } from '../services/storage/localStorageService.js';
+import { getHolidaysForCountry } from '../services/holidayService.js';
+import { getLeavePolicyResolver } from '../services/leavePolicyService.js';
+import {
+  approvalInclude,
+  createApprovalChain,
+  skipPendingApprovals,
+} from '../services/approvalService.js';
+import { CoverageConflict, findCoverageConflicts } from '../services/coverageService.js';
+import {
+  AbsenceDuration,
+  AbsencePortion,
+  countAbsenceWorkingDays,
+  getPartialDayFraction,
+  WORKING_HOURS_PER_DAY,
+} from '../utils/absenceUtils.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -14,7 +30,6 @@ const prismaAny = prisma as typeof prisma & { settings: any; absence: any; absen
 
 const upload = multer({ storage: multer.memoryStorage() });
 const storageService = new LocalStorageService(path.resolve(process.cwd(), 'uploads', 'sick-leave'));
-const SETTINGS_ID = 'global';
 const DAY_MS = 24 * 60 * 60 * 1000;
 
 const handleUploadIfMultipart: express.RequestHandler = (req, res, next) => {
@@ -57,6 +72,18 @@ function countDaysWithinRange(from: Date, to: Date, rangeStart: Date, rangeEnd:
   return diffDays + 1;
 }
 
+// Calendar days an absence takes within a range; partial absences count their fraction of a day
+function countAbsenceDaysWithinRange(absence: AbsenceDuration, rangeStart: Date, rangeEnd: Date): number {
+  const days = countDaysWithinRange(new Date(absence.from), new Date(absence.to), rangeStart, rangeEnd);
+  const fraction = getPartialDayFraction(absence);
+
+  if (days === 0 || fraction === null) {
+    return days;
+  }
+
+  return fraction;
+}
+
 function getYearBounds(date: Date): { yearStart: Date; yearEnd: Date } {
   const yearStart = new Date(date.getFullYear(), 0, 1);
   const yearEnd = new Date(date.getFullYear(), 11, 31);
@@ -64,24 +91,250 @@ function getYearBounds(date: Date): { yearStart: Date; yearEnd: Date } {
   return { yearStart, yearEnd };
 }
 
-async function getSettingsWithDefaults() {
-  const settings = await prismaAny.settings.findUnique({
-    where: { id: SETTINGS_ID },
+// Format validation errors for better user experience
+function formatValidationError(error: z.ZodError): string {
+  const errorMessages = error.errors.map((err) => {
+    const field = err.path.join('.');
+    return `${field ? `${field}: ` : ''}${err.message}`;
   });
+  return errorMessages.join('. ') || 'Validation failed';
+}
+
+// Split coverage conflicts into the ones that refuse the request and plain warnings
+function splitCoverageConflicts(conflicts: CoverageConflict[]) {
+  return {
+    blocking: conflicts.filter((conflict) => conflict.enforcement === 'block'),
+    warnings: conflicts.filter((conflict) => conflict.enforcement === 'warn'),
+  };
+}
+
+interface AbsenceValidationInput {
+  userId: string;
+  type: 'sick_leave' | 'day_off' | 'vacation' | 'work_from_home';
+  absenceStart: Date;
+  absenceEnd: Date;
+  portion: AbsencePortion;
+  partialHours: number | null;
+  hasCertificate: boolean;
+  excludeAbsenceId?: string; // Absence being edited; its current days don't count against the new ones
+}
+
+/**
+ * Leave policy checks shared by new and edited absences: trial period, working days,
+ * sick leave certificate rules and annual limits.
+ * Returns an error message, or null if the absence is allowed.
+ */
+async function validateAbsenceRequest({
+  userId,
+  type,
+  absenceStart,
+  absenceEnd,
+  portion,
+  partialHours,
+  hasCertificate,
+  excludeAbsenceId,
+}: AbsenceValidationInput): Promise<string | null> {
+  const today = startOfDay(new Date());
+  const totalDays = countCalendarDays(absenceStart, absenceEnd);
+  const excludeFilter = excludeAbsenceId ? { not: excludeAbsenceId } : undefined;
+
+  // Trial period, certificate rules and limits come from the user's leave policy
+  const resolvePolicy = await getLeavePolicyResolver(userId);
+
+  // For vacation requests, add additional validations
+  if (type === 'vacation') {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return 'User not found';
+    }
+
+    // Check trial period
+    const { trialPeriodMonths } = resolvePolicy(today);
+    if (!user.hireDate || !hasCompletedTrialPeriod(user.hireDate, trialPeriodMonths)) {
+      return `Vacation requests are only available after completing the trial period (${trialPeriodMonths} months). Please contact admin to set your hire date.`;
+    }
 
-  if (settings) {
-    return settings;
+    // Public holidays from the user's calendar don't count as vacation days
+    const holidays = await getHolidaysForCountry(
+      user.country,
+      absenceStart < today ? absenceStart : today,
+      absenceEnd
+    );
+
+    if (
+      countAbsenceWorkingDays(
+        { from: absenceStart, to: absenceEnd, portion, hours: partialHours },
+        holidays
+      ) === 0
+    ) {
+      return 'Vacation must include at least one working day. The selected dates are weekends or public holidays.';
+    }
+
+    // Check 10 working days notice requirement
+    // Only enforce for future dates; backdated vacations are allowed
+    // TODO: Uncomment this when we have a way to allow backdated vacation
+    // if (absenceStart >= today) {
+    //   // Calculate 10 working days from today
+    //   const requiredDate = addWorkingDays(today, 10, holidays);
+      
+    //   if (absenceStart < requiredDate) {
+    //     const workingDaysUntilStart = countWorkingDays(today, absenceStart, holidays);
+    //     return res.status(400).json({
+    //       error: `Vacation request must be created at least 10 working days before the start date. You have ${workingDaysUntilStart} working days until ${absenceStart.toLocaleDateString()}`,
+    //     });
+    //   }
+    // }
   }
 
-  return prismaAny.settings.create({
-    data: {
-      id: SETTINGS_ID,
-      vacationFutureAccrueDays: 1.5,
-      sickLeaveWithoutCertificateLimit: 5,
-      sickLeaveWithCertificateLimit: 5,
-      vacationCarryoverLimit: 0,
-    },
-  });
+  if (type === 'sick_leave') {
+    const isSingleDay = totalDays === 1;
+    const prevDay = startOfDay(new Date(absenceStart.getTime() - DAY_MS));
+    const nextDay = startOfDay(new Date(absenceEnd.getTime() + DAY_MS));
+    const { sickLeaveCertificateAfterDays } = resolvePolicy(absenceStart);
+
+    if (totalDays > sickLeaveCertificateAfterDays && !hasCertificate) {
+      return `Sick Leave for ${sickLeaveCertificateAfterDays + 1} or more consecutive days requires a certificate.`;
+    }
+
+    const adjacentAbsences = await prismaAny.absence.findMany({
+      where: {
+        userId,
+        type: 'sick_leave',
+        id: excludeFilter,
+        status: {
+          notIn: ['rejected', 'cancelled'],
+        },
+        OR: [
+          {
+            from: {
+              lte: endOfDay(prevDay),
+            },
+            to: {
+              gte: startOfDay(prevDay),
+            },
+          },
+          {
+            from: {
+              lte: endOfDay(nextDay),
+            },
+            to: {
+              gte: startOfDay(nextDay),
+            },
+          },
+        ],
+      },
+      include: {
+        files: true,
+      },
+    });
+
+    const hasAdjacent = adjacentAbsences.length > 0;
+    const adjacentHasCertificate = adjacentAbsences.some(
+      (absence: { files: unknown[] }) => absence.files.length > 0
+    );
+
+    // Adjacent single days add up to a multi-day absence when the policy only allows one day
+    if (
+      isSingleDay &&
+      sickLeaveCertificateAfterDays <= 1 &&
+      hasAdjacent &&
+      !hasCertificate &&
+      !adjacentHasCertificate
+    ) {
+      return 'Consecutive Sick Leave days require a certificate. Please attach a file.';
+    }
+
+    const { yearStart, yearEnd } = getYearBounds(absenceStart);
+    const unconfirmedCount = await prismaAny.absence.count({
+      where: {
+        userId,
+        type: 'sick_leave',
+        id: excludeFilter,
+        status: {
+          notIn: ['rejected', 'cancelled'],
+        },
+        from: {
+          lte: yearEnd,
+        },
+        to: {
+          gte: yearStart,
+        },
+        files: {
+          none: {},
+        },
+      },
+    });
+
+    if (isSingleDay && !hasCertificate && unconfirmedCount > 0) {
+      return 'You already have Sick Leave days without a certificate. Please attach a file.';
+    }
+
+    const yearsToCheck = Array.from(new Set([absenceStart.getFullYear(), absenceEnd.getFullYear()]));
+
+    for (const year of yearsToCheck) {
+      const rangeStart = new Date(year, 0, 1);
+      const rangeEnd = new Date(year, 11, 31, 23, 59, 59, 999);
+      // Limits in force when the absence starts (or at the start of a later year it spans)
+      const policy = resolvePolicy(absenceStart > rangeStart ? absenceStart : rangeStart);
+      const absences = await prismaAny.absence.findMany({
+        where: {
+          userId,
+          type: 'sick_leave',
+          id: excludeFilter,
+          status: {
+            notIn: ['rejected', 'cancelled'],
+          },
+          from: {
+            lte: rangeEnd,
+          },
+          to: {
+            gte: rangeStart,
+          },
+        },
+        include: {
+          files: true,
+        },
+      });
+
+      let usedWithCertificate = 0;
+      let usedWithoutCertificate = 0;
+
+      for (const absence of absences) {
+        const daysInYear = countAbsenceDaysWithinRange(absence, rangeStart, rangeEnd);
+
+        if (daysInYear === 0) {
+          continue;
+        }
+
+        if (absence.files.length > 0) {
+          usedWithCertificate += daysInYear;
+        } else {
+          usedWithoutCertificate += daysInYear;
+        }
+      }
+
+      const newDays = countAbsenceDaysWithinRange(
+        { from: absenceStart, to: absenceEnd, portion, hours: partialHours },
+        rangeStart,
+        rangeEnd
+      );
+
+      if (newDays > 0) {
+        if (!hasCertificate) {
+          if (usedWithoutCertificate + newDays > policy.sickLeaveWithoutCertificateLimit) {
+            return `Sick Leave without certificate exceeds the annual limit of ${policy.sickLeaveWithoutCertificateLimit} days.`;
+          }
+        } else if (usedWithCertificate + newDays > policy.sickLeaveWithCertificateLimit) {
+          return `Sick Leave with certificate exceeds the annual limit of ${policy.sickLeaveWithCertificateLimit} days.`;
+        }
+      }
+    }
+  }
+
+  return null;
 }
 
 const createAbsenceSchema = z
@@ -89,6 +342,25 @@ const createAbsenceSchema = z
     type: z.enum(['sick_leave', 'day_off', 'vacation', 'work_from_home']),
     from: z.string().datetime({ message: 'Start date is required and must be a valid date' }),
     to: z.string().datetime({ message: 'End date is required and must be a valid date' }),
+    portion: z.enum(['full_day', 'half_day_am', 'half_day_pm', 'hours']).default('full_day'),
+    hours: z.coerce
+      .number()
+      .positive('Hours must be greater than 0')
+      .lt(WORKING_HOURS_PER_DAY, `Hours must be less than ${WORKING_HOURS_PER_DAY} (use a full day instead)`)
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.portion === 'full_day' ||
+      startOfDay(new Date(data.from)).getTime() === startOfDay(new Date(data.to)).getTime(),
+    {
+      message: 'Half-day and hourly absences must start and end on the same day',
+      path: ['portion'],
+    }
+  )
+  .refine((data) => data.portion !== 'hours' || data.hours !== undefined, {
+    message: 'Number of hours is required for hourly absences',
+    path: ['hours'],
   })
   .refine(
     (data) => {
@@ -132,7 +404,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       ? [userIdsRaw]
       : [];
 
-    let where: any = {};
+    // Cancelled absences are kept for history but never shown on the calendar
+    let where: any = { status: { not: 'cancelled' } };
 
     // If not showing all, show only current user's absences
     if (showAll !== 'true' && userIds.length === 0 && !search) {
@@ -222,14 +495,17 @@ router.post('/', authenticateToken, handleUploadIfMultipart, async (req: AuthReq
       type: req.body.type,
       from: req.body.from,
       to: req.body.to,
+      portion: req.body.portion || undefined,
+      hours: req.body.hours === '' || req.body.hours === null ? undefined : req.body.hours,
     });
     const files = Array.isArray(req.files) ? req.files : [];
+    const portion = data.portion;
+    const partialHours = portion === 'hours' ? data.hours ?? null : null;
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     const absenceStart = startOfDay(new Date(data.from));
     const absenceEnd = startOfDay(new Date(data.to));
-    const totalDays = countCalendarDays(absenceStart, absenceEnd);
 
     // Allow backdated absences up to 14 calendar days in the past
     // TODO: Uncomment this when we have a way to allow backdated absence
@@ -246,182 +522,32 @@ router.post('/', authenticateToken, handleUploadIfMultipart, async (req: AuthReq
       });
     }
 
-    // For vacation requests, add additional validations
-    if (data.type === 'vacation') {
-      const user = await prisma.user.findUnique({
-        where: { id: userId! },
-      });
-
-      if (!user) {
-        return res.status(404).json({ error: 'User not found' });
-      }
-
-      // Check trial period (3 months)
-      if (!user.hireDate || !hasCompletedTrialPeriod(user.hireDate)) {
-        return res.status(400).json({
-          error: 'Vacation requests are only available after completing the trial period (3 months). Please contact admin to set your hire date.',
-        });
-      }
-
-      // Check 10 working days notice requirement
-      // Only enforce for future dates; backdated vacations are allowed
-      // TODO: Uncomment this when we have a way to allow backdated vacation
-      // if (absenceStart >= today) {
-      //   // Calculate 10 working days from today
-      //   const requiredDate = addWorkingDays(today, 10);
-        
-      //   if (absenceStart < requiredDate) {
-      //     const workingDaysUntilStart = countWorkingDays(today, absenceStart);
-      //     return res.status(400).json({
-      //       error: `Vacation request must be created at least 10 working days before the start date. You have ${workingDaysUntilStart} working days until ${absenceStart.toLocaleDateString()}`,
-      //     });
-      //   }
-      // }
-    }
-
-    if (data.type === 'sick_leave') {
-      const hasNewFiles = files.length > 0;
-      const isSingleDay = totalDays === 1;
-      const prevDay = startOfDay(new Date(absenceStart.getTime() - DAY_MS));
-      const nextDay = startOfDay(new Date(absenceEnd.getTime() + DAY_MS));
-
-      if (!isSingleDay && !hasNewFiles) {
-        return res.status(400).json({
-          error: 'Sick Leave for 2 or more consecutive days requires a certificate.',
-        });
-      }
-
-      const adjacentAbsences = await prismaAny.absence.findMany({
-        where: {
-          userId: userId!,
-          type: 'sick_leave',
-          status: {
-            not: 'rejected',
-          },
-          OR: [
-            {
-              from: {
-                lte: endOfDay(prevDay),
-              },
-              to: {
-                gte: startOfDay(prevDay),
-              },
-            },
-            {
-              from: {
-                lte: endOfDay(nextDay),
-              },
-              to: {
-                gte: startOfDay(nextDay),
-              },
-            },
-          ],
-        },
-        include: {
-          files: true,
-        },
-      });
-
-      const hasAdjacent = adjacentAbsences.length > 0;
-      const adjacentHasCertificate = adjacentAbsences.some(
-        (absence: { files: unknown[] }) => absence.files.length > 0
-      );
-
-      if (isSingleDay && hasAdjacent && !hasNewFiles && !adjacentHasCertificate) {
-        return res.status(400).json({
-          error: 'Consecutive Sick Leave days require a certificate. Please attach a file.',
-        });
-      }
+    const validationError = await validateAbsenceRequest({
+      userId: userId!,
+      type: data.type,
+      absenceStart,
+      absenceEnd,
+      portion,
+      partialHours,
+      hasCertificate: files.length > 0,
+    });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
 
-      const { yearStart, yearEnd } = getYearBounds(absenceStart);
-      const unconfirmedCount = await prismaAny.absence.count({
-        where: {
-          userId: userId!,
-          type: 'sick_leave',
-          status: {
-            not: 'rejected',
-          },
-          from: {
-            lte: yearEnd,
-          },
-          to: {
-            gte: yearStart,
-          },
-          files: {
-            none: {},
-          },
-        },
+    const coverage = splitCoverageConflicts(
+      await findCoverageConflicts({
+        userId: userId!,
+        type: data.type,
+        from: absenceStart,
+        to: absenceEnd,
+      })
+    );
+    if (coverage.blocking.length > 0) {
+      return res.status(400).json({
+        error: coverage.blocking.map((conflict) => conflict.message).join('. '),
+        coverageConflicts: coverage.blocking,
       });
-
-      if (isSingleDay && !hasNewFiles && unconfirmedCount > 0) {
-        return res.status(400).json({
-          error: 'You already have Sick Leave days without a certificate. Please attach a file.',
-        });
-      }
-
-      const settings = await getSettingsWithDefaults();
-      const yearsToCheck = Array.from(new Set([absenceStart.getFullYear(), absenceEnd.getFullYear()]));
-
-      for (const year of yearsToCheck) {
-        const rangeStart = new Date(year, 0, 1);
-        const rangeEnd = new Date(year, 11, 31, 23, 59, 59, 999);
-        const absences = await prismaAny.absence.findMany({
-          where: {
-            userId: userId!,
-            type: 'sick_leave',
-            status: {
-              not: 'rejected',
-            },
-            from: {
-              lte: rangeEnd,
-            },
-            to: {
-              gte: rangeStart,
-            },
-          },
-          include: {
-            files: true,
-          },
-        });
-
-        let usedWithCertificate = 0;
-        let usedWithoutCertificate = 0;
-
-        for (const absence of absences) {
-          const daysInYear = countDaysWithinRange(
-            new Date(absence.from),
-            new Date(absence.to),
-            rangeStart,
-            rangeEnd
-          );
-
-          if (daysInYear === 0) {
-            continue;
-          }
-
-          if (absence.files.length > 0) {
-            usedWithCertificate += daysInYear;
-          } else {
-            usedWithoutCertificate += daysInYear;
-          }
-        }
-
-        const newDays = countDaysWithinRange(absenceStart, absenceEnd, rangeStart, rangeEnd);
-
-        if (newDays > 0) {
-          if (!hasNewFiles) {
-            if (usedWithoutCertificate + newDays > settings.sickLeaveWithoutCertificateLimit) {
-              return res.status(400).json({
-                error: `Sick Leave without certificate exceeds the annual limit of ${settings.sickLeaveWithoutCertificateLimit} days.`,
-              });
-            }
-          } else if (usedWithCertificate + newDays > settings.sickLeaveWithCertificateLimit) {
-            return res.status(400).json({
-              error: `Sick Leave with certificate exceeds the annual limit of ${settings.sickLeaveWithCertificateLimit} days.`,
-            });
-          }
-        }
-      }
     }
 
     const absence = await prisma.absence.create({
@@ -430,6 +556,8 @@ router.post('/', authenticateToken, handleUploadIfMultipart, async (req: AuthReq
         type: data.type,
         from: new Date(data.from),
         to: new Date(data.to),
+        portion,
+        hours: partialHours,
       },
       include: {
         user: {
@@ -476,17 +604,27 @@ router.post('/', authenticateToken, handleUploadIfMultipart, async (req: AuthReq
       }
     }
 
-    res.status(201).json(absence);
+    // Project leads, then HR, decide the request in order
+    await createApprovalChain(absence.id, absence.userId);
+
+    auditChange(res, {
+      entityId: absence.id,
+      after: {
+        type: absence.type,
+        status: absence.status,
+        from: absence.from,
+        to: absence.to,
+        portion: absence.portion,
+        hours: absence.hours,
+      },
+    });
+
+    res.status(201).json({ ...absence, coverageWarnings: coverage.warnings });
   } catch (error) {
     if (error instanceof z.ZodError) {
-      // Format validation errors for better user experience
-      const errorMessages = error.errors.map((err) => {
-        const field = err.path.join('.');
-        return `${field ? `${field}: ` : ''}${err.message}`;
-      });
-      return res.status(400).json({ 
-        error: errorMessages.join('. ') || 'Validation failed',
-        details: error.errors 
+      return res.status(400).json({
+        error: formatValidationError(error),
+        details: error.errors,
       });
     }
     console.error('Error creating absence:', error);
@@ -494,10 +632,199 @@ router.post('/', authenticateToken, handleUploadIfMultipart, async (req: AuthReq
   }
 });
 
+const absenceDetailsInclude = {
+  files: true,
+  approvals: {
+    include: approvalInclude,
+    orderBy: {
+      step: 'asc' as const,
+    },
+  },
+  changeRequests: {
+    where: {
+      status: 'pending' as const,
+    },
+  },
+};
+
+async function findOwnAbsenceForChange(id: string, userId: string | undefined) {
+  const absence = await prisma.absence.findUnique({
+    where: { id },
+    include: absenceDetailsInclude,
+  });
+
+  if (!absence) {
+    return { absence: null, status: 404, error: 'Absence not found' };
+  }
+
+  if (absence.userId !== userId) {
+    return { absence: null, status: 403, error: 'You are not allowed to change this absence.' };
+  }
+
+  if (absence.status !== 'pending' && absence.status !== 'approved') {
+    return { absence: null, status: 400, error: 'Only pending or approved absences can be changed.' };
+  }
+
+  if (absence.changeRequests.length > 0) {
+    return { absence: null, status: 400, error: 'This absence already has a change waiting for approval.' };
+  }
+
+  return { absence };
+}
+
+// Edit dates of an own absence. Pending requests change immediately and restart approval;
+// approved ones get a change request that goes through approval first.
+router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const result = await findOwnAbsenceForChange(id, req.userId);
+
+    const { absence } = result;
+    if (!absence) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    const data = createAbsenceSchema.parse({
+      type: absence.type,
+      from: req.body.from,
+      to: req.body.to,
+      portion: req.body.portion || undefined,
+      hours: req.body.hours === '' || req.body.hours === null ? undefined : req.body.hours,
+    });
+    const portion = data.portion;
+    const partialHours = portion === 'hours' ? data.hours ?? null : null;
+
+    const validationError = await validateAbsenceRequest({
+      userId: absence.userId,
+      type: absence.type,
+      absenceStart: startOfDay(new Date(data.from)),
+      absenceEnd: startOfDay(new Date(data.to)),
+      portion,
+      partialHours,
+      hasCertificate: absence.files.length > 0,
+      excludeAbsenceId: absence.id,
+    });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const coverage = splitCoverageConflicts(
+      await findCoverageConflicts({
+        userId: absence.userId,
+        type: absence.type,
+        from: startOfDay(new Date(data.from)),
+        to: startOfDay(new Date(data.to)),
+        excludeAbsenceId: absence.id,
+      })
+    );
+    if (coverage.blocking.length > 0) {
+      return res.status(400).json({
+        error: coverage.blocking.map((conflict) => conflict.message).join('. '),
+        coverageConflicts: coverage.blocking,
+      });
+    }
+
+    const newDates = {
+      from: new Date(data.from),
+      to: new Date(data.to),
+      portion,
+      hours: partialHours,
+    };
+
+    if (absence.status === 'pending') {
+      // Earlier decisions were about the old dates, so approval starts over
+      await skipPendingApprovals(absence.id);
+      await prisma.absence.update({
+        where: { id: absence.id },
+        data: newDates,
+      });
+      await createApprovalChain(absence.id, absence.userId);
+    } else {
+      const changeRequest = await prisma.absenceChangeRequest.create({
+        data: {
+          absenceId: absence.id,
+          kind: 'modify',
+          ...newDates,
+        },
+      });
+      await createApprovalChain(absence.id, absence.userId, changeRequest.id);
+    }
+
+    auditChange(res, {
+      action: absence.status === 'pending' ? 'update' : 'request_change',
+      before: { from: absence.from, to: absence.to, portion: absence.portion, hours: absence.hours },
+      after: newDates,
+    });
+
+    const updated = await prisma.absence.findUnique({
+      where: { id: absence.id },
+      include: absenceDetailsInclude,
+    });
+
+    res.json({ ...updated, coverageWarnings: coverage.warnings });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: formatValidationError(error),
+        details: error.errors,
+      });
+    }
+    console.error('Error updating absence:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Cancel an own absence. Pending requests are withdrawn immediately;
+// cancelling an approved one needs approval.
+router.patch('/:id/cancel', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const result = await findOwnAbsenceForChange(id, req.userId);
+
+    const { absence } = result;
+    if (!absence) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    if (absence.status === 'pending') {
+      await skipPendingApprovals(absence.id);
+      await prisma.absence.update({
+        where: { id: absence.id },
+        data: { status: 'cancelled' },
+      });
+    } else {
+      const changeRequest = await prisma.absenceChangeRequest.create({
+        data: {
+          absenceId: absence.id,
+          kind: 'cancel',
+        },
+      });
+      await createApprovalChain(absence.id, absence.userId, changeRequest.id);
+    }
+
+    auditChange(
+      res,
+      absence.status === 'pending'
+        ? { action: 'cancel', before: { status: absence.status }, after: { status: 'cancelled' } }
+        : { action: 'request_cancel' }
+    );
+
+    const updated = await prisma.absence.findUnique({
+      where: { id: absence.id },
+      include: absenceDetailsInclude,
+    });
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Error cancelling absence:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 router.post('/:id/files', authenticateToken, handleUploadIfMultipart, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canReadAllFiles = hasPermission(req, 'absences.approve');
     const files = Array.isArray(req.files) ? req.files : [];
 
     if (files.length === 0) {
@@ -512,7 +839,7 @@ router.post('/:id/files', authenticateToken, handleUploadIfMultipart, async (req
       return res.status(404).json({ error: 'Absence not found' });
     }
 
-    if (!isAdmin && absence.userId !== userId) {
+    if (!canReadAllFiles && absence.userId !== userId) {
       return res.status(403).json({ error: 'You are not allowed to update this absence.' });
     }
 
@@ -553,8 +880,16 @@ router.post('/:id/files', authenticateToken, handleUploadIfMultipart, async (req
         where: { id: absence.id },
         data: { status: 'pending' },
       });
+      // The request goes through the approval chain again
+      await createApprovalChain(absence.id, absence.userId);
     }
 
+    auditChange(res, {
+      action: 'upload_files',
+      after: { files: storedFiles.map((file) => file.originalName), status: updatedAbsence.status },
+      before: { files: [], status: absence.status },
+    });
+
     return res.json(updatedAbsence);
   } catch (error) {
     console.error('Error uploading absence files:', error);
@@ -565,7 +900,8 @@ router.post('/:id/files', authenticateToken, handleUploadIfMultipart, async (req
 router.get('/files/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canReadAllFiles = hasPermission(req, 'absences.approve');
 
     const fileRecord = await prismaAny.absenceFile.findUnique({
       where: { id },
@@ -578,7 +914,7 @@ router.get('/files/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'File not found' });
     }
 
-    if (!isAdmin && fileRecord.absence.userId !== userId) {
+    if (!canReadAllFiles && fileRecord.absence.userId !== userId) {
       return res.status(403).json({ error: 'You are not allowed to access this file.' });
     }
 
@@ -599,7 +935,8 @@ router.get('/files/:id', authenticateToken, async (req: AuthRequest, res) => {
 router.delete('/files/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canReadAllFiles = hasPermission(req, 'absences.approve');
 
     const fileRecord = await prismaAny.absenceFile.findUnique({
       where: { id },
@@ -612,7 +949,7 @@ router.delete('/files/:id', authenticateToken, async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'File not found' });
     }
 
-    if (!isAdmin && fileRecord.absence.userId !== userId) {
+    if (!canReadAllFiles && fileRecord.absence.userId !== userId) {
       return res.status(403).json({ error: 'You are not allowed to delete this file.' });
     }
 
@@ -646,6 +983,11 @@ router.delete('/files/:id', authenticateToken, async (req: AuthRequest, res) =>
       where: { id },
     });
 
+    auditChange(res, {
+      entityType: 'absence_file',
+      before: { absenceId: fileRecord.absenceId, originalName: fileRecord.originalName },
+    });
+
     return res.json({ success: true });
   } catch (error) {
     console.error('Error deleting absence file:', error);
@@ -656,7 +998,8 @@ router.delete('/files/:id', authenticateToken, async (req: AuthRequest, res) =>
 router.delete('/files/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canReadAllFiles = hasPermission(req, 'absences.approve');
 
     const fileRecord = await prismaAny.absenceFile.findUnique({
       where: { id },
@@ -669,7 +1012,7 @@ router.delete('/files/:id', authenticateToken, async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'File not found' });
     }
 
-    if (!isAdmin && fileRecord.absence.userId !== userId) {
+    if (!canReadAllFiles && fileRecord.absence.userId !== userId) {
       return res.status(403).json({ error: 'You are not allowed to delete this file.' });
     }
 
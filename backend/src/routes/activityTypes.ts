@@ -0,0 +1,150 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, hasPermission, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const createActivityTypeSchema = z.object({
+  name: z.string().trim().min(1, 'Activity type name is required'),
+});
+
+const updateActivityTypeSchema = z.object({
+  name: z.string().trim().min(1, 'Activity type name is required').optional(),
+  isArchived: z.boolean().optional(),
+});
+
+async function findConflictingActivityType(name: string, excludeId?: string) {
+  return prisma.activityType.findFirst({
+    where: {
+      id: excludeId ? { not: excludeId } : undefined,
+      name: { equals: name, mode: 'insensitive' },
+    },
+  });
+}
+
+// Activity types for work logs; archived ones only for settings managers (?includeArchived=true)
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const includeArchived =
+      req.query.includeArchived === 'true' && hasPermission(req, 'settings.manage');
+
+    const activityTypes = await prisma.activityType.findMany({
+      where: includeArchived ? {} : { isArchived: false },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    res.json(activityTypes);
+  } catch (error) {
+    console.error('Error fetching activity types:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create activity type (settings managers)
+router.post('/', requirePermission('settings.manage'), async (req: AuthRequest, res) => {
+  try {
+    const data = createActivityTypeSchema.parse(req.body);
+
+    if (await findConflictingActivityType(data.name)) {
+      return res.status(400).json({ error: 'An activity type with this name already exists' });
+    }
+
+    const activityType = await prisma.activityType.create({
+      data: {
+        name: data.name,
+      },
+    });
+
+    auditChange(res, { entityId: activityType.id, after: activityType });
+
+    res.status(201).json(activityType);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating activity type:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rename or archive an activity type (settings managers)
+router.put('/:id', requirePermission('settings.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = updateActivityTypeSchema.parse(req.body);
+
+    const existing = await prisma.activityType.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Activity type not found' });
+    }
+
+    if (data.name && (await findConflictingActivityType(data.name, id))) {
+      return res.status(400).json({ error: 'An activity type with this name already exists' });
+    }
+
+    const activityType = await prisma.activityType.update({
+      where: { id },
+      data,
+    });
+
+    auditChange(res, { before: existing, after: activityType });
+
+    res.json(activityType);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating activity type:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete an activity type no work log uses; used ones are archived instead (settings managers)
+router.delete('/:id', requirePermission('settings.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.activityType.findUnique({
+      where: { id },
+      include: { _count: { select: { workLogs: true } } },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Activity type not found' });
+    }
+
+    if (existing._count.workLogs > 0) {
+      return res
+        .status(400)
+        .json({ error: 'This activity type is used by work logs. Archive it instead.' });
+    }
+
+    const { _count, ...before } = existing;
+    await prisma.activityType.delete({
+      where: { id },
+    });
+
+    auditChange(res, { before });
+
+    res.json({ message: 'Activity type deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting activity type:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,7 +1,44 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import {
+  authenticateToken,
+  canAccessAllProjects,
+  hasPermission,
+  requirePermission,
+  AuthRequest,
+} from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { createLeaveAdjustment, getLeaveStatement, syncLeaveLedger } from '../services/leaveLedgerService.js';
+import {
+  ApprovalDecision,
+  approvalInclude,
+  canDecideApprovalStep,
+  ensureApprovalChains,
+  getCurrentApprovalStep,
+  recordApprovalDecision,
+} from '../services/approvalService.js';
+import { findCoverageConflicts } from '../services/coverageService.js';
+import { getLoginHistory, resetFailedLogins } from '../services/loginProtectionService.js';
+import { revokeUserApiTokens } from '../services/apiTokenService.js';
+import { hasElevatedAccess } from '../services/permissionService.js';
+import {
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+} from '../services/sessionService.js';
+import {
+  getActingApproverIds,
+  getReportIds,
+  wouldCreateReportingCycle,
+} from '../services/reportingService.js';
+import {
+  getSettingsTimeline,
+  resolveSettings,
+  SETTINGS_ID,
+  toEffectiveDate,
+} from '../services/settingsService.js';
+import { parseDateOnly } from '../utils/dateUtils.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -10,14 +47,23 @@ const prismaAny = prisma as typeof prisma & { settings: any; settingsChangeLog:
 
 router.use(authenticateToken);
 
+// Tasks that can be picked for new work logs
+const activeTasksInclude = {
+  tasks: {
+    where: { isArchived: false },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  },
+} as const;
+
 // Projects endpoint - available for both admin and regular users
 router.get('/projects', async (req: AuthRequest, res) => {
   try {
-    const { userId, isAdmin } = req;
+    const { userId } = req;
 
-    if (isAdmin) {
-      // Admin sees all projects
+    if (canAccessAllProjects(req)) {
       const projects = await prisma.project.findMany({
+        include: activeTasksInclude,
         orderBy: {
           name: 'asc',
         },
@@ -29,6 +75,7 @@ router.get('/projects', async (req: AuthRequest, res) => {
         where: { id: userId! },
         include: {
           projects: {
+            include: activeTasksInclude,
             orderBy: {
               name: 'asc',
             },
@@ -44,16 +91,241 @@ router.get('/projects', async (req: AuthRequest, res) => {
   }
 });
 
-// All other routes require admin access
-router.use(requireAdmin);
+const approveRequestSchema = z.object({
+  comment: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .transform((val) => (val ? val : null)),
+});
+
+const rejectRequestSchema = z.object({
+  comment: z
+    .string({ required_error: 'Rejection reason is required' })
+    .trim()
+    .min(1, 'Rejection reason is required'),
+});
+
+const requestInclude = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  files: true,
+  approvals: {
+    include: approvalInclude,
+    orderBy: {
+      step: 'asc' as const,
+    },
+  },
+  // Open cancellation or date change requested by the employee
+  changeRequests: {
+    where: {
+      status: 'pending' as const,
+    },
+  },
+};
+
+// Pending requests and change requests visible to the user: all of them for approvers
+// with `absences.approve` (HR); otherwise requests of the user's reports (own or delegated) and any request whose
+// current step the user can decide, e.g. as project lead
+async function findVisibleRequests(userId: string, canApproveAll: boolean) {
+  const findPending = () =>
+    prisma.absence.findMany({
+      where: {
+        OR: [{ status: 'pending' }, { changeRequests: { some: { status: 'pending' } } }],
+      },
+      include: requestInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+  let absences = await findPending();
+  if (await ensureApprovalChains(absences)) {
+    absences = await findPending();
+  }
+
+  const actingApproverIds = await getActingApproverIds(userId);
+  const reportIds = canApproveAll ? [] : await getReportIds(actingApproverIds);
+
+  return absences
+    .map((absence) => {
+      const currentStep = getCurrentApprovalStep(absence.approvals);
+      return {
+        ...absence,
+        currentStep,
+        // Nobody decides their own request, not even HR
+        canDecide:
+          absence.userId !== userId &&
+          !!currentStep &&
+          canDecideApprovalStep(currentStep, actingApproverIds, canApproveAll),
+      };
+    })
+    .filter((absence) => canApproveAll || absence.canDecide || reportIds.includes(absence.userId));
+}
+
+async function handleRequestDecision(
+  req: AuthRequest,
+  res: express.Response,
+  decision: ApprovalDecision
+) {
+  try {
+    const { id } = req.params;
+    const { comment } =
+      decision === 'approved'
+        ? approveRequestSchema.parse(req.body ?? {})
+        : rejectRequestSchema.parse(req.body ?? {});
+
+    const existing = await prisma.absence.findUnique({
+      where: { id },
+      include: requestInclude,
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    if (existing.userId === req.userId) {
+      return res.status(403).json({ error: 'You cannot decide your own request' });
+    }
+
+    if (existing.status !== 'pending' && existing.changeRequests.length === 0) {
+      return res.status(400).json({ error: 'This request has already been decided' });
+    }
+
+    await ensureApprovalChains([existing]);
+    const approvals = await prisma.absenceApproval.findMany({
+      where: { absenceId: id },
+      orderBy: { step: 'asc' },
+    });
+    const currentStep = getCurrentApprovalStep(approvals);
+
+    const actingApproverIds = await getActingApproverIds(req.userId!);
+    if (
+      !currentStep ||
+      !canDecideApprovalStep(currentStep, actingApproverIds, hasPermission(req, 'absences.approve'))
+    ) {
+      return res.status(403).json({ error: 'You are not the approver for the current step' });
+    }
+
+    const status = await recordApprovalDecision({
+      absenceId: id,
+      approvalId: currentStep.id,
+      decidedById: req.userId!,
+      decision,
+      comment,
+    });
+
+    if (!status) {
+      return res.status(409).json({ error: 'This step has already been decided' });
+    }
+
+    if (status !== 'pending') {
+      // Post (or reverse) the usage of this absence in the leave ledger
+      await syncLeaveLedger(existing.userId);
+    }
+
+    auditChange(res, {
+      action: decision === 'approved' ? 'approve' : 'reject',
+      entityType: 'absence',
+      before: { status: existing.status },
+      after: { status, approvalStep: currentStep.step, comment: comment ?? null },
+    });
+
+    const absence = await prisma.absence.findUnique({
+      where: { id },
+      include: requestInclude,
+    });
+
+    res.json(absence);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error(`Error recording ${decision === 'approved' ? 'approval' : 'rejection'}:`, error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Approval endpoints - available for HR, managers, their delegates and other assigned
+// approvers (e.g. project leads)
+router.get('/pending-requests-count', async (req: AuthRequest, res) => {
+  try {
+    const absences = await findVisibleRequests(req.userId!, hasPermission(req, 'absences.approve'));
+
+    // Only requests waiting for the user's decision need attention
+    res.json({ count: absences.filter((absence) => absence.canDecide).length });
+  } catch (error) {
+    console.error('Error fetching pending requests count:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/pending-requests', async (req: AuthRequest, res) => {
+  try {
+    const absences = await findVisibleRequests(req.userId!, hasPermission(req, 'absences.approve'));
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const response = [];
+    for (const absence of absences) {
+      // Coverage is checked for the dates being decided: the requested change, if any
+      const change = absence.changeRequests[0];
+      const coverageConflicts =
+        change?.kind === 'cancel'
+          ? []
+          : await findCoverageConflicts({
+              userId: absence.userId,
+              type: absence.type,
+              from: change?.from ?? absence.from,
+              to: change?.to ?? absence.to,
+              excludeAbsenceId: absence.id,
+            });
+
+      response.push({
+        ...absence,
+        isBackdated: new Date(absence.from).setHours(0, 0, 0, 0) < today.getTime(),
+        coverageConflicts,
+      });
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching pending requests:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.patch('/requests/:id/approve', (req: AuthRequest, res) =>
+  handleRequestDecision(req, res, 'approved')
+);
 
-const SETTINGS_ID = 'global';
+router.patch('/requests/:id/reject', (req: AuthRequest, res) =>
+  handleRequestDecision(req, res, 'rejected')
+);
+
+// Settings and user management need their own permissions
+router.use('/settings', requirePermission('settings.manage'));
+router.use('/users', requirePermission('users.manage'));
 
 const updateSettingsSchema = z.object({
   vacationFutureAccrueDays: z.number().min(0),
   sickLeaveWithoutCertificateLimit: z.number().int().min(0),
   sickLeaveWithCertificateLimit: z.number().int().min(0),
   vacationCarryoverLimit: z.number().int().min(0),
+  effectiveFrom: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}/, 'Invalid date format. Use YYYY-MM-DD')
+    .optional(),
 });
 
 const createUserSchema = z.object({
@@ -86,81 +358,27 @@ const createUserSchema = z.object({
   city: z.string().optional(),
   country: z.string().optional(),
   isAdmin: z.boolean().default(false),
+  passwordLoginDisabled: z.boolean().default(false),
+  managerId: z.string().uuid().nullable().optional(),
+  roleIds: z.array(z.string().uuid()).optional(),
   projectIds: z.array(z.string()).optional(),
 });
 
-router.get('/pending-requests-count', async (req, res) => {
-  try {
-    const count = await prisma.absence.count({
-      where: {
-        status: 'pending',
-      },
-    });
+// Settings in force today plus any scheduled (future) versions
+async function getSettingsOverview() {
+  const timeline = await getSettingsTimeline();
+  const today = new Date();
+  const todayEffective = toEffectiveDate(today);
 
-    res.json({ count });
-  } catch (error) {
-    console.error('Error fetching pending requests count:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-router.get('/pending-requests', async (req, res) => {
-  try {
-    const absences = await prismaAny.absence.findMany({
-      where: {
-        status: 'pending',
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-        files: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const response = absences.map((absence: { from: Date }) => ({
-      ...absence,
-      isBackdated: new Date(absence.from).setHours(0, 0, 0, 0) < today.getTime(),
-    }));
-
-    res.json(response);
-  } catch (error) {
-    console.error('Error fetching pending requests:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  return {
+    ...resolveSettings(timeline, today),
+    upcoming: timeline.filter((version) => version.effectiveFrom > todayEffective),
+  };
+}
 
 router.get('/settings', async (req, res) => {
   try {
-    const settings = await prismaAny.settings.findUnique({
-      where: { id: SETTINGS_ID },
-    });
-
-    if (!settings) {
-      const created = await prismaAny.settings.create({
-        data: {
-          id: SETTINGS_ID,
-          vacationFutureAccrueDays: 1.5,
-          sickLeaveWithoutCertificateLimit: 5,
-          sickLeaveWithCertificateLimit: 5,
-          vacationCarryoverLimit: 0,
-        },
-      });
-      return res.json(created);
-    }
-
-    res.json(settings);
+    res.json(await getSettingsOverview());
   } catch (error) {
     console.error('Error fetching settings:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -192,6 +410,8 @@ router.get('/settings/logs', async (req, res) => {
   }
 });
 
+// Schedule new settings values. Versions take effect from `effectiveFrom` (today by default)
+// and never change months that have already started.
 router.put('/settings', async (req: AuthRequest, res) => {
   try {
     const { userId } = req;
@@ -208,60 +428,84 @@ router.put('/settings', async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Admin user not found. Please log in again.' });
     }
 
-    const existing = await prismaAny.settings.findUnique({
-      where: { id: SETTINGS_ID },
-    });
+    const todayEffective = toEffectiveDate(new Date());
+    let effectiveFrom = todayEffective;
+    if (data.effectiveFrom) {
+      effectiveFrom = parseDateOnly(data.effectiveFrom);
+    }
 
-    const settings = await prismaAny.settings.upsert({
-      where: { id: SETTINGS_ID },
+    if (effectiveFrom < todayEffective) {
+      return res.status(400).json({ error: 'Settings changes cannot take effect in the past' });
+    }
+
+    const timeline = await getSettingsTimeline();
+    const previous = [...timeline]
+      .reverse()
+      .find((version) => version.effectiveFrom <= effectiveFrom)!;
+
+    const values = {
+      vacationFutureAccrueDays: data.vacationFutureAccrueDays,
+      sickLeaveWithoutCertificateLimit: data.sickLeaveWithoutCertificateLimit,
+      sickLeaveWithCertificateLimit: data.sickLeaveWithCertificateLimit,
+      vacationCarryoverLimit: data.vacationCarryoverLimit,
+    };
+
+    await prisma.settingsVersion.upsert({
+      where: {
+        settingsId_effectiveFrom: {
+          settingsId: SETTINGS_ID,
+          effectiveFrom,
+        },
+      },
       update: {
-        vacationFutureAccrueDays: data.vacationFutureAccrueDays,
-        sickLeaveWithoutCertificateLimit: data.sickLeaveWithoutCertificateLimit,
-        sickLeaveWithCertificateLimit: data.sickLeaveWithCertificateLimit,
-        vacationCarryoverLimit: data.vacationCarryoverLimit,
+        ...values,
+        createdById: admin.id,
       },
       create: {
-        id: SETTINGS_ID,
-        vacationFutureAccrueDays: data.vacationFutureAccrueDays,
-        sickLeaveWithoutCertificateLimit: data.sickLeaveWithoutCertificateLimit,
-        sickLeaveWithCertificateLimit: data.sickLeaveWithCertificateLimit,
-        vacationCarryoverLimit: data.vacationCarryoverLimit,
+        settingsId: SETTINGS_ID,
+        effectiveFrom,
+        ...values,
+        createdById: admin.id,
       },
     });
 
-    const previousVacationFutureAccrue =
-      existing?.vacationFutureAccrueDays ?? settings.vacationFutureAccrueDays;
-    const previousSickLeaveWithoutCertificateLimit =
-      existing?.sickLeaveWithoutCertificateLimit ?? settings.sickLeaveWithoutCertificateLimit;
-    const previousSickLeaveWithCertificateLimit =
-      existing?.sickLeaveWithCertificateLimit ?? settings.sickLeaveWithCertificateLimit;
-    const previousVacationCarryoverLimit =
-      existing?.vacationCarryoverLimit ?? settings.vacationCarryoverLimit;
-
     const changesDetected =
-      previousVacationFutureAccrue !== settings.vacationFutureAccrueDays ||
-      previousSickLeaveWithoutCertificateLimit !== settings.sickLeaveWithoutCertificateLimit ||
-      previousSickLeaveWithCertificateLimit !== settings.sickLeaveWithCertificateLimit ||
-      previousVacationCarryoverLimit !== settings.vacationCarryoverLimit;
+      previous.vacationFutureAccrueDays !== values.vacationFutureAccrueDays ||
+      previous.sickLeaveWithoutCertificateLimit !== values.sickLeaveWithoutCertificateLimit ||
+      previous.sickLeaveWithCertificateLimit !== values.sickLeaveWithCertificateLimit ||
+      previous.vacationCarryoverLimit !== values.vacationCarryoverLimit;
+
+    auditChange(res, {
+      entityType: 'settings',
+      entityId: SETTINGS_ID,
+      before: {
+        vacationFutureAccrueDays: previous.vacationFutureAccrueDays,
+        sickLeaveWithoutCertificateLimit: previous.sickLeaveWithoutCertificateLimit,
+        sickLeaveWithCertificateLimit: previous.sickLeaveWithCertificateLimit,
+        vacationCarryoverLimit: previous.vacationCarryoverLimit,
+      },
+      after: { ...values, effectiveFrom },
+    });
 
     if (changesDetected) {
-      await prismaAny.settingsChangeLog.create({
+      await prisma.settingsChangeLog.create({
         data: {
-          settingsId: settings.id,
+          settingsId: SETTINGS_ID,
           adminId: admin.id,
-          previousVacationFutureAccrue,
-          newVacationFutureAccrue: settings.vacationFutureAccrueDays,
-          previousSickLeaveWithoutCertificateLimit,
-          newSickLeaveWithoutCertificateLimit: settings.sickLeaveWithoutCertificateLimit,
-          previousSickLeaveWithCertificateLimit,
-          newSickLeaveWithCertificateLimit: settings.sickLeaveWithCertificateLimit,
-          previousVacationCarryoverLimit,
-          newVacationCarryoverLimit: settings.vacationCarryoverLimit,
+          previousVacationFutureAccrue: previous.vacationFutureAccrueDays,
+          newVacationFutureAccrue: values.vacationFutureAccrueDays,
+          previousSickLeaveWithoutCertificateLimit: previous.sickLeaveWithoutCertificateLimit,
+          newSickLeaveWithoutCertificateLimit: values.sickLeaveWithoutCertificateLimit,
+          previousSickLeaveWithCertificateLimit: previous.sickLeaveWithCertificateLimit,
+          newSickLeaveWithCertificateLimit: values.sickLeaveWithCertificateLimit,
+          previousVacationCarryoverLimit: previous.vacationCarryoverLimit,
+          newVacationCarryoverLimit: values.vacationCarryoverLimit,
+          effectiveFrom,
         },
       });
     }
 
-    res.json(settings);
+    res.json(await getSettingsOverview());
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
@@ -271,54 +515,34 @@ router.put('/settings', async (req: AuthRequest, res) => {
   }
 });
 
-router.patch('/requests/:id/approve', async (req, res) => {
+// Cancel a scheduled settings change that hasn't taken effect yet
+router.delete('/settings/versions/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
-    const absence = await prisma.absence.update({
+    const version = await prisma.settingsVersion.findUnique({
       where: { id },
-      data: { status: 'approved' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
     });
 
-    res.json(absence);
-  } catch (error) {
-    console.error('Error approving request:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+    if (!version) {
+      return res.status(404).json({ error: 'Settings version not found' });
+    }
 
-router.patch('/requests/:id/reject', async (req, res) => {
-  try {
-    const { id } = req.params;
+    if (version.effectiveFrom <= toEffectiveDate(new Date())) {
+      return res.status(400).json({
+        error: 'Only scheduled changes that have not taken effect yet can be cancelled',
+      });
+    }
 
-    const absence = await prisma.absence.update({
+    await prisma.settingsVersion.delete({
       where: { id },
-      data: { status: 'rejected' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
     });
 
-    res.json(absence);
+    auditChange(res, { entityType: 'settings_version', before: version });
+
+    res.json(await getSettingsOverview());
   } catch (error) {
-    console.error('Error rejecting request:', error);
+    console.error('Error deleting settings version:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -347,6 +571,33 @@ router.get('/users', async (req, res) => {
         city: true,
         country: true,
         isAdmin: true,
+        managerId: true,
+        roles: {
+          select: {
+            id: true,
+            key: true,
+            name: true,
+          },
+        },
+        manager: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        twoFactor: {
+          select: { enabledAt: true },
+        },
+        lockedUntil: true,
+        passwordLoginDisabled: true,
+        workTimer: {
+          select: {
+            startedAt: true,
+            pausedAt: true,
+            project: { select: { id: true, name: true } },
+          },
+        },
         createdAt: true,
         updatedAt: true,
         projects: {
@@ -368,10 +619,23 @@ router.get('/users', async (req, res) => {
   }
 });
 
-router.post('/users', async (req, res) => {
+router.post('/users', async (req: AuthRequest, res) => {
   try {
     const data = createUserSchema.parse(req.body);
-    const { projectIds, password, ...userData } = data;
+    const { projectIds, roleIds, password, ...userData } = data;
+
+    if ((data.isAdmin || roleIds?.length) && !hasPermission(req, 'roles.manage')) {
+      return res.status(403).json({ error: 'You do not have permission to grant roles or admin access' });
+    }
+
+    if (data.managerId) {
+      const manager = await prisma.user.findFirst({
+        where: { id: data.managerId, deletedAt: null },
+      });
+      if (!manager) {
+        return res.status(400).json({ error: 'Manager not found' });
+      }
+    }
 
     const passwordHash = await bcrypt.hash(password, 10);
 
@@ -405,25 +669,23 @@ router.post('/users', async (req, res) => {
               connect: projectIds.map((id) => ({ id })),
             }
           : undefined,
+        roles: roleIds
+          ? {
+              connect: roleIds.map((id) => ({ id })),
+            }
+          : undefined,
       },
       include: {
         projects: true,
         position: true,
-      },
-    });
-
-    // Create default entitlements
-    await prisma.entitlement.create({
-      data: {
-        userId: user.id,
-        vacationDays: 20,
-        sickLeaveDays: 10,
-        dayOffDays: 5,
+        roles: true,
       },
     });
 
     const { passwordHash: _, ...userWithoutPassword } = user;
 
+    auditChange(res, { entityType: 'user', entityId: user.id, after: userWithoutPassword });
+
     res.status(201).json(userWithoutPassword);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -473,25 +735,68 @@ const updateUserSchema = z.object({
   city: z.string().optional(),
   country: z.string().optional(),
   isAdmin: z.boolean().optional(),
+  passwordLoginDisabled: z.boolean().optional(),
+  managerId: z.string().uuid().nullable().optional(),
+  roleIds: z.array(z.string().uuid()).optional(),
   projectIds: z.array(z.string()).optional(),
 });
 
-router.put('/users/:id', async (req, res) => {
+router.put('/users/:id', async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const data = updateUserSchema.parse(req.body);
-    const { projectIds, password, ...userData } = data;
+    const { projectIds, roleIds, password, ...userData } = data;
 
     const updateData: any = { ...userData };
 
     const existingUser = await prisma.user.findFirst({
       where: { id, deletedAt: null },
+      include: {
+        projects: { select: { id: true } },
+        position: { select: { id: true } },
+        roles: { select: { id: true } },
+      },
     });
 
     if (!existingUser) {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    const changesAccess =
+      (data.isAdmin !== undefined && data.isAdmin !== existingUser.isAdmin) || roleIds !== undefined;
+    if (changesAccess && !hasPermission(req, 'roles.manage')) {
+      return res.status(403).json({ error: 'You do not have permission to change roles or admin access' });
+    }
+
+    const changesSignIn =
+      !!password ||
+      (data.email !== undefined && data.email !== existingUser.email) ||
+      (data.passwordLoginDisabled !== undefined &&
+        data.passwordLoginDisabled !== existingUser.passwordLoginDisabled);
+    if (
+      changesSignIn &&
+      id !== req.userId &&
+      !hasPermission(req, 'roles.manage') &&
+      (await hasElevatedAccess(id))
+    ) {
+      return res.status(403).json({
+        error: 'You do not have permission to change the sign-in of a user with roles',
+      });
+    }
+
+    if (data.managerId) {
+      const manager = await prisma.user.findFirst({
+        where: { id: data.managerId, deletedAt: null },
+      });
+      if (!manager) {
+        return res.status(400).json({ error: 'Manager not found' });
+      }
+      // Also catches users set as their own manager
+      if (await wouldCreateReportingCycle(id, data.managerId)) {
+        return res.status(400).json({ error: 'A user cannot report to one of their own reports' });
+      }
+    }
+
     if (data.birthDate && data.birthDate.trim() !== '') {
       // Parse date string (YYYY-MM-DD) as UTC midnight to avoid timezone issues
       const dateStr = data.birthDate.includes('T') 
@@ -525,6 +830,12 @@ router.put('/users/:id', async (req, res) => {
       };
     }
 
+    if (roleIds !== undefined) {
+      updateData.roles = {
+        set: roleIds.map((roleId) => ({ id: roleId })),
+      };
+    }
+
     if (password) {
       updateData.passwordHash = await bcrypt.hash(password, 10);
     }
@@ -535,11 +846,14 @@ router.put('/users/:id', async (req, res) => {
       include: {
         projects: true,
         position: true,
+        roles: true,
       },
     });
 
     const { passwordHash: _, ...userWithoutPassword } = user;
 
+    auditChange(res, { entityType: 'user', before: existingUser, after: user });
+
     res.json(userWithoutPassword);
   } catch (error) {
     console.error('Error updating user:', error);
@@ -551,7 +865,198 @@ router.put('/users/:id', async (req, res) => {
   }
 });
 
-router.delete('/users/:id', async (req, res) => {
+const leaveStatementQuerySchema = z.object({
+  leaveType: z.enum(['vacation', 'sick_leave']).default('vacation'),
+  year: z.coerce.number().int().min(2000).max(2100).default(new Date().getFullYear()),
+});
+
+// Leave ledger statement: every accrual, usage, carryover, expiry and adjustment
+// behind a user's balance for one leave type and year
+router.get('/users/:id/leave-statement', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const query = leaveStatementQuerySchema.parse(req.query);
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        hireDate: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const statement = await getLeaveStatement(id, query.leaveType, query.year);
+
+    res.json({ user, ...statement });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Error fetching leave statement:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const leaveAdjustmentSchema = z.object({
+  leaveType: z.enum(['vacation', 'sick_leave'], {
+    errorMap: () => ({ message: 'Leave type must be vacation or sick leave' }),
+  }),
+  amount: z.coerce
+    .number()
+    .refine((val) => val !== 0, 'Amount must not be zero')
+    .refine((val) => Math.abs(val) <= 365, 'Amount must be at most 365 days'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Invalid date format. Use YYYY-MM-DD'),
+  reason: z.string().trim().min(1, 'Reason is required'),
+});
+
+// Credit or debit a user's leave balance; the entry is recorded in the leave ledger
+router.post('/users/:id/leave-adjustments', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = leaveAdjustmentSchema.parse(req.body);
+
+    const user = await prisma.user.findFirst({
+      where: { id, deletedAt: null },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const effectiveDate = parseDateOnly(data.effectiveDate);
+
+    // Finished years are already closed (carried over or expired), so they can't be adjusted
+    if (effectiveDate.getUTCFullYear() < new Date().getFullYear()) {
+      return res.status(400).json({
+        error: 'Adjustments can only take effect in the current year or later',
+      });
+    }
+
+    const adjustment = await createLeaveAdjustment({
+      userId: id,
+      leaveType: data.leaveType,
+      amount: Math.round(data.amount * 100) / 100,
+      effectiveDate,
+      reason: data.reason,
+      adminId: req.userId!,
+    });
+
+    auditChange(res, { action: 'adjust_leave', entityType: 'user', after: adjustment });
+
+    res.status(201).json(adjustment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating leave adjustment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Active login sessions of a user
+router.get('/users/:id/sessions', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(await listActiveSessions(id));
+  } catch (error) {
+    console.error('Error fetching user sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign a user out of one session
+router.delete('/users/:id/sessions/:sessionId', async (req, res) => {
+  try {
+    const { id, sessionId } = req.params;
+
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId: id },
+    });
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSession(sessionId);
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign a user out everywhere
+router.delete('/users/:id/sessions', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const count = await revokeUserSessions(id);
+
+    res.json({ message: 'Sessions revoked successfully', count });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recent login attempts of a user, newest first
+router.get('/users/:id/login-history', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(await getLoginHistory(id));
+  } catch (error) {
+    console.error('Error fetching login history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Lift a lockout after too many failed logins
+router.post('/users/:id/unlock', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user || user.deletedAt) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await resetFailedLogins(id);
+
+    auditChange(res, {
+      action: 'unlock',
+      before: { failedLoginCount: user.failedLoginCount, lockedUntil: user.lockedUntil },
+      after: { failedLoginCount: 0, lockedUntil: null },
+    });
+
+    res.json({ message: 'Account unlocked successfully' });
+  } catch (error) {
+    console.error('Error unlocking account:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/users/:id', async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
@@ -568,10 +1073,22 @@ router.delete('/users/:id', async (req, res) => {
       return res.status(400).json({ error: 'Admin users cannot be deleted' });
     }
 
-    await prisma.user.update({
+    if (!hasPermission(req, 'roles.manage') && (await hasElevatedAccess(id))) {
+      return res.status(403).json({ error: 'You do not have permission to delete a user with roles' });
+    }
+
+    const deleted = await prisma.user.update({
       where: { id },
       data: { deletedAt: new Date() },
     });
+    await revokeUserSessions(id);
+    await revokeUserApiTokens(id);
+    await prisma.workTimer.deleteMany({ where: { userId: id } });
+    auditChange(res, {
+      entityType: 'user',
+      before: { deletedAt: user.deletedAt },
+      after: { deletedAt: deleted.deletedAt },
+    });
 
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
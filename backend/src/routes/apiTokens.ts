@@ -0,0 +1,95 @@
+import express from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_DESCRIPTIONS,
+  createApiToken,
+  isApiTokenScope,
+  listApiTokens,
+  MAX_API_TOKEN_DAYS,
+  revokeApiToken,
+} from '../services/apiTokenService.js';
+import { z } from 'zod';
+
+const router = express.Router();
+
+// API tokens cannot reach these routes (no scope covers them), so a token never creates tokens
+router.use(authenticateToken);
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(100, 'Token name is too long'),
+  scopes: z
+    .array(z.string())
+    .min(1, 'Select at least one scope')
+    .refine((scopes) => scopes.every(isApiTokenScope), { message: 'Unknown scope' }),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, 'Expiry must be at least one day')
+    .max(MAX_API_TOKEN_DAYS, `Expiry can be at most ${MAX_API_TOKEN_DAYS} days`),
+});
+
+// The current user's active tokens and the scopes a token can have
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    res.json({
+      tokens: await listApiTokens(req.userId!),
+      scopes: API_TOKEN_SCOPES.map((key) => ({
+        key,
+        description: API_TOKEN_SCOPE_DESCRIPTIONS[key],
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a token; the response is the only time the token itself is shown
+router.post('/', async (req: AuthRequest, res) => {
+  try {
+    const data = createTokenSchema.parse(req.body);
+
+    const { token, apiToken } = await createApiToken(req.userId!, {
+      name: data.name,
+      scopes: data.scopes.filter(isApiTokenScope),
+      expiresInDays: data.expiresInDays,
+    });
+
+    auditChange(res, { entityId: apiToken.id, after: apiToken });
+
+    res.status(201).json({ token, apiToken });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating API token:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', async (req: AuthRequest, res) => {
+  try {
+    const existing = (await listApiTokens(req.userId!)).find((token) => token.id === req.params.id);
+    const revoked = existing && (await revokeApiToken(req.userId!, existing.id));
+    if (!existing || !revoked) {
+      return res.status(404).json({ error: 'API token not found' });
+    }
+
+    auditChange(res, {
+      action: 'revoke',
+      before: existing,
+      after: { ...existing, revokedAt: new Date() },
+    });
+
+    res.json({ message: 'API token revoked' });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
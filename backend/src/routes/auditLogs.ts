@@ -0,0 +1,62 @@
+import express from 'express';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { listAuditEntityTypes, listAuditLogs } from '../services/auditService.js';
+import { z } from 'zod';
+
+const router = express.Router();
+
+router.use(authenticateToken, requirePermission('audit.view'));
+
+const PAGE_SIZE = 50;
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD')
+  .optional()
+  .or(z.literal('').transform(() => undefined));
+
+const auditQuerySchema = z.object({
+  actorId: z.string().uuid().optional().or(z.literal('').transform(() => undefined)),
+  entityType: z.string().optional().or(z.literal('').transform(() => undefined)),
+  entityId: z.string().trim().optional().or(z.literal('').transform(() => undefined)),
+  from: dateSchema,
+  to: dateSchema,
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+// Audit entries, newest first, filtered by actor, entity and date range (inclusive, UTC days)
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const query = auditQuerySchema.parse(req.query);
+
+    const { entries, total } = await listAuditLogs(
+      {
+        actorId: query.actorId,
+        entityType: query.entityType,
+        entityId: query.entityId,
+        from: query.from ? new Date(`${query.from}T00:00:00.000Z`) : undefined,
+        to: query.to ? new Date(`${query.to}T23:59:59.999Z`) : undefined,
+      },
+      query.page,
+      PAGE_SIZE
+    );
+
+    res.json({
+      entries,
+      total,
+      page: query.page,
+      pageSize: PAGE_SIZE,
+      entityTypes: await listAuditEntityTypes(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,51 +1,208 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { getEffectiveAccess } from '../services/permissionService.js';
+import {
+  createSession,
+  refreshSession,
+  revokeSessionByRefreshToken,
+  SessionClientInfo,
+} from '../services/sessionService.js';
+import { requestPasswordReset, resetPassword } from '../services/passwordResetService.js';
+import {
+  getIpRetryAfterSeconds,
+  isAccountLocked,
+  LoginAttemptInfo,
+  recordLoginAttempt,
+  registerFailedLogin,
+  resetFailedLogins,
+} from '../services/loginProtectionService.js';
+import {
+  createAuthorizationUrl,
+  getOidcConfig,
+  handleOidcCallback,
+  redeemHandoffCode,
+} from '../services/oidcService.js';
+import {
+  isTwoFactorEnabled,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorCode,
+} from '../services/twoFactorService.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+const roleSummarySelect = {
+  id: true,
+  key: true,
+  name: true,
+} as const;
+
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
 });
 
+const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    code: z.string().trim().optional(),
+    recoveryCode: z.string().trim().optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: 'Enter the code from your authenticator app or a recovery code',
+  });
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const oidcExchangeSchema = z.object({
+  code: z.string().min(1, 'Sign-in code is required'),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Enter a valid email'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+const getClientInfo = (req: express.Request): SessionClientInfo => ({
+  userAgent: req.headers['user-agent'],
+  ipAddress: req.ip,
+});
+
+const findLoginUser = (where: { email: string } | { id: string }) =>
+  prisma.user.findFirst({
+    where: { ...where, deletedAt: null },
+    include: {
+      projects: true,
+      roles: { select: roleSummarySelect },
+    },
+  });
+
+type LoginUser = NonNullable<Awaited<ReturnType<typeof findLoginUser>>>;
+
+// User payload shared by login and /me: no password hash or lockout state, plus effective permissions
+async function toCurrentUser(user: LoginUser) {
+  const twoFactorEnabled = await isTwoFactorEnabled(user.id);
+  const access = await getEffectiveAccess(user.id, user.isAdmin, twoFactorEnabled);
+  const { passwordHash, failedLoginCount, lockedUntil, ...userWithoutPassword } = user;
+
+  return {
+    ...userWithoutPassword,
+    permissions: access.permissions,
+    twoFactorEnabled,
+    twoFactorSetupRequired: access.twoFactorSetupRequired,
+  };
+}
+
+async function startSession(user: LoginUser, req: express.Request) {
+  const { token, refreshToken } = await createSession(user, getClientInfo(req));
+  return { token, refreshToken, user: await toCurrentUser(user) };
+}
+
+const minutesUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 60000));
+
+const lockedMessage = (lockedUntil: Date) =>
+  `Account is locked after too many failed logins. Try again in ${minutesUntil(lockedUntil)} minute(s) or ask an administrator to unlock it`;
+
+const recordAttempt = (
+  req: express.Request,
+  attempt: Omit<LoginAttemptInfo, 'ipAddress' | 'userAgent'>
+) => recordLoginAttempt({ ...attempt, ...getClientInfo(req) });
+
+/**
+ * Refuse the request with 429 when its IP has too many recent failed logins.
+ * Returns true when the response has been sent.
+ */
+async function rejectThrottledIp(
+  req: express.Request,
+  res: express.Response,
+  attempt: Omit<LoginAttemptInfo, 'ipAddress' | 'userAgent' | 'outcome'>
+): Promise<boolean> {
+  const retryAfter = await getIpRetryAfterSeconds(req.ip);
+  if (retryAfter === 0) {
+    return false;
+  }
+
+  await recordAttempt(req, { ...attempt, outcome: 'throttled' });
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    error: `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s)`,
+  });
+  return true;
+}
+
+// Count a wrong password or 2FA code and answer 401, or 423 if this failure locked the account
+async function rejectFailedLogin(
+  req: express.Request,
+  res: express.Response,
+  user: LoginUser,
+  outcome: 'invalid_password' | 'invalid_two_factor',
+  error: string
+) {
+  await recordAttempt(req, { userId: user.id, email: user.email, outcome });
+
+  const lockedUntil = await registerFailedLogin(user.id);
+  if (lockedUntil) {
+    return res.status(423).json({ error: lockedMessage(lockedUntil) });
+  }
+  return res.status(401).json({ error });
+}
+
 router.post('/login', async (req, res) => {
   try {
     const { email, password } = loginSchema.parse(req.body);
 
-    const user = await prisma.user.findFirst({
-      where: { email, deletedAt: null },
-      include: {
-        projects: true,
-        entitlements: true,
-      },
-    });
+    if (await rejectThrottledIp(req, res, { email })) {
+      return;
+    }
+
+    const user = await findLoginUser({ email });
 
     if (!user) {
+      await recordAttempt(req, { email, outcome: 'unknown_user' });
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    if (isAccountLocked(user)) {
+      await recordAttempt(req, { userId: user.id, email, outcome: 'locked' });
+      return res.status(423).json({ error: lockedMessage(user.lockedUntil!) });
+    }
+
     const isValid = await bcrypt.compare(password, user.passwordHash);
 
     if (!isValid) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return rejectFailedLogin(req, res, user, 'invalid_password', 'Invalid credentials');
     }
 
-    const token = jwt.sign(
-      { userId: user.id, isAdmin: user.isAdmin },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    if (user.passwordLoginDisabled) {
+      await recordAttempt(req, { userId: user.id, email, outcome: 'password_disabled' });
+      return res
+        .status(403)
+        .json({ error: 'Password login is disabled for this account. Sign in with SSO instead' });
+    }
 
-    const { passwordHash, ...userWithoutPassword } = user;
+    // With 2FA the password alone only earns a challenge for the second step;
+    // the failure count is reset once the code is accepted too
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id),
+      });
+    }
+
+    await resetFailedLogins(user.id);
+    await recordAttempt(req, { userId: user.id, email, outcome: 'success' });
 
-    res.json({
-      token,
-      user: userWithoutPassword,
-    });
+    res.json(await startSession(user, req));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
@@ -55,4 +212,232 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Second login step: the challenge from the password step plus a TOTP or recovery code
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const data = twoFactorLoginSchema.parse(req.body);
+
+    const userId = verifyTwoFactorChallenge(data.challengeToken);
+    if (!userId) {
+      return res.status(401).json({ error: 'Login expired, please sign in again' });
+    }
+
+    const user = await findLoginUser({ id: userId });
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    if (await rejectThrottledIp(req, res, { userId, email: user.email })) {
+      return;
+    }
+
+    if (isAccountLocked(user)) {
+      await recordAttempt(req, { userId, email: user.email, outcome: 'locked' });
+      return res.status(423).json({ error: lockedMessage(user.lockedUntil!) });
+    }
+
+    const isValid = await verifyTwoFactorCode(userId, data);
+    if (!isValid) {
+      return rejectFailedLogin(req, res, user, 'invalid_two_factor', 'Invalid verification code');
+    }
+
+    await resetFailedLogins(userId);
+    await recordAttempt(req, { userId, email: user.email, outcome: 'success' });
+
+    res.json(await startSession(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Whether SSO is configured, and the name to show on the login button
+router.get('/oidc/config', (req, res) => {
+  const config = getOidcConfig();
+  res.json({ enabled: !!config, providerName: config?.providerName ?? null });
+});
+
+// Start an SSO login: redirects the browser to the identity provider
+router.get('/oidc/login', async (req, res) => {
+  const config = getOidcConfig();
+  if (!config) {
+    return res.status(404).json({ error: 'Single sign-on is not configured' });
+  }
+
+  try {
+    res.redirect(await createAuthorizationUrl(config));
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    res.status(502).json({ error: 'The identity provider is not reachable' });
+  }
+});
+
+// Redirect back from the identity provider; sends the browser to the frontend with a
+// one-time code, or to the login page with an error
+router.get('/oidc/callback', async (req, res) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const config = getOidcConfig();
+
+  const redirectWithError = (message: string) =>
+    res.redirect(`${frontendUrl}/login?ssoError=${encodeURIComponent(message)}`);
+
+  const code = typeof req.query.code === 'string' ? req.query.code : '';
+  const state = typeof req.query.state === 'string' ? req.query.state : '';
+
+  if (!config) {
+    return redirectWithError('Single sign-on is not configured');
+  }
+  if (req.query.error || !code || !state) {
+    return redirectWithError('Sign-in was cancelled or refused by the identity provider');
+  }
+
+  try {
+    const result = await handleOidcCallback(config, code, state);
+
+    if ('error' in result) {
+      if (result.email) {
+        await recordAttempt(req, {
+          userId: result.userId,
+          email: result.email,
+          method: 'sso',
+          outcome: 'unknown_user',
+        });
+      }
+      return redirectWithError(result.error);
+    }
+
+    res.redirect(`${frontendUrl}/sso/callback?code=${encodeURIComponent(result.handoffCode)}`);
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    redirectWithError('Sign-in with the identity provider failed');
+  }
+});
+
+// Exchange the one-time code from the SSO callback for a session
+router.post('/oidc/exchange', async (req, res) => {
+  try {
+    const { code } = oidcExchangeSchema.parse(req.body);
+
+    const userId = await redeemHandoffCode(code);
+    const user = userId ? await findLoginUser({ id: userId }) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in expired, please try again' });
+    }
+
+    // The identity provider authenticated the user, so a lockout from wrong passwords ends here
+    await resetFailedLogins(user.id);
+    await recordAttempt(req, { userId: user.id, email: user.email, method: 'sso', outcome: 'success' });
+
+    res.json(await startSession(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('OIDC exchange error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Exchange a refresh token for a new access token; the refresh token is rotated
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+
+    const tokens = await refreshSession(refreshToken, getClientInfo(req));
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revoke the session behind a refresh token; works even after the access token has expired
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+    await revokeSessionByRefreshToken(refreshToken);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Email a password reset link; the response is the same whether or not the account exists
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    // Not awaited: answering at the same speed for every email keeps accounts private
+    requestPasswordReset(email, req.ip).catch((error) =>
+      console.error('Password reset request error:', error)
+    );
+
+    res.json({ message: 'If an account exists for this email, a reset link has been sent' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Password reset request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set a new password with a reset link token; signs the user out of every session
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    const success = await resetPassword(token, password);
+    if (!success) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    }
+
+    res.json({ message: 'Password updated successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Password reset error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Current user with effective permissions; lets the client pick up role changes without a new login
+router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const user = await findLoginUser({ id: req.userId! });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(await toCurrentUser(user));
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
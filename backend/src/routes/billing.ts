@@ -0,0 +1,385 @@
+import express from 'express';
+import { HourlyRate, PrismaClient } from '@prisma/client';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import {
+  BillingLine,
+  createInvoiceSnapshot,
+  getInvoiceSnapshotChanges,
+  getProjectBilling,
+} from '../services/billingService.js';
+import { dateOnlySchema, parseDateOnly } from '../utils/dateUtils.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken, requirePermission('billing.manage'));
+
+const rateValueSchema = z.number().min(0, 'Rate cannot be negative');
+
+const rateSchema = z.discriminatedUnion('scope', [
+  z.object({
+    scope: z.literal('project'),
+    projectId: z.string().uuid('Project is required'),
+    rate: rateValueSchema,
+    effectiveFrom: dateOnlySchema,
+  }),
+  z.object({
+    scope: z.literal('position'),
+    positionId: z.string().uuid('Position is required'),
+    projectId: z.string().uuid().nullable().optional(),
+    rate: rateValueSchema,
+    effectiveFrom: dateOnlySchema,
+  }),
+  z.object({
+    scope: z.literal('user'),
+    userId: z.string().uuid('User is required'),
+    projectId: z.string().uuid().nullable().optional(),
+    rate: rateValueSchema,
+    effectiveFrom: dateOnlySchema,
+  }),
+]);
+
+const updateRateSchema = z.object({
+  rate: rateValueSchema.optional(),
+  effectiveFrom: dateOnlySchema.optional(),
+});
+
+const reportQuerySchema = z.object({
+  projectId: z.string().uuid('Project is required'),
+  from: dateOnlySchema,
+  to: dateOnlySchema,
+  approvedOnly: z.enum(['true', 'false']).optional(),
+});
+
+const snapshotSchema = z.object({
+  projectId: z.string().uuid('Project is required'),
+  from: dateOnlySchema,
+  to: dateOnlySchema,
+  approvedOnly: z.boolean().optional(),
+  reference: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .transform((val) => (val ? val : null)),
+});
+
+const rateInclude = {
+  project: { select: { id: true, name: true } },
+  position: { select: { id: true, name: true } },
+  user: { select: { id: true, firstName: true, lastName: true, email: true } },
+};
+
+const snapshotSummarySelect = {
+  id: true,
+  projectId: true,
+  projectName: true,
+  periodStart: true,
+  periodEnd: true,
+  approvedOnly: true,
+  reference: true,
+  totalHours: true,
+  totalAmount: true,
+  createdAt: true,
+  createdBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+};
+
+async function findRateTargetError(data: z.infer<typeof rateSchema>): Promise<string | null> {
+  if (data.projectId && !(await prisma.project.findUnique({ where: { id: data.projectId } }))) {
+    return 'Project not found';
+  }
+  if (data.scope === 'position') {
+    const position = await prisma.position.findUnique({ where: { id: data.positionId } });
+    if (!position) {
+      return 'Position not found';
+    }
+  }
+  if (data.scope === 'user') {
+    const user = await prisma.user.findUnique({ where: { id: data.userId } });
+    if (!user) {
+      return 'User not found';
+    }
+  }
+  return null;
+}
+
+// Rates for the same target starting on the same day would be ambiguous
+async function findConflictingRate(
+  target: Pick<HourlyRate, 'scope' | 'projectId' | 'positionId' | 'userId'>,
+  effectiveFrom: Date,
+  excludeId?: string
+) {
+  return prisma.hourlyRate.findFirst({
+    where: {
+      id: excludeId ? { not: excludeId } : undefined,
+      scope: target.scope,
+      projectId: target.projectId,
+      positionId: target.positionId,
+      userId: target.userId,
+      effectiveFrom,
+    },
+  });
+}
+
+// All hourly rates, newest first within each target
+router.get('/rates', async (req: AuthRequest, res) => {
+  try {
+    const rates = await prisma.hourlyRate.findMany({
+      include: rateInclude,
+      orderBy: [{ scope: 'asc' }, { effectiveFrom: 'desc' }],
+    });
+
+    res.json(rates);
+  } catch (error) {
+    console.error('Error fetching hourly rates:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a rate for a project, a position or a user, in force from `effectiveFrom`
+router.post('/rates', async (req: AuthRequest, res) => {
+  try {
+    const data = rateSchema.parse(req.body);
+
+    const targetError = await findRateTargetError(data);
+    if (targetError) {
+      return res.status(404).json({ error: targetError });
+    }
+
+    const target = {
+      scope: data.scope,
+      projectId: data.projectId || null,
+      positionId: data.scope === 'position' ? data.positionId : null,
+      userId: data.scope === 'user' ? data.userId : null,
+    };
+    const effectiveFrom = parseDateOnly(data.effectiveFrom);
+
+    if (await findConflictingRate(target, effectiveFrom)) {
+      return res
+        .status(400)
+        .json({ error: 'A rate for this target already starts on this date. Edit it instead.' });
+    }
+
+    const rate = await prisma.hourlyRate.create({
+      data: { ...target, rate: data.rate, effectiveFrom },
+      include: rateInclude,
+    });
+
+    auditChange(res, { entityType: 'hourly_rate', entityId: rate.id, after: rate });
+
+    res.status(201).json(rate);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating hourly rate:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change a rate's amount or start date; invoice snapshots keep the rates they were made with
+router.put('/rates/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = updateRateSchema.parse(req.body);
+
+    const existing = await prisma.hourlyRate.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Hourly rate not found' });
+    }
+
+    const effectiveFrom = data.effectiveFrom ? parseDateOnly(data.effectiveFrom) : undefined;
+    if (effectiveFrom && (await findConflictingRate(existing, effectiveFrom, id))) {
+      return res.status(400).json({ error: 'A rate for this target already starts on this date' });
+    }
+
+    const rate = await prisma.hourlyRate.update({
+      where: { id },
+      data: { rate: data.rate, effectiveFrom },
+      include: rateInclude,
+    });
+
+    auditChange(res, { entityType: 'hourly_rate', before: existing, after: rate });
+
+    res.json(rate);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating hourly rate:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/rates/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.hourlyRate.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Hourly rate not found' });
+    }
+
+    await prisma.hourlyRate.delete({ where: { id } });
+
+    auditChange(res, { entityType: 'hourly_rate', before: existing });
+
+    res.json({ message: 'Hourly rate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting hourly rate:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Billable hours and amounts of a project (?projectId, ?from, ?to as YYYY-MM-DD, ?approvedOnly)
+router.get('/report', async (req: AuthRequest, res) => {
+  try {
+    const query = reportQuerySchema.parse(req.query);
+    const periodStart = parseDateOnly(query.from);
+    const periodEnd = parseDateOnly(query.to);
+    if (periodEnd < periodStart) {
+      return res.status(400).json({ error: 'The period must end on or after its first day' });
+    }
+
+    const billing = await getProjectBilling(
+      query.projectId,
+      periodStart,
+      periodEnd,
+      query.approvedOnly === 'true'
+    );
+    if (!billing) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const snapshots = await prisma.invoiceSnapshot.findMany({
+      where: {
+        projectId: query.projectId,
+        periodStart: { lte: periodEnd },
+        periodEnd: { gte: periodStart },
+      },
+      select: snapshotSummarySelect,
+      orderBy: { periodStart: 'asc' },
+    });
+
+    res.json({ ...billing, snapshots });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error fetching billing report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Invoice snapshots without their lines (?projectId to filter)
+router.get('/snapshots', async (req: AuthRequest, res) => {
+  try {
+    const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+
+    const snapshots = await prisma.invoiceSnapshot.findMany({
+      where: projectId ? { projectId } : {},
+      select: snapshotSummarySelect,
+      orderBy: [{ periodStart: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    res.json(snapshots);
+  } catch (error) {
+    console.error('Error fetching invoice snapshots:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Freeze a project's billable work for a period
+router.post('/snapshots', async (req: AuthRequest, res) => {
+  try {
+    const data = snapshotSchema.parse(req.body);
+
+    const project = await prisma.project.findUnique({ where: { id: data.projectId } });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const result = await createInvoiceSnapshot({
+      projectId: data.projectId,
+      periodStart: parseDateOnly(data.from),
+      periodEnd: parseDateOnly(data.to),
+      approvedOnly: data.approvedOnly ?? false,
+      reference: data.reference,
+      createdById: req.userId!,
+    });
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const { lines, ...summary } = result.snapshot;
+    auditChange(res, { entityType: 'invoice_snapshot', entityId: summary.id, after: summary });
+
+    res.status(201).json(result.snapshot);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating invoice snapshot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A snapshot with its frozen lines and how the period's work logs changed since
+router.get('/snapshots/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const snapshot = await prisma.invoiceSnapshot.findUnique({
+      where: { id },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+    });
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Invoice snapshot not found' });
+    }
+
+    res.json({
+      ...snapshot,
+      lines: snapshot.lines as unknown as BillingLine[],
+      changes: await getInvoiceSnapshotChanges(snapshot),
+    });
+  } catch (error) {
+    console.error('Error fetching invoice snapshot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Discard a snapshot, e.g. when its invoice was cancelled; the period can then be invoiced again
+router.delete('/snapshots/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.invoiceSnapshot.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Invoice snapshot not found' });
+    }
+
+    await prisma.invoiceSnapshot.delete({ where: { id } });
+
+    const { lines, ...before } = existing;
+    auditChange(res, { entityType: 'invoice_snapshot', before });
+
+    res.json({ message: 'Invoice snapshot deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting invoice snapshot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
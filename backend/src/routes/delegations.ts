@@ -0,0 +1,152 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, hasPermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { toEffectiveDate } from '../services/settingsService.js';
+import { isInReportingLine } from '../services/reportingService.js';
+import { dateOnlySchema, parseDateOnly } from '../utils/dateUtils.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const createDelegationSchema = z
+  .object({
+    delegateId: z.string().uuid('Delegate is required'),
+    from: dateOnlySchema,
+    to: dateOnlySchema,
+  })
+  .refine((data) => data.from.slice(0, 10) <= data.to.slice(0, 10), {
+    message: 'End date must be on or after start date',
+    path: ['to'],
+  });
+
+const userSummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+} as const;
+
+// Current and upcoming delegations the user gave and received
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req;
+    const today = toEffectiveDate(new Date());
+
+    const [given, received] = await Promise.all([
+      prisma.approvalDelegation.findMany({
+        where: { delegatorId: userId!, to: { gte: today } },
+        include: { delegate: { select: userSummarySelect } },
+        orderBy: { from: 'asc' },
+      }),
+      prisma.approvalDelegation.findMany({
+        where: { delegateId: userId!, to: { gte: today } },
+        include: { delegator: { select: userSummarySelect } },
+        orderBy: { from: 'asc' },
+      }),
+    ]);
+
+    res.json({ given, received });
+  } catch (error) {
+    console.error('Error fetching approval delegations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Hand the user's approvals to someone else for a date range
+router.post('/', async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req;
+    const data = createDelegationSchema.parse(req.body);
+
+    if (data.delegateId === userId) {
+      return res.status(400).json({ error: 'You cannot delegate approvals to yourself' });
+    }
+
+    const delegate = await prisma.user.findFirst({
+      where: { id: data.delegateId, deletedAt: null },
+    });
+    if (!delegate) {
+      return res.status(400).json({ error: 'Delegate not found' });
+    }
+
+    // A report acting for their manager could approve their own requests
+    if (await isInReportingLine(data.delegateId, userId!)) {
+      return res
+        .status(400)
+        .json({ error: 'You cannot delegate approvals to someone who reports to you' });
+    }
+
+    const from = parseDateOnly(data.from);
+    const to = parseDateOnly(data.to);
+
+    const overlapping = await prisma.approvalDelegation.findFirst({
+      where: {
+        delegatorId: userId!,
+        from: { lte: to },
+        to: { gte: from },
+      },
+    });
+    if (overlapping) {
+      return res
+        .status(400)
+        .json({ error: 'You already have a delegation covering some of these dates' });
+    }
+
+    const delegation = await prisma.approvalDelegation.create({
+      data: {
+        delegatorId: userId!,
+        delegateId: data.delegateId,
+        from,
+        to,
+      },
+      include: { delegate: { select: userSummarySelect } },
+    });
+
+    auditChange(res, { entityId: delegation.id, after: delegation });
+
+    res.status(201).json(delegation);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating approval delegation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const delegation = await prisma.approvalDelegation.findUnique({
+      where: { id },
+    });
+
+    if (!delegation) {
+      return res.status(404).json({ error: 'Delegation not found' });
+    }
+
+    if (delegation.delegatorId !== req.userId && !hasPermission(req, 'users.manage')) {
+      return res.status(403).json({ error: 'You are not allowed to remove this delegation' });
+    }
+
+    await prisma.approvalDelegation.delete({
+      where: { id },
+    });
+
+    auditChange(res, { before: delegation });
+
+    res.json({ message: 'Delegation removed successfully' });
+  } catch (error) {
+    console.error('Error deleting approval delegation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
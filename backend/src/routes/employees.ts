@@ -2,7 +2,10 @@ import express from 'express';
 import bcrypt from 'bcryptjs';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, hasPermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { hasElevatedAccess } from '../services/permissionService.js';
+import { getManagedUserIds } from '../services/reportingService.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -127,6 +130,33 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// People whose timesheets the current user may see: direct reports, those of managers who
+// delegated their approvals to the user and, for project managers, members of their projects
+router.get('/reports', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const managedUserIds = await getManagedUserIds(req.userId!, req.permissions ?? []);
+
+    const reports = await prisma.user.findMany({
+      where: managedUserIds ? { id: { in: managedUserIds } } : { deletedAt: null },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        managerId: true,
+      },
+      orderBy: {
+        firstName: 'asc',
+      },
+    });
+
+    res.json(reports);
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
@@ -135,7 +165,6 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
       where: { id, deletedAt: null },
       include: {
         projects: true,
-        entitlements: true,
         position: true,
         technologies: {
           include: {
@@ -169,17 +198,18 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canManageUsers = hasPermission(req, 'users.manage');
 
-    if (!isAdmin && userId !== id) {
+    if (!canManageUsers && userId !== id) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
     const data = updateEmployeeSchema.parse(req.body);
     const updateData: any = { ...data };
 
-    if (!isAdmin && data.hireDate !== undefined) {
-      return res.status(403).json({ error: 'Only admins can update hire date' });
+    if (!canManageUsers && data.hireDate !== undefined) {
+      return res.status(403).json({ error: 'You do not have permission to update hire date' });
     }
 
     const nullableFields: Array<keyof typeof data> = [
@@ -227,16 +257,35 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Employee not found' });
     }
 
+    const changesEmail = data.email !== undefined && data.email !== existingEmployee.email;
+    if (
+      changesEmail &&
+      userId !== id &&
+      !hasPermission(req, 'roles.manage') &&
+      (await hasElevatedAccess(id))
+    ) {
+      return res.status(403).json({
+        error: 'You do not have permission to change the sign-in of a user with roles',
+      });
+    }
+
     const employee = await prisma.user.update({
       where: { id },
       data: updateData,
       include: {
         projects: true,
-        entitlements: true,
         position: true,
       },
     });
 
+    const previousValues: Record<string, unknown> = existingEmployee;
+    auditChange(res, {
+      before: Object.fromEntries(
+        Object.keys(updateData).map((field) => [field, previousValues[field]])
+      ),
+      after: updateData,
+    });
+
     const { passwordHash, ...employeeWithoutPassword } = employee;
     res.json(employeeWithoutPassword);
   } catch (error) {
@@ -251,16 +300,23 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
 router.put('/:id/password', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canManageUsers = hasPermission(req, 'users.manage');
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    if (!isAdmin && userId !== id) {
+    if (!canManageUsers && userId !== id) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
+    if (userId !== id && !hasPermission(req, 'roles.manage') && (await hasElevatedAccess(id))) {
+      return res.status(403).json({
+        error: 'You do not have permission to change the sign-in of a user with roles',
+      });
+    }
+
     const data = updatePasswordSchema.parse(req.body);
 
     const user = await prisma.user.findFirst({
@@ -272,7 +328,7 @@ router.put('/:id/password', authenticateToken, async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'Employee not found' });
     }
 
-    if (!isAdmin) {
+    if (!canManageUsers) {
       if (!data.currentPassword) {
         return res.status(400).json({ error: 'Current password is required' });
       }
@@ -289,6 +345,12 @@ router.put('/:id/password', authenticateToken, async (req: AuthRequest, res) =>
       data: { passwordHash },
     });
 
+    auditChange(res, {
+      action: 'change_password',
+      before: { passwordHash: user.passwordHash },
+      after: { passwordHash },
+    });
+
     res.json({ message: 'Password updated successfully' });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -2,6 +2,8 @@ import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { getAllEntitlements } from '../services/entitlementService.js';
+import { getLeaveAdjustments } from '../services/leaveLedgerService.js';
+import { approvalInclude } from '../services/approvalService.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -13,19 +15,36 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
     // Get detailed entitlements breakdown
     const entitlements = await getAllEntitlements(userId!);
 
-    // Get history (all absences except rejected)
+    // Get history with the decision trail and pending changes of each request
     const absences = await prisma.absence.findMany({
       where: {
         userId: userId!,
       },
+      include: {
+        approvals: {
+          include: approvalInclude,
+          orderBy: {
+            step: 'asc',
+          },
+        },
+        changeRequests: {
+          where: {
+            status: 'pending',
+          },
+        },
+      },
       orderBy: {
         from: 'desc',
       },
     });
 
+    // Manual balance adjustments made by admins
+    const adjustments = await getLeaveAdjustments(userId!);
+
     res.json({
       entitlements,
       history: absences,
+      adjustments,
     });
   } catch (error) {
     console.error('Error fetching entitlements:', error);
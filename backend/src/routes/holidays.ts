@@ -0,0 +1,410 @@
+import express from 'express';
+import multer from 'multer';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { dateOnlySchema, parseDateOnly } from '../utils/dateUtils.js';
+import { parseIcsHolidays } from '../utils/icsParser.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const upload = multer({ storage: multer.memoryStorage() });
+
+const handleUploadIfMultipart: express.RequestHandler = (req, res, next) => {
+  if (req.is('multipart/form-data')) {
+    return upload.single('file')(req, res, next);
+  }
+  return next();
+};
+
+router.use(authenticateToken, requirePermission('settings.manage'));
+
+const calendarSchema = z.object({
+  name: z.string().trim().min(1, 'Calendar name is required'),
+  country: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .transform((val) => (val ? val : null)),
+});
+
+const holidaySchema = z.object({
+  date: dateOnlySchema,
+  name: z.string().trim().min(1, 'Holiday name is required'),
+});
+
+const importSchema = z.object({
+  content: z.string().min(1, 'iCalendar content is required'),
+  replaceExisting: z.boolean().default(false),
+});
+
+async function findConflictingCalendar(
+  data: { name: string; country: string | null },
+  excludeId?: string
+) {
+  return prisma.holidayCalendar.findFirst({
+    where: {
+      id: excludeId ? { not: excludeId } : undefined,
+      OR: [
+        { name: { equals: data.name, mode: 'insensitive' } },
+        ...(data.country ? [{ country: { equals: data.country, mode: 'insensitive' as const } }] : []),
+      ],
+    },
+  });
+}
+
+// Get all holiday calendars
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const calendars = await prisma.holidayCalendar.findMany({
+      include: {
+        _count: {
+          select: { holidays: true },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    res.json(
+      calendars.map(({ _count, ...calendar }) => ({
+        ...calendar,
+        holidayCount: _count.holidays,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching holiday calendars:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single calendar with its holidays (optionally filtered by year)
+router.get('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const year = req.query.year ? Number(req.query.year) : null;
+
+    const calendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+      include: {
+        holidays: {
+          where:
+            year && !Number.isNaN(year)
+              ? {
+                  date: {
+                    gte: new Date(Date.UTC(year, 0, 1)),
+                    lt: new Date(Date.UTC(year + 1, 0, 1)),
+                  },
+                }
+              : undefined,
+          orderBy: {
+            date: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!calendar) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    res.json(calendar);
+  } catch (error) {
+    console.error('Error fetching holiday calendar:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create calendar
+router.post('/', async (req: AuthRequest, res) => {
+  try {
+    const data = calendarSchema.parse(req.body);
+
+    const conflict = await findConflictingCalendar(data);
+    if (conflict) {
+      return res.status(400).json({
+        error: 'A holiday calendar with this name or country already exists',
+      });
+    }
+
+    const calendar = await prisma.holidayCalendar.create({
+      data: {
+        name: data.name,
+        country: data.country,
+      },
+    });
+
+    auditChange(res, { entityId: calendar.id, after: calendar });
+
+    res.status(201).json(calendar);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating holiday calendar:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update calendar
+router.put('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = calendarSchema.parse(req.body);
+
+    const existing = await prisma.holidayCalendar.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const conflict = await findConflictingCalendar(data, id);
+    if (conflict) {
+      return res.status(400).json({
+        error: 'A holiday calendar with this name or country already exists',
+      });
+    }
+
+    const calendar = await prisma.holidayCalendar.update({
+      where: { id },
+      data: {
+        name: data.name,
+        country: data.country,
+      },
+    });
+
+    auditChange(res, { before: existing, after: calendar });
+
+    res.json(calendar);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating holiday calendar:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete calendar (holidays are removed with it)
+router.delete('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.holidayCalendar.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    await prisma.holidayCalendar.delete({
+      where: { id },
+    });
+
+    auditChange(res, { before: existing });
+
+    res.json({ message: 'Holiday calendar deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting holiday calendar:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a holiday to a calendar
+router.post('/:id/holidays', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = holidaySchema.parse(req.body);
+
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id } });
+    if (!calendar) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const date = parseDateOnly(data.date);
+    const existing = await prisma.holiday.findUnique({
+      where: {
+        calendarId_date: {
+          calendarId: id,
+          date,
+        },
+      },
+    });
+
+    if (existing) {
+      return res.status(400).json({ error: 'This calendar already has a holiday on that date' });
+    }
+
+    const holiday = await prisma.holiday.create({
+      data: {
+        calendarId: id,
+        date,
+        name: data.name,
+      },
+    });
+
+    auditChange(res, { entityType: 'holiday', entityId: holiday.id, after: holiday });
+
+    res.status(201).json(holiday);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating holiday:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a holiday
+router.put('/:id/holidays/:holidayId', async (req: AuthRequest, res) => {
+  try {
+    const { id, holidayId } = req.params;
+    const data = holidaySchema.parse(req.body);
+
+    const existing = await prisma.holiday.findFirst({
+      where: { id: holidayId, calendarId: id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+
+    const date = parseDateOnly(data.date);
+    const duplicate = await prisma.holiday.findFirst({
+      where: { calendarId: id, date, id: { not: holidayId } },
+    });
+
+    if (duplicate) {
+      return res.status(400).json({ error: 'This calendar already has a holiday on that date' });
+    }
+
+    const holiday = await prisma.holiday.update({
+      where: { id: holidayId },
+      data: {
+        date,
+        name: data.name,
+      },
+    });
+
+    auditChange(res, {
+      entityType: 'holiday',
+      entityId: holidayId,
+      before: existing,
+      after: holiday,
+    });
+
+    res.json(holiday);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating holiday:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a holiday
+router.delete('/:id/holidays/:holidayId', async (req: AuthRequest, res) => {
+  try {
+    const { id, holidayId } = req.params;
+
+    const existing = await prisma.holiday.findFirst({
+      where: { id: holidayId, calendarId: id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+
+    await prisma.holiday.delete({
+      where: { id: holidayId },
+    });
+
+    auditChange(res, { entityType: 'holiday', entityId: holidayId, before: existing });
+
+    res.json({ message: 'Holiday deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Import holidays from an iCalendar (.ics) file.
+// Accepts a multipart upload (field "file") or JSON { content, replaceExisting }.
+router.post('/:id/import', handleUploadIfMultipart, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = importSchema.parse({
+      content: req.file ? req.file.buffer.toString('utf-8') : req.body.content,
+      replaceExisting:
+        typeof req.body.replaceExisting === 'string'
+          ? req.body.replaceExisting === 'true'
+          : req.body.replaceExisting,
+    });
+
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id } });
+    if (!calendar) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const parsed = parseIcsHolidays(data.content);
+    if (parsed.length === 0) {
+      return res.status(400).json({ error: 'No holidays found in the iCalendar file' });
+    }
+
+    // Keep the first event per date; calendars often list observances twice
+    const byDate = new Map<number, { date: Date; name: string }>();
+    for (const holiday of parsed) {
+      if (!byDate.has(holiday.date.getTime())) {
+        byDate.set(holiday.date.getTime(), holiday);
+      }
+    }
+    const holidays = Array.from(byDate.values());
+
+    const result = await prisma.$transaction(async (tx) => {
+      if (data.replaceExisting) {
+        await tx.holiday.deleteMany({ where: { calendarId: id } });
+      }
+
+      const created = await tx.holiday.createMany({
+        data: holidays.map((holiday) => ({
+          calendarId: id,
+          date: holiday.date,
+          name: holiday.name,
+        })),
+        skipDuplicates: true,
+      });
+
+      return created.count;
+    });
+
+    auditChange(res, {
+      action: 'import',
+      after: { imported: result, replaceExisting: data.replaceExisting },
+    });
+
+    res.json({
+      imported: result,
+      skipped: holidays.length - result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error importing holidays:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
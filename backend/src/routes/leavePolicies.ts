@@ -0,0 +1,299 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken, requirePermission('settings.manage'));
+
+const policySchema = z.object({
+  name: z.string().trim().min(1, 'Policy name is required'),
+  description: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .transform((val) => (val ? val : null)),
+  vacationDaysPerMonth: z.number().min(0, 'Vacation accrual per month cannot be negative'),
+  vacationAnnualCap: z.number().min(0, 'Vacation annual cap cannot be negative'),
+  vacationCarryoverLimit: z.number().int().min(0, 'Vacation carryover limit cannot be negative'),
+  sickLeaveDaysPerYear: z.number().min(0, 'Sick leave days per year cannot be negative'),
+  sickLeaveWithoutCertificateLimit: z
+    .number()
+    .int()
+    .min(0, 'Sick leave without certificate limit cannot be negative'),
+  sickLeaveWithCertificateLimit: z
+    .number()
+    .int()
+    .min(0, 'Sick leave with certificate limit cannot be negative'),
+  sickLeaveCertificateAfterDays: z
+    .number()
+    .int()
+    .min(0, 'Certificate threshold cannot be negative'),
+  trialPeriodMonths: z.number().int().min(0, 'Trial period cannot be negative'),
+});
+
+const assignmentSchema = z.discriminatedUnion('scope', [
+  z.object({
+    scope: z.literal('country'),
+    country: z.string().trim().min(1, 'Country is required'),
+  }),
+  z.object({
+    scope: z.literal('position'),
+    positionId: z.string().min(1, 'Position is required'),
+  }),
+  z.object({
+    scope: z.literal('user'),
+    userId: z.string().min(1, 'User is required'),
+  }),
+]);
+
+const policyInclude = {
+  assignments: {
+    include: {
+      position: {
+        select: { id: true, name: true },
+      },
+      user: {
+        select: { id: true, firstName: true, lastName: true, email: true },
+      },
+    },
+    orderBy: {
+      createdAt: 'asc' as const,
+    },
+  },
+};
+
+async function findConflictingPolicy(name: string, excludeId?: string) {
+  return prisma.leavePolicy.findFirst({
+    where: {
+      id: excludeId ? { not: excludeId } : undefined,
+      name: { equals: name, mode: 'insensitive' },
+    },
+  });
+}
+
+// Get all leave policies with their assignments
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const policies = await prisma.leavePolicy.findMany({
+      include: policyInclude,
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    res.json(policies);
+  } catch (error) {
+    console.error('Error fetching leave policies:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create leave policy
+router.post('/', async (req: AuthRequest, res) => {
+  try {
+    const data = policySchema.parse(req.body);
+
+    const conflict = await findConflictingPolicy(data.name);
+    if (conflict) {
+      return res.status(400).json({ error: 'A leave policy with this name already exists' });
+    }
+
+    const policy = await prisma.leavePolicy.create({
+      data,
+      include: policyInclude,
+    });
+
+    const { assignments, ...after } = policy;
+    auditChange(res, { entityId: policy.id, after });
+
+    res.status(201).json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating leave policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update leave policy
+router.put('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = policySchema.parse(req.body);
+
+    const existing = await prisma.leavePolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Leave policy not found' });
+    }
+
+    const conflict = await findConflictingPolicy(data.name, id);
+    if (conflict) {
+      return res.status(400).json({ error: 'A leave policy with this name already exists' });
+    }
+
+    const policy = await prisma.leavePolicy.update({
+      where: { id },
+      data,
+      include: policyInclude,
+    });
+
+    const { assignments, ...after } = policy;
+    auditChange(res, { before: existing, after });
+
+    res.json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating leave policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete leave policy (assignments are removed with it; affected users fall back to other assignments or the default)
+router.delete('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.leavePolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Leave policy not found' });
+    }
+
+    await prisma.leavePolicy.delete({
+      where: { id },
+    });
+
+    auditChange(res, { before: existing });
+
+    res.json({ message: 'Leave policy deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting leave policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Assign a leave policy to a country, position or user
+router.post('/:id/assignments', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = assignmentSchema.parse(req.body);
+
+    const policy = await prisma.leavePolicy.findUnique({ where: { id } });
+    if (!policy) {
+      return res.status(404).json({ error: 'Leave policy not found' });
+    }
+
+    if (data.scope === 'country') {
+      const existing = await prisma.leavePolicyAssignment.findFirst({
+        where: { country: { equals: data.country, mode: 'insensitive' } },
+        include: { policy: true },
+      });
+      if (existing) {
+        return res.status(400).json({
+          error: `Country ${existing.country} is already assigned to policy "${existing.policy.name}"`,
+        });
+      }
+    }
+
+    if (data.scope === 'position') {
+      const position = await prisma.position.findUnique({ where: { id: data.positionId } });
+      if (!position) {
+        return res.status(404).json({ error: 'Position not found' });
+      }
+      const existing = await prisma.leavePolicyAssignment.findUnique({
+        where: { positionId: data.positionId },
+        include: { policy: true },
+      });
+      if (existing) {
+        return res.status(400).json({
+          error: `Position ${position.name} is already assigned to policy "${existing.policy.name}"`,
+        });
+      }
+    }
+
+    if (data.scope === 'user') {
+      const user = await prisma.user.findUnique({ where: { id: data.userId } });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      const existing = await prisma.leavePolicyAssignment.findUnique({
+        where: { userId: data.userId },
+        include: { policy: true },
+      });
+      if (existing) {
+        return res.status(400).json({
+          error: `${user.firstName} ${user.lastName} is already assigned to policy "${existing.policy.name}"`,
+        });
+      }
+    }
+
+    const assignment = await prisma.leavePolicyAssignment.create({
+      data: {
+        policyId: id,
+        scope: data.scope,
+        country: data.scope === 'country' ? data.country : null,
+        positionId: data.scope === 'position' ? data.positionId : null,
+        userId: data.scope === 'user' ? data.userId : null,
+      },
+      include: policyInclude.assignments.include,
+    });
+
+    auditChange(res, {
+      entityType: 'leave_policy_assignment',
+      entityId: assignment.id,
+      after: assignment,
+    });
+
+    res.status(201).json(assignment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating leave policy assignment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove an assignment from a leave policy
+router.delete('/:id/assignments/:assignmentId', async (req: AuthRequest, res) => {
+  try {
+    const { id, assignmentId } = req.params;
+
+    const assignment = await prisma.leavePolicyAssignment.findFirst({
+      where: { id: assignmentId, policyId: id },
+    });
+    if (!assignment) {
+      return res.status(404).json({ error: 'Assignment not found' });
+    }
+
+    await prisma.leavePolicyAssignment.delete({
+      where: { id: assignmentId },
+    });
+
+    auditChange(res, {
+      entityType: 'leave_policy_assignment',
+      entityId: assignmentId,
+      before: assignment,
+    });
+
+    res.json({ message: 'Assignment removed successfully' });
+  } catch (error) {
+    console.error('Error deleting leave policy assignment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -30,8 +31,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Create position (admin only)
-router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Create position (settings managers)
+router.post('/', authenticateToken, requirePermission('settings.manage'), async (req: AuthRequest, res) => {
   try {
     const data = createPositionSchema.parse(req.body);
 
@@ -41,6 +42,8 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
       },
     });
 
+    auditChange(res, { entityId: position.id, after: position });
+
     res.status(201).json(position);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -53,12 +56,20 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
   }
 });
 
-// Update position (admin only)
-router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Update position (settings managers)
+router.put('/:id', authenticateToken, requirePermission('settings.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const data = updatePositionSchema.parse(req.body);
 
+    const existing = await prisma.position.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Position not found' });
+    }
+
     const position = await prisma.position.update({
       where: { id },
       data: {
@@ -66,6 +77,8 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
       },
     });
 
+    auditChange(res, { before: existing, after: position });
+
     res.json(position);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -78,15 +91,25 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
   }
 });
 
-// Delete position (admin only)
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Delete position (settings managers)
+router.delete('/:id', authenticateToken, requirePermission('settings.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
+    const existing = await prisma.position.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Position not found' });
+    }
+
     await prisma.position.delete({
       where: { id },
     });
 
+    auditChange(res, { before: existing });
+
     res.json({ message: 'Position deleted successfully' });
   } catch (error) {
     console.error('Error deleting position:', error);
@@ -1,30 +1,151 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, hasPermission, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { getProjectBudgetsWithBurn, queueBudgetAlerts } from '../services/budgetService.js';
+import { dateOnlySchema, parseDateOnly } from '../utils/dateUtils.js';
 import { z } from 'zod';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-router.use(authenticateToken, requireAdmin);
+// Project managers (`projects.manage_own`) only see and edit the projects they lead
+router.use(authenticateToken, requirePermission('projects.manage', 'projects.manage_own'));
+
+function ownProjectsFilter(req: AuthRequest) {
+  return hasPermission(req, 'projects.manage') ? {} : { leadId: req.userId };
+}
+
+// Project settings and memberships as ids, for the audit log
+async function getProjectAuditRecord(id: string) {
+  const project = await prisma.project.findUnique({
+    where: { id },
+    include: {
+      users: { select: { id: true } },
+      criticalMembers: { select: { id: true } },
+      technologies: { select: { technologyId: true } },
+    },
+  });
+  if (!project) {
+    return null;
+  }
+
+  const { technologies, ...rest } = project;
+  return { ...rest, technologies: technologies.map((pt) => pt.technologyId) };
+}
+
+// Percentages of a budget at which the project lead is emailed, kept sorted and unique
+const budgetAlertThresholdsSchema = z
+  .array(
+    z
+      .number()
+      .int()
+      .min(1, 'Alert thresholds must be at least 1%')
+      .max(1000, 'Alert thresholds cannot exceed 1000%')
+  )
+  .transform((thresholds) => [...new Set(thresholds)].sort((a, b) => a - b));
 
 const createProjectSchema = z.object({
   name: z.string().min(1, 'Project name is required'),
+  leadId: z.string().uuid().nullable().optional(),
   userIds: z.array(z.string().uuid()).optional(),
   technologyIds: z.array(z.string().uuid()).optional(),
+  maxConcurrentAbsences: z
+    .number()
+    .int()
+    .min(1, 'At least one member must be allowed to be away')
+    .nullable()
+    .optional(),
+  coverageEnforcement: z.enum(['warn', 'block']).optional(),
+  criticalMemberIds: z.array(z.string().uuid()).optional(),
+  budgetAlertThresholds: budgetAlertThresholdsSchema.optional(),
 });
 
 const updateProjectSchema = z.object({
   name: z.string().min(1).optional(),
+  leadId: z.string().uuid().nullable().optional(),
   userIds: z.array(z.string().uuid()).optional(),
   technologyIds: z.array(z.string().uuid()).optional(),
+  maxConcurrentAbsences: z
+    .number()
+    .int()
+    .min(1, 'At least one member must be allowed to be away')
+    .nullable()
+    .optional(),
+  coverageEnforcement: z.enum(['warn', 'block']).optional(),
+  criticalMemberIds: z.array(z.string().uuid()).optional(),
+  budgetAlertThresholds: budgetAlertThresholdsSchema.optional(),
+});
+
+const createTaskSchema = z.object({
+  name: z.string().trim().min(1, 'Task name is required'),
+});
+
+const updateTaskSchema = z.object({
+  name: z.string().trim().min(1, 'Task name is required').optional(),
+  isArchived: z.boolean().optional(),
 });
 
-// Get all projects with users and technologies
+const budgetNameSchema = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform((val) => (val ? val : null));
+
+// A budget covers the whole project, or a month or phase given by its first and last day
+const createBudgetSchema = z
+  .object({
+    kind: z.enum(['hours', 'money']),
+    amount: z.number().positive('Budget amount must be greater than zero'),
+    name: budgetNameSchema,
+    from: dateOnlySchema.nullable().optional(),
+    to: dateOnlySchema.nullable().optional(),
+  })
+  .refine((data) => !data.from === !data.to, {
+    message: 'A budget period needs both a first and a last day',
+  });
+
+const updateBudgetSchema = z.object({
+  amount: z.number().positive('Budget amount must be greater than zero').optional(),
+  // Left out keeps the name; empty removes it
+  name: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val || null)),
+});
+
+async function findConflictingTask(projectId: string, name: string, excludeId?: string) {
+  return prisma.projectTask.findFirst({
+    where: {
+      projectId,
+      id: excludeId ? { not: excludeId } : undefined,
+      name: { equals: name, mode: 'insensitive' },
+    },
+  });
+}
+
+// Get all projects with users, technologies, tasks and budgets
 router.get('/', async (req: AuthRequest, res) => {
   try {
     const projects = await prisma.project.findMany({
+      where: ownProjectsFilter(req),
       include: {
+        tasks: {
+          orderBy: {
+            name: 'asc',
+          },
+        },
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         users: {
           select: {
             id: true,
@@ -33,6 +154,14 @@ router.get('/', async (req: AuthRequest, res) => {
             email: true,
           },
         },
+        criticalMembers: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         technologies: {
           include: {
             technology: {
@@ -49,10 +178,13 @@ router.get('/', async (req: AuthRequest, res) => {
       },
     });
 
-    const formattedProjects = projects.map((project) => ({
-      ...project,
-      technologies: project.technologies.map((pt) => pt.technology),
-    }));
+    const formattedProjects = await Promise.all(
+      projects.map(async (project) => ({
+        ...project,
+        technologies: project.technologies.map((pt) => pt.technology),
+        budgets: await getProjectBudgetsWithBurn(project.id, project.budgetAlertThresholds),
+      }))
+    );
 
     res.json(formattedProjects);
   } catch (error) {
@@ -65,9 +197,17 @@ router.get('/', async (req: AuthRequest, res) => {
 router.get('/:id', async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const project = await prisma.project.findUnique({
-      where: { id },
+    const project = await prisma.project.findFirst({
+      where: { id, ...ownProjectsFilter(req) },
       include: {
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         users: {
           select: {
             id: true,
@@ -76,6 +216,14 @@ router.get('/:id', async (req: AuthRequest, res) => {
             email: true,
           },
         },
+        criticalMembers: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         technologies: {
           include: {
             technology: {
@@ -104,13 +252,22 @@ router.get('/:id', async (req: AuthRequest, res) => {
 });
 
 // Create project
-router.post('/', async (req: AuthRequest, res) => {
+router.post('/', requirePermission('projects.manage'), async (req: AuthRequest, res) => {
   try {
     const data = createProjectSchema.parse(req.body);
 
     const project = await prisma.project.create({
       data: {
         name: data.name,
+        lead: data.leadId ? { connect: { id: data.leadId } } : undefined,
+        maxConcurrentAbsences: data.maxConcurrentAbsences ?? null,
+        coverageEnforcement: data.coverageEnforcement,
+        budgetAlertThresholds: data.budgetAlertThresholds,
+        criticalMembers: data.criticalMemberIds
+          ? {
+              connect: data.criticalMemberIds.map((id) => ({ id })),
+            }
+          : undefined,
         users: data.userIds
           ? {
               connect: data.userIds.map((id) => ({ id })),
@@ -127,6 +284,14 @@ router.post('/', async (req: AuthRequest, res) => {
           : undefined,
       },
       include: {
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         users: {
           select: {
             id: true,
@@ -135,6 +300,14 @@ router.post('/', async (req: AuthRequest, res) => {
             email: true,
           },
         },
+        criticalMembers: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         technologies: {
           include: {
             technology: {
@@ -148,6 +321,12 @@ router.post('/', async (req: AuthRequest, res) => {
       },
     });
 
+    auditChange(res, {
+      entityType: 'project',
+      entityId: project.id,
+      after: await getProjectAuditRecord(project.id),
+    });
+
     res.status(201).json({
       ...project,
       technologies: project.technologies.map((pt) => pt.technology),
@@ -169,12 +348,35 @@ router.put('/:id', async (req: AuthRequest, res) => {
     const { id } = req.params;
     const data = updateProjectSchema.parse(req.body);
 
+    const existing = await prisma.project.findFirst({
+      where: { id, ...ownProjectsFilter(req) },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (
+      !hasPermission(req, 'projects.manage') &&
+      data.leadId !== undefined &&
+      data.leadId !== existing.leadId
+    ) {
+      return res.status(403).json({ error: 'Only project administrators can change the project lead' });
+    }
+
+    const before = await getProjectAuditRecord(id);
+
     const updateData: any = {};
 
     if (data.name) {
       updateData.name = data.name;
     }
 
+    // Lead approves absence requests of project members; null removes it
+    if (data.leadId !== undefined) {
+      updateData.lead = data.leadId ? { connect: { id: data.leadId } } : { disconnect: true };
+    }
+
     // Update users if provided
     if (data.userIds !== undefined) {
       updateData.users = {
@@ -182,6 +384,25 @@ router.put('/:id', async (req: AuthRequest, res) => {
       };
     }
 
+    // Coverage rules checked when project members request absences
+    if (data.maxConcurrentAbsences !== undefined) {
+      updateData.maxConcurrentAbsences = data.maxConcurrentAbsences;
+    }
+
+    if (data.coverageEnforcement) {
+      updateData.coverageEnforcement = data.coverageEnforcement;
+    }
+
+    if (data.budgetAlertThresholds) {
+      updateData.budgetAlertThresholds = data.budgetAlertThresholds;
+    }
+
+    if (data.criticalMemberIds !== undefined) {
+      updateData.criticalMembers = {
+        set: data.criticalMemberIds.map((userId) => ({ id: userId })),
+      };
+    }
+
     // Update technologies if provided
     if (data.technologyIds !== undefined) {
       // Delete existing project technologies
@@ -204,6 +425,14 @@ router.put('/:id', async (req: AuthRequest, res) => {
       where: { id },
       data: updateData,
       include: {
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         users: {
           select: {
             id: true,
@@ -212,6 +441,14 @@ router.put('/:id', async (req: AuthRequest, res) => {
             email: true,
           },
         },
+        criticalMembers: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
         technologies: {
           include: {
             technology: {
@@ -225,6 +462,12 @@ router.put('/:id', async (req: AuthRequest, res) => {
       },
     });
 
+    auditChange(res, { entityType: 'project', before, after: await getProjectAuditRecord(id) });
+
+    if (data.budgetAlertThresholds) {
+      queueBudgetAlerts([id]);
+    }
+
     res.json({
       ...project,
       technologies: project.technologies.map((pt) => pt.technology),
@@ -241,14 +484,18 @@ router.put('/:id', async (req: AuthRequest, res) => {
 });
 
 // Delete project
-router.delete('/:id', async (req: AuthRequest, res) => {
+router.delete('/:id', requirePermission('projects.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
+    const before = await getProjectAuditRecord(id);
+
     await prisma.project.delete({
       where: { id },
     });
 
+    auditChange(res, { entityType: 'project', before });
+
     res.json({ message: 'Project deleted successfully' });
   } catch (error) {
     console.error('Error deleting project:', error);
@@ -256,5 +503,280 @@ router.delete('/:id', async (req: AuthRequest, res) => {
   }
 });
 
+// Tasks of a project, archived ones included
+router.get('/:id/tasks', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...ownProjectsFilter(req) },
+      include: { tasks: { orderBy: { name: 'asc' } } },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json(project.tasks);
+  } catch (error) {
+    console.error('Error fetching project tasks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/:id/tasks', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = createTaskSchema.parse(req.body);
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...ownProjectsFilter(req) },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (await findConflictingTask(id, data.name)) {
+      return res.status(400).json({ error: 'This project already has a task with this name' });
+    }
+
+    const task = await prisma.projectTask.create({
+      data: {
+        projectId: id,
+        name: data.name,
+      },
+    });
+
+    auditChange(res, { entityType: 'project_task', entityId: task.id, after: task });
+
+    res.status(201).json(task);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating project task:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rename or archive a task; archived tasks keep their work logs
+router.put('/:id/tasks/:taskId', async (req: AuthRequest, res) => {
+  try {
+    const { id, taskId } = req.params;
+    const data = updateTaskSchema.parse(req.body);
+
+    const existing = await prisma.projectTask.findFirst({
+      where: { id: taskId, projectId: id, project: ownProjectsFilter(req) },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (data.name && (await findConflictingTask(id, data.name, taskId))) {
+      return res.status(400).json({ error: 'This project already has a task with this name' });
+    }
+
+    const task = await prisma.projectTask.update({
+      where: { id: taskId },
+      data,
+    });
+
+    auditChange(res, { entityType: 'project_task', entityId: taskId, before: existing, after: task });
+
+    res.json(task);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating project task:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a task no work log uses; used tasks are archived instead
+router.delete('/:id/tasks/:taskId', async (req: AuthRequest, res) => {
+  try {
+    const { id, taskId } = req.params;
+
+    const existing = await prisma.projectTask.findFirst({
+      where: { id: taskId, projectId: id, project: ownProjectsFilter(req) },
+      include: { _count: { select: { workLogs: true } } },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (existing._count.workLogs > 0) {
+      return res.status(400).json({ error: 'This task has work logs. Archive it instead.' });
+    }
+
+    const { _count, ...before } = existing;
+    await prisma.projectTask.delete({
+      where: { id: taskId },
+    });
+
+    auditChange(res, { entityType: 'project_task', entityId: taskId, before });
+
+    res.json({ message: 'Task deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting project task:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Budgets of a project with their burn and burn-down
+router.get('/:id/budgets', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...ownProjectsFilter(req) },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json(await getProjectBudgetsWithBurn(id, project.budgetAlertThresholds));
+  } catch (error) {
+    console.error('Error fetching project budgets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/:id/budgets', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = createBudgetSchema.parse(req.body);
+
+    const project = await prisma.project.findFirst({
+      where: { id, ...ownProjectsFilter(req) },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const periodStart = data.from ? parseDateOnly(data.from) : null;
+    const periodEnd = data.to ? parseDateOnly(data.to) : null;
+    if (periodStart && periodEnd && periodEnd < periodStart) {
+      return res.status(400).json({ error: 'The budget period must end on or after its first day' });
+    }
+
+    const conflicting = await prisma.projectBudget.findFirst({
+      where: { projectId: id, kind: data.kind, periodStart, periodEnd },
+    });
+    if (conflicting) {
+      return res
+        .status(400)
+        .json({ error: 'This project already has a budget of this kind for this period' });
+    }
+
+    const budget = await prisma.projectBudget.create({
+      data: {
+        projectId: id,
+        kind: data.kind,
+        amount: data.amount,
+        name: data.name,
+        periodStart,
+        periodEnd,
+      },
+    });
+
+    auditChange(res, { entityType: 'project_budget', entityId: budget.id, after: budget });
+
+    queueBudgetAlerts([id]);
+
+    res.status(201).json(budget);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating project budget:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change a budget's amount or phase name; the period is fixed, add another budget instead
+router.put('/:id/budgets/:budgetId', async (req: AuthRequest, res) => {
+  try {
+    const { id, budgetId } = req.params;
+    const data = updateBudgetSchema.parse(req.body);
+
+    const existing = await prisma.projectBudget.findFirst({
+      where: { id: budgetId, projectId: id, project: ownProjectsFilter(req) },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    // A new amount changes which thresholds are reached, so alerts start over
+    const budget = await prisma.projectBudget.update({
+      where: { id: budgetId },
+      data: {
+        amount: data.amount,
+        name: data.name,
+        alertedThreshold: data.amount !== undefined ? null : undefined,
+      },
+    });
+
+    auditChange(res, {
+      entityType: 'project_budget',
+      entityId: budgetId,
+      before: existing,
+      after: budget,
+    });
+
+    if (data.amount !== undefined) {
+      queueBudgetAlerts([id]);
+    }
+
+    res.json(budget);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating project budget:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/budgets/:budgetId', async (req: AuthRequest, res) => {
+  try {
+    const { id, budgetId } = req.params;
+
+    const existing = await prisma.projectBudget.findFirst({
+      where: { id: budgetId, projectId: id, project: ownProjectsFilter(req) },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await prisma.projectBudget.delete({
+      where: { id: budgetId },
+    });
+
+    auditChange(res, { entityType: 'project_budget', entityId: budgetId, before: existing });
+
+    res.json({ message: 'Budget deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting project budget:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
 
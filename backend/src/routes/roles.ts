@@ -0,0 +1,209 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import {
+  PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+  ensureSystemRoles,
+  isPermission,
+} from '../services/permissionService.js';
+import { auditChange } from '../middleware/audit.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken, requirePermission('roles.manage'));
+
+const permissionsSchema = z
+  .array(z.string())
+  .refine((permissions) => permissions.every(isPermission), {
+    message: 'Unknown permission',
+  });
+
+const roleSchema = z.object({
+  name: z.string().trim().min(1, 'Role name is required'),
+  description: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .transform((val) => (val ? val : null)),
+  permissions: permissionsSchema,
+});
+
+const createRoleSchema = roleSchema.extend({
+  key: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9_]+$/, 'Role key may only contain lowercase letters, digits and underscores')
+    .optional(),
+});
+
+const roleInclude = {
+  _count: {
+    select: { users: true },
+  },
+};
+
+// "Team Lead" -> "team_lead"
+function toRoleKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+async function findConflictingRole(name: string, excludeId?: string) {
+  return prisma.role.findFirst({
+    where: {
+      id: excludeId ? { not: excludeId } : undefined,
+      name: { equals: name, mode: 'insensitive' },
+    },
+  });
+}
+
+// Get all roles with the number of users holding them, plus the permission catalogue
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    await ensureSystemRoles();
+
+    const roles = await prisma.role.findMany({
+      include: roleInclude,
+      orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+    });
+
+    res.json({
+      roles,
+      permissions: PERMISSIONS.map((key) => ({
+        key,
+        description: PERMISSION_DESCRIPTIONS[key],
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const toRoleAuditRecord = (role: {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+}) => ({
+  key: role.key,
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+});
+
+// Create custom role
+router.post('/', async (req: AuthRequest, res) => {
+  try {
+    const data = createRoleSchema.parse(req.body);
+    const key = data.key || toRoleKey(data.name);
+
+    if (!key) {
+      return res.status(400).json({ error: 'Role key is required' });
+    }
+
+    const conflict =
+      (await findConflictingRole(data.name)) ||
+      (await prisma.role.findUnique({ where: { key } }));
+    if (conflict) {
+      return res.status(400).json({ error: 'A role with this name already exists' });
+    }
+
+    const role = await prisma.role.create({
+      data: {
+        key,
+        name: data.name,
+        description: data.description,
+        permissions: [...new Set(data.permissions)],
+      },
+      include: roleInclude,
+    });
+
+    auditChange(res, { entityId: role.id, after: toRoleAuditRecord(role) });
+
+    res.status(201).json(role);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error creating role:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update role name, description and permissions (system roles keep their key)
+router.put('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const data = roleSchema.parse(req.body);
+
+    const existing = await prisma.role.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    const conflict = await findConflictingRole(data.name, id);
+    if (conflict) {
+      return res.status(400).json({ error: 'A role with this name already exists' });
+    }
+
+    const role = await prisma.role.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        permissions: [...new Set(data.permissions)],
+      },
+      include: roleInclude,
+    });
+
+    auditChange(res, { before: toRoleAuditRecord(existing), after: toRoleAuditRecord(role) });
+
+    res.json(role);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating role:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete custom role (users holding it simply lose its permissions)
+router.delete('/:id', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await prisma.role.findUnique({ where: { id } });
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    if (role.isSystem) {
+      return res.status(400).json({ error: 'System roles cannot be deleted' });
+    }
+
+    await prisma.role.delete({
+      where: { id },
+    });
+
+    auditChange(res, { before: toRoleAuditRecord(role) });
+
+    res.json({ message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting role:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
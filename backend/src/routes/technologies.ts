@@ -1,6 +1,7 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -14,8 +15,11 @@ const updateTechnologySchema = z.object({
   name: z.string().min(1),
 });
 
-// Get all technologies (admin only)
-router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Project managers pick technologies for their projects
+const canReadTechnologies = requirePermission('settings.manage', 'projects.manage', 'projects.manage_own');
+
+// Get all technologies (settings and project managers)
+router.get('/', authenticateToken, canReadTechnologies, async (req: AuthRequest, res) => {
   try {
     const technologies = await prisma.technology.findMany({
       orderBy: {
@@ -30,8 +34,8 @@ router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) =
   }
 });
 
-// Create technology (admin only)
-router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Create technology (settings managers)
+router.post('/', authenticateToken, requirePermission('settings.manage'), async (req: AuthRequest, res) => {
   try {
     const data = createTechnologySchema.parse(req.body);
 
@@ -41,6 +45,8 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
       },
     });
 
+    auditChange(res, { entityId: technology.id, after: technology });
+
     res.status(201).json(technology);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -53,12 +59,20 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
   }
 });
 
-// Update technology (admin only)
-router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Update technology (settings managers)
+router.put('/:id', authenticateToken, requirePermission('settings.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const data = updateTechnologySchema.parse(req.body);
 
+    const existing = await prisma.technology.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Technology not found' });
+    }
+
     const technology = await prisma.technology.update({
       where: { id },
       data: {
@@ -66,6 +80,8 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
       },
     });
 
+    auditChange(res, { before: existing, after: technology });
+
     res.json(technology);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -78,15 +94,25 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
   }
 });
 
-// Delete technology (admin only)
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Delete technology (settings managers)
+router.delete('/:id', authenticateToken, requirePermission('settings.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
+    const existing = await prisma.technology.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Technology not found' });
+    }
+
     await prisma.technology.delete({
       where: { id },
     });
 
+    auditChange(res, { before: existing });
+
     res.json({ message: 'Technology deleted successfully' });
   } catch (error) {
     console.error('Error deleting technology:', error);
@@ -0,0 +1,240 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { validateWorkLogEntry } from '../services/workLogService.js';
+import { queueBudgetAlerts } from '../services/budgetService.js';
+import { getPastDueHolidaysByUser } from '../services/holidayService.js';
+import { toEffectiveDate } from '../services/settingsService.js';
+import { toLocalDay } from '../utils/timesheetUtils.js';
+import { calculateIsPastDue } from '../utils/workLogUtils.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const MINUTE_MS = 60 * 1000;
+
+const timerInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} as const;
+
+const startTimerSchema = z.object({
+  projectId: z.string().uuid('Project is required'),
+  note: z.string().optional(),
+});
+
+const stopTimerSchema = z.object({
+  // Local midnight of the day the timer started, as the client sends it for manual entries
+  date: z.string().datetime().optional(),
+  note: z.string().optional(),
+});
+
+const truncateToMinute = (date: Date) =>
+  new Date(Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS);
+
+// Seconds paused so far, including a pause still in progress
+const getPausedSeconds = (timer: { pausedAt: Date | null; pausedSeconds: number }) =>
+  timer.pausedSeconds +
+  (timer.pausedAt ? Math.floor((Date.now() - timer.pausedAt.getTime()) / 1000) : 0);
+
+// The current user's timer, or null when none is running
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const timer = await prisma.workTimer.findUnique({
+      where: { userId: req.userId! },
+      include: timerInclude,
+    });
+
+    res.json({ timer });
+  } catch (error) {
+    console.error('Error fetching timer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/start', async (req: AuthRequest, res) => {
+  try {
+    const data = startTimerSchema.parse(req.body);
+
+    const existing = await prisma.workTimer.findUnique({ where: { userId: req.userId! } });
+    if (existing) {
+      return res.status(400).json({ error: 'A timer is already running. Stop it first.' });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: data.projectId } });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const timer = await prisma.workTimer.create({
+      data: {
+        userId: req.userId!,
+        projectId: data.projectId,
+        note: data.note || null,
+        startedAt: new Date(),
+      },
+      include: timerInclude,
+    });
+
+    auditChange(res, { entityId: timer.id });
+
+    res.status(201).json({ timer });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error starting timer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/pause', async (req: AuthRequest, res) => {
+  try {
+    const paused = await prisma.workTimer.updateMany({
+      where: { userId: req.userId!, pausedAt: null },
+      data: { pausedAt: new Date() },
+    });
+    if (paused.count === 0) {
+      return res.status(400).json({ error: 'No running timer to pause' });
+    }
+
+    const timer = await prisma.workTimer.findUnique({
+      where: { userId: req.userId! },
+      include: timerInclude,
+    });
+
+    auditChange(res, { action: 'pause', entityId: timer?.id });
+
+    res.json({ timer });
+  } catch (error) {
+    console.error('Error pausing timer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/resume', async (req: AuthRequest, res) => {
+  try {
+    const existing = await prisma.workTimer.findUnique({ where: { userId: req.userId! } });
+    if (!existing?.pausedAt) {
+      return res.status(400).json({ error: 'No paused timer to resume' });
+    }
+
+    const timer = await prisma.workTimer.update({
+      where: { id: existing.id },
+      data: { pausedAt: null, pausedSeconds: getPausedSeconds(existing) },
+      include: timerInclude,
+    });
+
+    auditChange(res, { action: 'resume', entityId: timer.id });
+
+    res.json({ timer });
+  } catch (error) {
+    console.error('Error resuming timer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stop the timer and log the time from start until now (or until the pause), minus pauses
+router.post('/stop', async (req: AuthRequest, res) => {
+  try {
+    const data = stopTimerSchema.parse(req.body);
+
+    const timer = await prisma.workTimer.findUnique({ where: { userId: req.userId! } });
+    if (!timer) {
+      return res.status(400).json({ error: 'No timer is running' });
+    }
+
+    const start = truncateToMinute(timer.startedAt);
+    // A timer stopped while paused ends when the pause began
+    const end = truncateToMinute(timer.pausedAt ?? new Date());
+
+    if (end <= start) {
+      return res.status(400).json({
+        error: 'The timer ran for less than a minute. Discard it instead.',
+      });
+    }
+
+    const workLogData = {
+      userId: timer.userId,
+      // Work log dates are local midnight, like the manual entries they are checked against
+      date: data.date ? new Date(data.date) : toLocalDay(toEffectiveDate(timer.startedAt)),
+      start,
+      end,
+      breakMinutes: Math.round(timer.pausedSeconds / 60),
+      projectId: timer.projectId,
+      note: data.note ?? timer.note,
+    };
+
+    const validationError = await validateWorkLogEntry(workLogData);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const holidays = await getPastDueHolidaysByUser([workLogData]);
+
+    // Deleting the timer fails when another request already stopped it, so no second log
+    const [workLog] = await prisma.$transaction([
+      prisma.workLog.create({
+        data: {
+          ...workLogData,
+          note: workLogData.note || null,
+          isPastDue: calculateIsPastDue(
+            workLogData.date,
+            new Date(),
+            holidays.get(workLogData.userId)
+          ),
+        },
+        include: timerInclude,
+      }),
+      prisma.workTimer.delete({ where: { id: timer.id } }),
+    ]);
+
+    auditChange(res, {
+      action: 'stop',
+      entityType: 'worklog',
+      entityId: workLog.id,
+      after: workLogData,
+    });
+
+    queueBudgetAlerts([workLog.projectId]);
+
+    res.json({ workLog });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error stopping timer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Throw the timer away without logging time
+router.delete('/', async (req: AuthRequest, res) => {
+  try {
+    const discarded = await prisma.workTimer.deleteMany({ where: { userId: req.userId! } });
+    if (discarded.count === 0) {
+      return res.status(404).json({ error: 'No timer is running' });
+    }
+
+    auditChange(res, { action: 'discard' });
+
+    res.json({ message: 'Timer discarded' });
+  } catch (error) {
+    console.error('Error discarding timer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,301 @@
+import express from 'express';
+import { PrismaClient, TimesheetStatus } from '@prisma/client';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import {
+  getTimesheetPeriodType,
+  setTimesheetPeriodType,
+  toEffectiveDate,
+} from '../services/settingsService.js';
+import {
+  getTimesheetReviewScope,
+  getTimesheetsHours,
+  listTimesheetsByUser,
+  listUserTimesheets,
+  submitTimesheet,
+} from '../services/timesheetService.js';
+import { dateOnlySchema, parseDateOnly } from '../utils/dateUtils.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const submitSchema = z.object({
+  date: dateOnlySchema,
+});
+
+const approveSchema = z.object({
+  comment: z.string().trim().optional(),
+});
+
+const returnSchema = z.object({
+  comment: z.string().trim().min(1, 'Please explain what needs to change'),
+});
+
+const policySchema = z.object({
+  timesheetPeriod: z.enum(['week', 'month']),
+});
+
+const userSummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+} as const;
+
+// First and last day (UTC midnight) of a YYYY-MM month, the current month by default
+function getMonthRange(month: unknown): { from: Date; to: Date } {
+  const today = toEffectiveDate(new Date());
+  const [year, monthNum] =
+    typeof month === 'string' && /^\d{4}-\d{2}$/.test(month)
+      ? month.split('-').map(Number)
+      : [today.getUTCFullYear(), today.getUTCMonth() + 1];
+
+  return {
+    from: new Date(Date.UTC(year, monthNum - 1, 1)),
+    to: new Date(Date.UTC(year, monthNum, 0)),
+  };
+}
+
+// The current user's periods overlapping a month (?month=YYYY-MM), submitted or not
+router.get('/me', async (req: AuthRequest, res) => {
+  try {
+    const { from, to } = getMonthRange(req.query.month);
+
+    res.json({
+      periodType: await getTimesheetPeriodType(),
+      timesheets: await listUserTimesheets(req.userId!, from, to),
+    });
+  } catch (error) {
+    console.error('Error fetching timesheets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Submit the period containing `date` for approval; its work logs are locked from now on
+router.post('/submit', async (req: AuthRequest, res) => {
+  try {
+    const data = submitSchema.parse(req.body);
+
+    const result = await submitTimesheet(req.userId!, parseDateOnly(data.date));
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    auditChange(res, { action: 'submit', entityId: result.timesheet.id, after: result.timesheet });
+
+    res.status(201).json(result.timesheet);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error submitting timesheet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Timesheets the user can approve (?status=, submitted by default), plus periods of those
+// people that are missing since the start of last month
+router.get('/review', async (req: AuthRequest, res) => {
+  try {
+    const scope = await getTimesheetReviewScope(req.userId!, req.permissions ?? []);
+    if (scope && scope.length === 0) {
+      return res.json({ timesheets: [], missing: [] });
+    }
+
+    const status = Object.values(TimesheetStatus).includes(req.query.status as TimesheetStatus)
+      ? (req.query.status as TimesheetStatus)
+      : 'submitted';
+    const userFilter = scope ? { in: scope } : { not: req.userId! };
+
+    const timesheets = await prisma.timesheet.findMany({
+      where: { userId: userFilter, status },
+      include: {
+        user: { select: userSummarySelect },
+        decidedBy: { select: userSummarySelect },
+      },
+      orderBy: [{ periodStart: 'asc' }, { submittedAt: 'asc' }],
+    });
+
+    const users = await prisma.user.findMany({
+      where: { id: userFilter, deletedAt: null },
+      select: userSummarySelect,
+      orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+    });
+
+    const today = toEffectiveDate(new Date());
+    const from = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+    const periodsByUser = await listTimesheetsByUser(
+      users.map((user) => user.id),
+      from,
+      today
+    );
+    const missing = users.flatMap((user) =>
+      (periodsByUser.get(user.id) ?? [])
+        .filter((period) => period.isMissing)
+        .map((period) => ({
+          user,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          status: period.status,
+          hours: period.hours,
+        }))
+    );
+
+    const hours = await getTimesheetsHours(timesheets);
+    res.json({
+      timesheets: timesheets.map((timesheet, index) => ({ ...timesheet, hours: hours[index] })),
+      missing,
+    });
+  } catch (error) {
+    console.error('Error fetching timesheets for review:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Approve or send back a submitted timesheet of someone the user can review
+async function handleTimesheetDecision(
+  req: AuthRequest,
+  res: express.Response,
+  status: 'approved' | 'returned'
+) {
+  try {
+    const { id } = req.params;
+    const { comment } =
+      status === 'approved' ? approveSchema.parse(req.body) : returnSchema.parse(req.body);
+
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id },
+    });
+
+    if (!timesheet) {
+      return res.status(404).json({ error: 'Timesheet not found' });
+    }
+
+    if (timesheet.userId === req.userId) {
+      return res.status(403).json({ error: 'You cannot decide your own timesheet' });
+    }
+
+    const scope = await getTimesheetReviewScope(req.userId!, req.permissions ?? []);
+    if (scope && !scope.includes(timesheet.userId)) {
+      return res.status(403).json({ error: 'You can only decide timesheets of your reports' });
+    }
+
+    if (timesheet.status !== 'submitted') {
+      return res.status(400).json({ error: 'Only submitted timesheets can be decided' });
+    }
+
+    const updated = await prisma.timesheet.update({
+      where: { id },
+      data: {
+        status,
+        decidedById: req.userId!,
+        decidedAt: new Date(),
+        comment: comment || null,
+      },
+    });
+
+    auditChange(res, {
+      action: status === 'approved' ? 'approve' : 'return',
+      before: timesheet,
+      after: updated,
+    });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error deciding timesheet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+router.patch('/:id/approve', (req: AuthRequest, res) =>
+  handleTimesheetDecision(req, res, 'approved')
+);
+
+router.patch('/:id/return', (req: AuthRequest, res) =>
+  handleTimesheetDecision(req, res, 'returned')
+);
+
+// Unlock an approved timesheet so its work logs can be corrected; the owner submits it again
+router.patch('/:id/reopen', requirePermission('worklogs.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { comment } = approveSchema.parse(req.body);
+
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id },
+    });
+
+    if (!timesheet) {
+      return res.status(404).json({ error: 'Timesheet not found' });
+    }
+
+    if (timesheet.status !== 'approved') {
+      return res.status(400).json({ error: 'Only approved timesheets can be reopened' });
+    }
+
+    const updated = await prisma.timesheet.update({
+      where: { id },
+      data: {
+        status: 'open',
+        decidedById: req.userId!,
+        decidedAt: new Date(),
+        comment: comment || null,
+      },
+    });
+
+    auditChange(res, { action: 'reopen', before: timesheet, after: updated });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error reopening timesheet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/policy', requirePermission('settings.manage'), async (req: AuthRequest, res) => {
+  try {
+    res.json({ timesheetPeriod: await getTimesheetPeriodType() });
+  } catch (error) {
+    console.error('Error fetching timesheet policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Switch between weekly and monthly periods; periods already submitted keep their dates
+router.put('/policy', requirePermission('settings.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { timesheetPeriod } = policySchema.parse(req.body);
+    const before = { timesheetPeriod: await getTimesheetPeriodType() };
+
+    await setTimesheetPeriodType(timesheetPeriod);
+
+    auditChange(res, { entityType: 'settings', before, after: { timesheetPeriod } });
+
+    res.json({ timesheetPeriod });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating timesheet policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,268 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
+import { getUserPermissions } from '../services/permissionService.js';
+import {
+  getRequireTwoFactorForElevated,
+  setRequireTwoFactorForElevated,
+} from '../services/settingsService.js';
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  verifyTotpCode,
+  verifyTwoFactorCode,
+} from '../services/twoFactorService.js';
+import { z } from 'zod';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Verification code is required'),
+});
+
+const disableSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required'),
+    code: z.string().trim().optional(),
+    recoveryCode: z.string().trim().optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: 'Enter the code from your authenticator app or a recovery code',
+  });
+
+const policySchema = z.object({
+  requireTwoFactorForElevated: z.boolean(),
+});
+
+// Whether the user's roles make 2FA mandatory under the current policy
+async function isTwoFactorMandatory(req: AuthRequest): Promise<boolean> {
+  const permissions = await getUserPermissions(req.userId!, req.isAdmin);
+  return permissions.length > 0 && (await getRequireTwoFactorForElevated());
+}
+
+// 2FA status of the current user
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const status = await getTwoFactorStatus(req.userId!);
+
+    res.json({
+      ...status,
+      mandatory: await isTwoFactorMandatory(req),
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start enrollment: a new secret as QR code, confirmed by POST /enable
+router.post('/setup', async (req: AuthRequest, res) => {
+  try {
+    const status = await getTwoFactorStatus(req.userId!);
+    if (status.enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { email: true },
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const enrollment = await startEnrollment(req.userId!, user.email);
+
+    auditChange(res, {
+      action: 'setup',
+      entityId: req.userId,
+      before: status,
+      after: await getTwoFactorStatus(req.userId!),
+    });
+
+    res.json(enrollment);
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Finish enrollment with the first code from the app; returns the recovery codes once
+router.post('/enable', async (req: AuthRequest, res) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+
+    const before = await getTwoFactorStatus(req.userId!);
+    const recoveryCodes = await confirmEnrollment(req.userId!, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    auditChange(res, {
+      action: 'enable',
+      entityId: req.userId,
+      before,
+      after: await getTwoFactorStatus(req.userId!),
+    });
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error enabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace all recovery codes; needs a current code from the app
+router.post('/recovery-codes', async (req: AuthRequest, res) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+
+    const isValid = await verifyTotpCode(req.userId!, code);
+    if (!isValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const before = await getTwoFactorStatus(req.userId!);
+    const recoveryCodes = await regenerateRecoveryCodes(req.userId!);
+
+    auditChange(res, {
+      action: 'regenerate_recovery_codes',
+      entityId: req.userId,
+      before,
+      after: await getTwoFactorStatus(req.userId!),
+    });
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Turn 2FA off; needs the password and a code, and is refused when 2FA is mandatory
+router.post('/disable', async (req: AuthRequest, res) => {
+  try {
+    const data = disableSchema.parse(req.body);
+
+    if (await isTwoFactorMandatory(req)) {
+      return res
+        .status(400)
+        .json({ error: 'Two-factor authentication is mandatory for your account' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { passwordHash: true },
+    });
+    if (!user || !(await bcrypt.compare(data.password, user.passwordHash))) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    const isValid = await verifyTwoFactorCode(req.userId!, data);
+    if (!isValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const before = await getTwoFactorStatus(req.userId!);
+    await disableTwoFactor(req.userId!);
+
+    auditChange(res, {
+      action: 'disable',
+      entityId: req.userId,
+      before,
+      after: await getTwoFactorStatus(req.userId!),
+    });
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/policy', requirePermission('roles.manage'), async (req: AuthRequest, res) => {
+  try {
+    res.json({ requireTwoFactorForElevated: await getRequireTwoFactorForElevated() });
+  } catch (error) {
+    console.error('Error fetching two-factor policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Make 2FA mandatory (or optional) for every user with at least one permission
+router.put('/policy', requirePermission('roles.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { requireTwoFactorForElevated } = policySchema.parse(req.body);
+
+    const before = { requireTwoFactorForElevated: await getRequireTwoFactorForElevated() };
+    await setRequireTwoFactorForElevated(requireTwoFactorForElevated);
+
+    auditChange(res, {
+      entityType: 'settings',
+      before,
+      after: { requireTwoFactorForElevated },
+    });
+
+    res.json({ requireTwoFactorForElevated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error updating two-factor policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reset another user's 2FA, e.g. after a lost phone; they can enroll again after login
+router.delete('/users/:id', requirePermission('roles.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const before = await getTwoFactorStatus(id);
+    await disableTwoFactor(id);
+
+    auditChange(res, {
+      action: 'reset',
+      entityId: id,
+      before,
+      after: await getTwoFactorStatus(id),
+    });
+
+    res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
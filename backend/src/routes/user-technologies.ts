@@ -1,6 +1,7 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, hasPermission, AuthRequest } from '../middleware/auth.js';
+import { auditChange } from '../middleware/audit.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -10,6 +11,15 @@ const updateUserTechnologiesSchema = z.object({
   technologyIds: z.array(z.string().uuid()),
 });
 
+// A user's technologies as ids, for the audit log
+async function getUserTechnologyIds(userId: string) {
+  const userTechnologies = await prisma.userTechnology.findMany({
+    where: { userId },
+    select: { technologyId: true },
+  });
+  return userTechnologies.map((ut) => ut.technologyId);
+}
+
 // Get all technologies (any authenticated user)
 router.get('/all', authenticateToken, async (_req: AuthRequest, res) => {
   try {
@@ -57,9 +67,10 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canManageUsers = hasPermission(req, 'users.manage');
 
-    if (!isAdmin && userId !== id) {
+    if (!canManageUsers && userId !== id) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
@@ -91,6 +102,8 @@ router.put('/me', authenticateToken, async (req: AuthRequest, res) => {
     const { userId } = req;
     const data = updateUserTechnologiesSchema.parse(req.body);
 
+    const before = { technologyIds: await getUserTechnologyIds(userId!) };
+
     // Delete existing user technologies
     await prisma.userTechnology.deleteMany({
       where: { userId: userId! },
@@ -123,6 +136,12 @@ router.put('/me', authenticateToken, async (req: AuthRequest, res) => {
 
     const technologies = userTechnologies.map((ut: any) => ut.technology);
 
+    auditChange(res, {
+      entityId: userId,
+      before,
+      after: { technologyIds: technologies.map((technology) => technology.id) },
+    });
+
     res.json(technologies);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -139,14 +158,17 @@ router.put('/me', authenticateToken, async (req: AuthRequest, res) => {
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canManageUsers = hasPermission(req, 'users.manage');
 
-    if (!isAdmin && userId !== id) {
+    if (!canManageUsers && userId !== id) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
     const data = updateUserTechnologiesSchema.parse(req.body);
 
+    const before = { technologyIds: await getUserTechnologyIds(id) };
+
     await prisma.userTechnology.deleteMany({
       where: { userId: id },
     });
@@ -175,6 +197,12 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
     });
 
     const technologies = userTechnologies.map((ut: any) => ut.technology);
+
+    auditChange(res, {
+      before,
+      after: { technologyIds: technologies.map((technology) => technology.id) },
+    });
+
     res.json(technologies);
   } catch (error) {
     if (error instanceof z.ZodError) {
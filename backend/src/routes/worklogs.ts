@@ -1,8 +1,30 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
-import { addWorkingDays } from '../utils/dateUtils.js';
-import { countWorkingDays } from '../utils/dateUtils.js';
+import {
+  authenticateToken,
+  canAccessAllProjects,
+  requireManager,
+  hasPermission,
+  AuthRequest,
+} from '../middleware/auth.js';
+import { getHolidaysByUser, getPastDueHolidaysByUser } from '../services/holidayService.js';
+import { getLeavePolicyForUser } from '../services/leavePolicyService.js';
+import { countAbsenceWorkingDays, WORKING_HOURS_PER_DAY } from '../utils/absenceUtils.js';
+import {
+  calculateIsPastDue,
+  getWorkLogBreakdown,
+  getWorkLogHours,
+  MAX_WORK_HOURS_PER_DAY,
+} from '../utils/workLogUtils.js';
+import {
+  getLockedWorkLogError,
+  saveWorkLogHours,
+  validateWorkLogCategories,
+  validateWorkLogEntry,
+} from '../services/workLogService.js';
+import { filterApprovedWorkLogs } from '../services/timesheetService.js';
+import { queueBudgetAlerts } from '../services/budgetService.js';
+import { auditChange } from '../middleware/audit.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -14,8 +36,12 @@ interface WorkLogWithRelations {
   date: Date;
   start: Date;
   end: Date;
+  breakMinutes: number;
   projectId: string | null;
+  taskId: string | null;
+  activityTypeId: string | null;
   note: string | null;
+  isBillable: boolean;
   user?: {
     id: string;
     firstName: string;
@@ -26,6 +52,14 @@ interface WorkLogWithRelations {
     id: string;
     name: string;
   } | null;
+  task?: {
+    id: string;
+    name: string;
+  } | null;
+  activityType?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 interface AbsenceReportItem {
@@ -33,7 +67,8 @@ interface AbsenceReportItem {
   type: 'sick_leave' | 'day_off' | 'vacation' | 'work_from_home';
   from: Date;
   to: Date;
-  status: 'pending' | 'approved' | 'rejected';
+  portion: 'full_day' | 'half_day_am' | 'half_day_pm' | 'hours';
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
   user: {
     id: string;
     firstName: string;
@@ -44,99 +79,64 @@ interface AbsenceReportItem {
   hours: number;
 }
 
-interface SettingsData {
-  vacationCarryoverLimit: number;
-  sickLeaveWithoutCertificateLimit: number;
-  sickLeaveWithCertificateLimit: number;
-}
-
-const SETTINGS_ID = 'global';
+const breakMinutesSchema = z
+  .number()
+  .int('Break must be a whole number of minutes')
+  .min(0, 'Break cannot be negative');
 
-async function getSettings(): Promise<SettingsData> {
-  const settings = await (prisma as any).settings.findUnique({
-    where: { id: SETTINGS_ID },
-  });
-
-  if (settings) {
-    return settings as SettingsData;
-  }
-
-  return (prisma as any).settings.create({
-    data: {
-      id: SETTINGS_ID,
-      vacationFutureAccrueDays: 1.5,
-      vacationCarryoverLimit: 0,
-      sickLeaveWithoutCertificateLimit: 5,
-      sickLeaveWithCertificateLimit: 5,
-    },
-  }) as SettingsData;
-}
-
-function countWorkingDaysWithinRange(
-  from: Date,
-  to: Date,
-  rangeStart: Date,
-  rangeEnd: Date
-): number {
-  const start = new Date(Math.max(from.getTime(), rangeStart.getTime()));
-  const end = new Date(Math.min(to.getTime(), rangeEnd.getTime()));
-
-  if (end < start) {
-    return 0;
-  }
-
-  return countWorkingDays(start, end);
-}
-
-const createWorkLogSchema = z
-  .object({
-    date: z.string().datetime(),
-    start: z.string().datetime(),
-    end: z.string().datetime(),
-    projectId: z.string().uuid(),
-    note: z.string().optional(),
-  })
-  .refine(
-    (data) => {
-      const start = new Date(data.start);
-      const end = new Date(data.end);
-      return end > start;
-    },
-    {
-      message: 'End time must be after start time',
-      path: ['end'],
-    }
-  )
-  .refine(
-    (data) => {
-      const start = new Date(data.start);
-      const end = new Date(data.end);
-      const totalMs = end.getTime() - start.getTime();
-      const totalHours = totalMs / (1000 * 60 * 60);
-      return totalHours <= 16;
-    },
-    {
-      message: 'Total worked hours cannot exceed 16 hours per day',
-      path: ['end'],
-    }
-  )
+const createWorkLogSchema = z.object({
+  date: z.string().datetime(),
+  start: z.string().datetime(),
+  end: z.string().datetime(),
+  breakMinutes: breakMinutesSchema.optional(),
+  projectId: z.string().uuid(),
+  taskId: z.string().uuid().nullable().optional(),
+  activityTypeId: z.string().uuid().nullable().optional(),
+  note: z.string().optional(),
+  isBillable: z.boolean().optional(),
+});
 
 const updateWorkLogSchema = z.object({
   date: z.string().datetime().optional(),
   start: z.string().datetime().optional(),
   end: z.string().datetime().optional(),
+  breakMinutes: breakMinutesSchema.optional(),
   projectId: z.string().uuid(),
+  taskId: z.string().uuid().nullable().optional(),
+  activityTypeId: z.string().uuid().nullable().optional(),
   note: z.string().optional(),
+  isBillable: z.boolean().optional(),
 });
 
-function calculateIsPastDue(logDate: Date, now: Date = new Date()): boolean {
-  const normalizedLogDate = new Date(logDate);
-  normalizedLogDate.setHours(0, 0, 0, 0);
-  const today = new Date(now);
-  today.setHours(0, 0, 0, 0);
-  const pastDueDate = addWorkingDays(normalizedLogDate, 5);
-  return today > pastDueDate;
-}
+const myWorkLogsQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/, 'Invalid month format. Use YYYY-MM')
+    .optional(),
+  // A date range (ISO datetimes, inclusive), e.g. a week in the grid view
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+const weekHoursSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        // Local midnight of the day, like `date` of a single entry
+        date: z.string().datetime(),
+        projectId: z.string().uuid('Project is required'),
+        hours: z
+          .number()
+          .min(0, 'Hours cannot be negative')
+          .max(MAX_WORK_HOURS_PER_DAY, `Hours cannot exceed ${MAX_WORK_HOURS_PER_DAY} per day`),
+      })
+    )
+    .refine(
+      (entries) =>
+        new Set(entries.map((entry) => `${entry.date}|${entry.projectId}`)).size === entries.length,
+      { message: 'Each project can appear only once per day' }
+    ),
+});
 
 // Create work log
 router.post('/', authenticateToken, async (req: AuthRequest, res) => {
@@ -145,18 +145,32 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
     const data = createWorkLogSchema.parse(req.body);
 
     const logDate = new Date(data.date);
-    const isPastDue = calculateIsPastDue(logDate);
+    const holidays = await getPastDueHolidaysByUser([{ userId: userId!, date: logDate }]);
+    const isPastDue = calculateIsPastDue(logDate, new Date(), holidays.get(userId!));
+
+    const workLogData = {
+      userId: userId!,
+      date: new Date(data.date),
+      start: new Date(data.start),
+      end: new Date(data.end),
+      breakMinutes: data.breakMinutes ?? 0,
+      projectId: data.projectId || null,
+      taskId: data.taskId || null,
+      activityTypeId: data.activityTypeId || null,
+      note: data.note || null,
+      isBillable: data.isBillable ?? true,
+      isPastDue: isPastDue,
+    };
+
+    const validationError =
+      (await validateWorkLogCategories(workLogData)) ||
+      (await validateWorkLogEntry(workLogData));
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
 
     const workLog = await prisma.workLog.create({
-      data: {
-        userId: userId!,
-        date: new Date(data.date),
-        start: new Date(data.start),
-        end: new Date(data.end),
-        projectId: data.projectId || null,
-        note: data.note || null,
-        isPastDue: isPastDue,
-      },
+      data: workLogData,
       include: {
         user: {
           select: {
@@ -172,12 +186,28 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
             name: true,
           },
         },
+        task: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        activityType: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
+    auditChange(res, { entityId: workLog.id, after: workLogData });
+
+    queueBudgetAlerts([workLog.projectId]);
+
     res.status(201).json({
       ...workLog,
-      isPastDue: calculateIsPastDue(workLog.date),
+      isPastDue,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -195,17 +225,52 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// The grid's projects must exist, and hours can only be added to projects the user can log to
+async function getWeekProjectsError(
+  req: AuthRequest,
+  entries: { projectId: string; hours: number }[]
+): Promise<string | null> {
+  const projectIds = [...new Set(entries.map((entry) => entry.projectId))];
+  const projects = await prisma.project.findMany({
+    where: { id: { in: projectIds } },
+    select: { id: true, name: true, users: { where: { id: req.userId! }, select: { id: true } } },
+  });
+  if (projects.length !== projectIds.length) {
+    return 'Project not found';
+  }
+  if (canAccessAllProjects(req)) {
+    return null;
+  }
+
+  const loggedProjectIds = new Set(
+    entries.filter((entry) => entry.hours > 0).map((entry) => entry.projectId)
+  );
+  const otherProject = projects.find(
+    (project) => loggedProjectIds.has(project.id) && project.users.length === 0
+  );
+  return otherProject ? `You are not a member of project ${otherProject.name}` : null;
+}
+
+// Admins can view anyone's timesheet; managers only those of their reports
+function canViewUserTimesheet(req: AuthRequest, userId: unknown): boolean {
+  return !req.managedUserIds || !userId || req.managedUserIds.includes(userId as string);
+}
+
 // Get current user's work logs
 router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { userId } = req;
-    const { month } = req.query;
+    const { month, from, to } = myWorkLogsQuerySchema.parse(req.query);
 
     let where: any = { userId };
 
-    if (month) {
-      // month format: YYYY-MM
-      const [year, monthNum] = (month as string).split('-').map(Number);
+    if (from && to) {
+      where.date = {
+        gte: new Date(from),
+        lte: new Date(to),
+      };
+    } else if (month) {
+      const [year, monthNum] = month.split('-').map(Number);
       const startDate = new Date(year, monthNum - 1, 1);
       const endDate = new Date(year, monthNum, 0, 23, 59, 59, 999);
 
@@ -224,28 +289,48 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
             name: true,
           },
         },
+        task: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        activityType: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
-      orderBy: {
-        date: 'desc',
-      },
+      orderBy: [{ date: 'desc' }, { start: 'asc' }],
     });
+    const holidaysByUser = await getPastDueHolidaysByUser(workLogs);
     const workLogsWithPastDue = workLogs.map((log) => ({
       ...log,
-      isPastDue: calculateIsPastDue(log.date),
+      isPastDue: calculateIsPastDue(log.date, new Date(), holidaysByUser.get(log.userId)),
     }));
 
     res.json(workLogsWithPastDue);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
     console.error('Error fetching work logs:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get all work logs (admin only)
-router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Get all work logs (admins; managers get their reports' logs)
+router.get('/', authenticateToken, requireManager, async (req: AuthRequest, res) => {
   try {
     const { month, userId, projectId } = req.query;
 
+    if (!canViewUserTimesheet(req, userId)) {
+      return res.status(403).json({ error: 'You can only view timesheets of your reports' });
+    }
+
     let where: any = {};
 
     if (month) {
@@ -261,6 +346,8 @@ router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) =
 
     if (userId) {
       where.userId = userId as string;
+    } else if (req.managedUserIds) {
+      where.userId = { in: req.managedUserIds };
     }
 
     if (projectId) {
@@ -284,14 +371,25 @@ router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) =
             name: true,
           },
         },
+        task: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        activityType: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
-      orderBy: {
-        date: 'desc',
-      },
+      orderBy: [{ date: 'desc' }, { start: 'asc' }],
     });
+    const holidaysByUser = await getPastDueHolidaysByUser(workLogs);
     const workLogsWithPastDue = workLogs.map((log) => ({
       ...log,
-      isPastDue: calculateIsPastDue(log.date),
+      isPastDue: calculateIsPastDue(log.date, new Date(), holidaysByUser.get(log.userId)),
     }));
 
     res.json(workLogsWithPastDue);
@@ -301,10 +399,14 @@ router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) =
   }
 });
 
-// Get admin report with summary
-router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Get report with summary (admins; managers get their reports)
+router.get('/report', authenticateToken, requireManager, async (req: AuthRequest, res) => {
   try {
-    const { month, userId, projectId } = req.query;
+    const { month, userId, projectId, approvedOnly } = req.query;
+
+    if (!canViewUserTimesheet(req, userId)) {
+      return res.status(403).json({ error: 'You can only view timesheets of your reports' });
+    }
 
     let where: any = {};
 
@@ -321,13 +423,15 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
 
     if (userId) {
       where.userId = userId as string;
+    } else if (req.managedUserIds) {
+      where.userId = { in: req.managedUserIds };
     }
 
     if (projectId) {
       where.projectId = projectId as string;
     }
 
-    const workLogs = await prisma.workLog.findMany({
+    const allWorkLogs = await prisma.workLog.findMany({
       where,
       include: {
         user: {
@@ -344,20 +448,42 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
             name: true,
           },
         },
+        task: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        activityType: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
-      orderBy: {
-        date: 'desc',
-      },
+      orderBy: [{ date: 'desc' }, { start: 'asc' }],
     });
-    const workLogsWithPastDue = workLogs.map((log) => ({
-      ...log,
-      isPastDue: calculateIsPastDue(log.date),
-    }));
-
+    // Optionally only time from approved timesheets
+    const workLogs =
+      approvedOnly === 'true' ? await filterApprovedWorkLogs(allWorkLogs) : allWorkLogs;
     const [reportYear, reportMonth] = (month as string).split('-').map(Number);
     const monthStart = new Date(reportYear, reportMonth - 1, 1);
     const monthEnd = new Date(reportYear, reportMonth, 0, 23, 59, 59, 999);
 
+    // Public holidays per user, covering the report year plus the past-due window after it
+    const holidaysRangeStart = new Date(reportYear, 0, 1);
+    const holidaysRangeEnd = new Date(reportYear + 1, 0, 31, 23, 59, 59, 999);
+    const holidaysByUser = await getHolidaysByUser(
+      Array.from(new Set(workLogs.map((log) => log.userId))),
+      holidaysRangeStart,
+      holidaysRangeEnd
+    );
+
+    const workLogsWithPastDue = workLogs.map((log) => ({
+      ...log,
+      isPastDue: calculateIsPastDue(log.date, new Date(), holidaysByUser.get(log.userId)),
+    }));
+
     // Calculate summary per user
     const summary: Record<
       string,
@@ -375,13 +501,13 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
       }
     > = {};
 
+    // Hours per user and day; a day can have several entries
+    const dayHoursByUser = new Map<string, Map<number, number>>();
+
     workLogsWithPastDue.forEach((log: WorkLogWithRelations) => {
       if (!log.user) return; // Skip if user data is missing
-      
-      const start = new Date(log.start);
-      const end = new Date(log.end);
-      const totalMs = end.getTime() - start.getTime();
-      const totalHours = totalMs / (1000 * 60 * 60);
+
+      const totalHours = getWorkLogHours(log);
 
       if (!summary[log.userId]) {
         summary[log.userId] = {
@@ -399,23 +525,26 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
       }
 
       summary[log.userId].totalHours += totalHours;
-      summary[log.userId].totalDays += 1;
 
+      const dayHours = dayHoursByUser.get(log.userId) ?? new Map<number, number>();
+      const day = log.date.getTime();
+      dayHours.set(day, (dayHours.get(day) ?? 0) + totalHours);
+      dayHoursByUser.set(log.userId, dayHours);
+    });
+
+    dayHoursByUser.forEach((dayHours, logUserId) => {
+      summary[logUserId].totalDays = dayHours.size;
       // Overtime: hours over 8 per day
-      const regularHours = Math.min(totalHours, 8);
-      const overtime = Math.max(0, totalHours - regularHours);
-      summary[log.userId].overtime += overtime;
+      summary[logUserId].overtime = Array.from(dayHours.values()).reduce(
+        (sum, hours) => sum + Math.max(0, hours - 8),
+        0
+      );
     });
 
     const summaryUserIds = Object.keys(summary);
     const reportUserIds =
       userId && typeof userId === 'string' ? [userId] : summaryUserIds;
     if (summaryUserIds.length > 0) {
-      const settings = await getSettings();
-      const sickLeaveLimit =
-        settings.sickLeaveWithoutCertificateLimit + settings.sickLeaveWithCertificateLimit;
-      const vacationLimit = 18 + settings.vacationCarryoverLimit;
-
       const yearStart = new Date(reportYear, 0, 1);
       const yearEnd = new Date(reportYear, 11, 31, 23, 59, 59, 999);
       const beforeMonthEnd = new Date(monthStart);
@@ -441,6 +570,8 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
           type: true,
           from: true,
           to: true,
+          portion: true,
+          hours: true,
         },
       });
 
@@ -453,21 +584,12 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
           usedInMonth[absence.userId] = { sick_leave: 0, vacation: 0, day_off: 0 };
         }
 
+        const holidays = holidaysByUser.get(absence.userId);
         const daysBefore =
           beforeMonthEnd >= yearStart
-            ? countWorkingDaysWithinRange(
-                new Date(absence.from),
-                new Date(absence.to),
-                yearStart,
-                beforeMonthEnd
-              )
+            ? countAbsenceWorkingDays(absence, holidays, yearStart, beforeMonthEnd)
             : 0;
-        const daysInMonth = countWorkingDaysWithinRange(
-          new Date(absence.from),
-          new Date(absence.to),
-          monthStart,
-          monthEnd
-        );
+        const daysInMonth = countAbsenceWorkingDays(absence, holidays, monthStart, monthEnd);
 
         if (
           absence.type !== 'sick_leave' &&
@@ -485,15 +607,21 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
         const before = usedBefore[userIdKey] || { sick_leave: 0, vacation: 0, day_off: 0 };
         const inMonth = usedInMonth[userIdKey] || { sick_leave: 0, vacation: 0, day_off: 0 };
 
+        // Limits come from each user's leave policy in force for the report month
+        const policy = await getLeavePolicyForUser(userIdKey, monthStart);
+        const sickLeaveLimit =
+          policy.sickLeaveWithoutCertificateLimit + policy.sickLeaveWithCertificateLimit;
+        const vacationLimit = policy.vacationAnnualCap + policy.vacationCarryoverLimit;
+
         const sickLeaveRemaining = Math.max(0, sickLeaveLimit - before.sick_leave);
         const vacationRemaining = Math.max(0, vacationLimit - before.vacation);
 
         const sickLeaveCountedDays = Math.min(inMonth.sick_leave, sickLeaveRemaining);
         const vacationCountedDays = Math.min(inMonth.vacation, vacationRemaining);
 
-        summary[userIdKey].sickLeaveHours = sickLeaveCountedDays * 8;
-        summary[userIdKey].vacationHours = vacationCountedDays * 8;
-        summary[userIdKey].dayOffHours = inMonth.day_off * 8;
+        summary[userIdKey].sickLeaveHours = sickLeaveCountedDays * WORKING_HOURS_PER_DAY;
+        summary[userIdKey].vacationHours = vacationCountedDays * WORKING_HOURS_PER_DAY;
+        summary[userIdKey].dayOffHours = inMonth.day_off * WORKING_HOURS_PER_DAY;
       }
     }
 
@@ -507,7 +635,7 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
       },
     };
 
-    if (reportUserIds.length > 0) {
+    if (reportUserIds.length > 0 || req.managedUserIds) {
       absencesWhere.userId = { in: reportUserIds };
     }
 
@@ -528,10 +656,22 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
       },
     });
 
+    const absenceUserIdsWithoutHolidays = Array.from(
+      new Set(absences.map((absence) => absence.userId))
+    ).filter((absenceUserId) => !holidaysByUser.has(absenceUserId));
+    if (absenceUserIdsWithoutHolidays.length > 0) {
+      const extraHolidays = await getHolidaysByUser(
+        absenceUserIdsWithoutHolidays,
+        holidaysRangeStart,
+        holidaysRangeEnd
+      );
+      extraHolidays.forEach((holidays, absenceUserId) => holidaysByUser.set(absenceUserId, holidays));
+    }
+
     const absencesForReport: AbsenceReportItem[] = absences.map((absence) => {
-      const workingDays = countWorkingDaysWithinRange(
-        new Date(absence.from),
-        new Date(absence.to),
+      const workingDays = countAbsenceWorkingDays(
+        absence,
+        holidaysByUser.get(absence.userId),
         monthStart,
         monthEnd
       );
@@ -540,16 +680,18 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
         type: absence.type,
         from: absence.from,
         to: absence.to,
+        portion: absence.portion,
         status: absence.status,
         user: absence.user!,
         workingDays,
-        hours: workingDays * 8,
+        hours: workingDays * WORKING_HOURS_PER_DAY,
       };
     });
 
     res.json({
       workLogs: workLogsWithPastDue,
       summary: Object.values(summary),
+      breakdown: getWorkLogBreakdown(workLogs),
       absences: absencesForReport,
     });
   } catch (error) {
@@ -558,11 +700,47 @@ router.get('/report', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
+// Save hours per project and day from the weekly grid; the whole week is validated and
+// written in one transaction
+router.put('/week', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { entries } = weekHoursSchema.parse(req.body);
+
+    const projectError = await getWeekProjectsError(req, entries);
+    if (projectError) {
+      return res.status(400).json({ error: projectError });
+    }
+
+    const result = await saveWorkLogHours(
+      req.userId!,
+      entries.map((entry) => ({ ...entry, date: new Date(entry.date) }))
+    );
+    if ('error' in result) {
+      return res.status(400).json(result);
+    }
+
+    auditChange(res, { action: 'save_week', after: result });
+
+    queueBudgetAlerts(entries.map((entry) => entry.projectId));
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: error.errors.map((e) => e.message).join('. '),
+      });
+    }
+    console.error('Error saving weekly work logs:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Update work log
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canManageWorkLogs = hasPermission(req, 'worklogs.manage');
     const data = updateWorkLogSchema.parse(req.body);
 
     // Check if work log exists and user has permission
@@ -574,31 +752,71 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Work log not found' });
     }
 
-    // Employees can only edit their own logs in current month
-    if (!isAdmin && existingLog.userId !== userId) {
+    // Employees can only edit their own logs, and nobody can edit logs in a locked timesheet
+    if (!canManageWorkLogs && existingLog.userId !== userId) {
       return res.status(403).json({ error: 'Permission denied' });
     }
 
-    if (!isAdmin) {
-      const logDate = new Date(existingLog.date);
-      const now = new Date();
-      const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const logMonth = new Date(logDate.getFullYear(), logDate.getMonth(), 1);
-
-      if (logMonth.getTime() !== currentMonth.getTime()) {
-        return res.status(403).json({ error: 'You can only edit logs from the current month' });
-      }
+    const lockedError = await getLockedWorkLogError(existingLog.userId, existingLog.date);
+    if (lockedError) {
+      return res.status(400).json({ error: lockedError });
     }
 
     const updateData: any = {};
     if (data.date) {
       updateData.date = new Date(data.date);
-      updateData.isPastDue = calculateIsPastDue(updateData.date);
+      const holidays = await getPastDueHolidaysByUser([
+        { userId: existingLog.userId, date: updateData.date },
+      ]);
+      updateData.isPastDue = calculateIsPastDue(
+        updateData.date,
+        new Date(),
+        holidays.get(existingLog.userId)
+      );
     }
     if (data.start) updateData.start = new Date(data.start);
     if (data.end) updateData.end = new Date(data.end);
+    if (data.breakMinutes !== undefined) updateData.breakMinutes = data.breakMinutes;
     if (data.projectId !== undefined) updateData.projectId = data.projectId || null;
+    if (data.taskId !== undefined) updateData.taskId = data.taskId || null;
+    if (data.activityTypeId !== undefined) updateData.activityTypeId = data.activityTypeId || null;
     if (data.note !== undefined) updateData.note = data.note || null;
+    if (data.isBillable !== undefined) updateData.isBillable = data.isBillable;
+    // A task belongs to one project
+    if (
+      updateData.projectId !== undefined &&
+      updateData.projectId !== existingLog.projectId &&
+      data.taskId === undefined
+    ) {
+      updateData.taskId = null;
+    }
+
+    const categoriesError = await validateWorkLogCategories(
+      {
+        projectId: updateData.projectId ?? existingLog.projectId,
+        taskId: updateData.taskId !== undefined ? updateData.taskId : existingLog.taskId,
+        activityTypeId:
+          updateData.activityTypeId !== undefined
+            ? updateData.activityTypeId
+            : existingLog.activityTypeId,
+      },
+      existingLog
+    );
+    if (categoriesError) {
+      return res.status(400).json({ error: categoriesError });
+    }
+
+    const validationError = await validateWorkLogEntry({
+      userId: existingLog.userId,
+      date: updateData.date ?? existingLog.date,
+      start: updateData.start ?? existingLog.start,
+      end: updateData.end ?? existingLog.end,
+      breakMinutes: updateData.breakMinutes ?? existingLog.breakMinutes,
+      excludeWorkLogId: existingLog.id,
+    });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
 
     const workLog = await prisma.workLog.update({
       where: { id },
@@ -618,9 +836,26 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
             name: true,
           },
         },
+        task: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        activityType: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
+    auditChange(res, { before: existingLog, after: { ...existingLog, ...updateData } });
+
+    // A log moved to another project frees budget on the old one
+    queueBudgetAlerts([existingLog.projectId, workLog.projectId]);
+
     res.json(workLog);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -642,7 +877,8 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { userId, isAdmin } = req;
+    const { userId } = req;
+    const canManageWorkLogs = hasPermission(req, 'worklogs.manage');
 
     // Check if work log exists and user has permission
     const existingLog = await prisma.workLog.findUnique({
@@ -653,26 +889,24 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Work log not found' });
     }
 
-    // Employees can only delete their own logs in current month
-    if (!isAdmin && existingLog.userId !== userId) {
+    // Employees can only delete their own logs, and nobody can delete logs in a locked timesheet
+    if (!canManageWorkLogs && existingLog.userId !== userId) {
       return res.status(403).json({ error: 'Permission denied' });
     }
 
-    if (!isAdmin) {
-      const logDate = new Date(existingLog.date);
-      const now = new Date();
-      const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const logMonth = new Date(logDate.getFullYear(), logDate.getMonth(), 1);
-
-      if (logMonth.getTime() !== currentMonth.getTime()) {
-        return res.status(403).json({ error: 'You can only delete logs from the current month' });
-      }
+    const lockedError = await getLockedWorkLogError(existingLog.userId, existingLog.date);
+    if (lockedError) {
+      return res.status(400).json({ error: lockedError });
     }
 
     await prisma.workLog.delete({
       where: { id },
     });
 
+    auditChange(res, { before: existingLog });
+
+    queueBudgetAlerts([existingLog.projectId]);
+
     res.json({ message: 'Work log deleted successfully' });
   } catch (error) {
     console.error('Error deleting work log:', error);
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { ensureSystemRoles } from './services/permissionService.js';
 
 const prisma = new PrismaClient();
 const prismaAny = prisma as typeof prisma & { settings: any };
@@ -20,6 +21,9 @@ async function main() {
     },
   });
 
+  // System roles (HR, Accountant, Project Manager)
+  await ensureSystemRoles();
+
   // Check if projects already exist
   let project1 = await prisma.project.findFirst({ where: { name: 'Web Development' } });
 
@@ -34,6 +38,15 @@ async function main() {
 
   console.log('Created/found projects:', { project1 });
 
+  // Default activity types for work logs
+  for (const name of ['Development', 'Meetings', 'Support']) {
+    await prisma.activityType.upsert({
+      where: { name },
+      update: {},
+      create: { name },
+    });
+  }
+
   // Hash password
   const passwordHash = await bcrypt.hash('password123', 10);
 
@@ -56,18 +69,6 @@ async function main() {
     },
   });
 
-  // Create entitlements for admin
-  await prisma.entitlement.upsert({
-    where: { userId: admin.id },
-    update: {},
-    create: {
-      userId: admin.id,
-      vacationDays: 25,
-      sickLeaveDays: 10,
-      dayOffDays: 5,
-    },
-  });
-
   // Create employee user
   const employee = await prisma.user.upsert({
     where: { email: 'employee@example.com' },
@@ -90,18 +91,6 @@ async function main() {
     },
   });
 
-  // Create entitlements for employee
-  await prisma.entitlement.upsert({
-    where: { userId: employee.id },
-    update: {},
-    create: {
-      userId: employee.id,
-      vacationDays: 20,
-      sickLeaveDays: 10,
-      dayOffDays: 5,
-    },
-  });
-
 
   console.log('Created/found users:', { admin, employee });
 
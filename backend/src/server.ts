@@ -7,10 +7,22 @@ import employeeRoutes from './routes/employees.js';
 import entitlementRoutes from './routes/entitlements.js';
 import adminRoutes from './routes/admin.js';
 import workLogRoutes from './routes/worklogs.js';
+import timerRoutes from './routes/timer.js';
+import timesheetRoutes from './routes/timesheets.js';
+import activityTypeRoutes from './routes/activityTypes.js';
 import projectRoutes from './routes/projects.js';
 import technologyRoutes from './routes/technologies.js';
 import userTechnologyRoutes from './routes/user-technologies.js';
 import positionRoutes from './routes/positions.js';
+import holidayRoutes from './routes/holidays.js';
+import leavePolicyRoutes from './routes/leavePolicies.js';
+import delegationRoutes from './routes/delegations.js';
+import roleRoutes from './routes/roles.js';
+import twoFactorRoutes from './routes/twoFactor.js';
+import apiTokenRoutes from './routes/apiTokens.js';
+import auditLogRoutes from './routes/auditLogs.js';
+import billingRoutes from './routes/billing.js';
+import { auditMutations } from './middleware/audit.js';
 
 dotenv.config();
 
@@ -22,6 +34,7 @@ app.use(cors({
   credentials: true
 }));
 app.use(express.json());
+app.use('/api', auditMutations);
 
 app.use('/api/auth', authRoutes);
 app.use('/api/absences', absenceRoutes);
@@ -29,10 +42,21 @@ app.use('/api/employees', employeeRoutes);
 app.use('/api/entitlements', entitlementRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/worklogs', workLogRoutes);
+app.use('/api/timer', timerRoutes);
+app.use('/api/timesheets', timesheetRoutes);
+app.use('/api/activity-types', activityTypeRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/technologies', technologyRoutes);
 app.use('/api/user-technologies', userTechnologyRoutes);
 app.use('/api/positions', positionRoutes);
+app.use('/api/holiday-calendars', holidayRoutes);
+app.use('/api/leave-policies', leavePolicyRoutes);
+app.use('/api/delegations', delegationRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/two-factor', twoFactorRoutes);
+app.use('/api/api-tokens', apiTokenRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
+app.use('/api/billing', billingRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok' });
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Personal API tokens for scripts and integrations:
+ * - A token acts as its owner with the owner's current permissions, but only on the
+ *   endpoints its scopes allow; everything else, including auth, admin and token
+ *   management, is refused
+ * - Tokens start with `pat_` and are stored as SHA-256 hashes; the plain token is shown once
+ * - Every token expires; revoking it or deleting its owner stops it immediately
+ */
+
+export const API_TOKEN_PREFIX = 'pat_';
+export const MAX_API_TOKEN_DAYS = 365;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const API_TOKEN_SCOPES = [
+  'reports.read',
+  'worklogs.read',
+  'worklogs.write',
+  'absences.read',
+  'absences.write',
+  'directory.read',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'reports.read': 'Monthly work log reports and work logs of people the owner may see',
+  'worklogs.read': "The owner's own work logs, running timer and timesheets",
+  'worklogs.write': 'Create, edit and delete work logs; start and stop the timer; submit timesheets',
+  'absences.read': 'Absences and leave balances',
+  'absences.write': 'Request, edit and cancel absences',
+  'directory.read': 'Employees, projects, positions, technologies and activity types',
+};
+
+interface ScopeRule {
+  scope: ApiTokenScope;
+  methods: string[];
+  path: RegExp;
+}
+
+// Endpoints a token may call, by scope. Paths are matched without the query string.
+const SCOPE_RULES: ScopeRule[] = [
+  { scope: 'reports.read', methods: ['GET'], path: /^\/api\/worklogs(\/report)?$/ },
+  { scope: 'reports.read', methods: ['GET'], path: /^\/api\/employees\/reports$/ },
+  { scope: 'worklogs.read', methods: ['GET'], path: /^\/api\/worklogs\/me$/ },
+  { scope: 'worklogs.write', methods: ['POST'], path: /^\/api\/worklogs$/ },
+  { scope: 'worklogs.write', methods: ['PUT', 'DELETE'], path: /^\/api\/worklogs\/[^/]+$/ },
+  { scope: 'worklogs.read', methods: ['GET'], path: /^\/api\/timer$/ },
+  { scope: 'worklogs.write', methods: ['DELETE'], path: /^\/api\/timer$/ },
+  { scope: 'worklogs.write', methods: ['POST'], path: /^\/api\/timer\/(start|pause|resume|stop)$/ },
+  { scope: 'worklogs.read', methods: ['GET'], path: /^\/api\/timesheets\/me$/ },
+  { scope: 'worklogs.write', methods: ['POST'], path: /^\/api\/timesheets\/submit$/ },
+  { scope: 'absences.read', methods: ['GET'], path: /^\/api\/absences$/ },
+  { scope: 'absences.read', methods: ['GET'], path: /^\/api\/entitlements\/me$/ },
+  { scope: 'absences.write', methods: ['POST'], path: /^\/api\/absences$/ },
+  { scope: 'absences.write', methods: ['PUT'], path: /^\/api\/absences\/[^/]+$/ },
+  { scope: 'absences.write', methods: ['PATCH'], path: /^\/api\/absences\/[^/]+\/cancel$/ },
+  {
+    scope: 'directory.read',
+    methods: ['GET'],
+    path: /^\/api\/employees(\/(?!reports$)[^/]+)?$/,
+  },
+  {
+    scope: 'directory.read',
+    methods: ['GET'],
+    path: /^\/api\/(projects|positions|technologies|user-technologies|activity-types)(\/[^/]+)?$/,
+  },
+];
+
+export const isApiTokenScope = (value: string): value is ApiTokenScope =>
+  (API_TOKEN_SCOPES as readonly string[]).includes(value);
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Whether a token with these scopes may make this request
+ */
+export function isRequestAllowedForScopes(
+  scopes: readonly string[],
+  method: string,
+  originalUrl: string
+): boolean {
+  const path = originalUrl.split('?')[0].replace(/\/+$/, '');
+  return SCOPE_RULES.some(
+    (rule) => scopes.includes(rule.scope) && rule.methods.includes(method) && rule.path.test(path)
+  );
+}
+
+const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdAt: true,
+} as const;
+
+export async function listApiTokens(userId: string) {
+  return prisma.apiToken.findMany({
+    where: { userId, revokedAt: null },
+    select: apiTokenSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Create a token; the plain token is only returned here
+ */
+export async function createApiToken(
+  userId: string,
+  data: { name: string; scopes: ApiTokenScope[]; expiresInDays: number }
+) {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: data.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      scopes: data.scopes,
+      expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+    },
+    select: apiTokenSelect,
+  });
+
+  return { token, apiToken };
+}
+
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const revoked = await prisma.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count > 0;
+}
+
+export async function revokeUserApiTokens(userId: string): Promise<number> {
+  const revoked = await prisma.apiToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count;
+}
+
+/**
+ * Look up a presented token; null when it is unknown, revoked, expired or its owner is deleted.
+ * Records when and from where it was last used.
+ */
+export async function authenticateApiToken(token: string, ipAddress?: string) {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        select: { isAdmin: true, deletedAt: true, twoFactor: { select: { enabledAt: true } } },
+      },
+    },
+  });
+
+  const now = new Date();
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= now || apiToken.user.deletedAt) {
+    return null;
+  }
+
+  // Scripts can call often; only write when the stored time is noticeably old
+  await prisma.apiToken.updateMany({
+    where: {
+      id: apiToken.id,
+      OR: [
+        { lastUsedAt: null },
+        { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } },
+      ],
+    },
+    data: { lastUsedAt: now, lastUsedIp: ipAddress },
+  });
+
+  return apiToken;
+}
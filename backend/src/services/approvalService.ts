@@ -0,0 +1,248 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Absence approval chain:
+ * - Built when a request is created: the requester's manager, then the lead of each of
+ *   the requester's projects (in project name order, each approver once), then HR
+ * - The HR step has no assigned approver; anyone with `absences.approve` can decide it
+ * - Steps are decided in order; HR can decide any step on behalf of its approver,
+ *   and delegates can decide the steps of managers who delegated to them
+ * - A rejection ends the chain: later steps are marked skipped
+ * - Change requests for approved absences append a new chain; its outcome applies the
+ *   change (or not) instead of changing the absence status
+ */
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+const MANAGER_STEP_LABEL = 'Manager';
+const HR_STEP_LABEL = 'HR';
+
+const userSummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+} as const;
+
+export const approvalInclude = {
+  approver: {
+    select: userSummarySelect,
+  },
+  decidedBy: {
+    select: userSummarySelect,
+  },
+} as const;
+
+type ApprovalStep = {
+  id: string;
+  step: number;
+  approverId: string | null;
+  status: string;
+};
+
+interface ApprovalStepData {
+  label: string;
+  approverId: string | null;
+}
+
+async function buildApprovalChain(userId: string): Promise<ApprovalStepData[]> {
+  const requester = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { managerId: true },
+  });
+  const projects = await prisma.project.findMany({
+    where: {
+      users: { some: { id: userId } },
+      leadId: { not: null },
+    },
+    select: { name: true, leadId: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const steps: ApprovalStepData[] = [];
+  const seenApprovers = new Set<string>();
+
+  if (requester?.managerId && requester.managerId !== userId) {
+    seenApprovers.add(requester.managerId);
+    steps.push({ label: MANAGER_STEP_LABEL, approverId: requester.managerId });
+  }
+
+  for (const project of projects) {
+    // Requesters never approve their own absences
+    if (!project.leadId || project.leadId === userId || seenApprovers.has(project.leadId)) {
+      continue;
+    }
+    seenApprovers.add(project.leadId);
+    steps.push({ label: `Project lead (${project.name})`, approverId: project.leadId });
+  }
+
+  steps.push({ label: HR_STEP_LABEL, approverId: null });
+  return steps;
+}
+
+/**
+ * Append an approval chain to an absence: for a new request, or for a change request
+ * (`changeRequestId`) or resubmission of an existing one
+ */
+export async function createApprovalChain(
+  absenceId: string,
+  userId: string,
+  changeRequestId: string | null = null
+): Promise<void> {
+  const steps = await buildApprovalChain(userId);
+  const { _max } = await prisma.absenceApproval.aggregate({
+    where: { absenceId },
+    _max: { step: true },
+  });
+  const firstStep = (_max.step ?? 0) + 1;
+
+  await prisma.absenceApproval.createMany({
+    data: steps.map((step, index) => ({
+      absenceId,
+      changeRequestId,
+      step: firstStep + index,
+      label: step.label,
+      approverId: step.approverId,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Close the undecided steps of an absence's chain, e.g. when the request is withdrawn
+ */
+export async function skipPendingApprovals(absenceId: string): Promise<void> {
+  await prisma.absenceApproval.updateMany({
+    where: { absenceId, status: 'pending' },
+    data: { status: 'skipped' },
+  });
+}
+
+/**
+ * Create chains for pending requests submitted before approval chains existed
+ */
+export async function ensureApprovalChains(
+  absences: Array<{ id: string; userId: string; status: string; approvals: unknown[] }>
+): Promise<boolean> {
+  const missing = absences.filter(
+    (absence) => absence.status === 'pending' && absence.approvals.length === 0
+  );
+
+  for (const absence of missing) {
+    await createApprovalChain(absence.id, absence.userId);
+  }
+
+  return missing.length > 0;
+}
+
+/**
+ * First undecided step of a chain ordered by step
+ */
+export function getCurrentApprovalStep<T extends ApprovalStep>(approvals: T[]): T | null {
+  return (
+    [...approvals].sort((a, b) => a.step - b.step).find((approval) => approval.status === 'pending') ??
+    null
+  );
+}
+
+/**
+ * HR approvers (`absences.approve`) can decide any step; other users only the steps
+ * assigned to them or to a manager they act for (see `getActingApproverIds`)
+ */
+export function canDecideApprovalStep(
+  approval: ApprovalStep,
+  actingApproverIds: string[],
+  canApproveAll: boolean
+): boolean {
+  return canApproveAll || (!!approval.approverId && actingApproverIds.includes(approval.approverId));
+}
+
+/**
+ * Record a decision on a step and apply the outcome once the chain completes.
+ * Returns the status of the request being decided (the absence or its change request),
+ * or null if the step was decided in the meantime.
+ */
+export async function recordApprovalDecision(params: {
+  absenceId: string;
+  approvalId: string;
+  decidedById: string;
+  decision: ApprovalDecision;
+  comment: string | null;
+}): Promise<'pending' | 'approved' | 'rejected' | null> {
+  const { absenceId, approvalId, decidedById, decision, comment } = params;
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.absenceApproval.updateMany({
+      where: { id: approvalId, status: 'pending' },
+      data: {
+        status: decision,
+        decidedById,
+        decidedAt: new Date(),
+        comment,
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const { changeRequest } = await tx.absenceApproval.findUniqueOrThrow({
+      where: { id: approvalId },
+      include: { changeRequest: true },
+    });
+
+    if (decision === 'rejected') {
+      await tx.absenceApproval.updateMany({
+        where: { absenceId, status: 'pending' },
+        data: { status: 'skipped' },
+      });
+      if (changeRequest) {
+        // The absence keeps its approved dates
+        await tx.absenceChangeRequest.update({
+          where: { id: changeRequest.id },
+          data: { status: 'rejected' },
+        });
+      } else {
+        await tx.absence.update({
+          where: { id: absenceId },
+          data: { status: 'rejected' },
+        });
+      }
+      return 'rejected';
+    }
+
+    const remaining = await tx.absenceApproval.count({
+      where: { absenceId, status: 'pending' },
+    });
+    if (remaining > 0) {
+      return 'pending';
+    }
+
+    if (!changeRequest) {
+      await tx.absence.update({
+        where: { id: absenceId },
+        data: { status: 'approved' },
+      });
+      return 'approved';
+    }
+
+    await tx.absenceChangeRequest.update({
+      where: { id: changeRequest.id },
+      data: { status: 'approved' },
+    });
+    await tx.absence.update({
+      where: { id: absenceId },
+      data:
+        changeRequest.kind === 'cancel'
+          ? { status: 'cancelled' }
+          : {
+              from: changeRequest.from!,
+              to: changeRequest.to!,
+              portion: changeRequest.portion!,
+              hours: changeRequest.hours,
+            },
+    });
+    return 'approved';
+  });
+}
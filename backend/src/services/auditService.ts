@@ -0,0 +1,196 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Audit trail of data changes:
+ * - The auditMutations middleware writes one entry for every successful POST, PUT, PATCH or
+ *   DELETE with the actor, route, entity and IP
+ * - Routes describe their change with `auditChange`: a more specific action, the entity id
+ *   and the record before and after; the entry then holds the changed fields
+ * - Secrets (password and token hashes, 2FA secrets) are never stored, only that they changed
+ */
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditChange {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditEntry {
+  actorId?: string;
+  action: string;
+  entityType: string;
+  entityId?: string;
+  changes?: AuditChanges;
+  route: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+const REDACTED_FIELDS = new Set([
+  'password',
+  'passwordHash',
+  'tokenHash',
+  'refreshTokenHash',
+  'secret',
+  'pendingSecret',
+  'recoveryCodeHashes',
+  'codeVerifier',
+]);
+
+// Path segment under /api (or /api/admin) -> entity type
+const ENTITY_TYPES: Record<string, string> = {
+  users: 'user',
+  employees: 'user',
+  absences: 'absence',
+  requests: 'absence',
+  worklogs: 'worklog',
+  timer: 'work_timer',
+  timesheets: 'timesheet',
+  projects: 'project',
+  technologies: 'technology',
+  'activity-types': 'activity_type',
+  'user-technologies': 'user_technology',
+  positions: 'position',
+  'holiday-calendars': 'holiday_calendar',
+  'leave-policies': 'leave_policy',
+  delegations: 'delegation',
+  roles: 'role',
+  settings: 'settings',
+  'two-factor': 'two_factor',
+  'api-tokens': 'api_token',
+  auth: 'auth',
+};
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+export const actionForMethod = (method: string) => METHOD_ACTIONS[method] ?? method.toLowerCase();
+
+// "/api/admin/users/:id/unlock" -> "user"
+export function entityTypeForRoute(routePath: string): string {
+  const segments = routePath.split('/').filter(Boolean);
+  const [first, second] = segments[0] === 'api' ? segments.slice(1) : segments;
+  const segment = first === 'admin' && second ? second : first;
+  return ENTITY_TYPES[segment] ?? segment ?? 'unknown';
+}
+
+// Dates as ISO strings, related records as their ids, so values compare and store as JSON
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeValue);
+    return items.every((item) => typeof item === 'string') ? [...items].sort() : items;
+  }
+  if (value && typeof value === 'object') {
+    if ('id' in value) {
+      return (value as { id: unknown }).id;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, normalizeValue(nested)])
+    );
+  }
+  return value ?? null;
+}
+
+/**
+ * Fields that differ between two versions of a record; a missing side means created or deleted
+ */
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+
+    const from = before ? normalizeValue(previous[key]) : null;
+    const to = after ? normalizeValue(next[key]) : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) {
+      continue;
+    }
+
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { from: '[redacted]', to: '[redacted]' }
+      : { from, to };
+  }
+
+  return changes;
+}
+
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  await prisma.auditLog.create({
+    data: {
+      actorId: entry.actorId,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      changes:
+        entry.changes && Object.keys(entry.changes).length > 0
+          ? (entry.changes as Prisma.InputJsonObject)
+          : undefined,
+      route: entry.route,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent?.slice(0, 500),
+    },
+  });
+}
+
+const buildWhere = (filters: AuditLogFilters): Prisma.AuditLogWhereInput => ({
+  actorId: filters.actorId,
+  entityType: filters.entityType,
+  entityId: filters.entityId,
+  createdAt:
+    filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+});
+
+export async function listAuditLogs(filters: AuditLogFilters, page: number, pageSize: number) {
+  const where = buildWhere(filters);
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      include: {
+        actor: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return { entries, total };
+}
+
+export async function listAuditEntityTypes(): Promise<string[]> {
+  const rows = await prisma.auditLog.findMany({
+    distinct: ['entityType'],
+    select: { entityType: true },
+    orderBy: { entityType: 'asc' },
+  });
+  return rows.map((row) => row.entityType);
+}
@@ -0,0 +1,307 @@
+import { HourlyRate, InvoiceSnapshot, Prisma, PrismaClient } from '@prisma/client';
+import { toEffectiveDate } from './settingsService.js';
+import { filterApprovedWorkLogs } from './timesheetService.js';
+import { getPeriodWorkLogRange } from '../utils/timesheetUtils.js';
+import { getWorkLogHours } from '../utils/workLogUtils.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Billing:
+ * - Only work logs marked billable are billed; the others are reported as non-billable hours
+ * - A log's rate is the most specific hourly rate in force on its day: user, then position
+ *   (the user's current position), then project; at each level a rate limited to the log's
+ *   project beats a general one, and the latest `effectiveFrom` wins
+ * - Billable logs without any rate are billed at 0 and reported as unrated hours
+ * - Invoice snapshots freeze the lines of a period; a project's snapshots cannot overlap
+ */
+
+export interface BillingLine {
+  workLogId: string;
+  date: string; // YYYY-MM-DD
+  userId: string;
+  userName: string;
+  taskName: string | null;
+  activityTypeName: string | null;
+  note: string | null;
+  hours: number;
+  rate: number | null; // null when no rate applies
+  amount: number;
+}
+
+export interface BillingUserTotal {
+  userId: string;
+  userName: string;
+  hours: number;
+  amount: number;
+}
+
+export interface ProjectBilling {
+  projectId: string;
+  projectName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  approvedOnly: boolean;
+  lines: BillingLine[];
+  byUser: BillingUserTotal[];
+  totalHours: number;
+  totalAmount: number;
+  unratedHours: number;
+  nonBillableHours: number;
+}
+
+export interface InvoiceSnapshotChanges {
+  added: number; // Billable work logs logged since the snapshot
+  removed: number; // Work logs deleted or no longer billable
+  modified: number; // Work logs whose hours or rate changed
+  totalHours: number; // Current totals of the period
+  totalAmount: number;
+}
+
+interface RateTarget {
+  userId: string;
+  positionId: string | null;
+  projectId: string;
+  day: Date; // UTC midnight
+}
+
+const SCOPE_PRECEDENCE: Record<HourlyRate['scope'], number> = {
+  user: 2,
+  position: 1,
+  project: 0,
+};
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const rateSpecificity = (rate: HourlyRate) =>
+  SCOPE_PRECEDENCE[rate.scope] * 2 + (rate.scope !== 'project' && rate.projectId ? 1 : 0);
+
+/**
+ * The rate in force for a work log, or null when none applies
+ */
+export function findApplicableRate(rates: HourlyRate[], target: RateTarget): HourlyRate | null {
+  const applicable = rates.filter(
+    (rate) =>
+      rate.effectiveFrom <= target.day &&
+      (rate.projectId === null || rate.projectId === target.projectId) &&
+      (rate.scope === 'project' ||
+        (rate.scope === 'user' && rate.userId === target.userId) ||
+        (rate.scope === 'position' &&
+          rate.positionId !== null &&
+          rate.positionId === target.positionId))
+  );
+
+  return (
+    applicable.sort(
+      (a, b) =>
+        rateSpecificity(b) - rateSpecificity(a) ||
+        b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+    )[0] ?? null
+  );
+}
+
+/**
+ * Billable hours and amounts of a project between two days (UTC midnight, inclusive)
+ */
+export async function getProjectBilling(
+  projectId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  approvedOnly = false
+): Promise<ProjectBilling | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    return null;
+  }
+
+  const loadedLogs = await prisma.workLog.findMany({
+    where: {
+      projectId,
+      date: getPeriodWorkLogRange({ periodStart, periodEnd }),
+    },
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true, positionId: true } },
+      task: { select: { name: true } },
+      activityType: { select: { name: true } },
+    },
+    orderBy: [{ date: 'asc' }, { start: 'asc' }],
+  });
+  const workLogs = approvedOnly ? await filterApprovedWorkLogs(loadedLogs) : loadedLogs;
+
+  const rates = await prisma.hourlyRate.findMany({
+    where: {
+      effectiveFrom: { lte: periodEnd },
+      OR: [{ projectId }, { projectId: null }],
+    },
+  });
+
+  const lines: BillingLine[] = [];
+  let nonBillableHours = 0;
+  for (const log of workLogs) {
+    const hours = roundHours(getWorkLogHours(log));
+    if (!log.isBillable) {
+      nonBillableHours += hours;
+      continue;
+    }
+
+    const day = toEffectiveDate(log.date);
+    const rate = findApplicableRate(rates, {
+      userId: log.userId,
+      positionId: log.user.positionId,
+      projectId,
+      day,
+    });
+    lines.push({
+      workLogId: log.id,
+      date: day.toISOString().slice(0, 10),
+      userId: log.userId,
+      userName: `${log.user.firstName} ${log.user.lastName}`,
+      taskName: log.task?.name ?? null,
+      activityTypeName: log.activityType?.name ?? null,
+      note: log.note,
+      hours,
+      rate: rate?.rate ?? null,
+      amount: rate ? roundAmount(hours * rate.rate) : 0,
+    });
+  }
+
+  const byUser = new Map<string, BillingUserTotal>();
+  for (const line of lines) {
+    const total = byUser.get(line.userId) ?? {
+      userId: line.userId,
+      userName: line.userName,
+      hours: 0,
+      amount: 0,
+    };
+    total.hours = roundHours(total.hours + line.hours);
+    total.amount = roundAmount(total.amount + line.amount);
+    byUser.set(line.userId, total);
+  }
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    periodStart,
+    periodEnd,
+    approvedOnly,
+    lines,
+    byUser: [...byUser.values()].sort((a, b) => a.userName.localeCompare(b.userName)),
+    totalHours: roundHours(lines.reduce((sum, line) => sum + line.hours, 0)),
+    totalAmount: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)),
+    unratedHours: roundHours(
+      lines.filter((line) => line.rate === null).reduce((sum, line) => sum + line.hours, 0)
+    ),
+    nonBillableHours: roundHours(nonBillableHours),
+  };
+}
+
+/**
+ * Freeze a project's billing for a period as an invoice snapshot
+ */
+export async function createInvoiceSnapshot({
+  projectId,
+  periodStart,
+  periodEnd,
+  approvedOnly,
+  reference,
+  createdById,
+}: {
+  projectId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  approvedOnly: boolean;
+  reference: string | null;
+  createdById: string;
+}): Promise<{ snapshot: InvoiceSnapshot } | { error: string }> {
+  if (periodEnd < periodStart) {
+    return { error: 'The period must end on or after its first day' };
+  }
+
+  const billing = await getProjectBilling(projectId, periodStart, periodEnd, approvedOnly);
+  if (!billing) {
+    return { error: 'Project not found' };
+  }
+
+  const overlapping = await prisma.invoiceSnapshot.findFirst({
+    where: {
+      projectId,
+      periodStart: { lte: periodEnd },
+      periodEnd: { gte: periodStart },
+    },
+  });
+  if (overlapping) {
+    return {
+      error: `This period overlaps the invoice snapshot of ${overlapping.periodStart
+        .toISOString()
+        .slice(0, 10)} - ${overlapping.periodEnd.toISOString().slice(0, 10)}`,
+    };
+  }
+
+  if (billing.lines.length === 0) {
+    return { error: 'There are no billable work logs in this period' };
+  }
+  if (billing.unratedHours > 0) {
+    return {
+      error: `${billing.unratedHours} billable hours have no hourly rate. Add rates before invoicing.`,
+    };
+  }
+
+  const snapshot = await prisma.invoiceSnapshot.create({
+    data: {
+      projectId,
+      projectName: billing.projectName,
+      periodStart,
+      periodEnd,
+      approvedOnly,
+      reference,
+      totalHours: billing.totalHours,
+      totalAmount: billing.totalAmount,
+      lines: billing.lines as unknown as Prisma.InputJsonValue,
+      createdById,
+    },
+  });
+
+  return { snapshot };
+}
+
+/**
+ * How the work logs of a snapshot's period differ from what was frozen, or null when the
+ * project no longer exists
+ */
+export async function getInvoiceSnapshotChanges(
+  snapshot: InvoiceSnapshot
+): Promise<InvoiceSnapshotChanges | null> {
+  if (!snapshot.projectId) {
+    return null;
+  }
+
+  const current = await getProjectBilling(
+    snapshot.projectId,
+    snapshot.periodStart,
+    snapshot.periodEnd,
+    snapshot.approvedOnly
+  );
+  if (!current) {
+    return null;
+  }
+
+  const frozen = new Map(
+    (snapshot.lines as unknown as BillingLine[]).map((line) => [line.workLogId, line])
+  );
+  const currentIds = new Set(current.lines.map((line) => line.workLogId));
+
+  return {
+    added: current.lines.filter((line) => !frozen.has(line.workLogId)).length,
+    removed: [...frozen.keys()].filter((id) => !currentIds.has(id)).length,
+    modified: current.lines.filter((line) => {
+      const frozenLine = frozen.get(line.workLogId);
+      return frozenLine && (frozenLine.hours !== line.hours || frozenLine.rate !== line.rate);
+    }).length,
+    totalHours: current.totalHours,
+    totalAmount: current.totalAmount,
+  };
+}
@@ -0,0 +1,259 @@
+import { PrismaClient, ProjectBudget } from '@prisma/client';
+import { createMailer } from './mail/mailer.js';
+import { getProjectBilling } from './billingService.js';
+import { toEffectiveDate } from './settingsService.js';
+import { getPeriodWorkLogRange } from '../utils/timesheetUtils.js';
+import { getWorkLogHours } from '../utils/workLogUtils.js';
+
+const prisma = new PrismaClient();
+const mailer = createMailer();
+
+/**
+ * Project budgets:
+ * - A budget caps the hours logged on a project, or its billable amount at the hourly rates
+ *   (services/billingService.ts), for the whole project or for a period (a month or a phase)
+ * - Burn is computed from the work logs of the budget's period; budgets without a period
+ *   count every work log of the project
+ * - Dated budgets in progress forecast their use at the end of the period from the burn so far
+ * - When burn reaches one of the project's alert thresholds (percentages), the project lead is
+ *   emailed once per threshold; if burn drops again (e.g. a log was deleted), the threshold
+ *   can alert again
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export interface BudgetBurnPoint {
+  date: string; // YYYY-MM-DD
+  remaining: number;
+}
+
+export interface BudgetBurn {
+  used: number;
+  remaining: number;
+  percentUsed: number;
+  forecast: number | null; // Expected use at the end of the period; null without one
+  forecastPercent: number | null;
+  reachedThreshold: number | null; // Highest alert threshold reached
+  status: BudgetStatus;
+  burnDown: BudgetBurnPoint[]; // Remaining budget at the end of each day so far
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatDay = (day: Date) => day.toISOString().slice(0, 10);
+
+/**
+ * Label of a budget for messages: its phase name, its period or the whole project
+ */
+export function getBudgetLabel(budget: ProjectBudget): string {
+  if (budget.name) {
+    return budget.name;
+  }
+  if (budget.periodStart && budget.periodEnd) {
+    return `${formatDay(budget.periodStart)} - ${formatDay(budget.periodEnd)}`;
+  }
+  return 'Whole project';
+}
+
+// Amount used per day (YYYY-MM-DD) between two days (UTC midnight, inclusive)
+async function getDailyUsage(
+  budget: ProjectBudget,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<Map<string, number>> {
+  const usage = new Map<string, number>();
+
+  if (budget.kind === 'money') {
+    const billing = await getProjectBilling(budget.projectId, periodStart, periodEnd);
+    for (const line of billing?.lines ?? []) {
+      usage.set(line.date, (usage.get(line.date) ?? 0) + line.amount);
+    }
+    return usage;
+  }
+
+  const workLogs = await prisma.workLog.findMany({
+    where: {
+      projectId: budget.projectId,
+      date: getPeriodWorkLogRange({ periodStart, periodEnd }),
+    },
+    select: { date: true, start: true, end: true, breakMinutes: true },
+  });
+  for (const log of workLogs) {
+    const day = formatDay(toEffectiveDate(log.date));
+    usage.set(day, (usage.get(day) ?? 0) + getWorkLogHours(log));
+  }
+  return usage;
+}
+
+// Budgets without a period run from the project's first work log
+async function getBudgetPeriod(budget: ProjectBudget, today: Date) {
+  if (budget.periodStart && budget.periodEnd) {
+    return { periodStart: budget.periodStart, periodEnd: budget.periodEnd };
+  }
+
+  const [first, last] = await Promise.all([
+    prisma.workLog.findFirst({
+      where: { projectId: budget.projectId },
+      orderBy: { date: 'asc' },
+      select: { date: true },
+    }),
+    prisma.workLog.findFirst({
+      where: { projectId: budget.projectId },
+      orderBy: { date: 'desc' },
+      select: { date: true },
+    }),
+  ]);
+  const firstDay = first ? toEffectiveDate(first.date) : today;
+  const lastDay = last ? toEffectiveDate(last.date) : today;
+
+  return {
+    periodStart: firstDay < today ? firstDay : today,
+    periodEnd: lastDay > today ? lastDay : today,
+  };
+}
+
+/**
+ * Burn of a budget against the project's alert thresholds
+ */
+export async function getBudgetBurn(
+  budget: ProjectBudget,
+  thresholds: number[],
+  now: Date = new Date()
+): Promise<BudgetBurn> {
+  const today = toEffectiveDate(now);
+  const { periodStart, periodEnd } = await getBudgetPeriod(budget, today);
+  const usage = await getDailyUsage(budget, periodStart, periodEnd);
+
+  const used = round([...usage.values()].reduce((sum, value) => sum + value, 0));
+  const percentUsed = budget.amount > 0 ? round((used / budget.amount) * 100) : 0;
+
+  // The chart stops today, or at the last logged day when work was logged ahead
+  const lastUsedDay = [...usage.keys()].sort().pop();
+  let chartEnd = today < periodEnd ? today : periodEnd;
+  if (lastUsedDay && lastUsedDay > formatDay(chartEnd)) {
+    chartEnd = new Date(`${lastUsedDay}T00:00:00.000Z`);
+  }
+
+  const burnDown: BudgetBurnPoint[] = [];
+  let remaining = budget.amount;
+  for (let day = periodStart; day <= chartEnd; day = new Date(day.getTime() + DAY_MS)) {
+    remaining -= usage.get(formatDay(day)) ?? 0;
+    burnDown.push({ date: formatDay(day), remaining: round(remaining) });
+  }
+
+  let forecast: number | null = null;
+  if (budget.periodStart && budget.periodEnd && today >= periodStart) {
+    if (today >= periodEnd) {
+      forecast = used;
+    } else {
+      const elapsedDays = (today.getTime() - periodStart.getTime()) / DAY_MS + 1;
+      const totalDays = (periodEnd.getTime() - periodStart.getTime()) / DAY_MS + 1;
+      forecast = round((used / elapsedDays) * totalDays);
+    }
+  }
+  const forecastPercent =
+    forecast !== null && budget.amount > 0 ? round((forecast / budget.amount) * 100) : null;
+
+  const reached = thresholds.filter((threshold) => percentUsed >= threshold);
+  const reachedThreshold = reached.length > 0 ? Math.max(...reached) : null;
+
+  let status: BudgetStatus = 'ok';
+  if (percentUsed >= 100) {
+    status = 'over';
+  } else if (reachedThreshold !== null || (forecastPercent !== null && forecastPercent > 100)) {
+    status = 'warning';
+  }
+
+  return {
+    used,
+    remaining: round(budget.amount - used),
+    percentUsed,
+    forecast,
+    forecastPercent,
+    reachedThreshold,
+    status,
+    burnDown,
+  };
+}
+
+/**
+ * A project's budgets with their burn, dated ones by period and whole-project ones first
+ */
+export async function getProjectBudgetsWithBurn(projectId: string, thresholds: number[]) {
+  const budgets = await prisma.projectBudget.findMany({
+    where: { projectId },
+    orderBy: [{ periodStart: { sort: 'asc', nulls: 'first' } }, { kind: 'asc' }],
+  });
+
+  return Promise.all(
+    budgets.map(async (budget) => ({ ...budget, burn: await getBudgetBurn(budget, thresholds) }))
+  );
+}
+
+/**
+ * Email the project lead about budgets that reached a higher alert threshold since the last
+ * check. Called after work logs of the project change.
+ */
+export async function checkBudgetAlerts(projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      budgets: true,
+      lead: { select: { email: true, firstName: true, deletedAt: true } },
+    },
+  });
+  if (!project || project.budgets.length === 0) {
+    return;
+  }
+
+  for (const budget of project.budgets) {
+    const burn = await getBudgetBurn(budget, project.budgetAlertThresholds);
+    if (burn.reachedThreshold === budget.alertedThreshold) {
+      continue;
+    }
+
+    await prisma.projectBudget.update({
+      where: { id: budget.id },
+      data: { alertedThreshold: burn.reachedThreshold },
+    });
+
+    const isNewThreshold =
+      burn.reachedThreshold !== null && burn.reachedThreshold > (budget.alertedThreshold ?? 0);
+    if (!isNewThreshold || !project.lead || project.lead.deletedAt) {
+      continue;
+    }
+
+    const unit = budget.kind === 'hours' ? 'hours' : 'billable amount';
+    await mailer.send({
+      to: project.lead.email,
+      subject: `${project.name}: ${burn.percentUsed}% of budget "${getBudgetLabel(budget)}" used`,
+      text: [
+        `Hi ${project.lead.firstName},`,
+        '',
+        `The ${unit} budget "${getBudgetLabel(budget)}" of project ${project.name} ` +
+          `reached ${burn.reachedThreshold}% of its limit.`,
+        `Used: ${burn.used} of ${budget.amount} (${burn.percentUsed}%)`,
+        `Remaining: ${burn.remaining}`,
+        ...(burn.forecast !== null
+          ? [`Forecast at the end of the period: ${burn.forecast} (${burn.forecastPercent}%)`]
+          : []),
+      ].join('\n'),
+    });
+  }
+}
+
+/**
+ * Check the budget alerts of projects whose work logs changed, without waiting for the emails;
+ * failures only reach the server log
+ */
+export function queueBudgetAlerts(projectIds: (string | null | undefined)[]): void {
+  for (const projectId of new Set(projectIds)) {
+    if (projectId) {
+      checkBudgetAlerts(projectId).catch((error) =>
+        console.error('Error checking budget alerts:', error)
+      );
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { PrismaClient, CoverageEnforcement } from '@prisma/client';
+import { getHolidaysForUser } from './holidayService.js';
+import { isWorkingDay, toDateKey } from '../utils/dateUtils.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Project coverage rules:
+ * - `maxConcurrentAbsences`: at most this many project members away on the same working day
+ * - Critical members: no two critical members of a project away on the same working day
+ * - Pending and approved absences count; work from home does not
+ * - Each project decides whether a broken rule only warns or blocks the request
+ */
+
+const AWAY_TYPES = ['vacation', 'sick_leave', 'day_off'] as const;
+
+type AwayType = (typeof AWAY_TYPES)[number];
+
+export type CoverageRule = 'max_concurrent' | 'critical_overlap';
+
+interface CoverageUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface CoverageConflict {
+  projectId: string;
+  projectName: string;
+  rule: CoverageRule;
+  enforcement: CoverageEnforcement;
+  message: string;
+  dates: string[]; // YYYY-MM-DD working days on which the rule is broken
+  users: CoverageUser[]; // Other members away on those days
+}
+
+export interface CoverageCheckInput {
+  userId: string;
+  type: string;
+  from: Date;
+  to: Date;
+  excludeAbsenceId?: string;
+}
+
+const userSummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+} as const;
+
+const formatUserNames = (users: CoverageUser[]) =>
+  users.map((user) => `${user.firstName} ${user.lastName}`).join(', ');
+
+function getDayKeys(from: Date, to: Date): string[] {
+  const keys: string[] = [];
+  const current = new Date(from);
+  current.setHours(0, 0, 0, 0);
+  const end = new Date(to);
+  end.setHours(23, 59, 59, 999);
+
+  while (current <= end) {
+    keys.push(toDateKey(current));
+    current.setDate(current.getDate() + 1);
+  }
+
+  return keys;
+}
+
+/**
+ * Check an absence request against the coverage rules of the requester's projects.
+ * Returns one conflict per broken rule; an empty list means the request is fine.
+ */
+export async function findCoverageConflicts({
+  userId,
+  type,
+  from,
+  to,
+  excludeAbsenceId,
+}: CoverageCheckInput): Promise<CoverageConflict[]> {
+  if (!AWAY_TYPES.includes(type as AwayType)) {
+    return [];
+  }
+
+  const projects = await prisma.project.findMany({
+    where: {
+      users: { some: { id: userId } },
+      OR: [{ maxConcurrentAbsences: { not: null } }, { criticalMembers: { some: {} } }],
+    },
+    select: {
+      id: true,
+      name: true,
+      maxConcurrentAbsences: true,
+      coverageEnforcement: true,
+      users: { select: userSummarySelect },
+      criticalMembers: { select: { id: true } },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  if (projects.length === 0) {
+    return [];
+  }
+
+  // Only working days of the requester can leave a project short
+  const holidays = await getHolidaysForUser(userId, from, to);
+  const requestedDays = new Set(
+    getDayKeys(from, to).filter((key) => isWorkingDay(new Date(`${key}T00:00:00`), holidays))
+  );
+  if (requestedDays.size === 0) {
+    return [];
+  }
+
+  const colleagueIds = new Set(
+    projects.flatMap((project) => project.users.map((user) => user.id)).filter((id) => id !== userId)
+  );
+
+  const overlapping = await prisma.absence.findMany({
+    where: {
+      userId: { in: [...colleagueIds] },
+      id: excludeAbsenceId ? { not: excludeAbsenceId } : undefined,
+      type: { in: [...AWAY_TYPES] },
+      status: { in: ['pending', 'approved'] },
+      from: { lte: to },
+      to: { gte: from },
+    },
+    select: { userId: true, from: true, to: true },
+  });
+
+  // Day key -> colleagues away on that day
+  const awayByDay = new Map<string, Set<string>>();
+  for (const absence of overlapping) {
+    for (const key of getDayKeys(absence.from, absence.to)) {
+      if (!requestedDays.has(key)) continue;
+      if (!awayByDay.has(key)) {
+        awayByDay.set(key, new Set());
+      }
+      awayByDay.get(key)!.add(absence.userId);
+    }
+  }
+
+  const conflicts: CoverageConflict[] = [];
+
+  for (const project of projects) {
+    const members = new Map(project.users.map((user) => [user.id, user]));
+    const criticalIds = new Set(project.criticalMembers.map((member) => member.id));
+
+    if (project.maxConcurrentAbsences !== null) {
+      const dates: string[] = [];
+      const awayUsers = new Set<string>();
+
+      for (const [key, away] of awayByDay) {
+        const awayMembers = [...away].filter((id) => members.has(id));
+        // The requester is one more member away
+        if (awayMembers.length + 1 > project.maxConcurrentAbsences) {
+          dates.push(key);
+          awayMembers.forEach((id) => awayUsers.add(id));
+        }
+      }
+
+      if (dates.length > 0) {
+        const users = [...awayUsers].map((id) => members.get(id)!);
+        conflicts.push({
+          projectId: project.id,
+          projectName: project.name,
+          rule: 'max_concurrent',
+          enforcement: project.coverageEnforcement,
+          message: `${project.name}: at most ${project.maxConcurrentAbsences} member${
+            project.maxConcurrentAbsences === 1 ? '' : 's'
+          } can be away at the same time (also away: ${formatUserNames(users)})`,
+          dates: dates.sort(),
+          users,
+        });
+      }
+    }
+
+    if (criticalIds.has(userId)) {
+      const dates: string[] = [];
+      const awayUsers = new Set<string>();
+
+      for (const [key, away] of awayByDay) {
+        const awayCritical = [...away].filter((id) => criticalIds.has(id) && members.has(id));
+        if (awayCritical.length > 0) {
+          dates.push(key);
+          awayCritical.forEach((id) => awayUsers.add(id));
+        }
+      }
+
+      if (dates.length > 0) {
+        const users = [...awayUsers].map((id) => members.get(id)!);
+        conflicts.push({
+          projectId: project.id,
+          projectName: project.name,
+          rule: 'critical_overlap',
+          enforcement: project.coverageEnforcement,
+          message: `${project.name}: critical members cannot be away at the same time (also away: ${formatUserNames(
+            users
+          )})`,
+          dates: dates.sort(),
+          users,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
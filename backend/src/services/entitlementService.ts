@@ -1,57 +1,33 @@
 import { PrismaClient } from '@prisma/client';
 import {
-  countWorkingDays,
   hasCompletedTrialPeriod,
   getCurrentYearStart,
   isWeekend,
 } from '../utils/dateUtils.js';
+import { AbsencePortion, countAbsenceWorkingDays } from '../utils/absenceUtils.js';
+import { getHolidaysForUser } from './holidayService.js';
+import { getLeaveYearSummary, syncLeaveLedger } from './leaveLedgerService.js';
+import { getLeavePolicyResolver, LeavePolicyResolver } from './leavePolicyService.js';
 
 const prisma = new PrismaClient();
-const prismaAny = prisma as typeof prisma & { settings: any };
 
 /**
- * Vacation policy:
- * - 18 days per year
- * - 1.5 days per month (accrued on first day of month)
- * - 10 days can be carried over to next year, rest are eliminated
+ * Vacation and sick leave:
+ * - Monthly accrual (on first day of month), annual cap, carryover and trial period
+ *   come from the user's leave policy (see leavePolicyService)
  * - Only working days counted
+ *
+ * Accrual, usage and carryover are posted to the leave ledger (see leaveLedgerService).
  */
-const VACATION_DAYS_PER_MONTH = 1.5;
-
-/**
- * Sick Leave policy:
- * - 10 days per year
- * - Accrued from beginning of new year
- */
-const SICK_LEAVE_DAYS_PER_MONTH = 10 / 12; // ~0.83
-
-const SETTINGS_ID = 'global';
-
-async function getSettings() {
-  const settings = await prismaAny.settings.findUnique({
-    where: { id: SETTINGS_ID },
-  });
-
-  if (settings) {
-    return settings;
-  }
-
-  return prismaAny.settings.create({
-    data: {
-      id: SETTINGS_ID,
-      vacationFutureAccrueDays: VACATION_DAYS_PER_MONTH,
-      vacationCarryoverLimit: 0,
-      sickLeaveWithoutCertificateLimit: 5,
-      sickLeaveWithCertificateLimit: 5,
-    },
-  });
-}
 
 interface EntitlementBreakdown {
+  policyName: string;
+  annualAllowance: number; // Days accrued over a full year under the policy
   currentlyAllowed: number;
   futureAccrue: number;
   pendingForApproval: number;
   approved: number;
+  adjusted: number; // Net manual adjustments this year
 }
 
 interface VacationEntitlement extends EntitlementBreakdown {
@@ -89,108 +65,80 @@ export async function calculateVacationEntitlement(
     where: { id: userId },
   });
 
-  if (!user || !user.hireDate) {
-    // If no hireDate, return 0 entitlement
-    const settings = await getSettings();
-    return {
-      type: 'vacation',
-      currentlyAllowed: 0,
-      futureAccrue: settings.vacationFutureAccrueDays,
-      pendingForApproval: 0,
-      approved: 0,
-      nextAccrueDate: null,
-      nextAccrueAmount: 0,
-    };
-  }
+  const resolvePolicy = await getLeavePolicyResolver(userId);
+  const policy = resolvePolicy(currentDate);
 
-  // Check if trial period is completed (3 months)
-  const trialCompleted = hasCompletedTrialPeriod(user.hireDate);
-  
-  if (!trialCompleted) {
-    const settings = await getSettings();
+  // Without a hireDate, or during the policy's trial period, there is no entitlement yet
+  if (!user || !user.hireDate || !hasCompletedTrialPeriod(user.hireDate, policy.trialPeriodMonths)) {
     return {
       type: 'vacation',
+      policyName: policy.policyName,
+      annualAllowance: policy.vacationAnnualCap,
       currentlyAllowed: 0,
-      futureAccrue: settings.vacationFutureAccrueDays,
+      futureAccrue: policy.vacationDaysPerMonth,
       pendingForApproval: 0,
       approved: 0,
+      adjusted: 0,
       nextAccrueDate: null,
       nextAccrueAmount: 0,
     };
   }
 
   const yearStart = getCurrentYearStart();
-  const hireDate = new Date(user.hireDate);
-  
-  // Calculate months accrued this year
-  // If hired before year start, count full year
-  // If hired during year, count from hire month to current month
-  const startMonth = hireDate >= yearStart ? hireDate.getMonth() : 0;
-  const endMonth = currentDate.getMonth();
-  const hireDay = hireDate.getDate();
-  
-  // Calculate months including current month (accrual on 1st of month)
-  let monthsAccrued = 0;
-  if (hireDate >= yearStart) {
-    if (endMonth >= startMonth) {
-      monthsAccrued = endMonth - startMonth + 1;
-      if (hireDay > 1) {
-        monthsAccrued -= 1;
-      }
-    }
-  } else {
-    monthsAccrued = endMonth + 1; // +1 to include current month
-  }
-
-  monthsAccrued = Math.max(0, monthsAccrued);
 
-  const carriedOverDays = await getPreviousYearCarryover(user, currentDate);
+  // Balance comes from the leave ledger: accruals, carryover, usage of approved absences
+  await syncLeaveLedger(userId, currentDate);
+  const ledger = await getLeaveYearSummary(userId, 'vacation', currentDate.getFullYear());
 
-  // Calculate total accrued this year
-  const accruedThisYear = monthsAccrued * VACATION_DAYS_PER_MONTH;
-
-  // Get approved vacation absences for current year (working days only)
-  const allVacationAbsences = await prisma.absence.findMany({
+  // Pending requests aren't posted to the ledger until approved, so reserve them here
+  const pendingVacationAbsences = await prisma.absence.findMany({
     where: {
       userId,
       type: 'vacation',
-      status: {
-        in: ['approved', 'pending'],
-      },
+      status: 'pending',
       from: {
         gte: yearStart,
       },
     },
   });
 
-  let approvedWorkingDays = 0;
-  let pendingWorkingDays = 0;
+  const holidays = await getHolidaysForUser(
+    userId,
+    yearStart,
+    getLatestAbsenceEnd(pendingVacationAbsences, yearStart)
+  );
 
-  for (const absence of allVacationAbsences) {
-    const days = countWorkingDays(new Date(absence.from), new Date(absence.to));
-    if (absence.status === 'approved') {
-      approvedWorkingDays += days;
-    } else if (absence.status === 'pending') {
-      pendingWorkingDays += days;
-    }
+  let pendingWorkingDays = 0;
+  for (const absence of pendingVacationAbsences) {
+    pendingWorkingDays += countAbsenceWorkingDays(absence, holidays);
   }
 
-  // Currently allowed = accrued + carried over - approved - pending
-  const currentlyAllowed = accruedThisYear + carriedOverDays - approvedWorkingDays - pendingWorkingDays;
+  // Currently allowed = ledger balance (accrued + carried over + adjustments - approved) - pending
+  const currentlyAllowed = ledger.balance - pendingWorkingDays;
 
-  // Future accrue = next month's accrual (1.5 days)
-  const settings = await getSettings();
-  const monthlyAccrue = settings.vacationFutureAccrueDays;
+  // Future accrue = accruals left this year under the policy, up to its annual cap
   const nextAccrualDate = getNextVacationAccrualDate(currentDate, user.hireDate);
-  const monthsRemaining = getRemainingAccrualMonths(currentDate, nextAccrualDate);
-  const futureAccrue = monthsRemaining * monthlyAccrue;
+  const futureAccrue = getRemainingAccrual(
+    currentDate,
+    nextAccrualDate,
+    resolvePolicy,
+    ledger.accrued
+  );
+  const nextPolicy = resolvePolicy(nextAccrualDate ?? currentDate);
+  const monthlyAccrue =
+    nextAccrualDate && nextAccrualDate.getFullYear() === currentDate.getFullYear()
+      ? Math.min(nextPolicy.vacationDaysPerMonth, futureAccrue)
+      : nextPolicy.vacationDaysPerMonth;
 
   return {
     type: 'vacation',
+    policyName: policy.policyName,
+    annualAllowance: policy.vacationAnnualCap,
     currentlyAllowed: Math.round(currentlyAllowed * 100) / 100, // Round to 2 decimals
     futureAccrue: Math.round(futureAccrue * 100) / 100,
     pendingForApproval: Math.round(pendingWorkingDays * 100) / 100,
-    approved: Math.round(approvedWorkingDays * 100) / 100,
+    approved: ledger.used,
+    adjusted: ledger.adjusted,
     nextAccrueDate: nextAccrualDate ? nextAccrualDate.toISOString() : null,
     nextAccrueAmount: Math.round(monthlyAccrue * 100) / 100,
   };
@@ -212,7 +160,12 @@ function getNextVacationAccrualDate(currentDate: Date, hireDate: Date): Date | n
   return nextMonthAccrual;
 }
 
-function getRemainingAccrualMonths(currentDate: Date, nextAccrualDate: Date | null): number {
+function getRemainingAccrual(
+  currentDate: Date,
+  nextAccrualDate: Date | null,
+  resolvePolicy: LeavePolicyResolver,
+  accruedThisYear: number
+): number {
   if (!nextAccrualDate) {
     return 0;
   }
@@ -222,101 +175,23 @@ function getRemainingAccrualMonths(currentDate: Date, nextAccrualDate: Date | nu
     return 0;
   }
 
-  return 12 - nextAccrualDate.getMonth();
-}
-
-function countWorkingDaysWithinRange(from: Date, to: Date, rangeStart: Date, rangeEnd: Date): number {
-  const start = new Date(Math.max(from.getTime(), rangeStart.getTime()));
-  const end = new Date(Math.min(to.getTime(), rangeEnd.getTime()));
-
-  if (end < start) {
-    return 0;
+  let accrued = accruedThisYear;
+  let total = 0;
+  for (let month = nextAccrualDate.getMonth(); month < 12; month++) {
+    const policy = resolvePolicy(new Date(currentYear, month, 1));
+    const amount = Math.min(policy.vacationDaysPerMonth, Math.max(0, policy.vacationAnnualCap - accrued));
+    accrued += amount;
+    total += amount;
   }
 
-  return countWorkingDays(start, end);
+  return total;
 }
 
-async function getPreviousYearCarryover(
-  user: { id: string; hireDate: Date | null },
-  currentDate: Date
-): Promise<number> {
-  if (!user.hireDate) {
-    return 0;
-  }
-
-  const settings = await getSettings();
-
-  const previousYear = currentDate.getFullYear() - 1;
-  const previousYearStart = new Date(previousYear, 0, 1);
-  const previousYearEnd = new Date(previousYear, 11, 31, 23, 59, 59, 999);
-  const hireDate = new Date(user.hireDate);
-
-  if (hireDate > previousYearEnd) {
-    return 0;
-  }
-
-  const hireMonth = hireDate.getMonth();
-  const hireDay = hireDate.getDate();
-  const monthsAccrued =
-    hireDate <= previousYearStart
-      ? 12
-      : Math.max(0, 12 - hireMonth - (hireDay > 1 ? 1 : 0));
-  const accruedPreviousYear = monthsAccrued * VACATION_DAYS_PER_MONTH;
-
-  const approvedAbsences = await prisma.absence.findMany({
-    where: {
-      userId: user.id,
-      type: 'vacation',
-      status: 'approved',
-      from: {
-        lte: previousYearEnd,
-      },
-      to: {
-        gte: previousYearStart,
-      },
-    },
-  });
-
-  const pendingAbsences = await prisma.absence.findMany({
-    where: {
-      userId: user.id,
-      type: 'vacation',
-      status: 'pending',
-      from: {
-        lte: previousYearEnd,
-      },
-      to: {
-        gte: previousYearStart,
-      },
-    },
-  });
-
-  let approvedWorkingDays = 0;
-  for (const absence of approvedAbsences) {
-    approvedWorkingDays += countWorkingDaysWithinRange(
-      new Date(absence.from),
-      new Date(absence.to),
-      previousYearStart,
-      previousYearEnd
-    );
-  }
-
-  let pendingWorkingDays = 0;
-  for (const absence of pendingAbsences) {
-    pendingWorkingDays += countWorkingDaysWithinRange(
-      new Date(absence.from),
-      new Date(absence.to),
-      previousYearStart,
-      previousYearEnd
-    );
-  }
-
-  const unused = accruedPreviousYear - approvedWorkingDays - pendingWorkingDays;
-  if (unused <= 0) {
-    return 0;
-  }
-
-  return Math.min(unused, settings.vacationCarryoverLimit);
+function getLatestAbsenceEnd(absences: Array<{ to: Date }>, fallback: Date): Date {
+  return absences.reduce(
+    (latest, absence) => (new Date(absence.to) > latest ? new Date(absence.to) : latest),
+    fallback
+  );
 }
 
 /**
@@ -330,31 +205,30 @@ export async function calculateSickLeaveEntitlement(
     where: { id: userId },
   });
 
+  const resolvePolicy = await getLeavePolicyResolver(userId);
+  const policy = resolvePolicy(currentDate);
+
   if (!user || !user.hireDate) {
     // If no hireDate, return 0 entitlement
-    const settings = await getSettings();
     return {
       type: 'sick_leave',
+      policyName: policy.policyName,
+      annualAllowance: policy.sickLeaveDaysPerYear,
       currentlyAllowed: 0,
       futureAccrue: 0,
       pendingForApproval: 0,
       approved: 0,
-      remainingWithCertificate: settings.sickLeaveWithCertificateLimit,
-      remainingWithoutCertificate: settings.sickLeaveWithoutCertificateLimit,
+      adjusted: 0,
+      remainingWithCertificate: policy.sickLeaveWithCertificateLimit,
+      remainingWithoutCertificate: policy.sickLeaveWithoutCertificateLimit,
     };
   }
 
   const yearStart = getCurrentYearStart();
-  const hireDate = new Date(user.hireDate);
-
-  // Sick leave accrues from beginning of new year
-  // If hired during the year, calculate from hire month
-  const startMonth = hireDate >= yearStart ? hireDate.getMonth() : 0;
-  const endMonth = currentDate.getMonth();
-  const monthsAccrued = endMonth - startMonth + 1; // +1 to include current month
 
-  // Calculate total accrued this year
-  const accruedThisYear = monthsAccrued * SICK_LEAVE_DAYS_PER_MONTH;
+  // Balance comes from the leave ledger; sick leave accrues monthly and resets each year
+  await syncLeaveLedger(userId, currentDate);
+  const ledger = await getLeaveYearSummary(userId, 'sick_leave', currentDate.getFullYear());
 
   const sickLeaveAbsences = (await prisma.absence.findMany({
     where: {
@@ -377,20 +251,25 @@ export async function calculateSickLeaveEntitlement(
   } as any)) as unknown as Array<{
     from: Date;
     to: Date;
+    portion: AbsencePortion;
+    hours: number | null;
     status: 'approved' | 'pending';
     files: Array<{ id: string }>;
   }>;
 
-  let approvedWorkingDays = 0;
+  const holidays = await getHolidaysForUser(
+    userId,
+    yearStart,
+    getLatestAbsenceEnd(sickLeaveAbsences, yearStart)
+  );
+
   let pendingWorkingDays = 0;
   let usedWithCertificate = 0;
   let usedWithoutCertificate = 0;
   for (const absence of sickLeaveAbsences) {
-    const days = countWorkingDays(new Date(absence.from), new Date(absence.to));
+    const days = countAbsenceWorkingDays(absence, holidays);
     const hasCertificate = absence.files.length > 0;
-    if (absence.status === 'approved') {
-      approvedWorkingDays += days;
-    } else {
+    if (absence.status === 'pending') {
       pendingWorkingDays += days;
     }
 
@@ -401,26 +280,28 @@ export async function calculateSickLeaveEntitlement(
     }
   }
 
-  // Currently allowed = accrued - approved - pending
-  const currentlyAllowed = Math.max(0, accruedThisYear - approvedWorkingDays - pendingWorkingDays);
+  // Currently allowed = ledger balance (accrued + adjustments - approved) - pending
+  const currentlyAllowed = Math.max(0, ledger.balance - pendingWorkingDays);
 
   const futureAccrue = 0;
-  const settings = await getSettings();
   const remainingWithCertificate = Math.max(
     0,
-    settings.sickLeaveWithCertificateLimit - usedWithCertificate
+    policy.sickLeaveWithCertificateLimit - usedWithCertificate
   );
   const remainingWithoutCertificate = Math.max(
     0,
-    settings.sickLeaveWithoutCertificateLimit - usedWithoutCertificate
+    policy.sickLeaveWithoutCertificateLimit - usedWithoutCertificate
   );
 
   return {
     type: 'sick_leave',
+    policyName: policy.policyName,
+    annualAllowance: policy.sickLeaveDaysPerYear,
     currentlyAllowed: Math.round(currentlyAllowed * 100) / 100,
     futureAccrue: Math.round(futureAccrue * 100) / 100,
     pendingForApproval: Math.round(pendingWorkingDays * 100) / 100,
-    approved: Math.round(approvedWorkingDays * 100) / 100,
+    approved: ledger.used,
+    adjusted: ledger.adjusted,
     remainingWithCertificate: Math.round(remainingWithCertificate * 100) / 100,
     remainingWithoutCertificate: Math.round(remainingWithoutCertificate * 100) / 100,
   };
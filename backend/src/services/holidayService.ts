@@ -0,0 +1,172 @@
+import { PrismaClient } from '@prisma/client';
+import { HolidaySet } from '../utils/dateUtils.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Holiday calendars are assigned by the user's country:
+ * a calendar applies to every user whose `country` matches the calendar's
+ * `country` (case-insensitive). Users without a matching calendar only have
+ * weekends excluded from working-day calculations.
+ */
+
+function toHolidayKey(date: Date): string {
+  // Holidays are stored as UTC midnight, so read the UTC date parts
+  return date.toISOString().split('T')[0];
+}
+
+async function findCalendarIdForCountry(country: string | null | undefined): Promise<string | null> {
+  if (!country || country.trim() === '') {
+    return null;
+  }
+
+  const calendar = await prisma.holidayCalendar.findFirst({
+    where: {
+      country: {
+        equals: country.trim(),
+        mode: 'insensitive',
+      },
+    },
+    select: { id: true },
+  });
+
+  return calendar?.id ?? null;
+}
+
+async function loadHolidayKeys(calendarIds: string[], from: Date, to: Date): Promise<Map<string, Set<string>>> {
+  const result = new Map<string, Set<string>>();
+  if (calendarIds.length === 0) {
+    return result;
+  }
+
+  // Widen by a day on each side so timezone offsets never drop a boundary holiday
+  const rangeStart = new Date(from.getTime() - 24 * 60 * 60 * 1000);
+  const rangeEnd = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+
+  const holidays = await prisma.holiday.findMany({
+    where: {
+      calendarId: { in: calendarIds },
+      date: {
+        gte: rangeStart,
+        lte: rangeEnd,
+      },
+    },
+    select: {
+      calendarId: true,
+      date: true,
+    },
+  });
+
+  for (const holiday of holidays) {
+    if (!result.has(holiday.calendarId)) {
+      result.set(holiday.calendarId, new Set());
+    }
+    result.get(holiday.calendarId)!.add(toHolidayKey(holiday.date));
+  }
+
+  return result;
+}
+
+/**
+ * Get public holidays between two dates for a country
+ */
+export async function getHolidaysForCountry(
+  country: string | null | undefined,
+  from: Date,
+  to: Date
+): Promise<HolidaySet> {
+  const calendarId = await findCalendarIdForCountry(country);
+  if (!calendarId) {
+    return new Set();
+  }
+
+  const keys = await loadHolidayKeys([calendarId], from, to);
+  return keys.get(calendarId) ?? new Set();
+}
+
+/**
+ * Get public holidays between two dates for a user (resolved from the user's country)
+ */
+export async function getHolidaysForUser(userId: string, from: Date, to: Date): Promise<HolidaySet> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { country: true },
+  });
+
+  return getHolidaysForCountry(user?.country, from, to);
+}
+
+/**
+ * Get public holidays between two dates for several users at once
+ */
+export async function getHolidaysByUser(
+  userIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, HolidaySet>> {
+  const result = new Map<string, HolidaySet>();
+  if (userIds.length === 0) {
+    return result;
+  }
+
+  const [users, calendars] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, country: true },
+    }),
+    prisma.holidayCalendar.findMany({
+      where: { country: { not: null } },
+      select: { id: true, country: true },
+    }),
+  ]);
+
+  const calendarByCountry = new Map<string, string>();
+  for (const calendar of calendars) {
+    calendarByCountry.set(calendar.country!.trim().toLowerCase(), calendar.id);
+  }
+
+  const calendarIdByUser = new Map<string, string>();
+  for (const user of users) {
+    const calendarId = user.country
+      ? calendarByCountry.get(user.country.trim().toLowerCase())
+      : undefined;
+    if (calendarId) {
+      calendarIdByUser.set(user.id, calendarId);
+    }
+  }
+
+  const keysByCalendar = await loadHolidayKeys(
+    Array.from(new Set(calendarIdByUser.values())),
+    from,
+    to
+  );
+
+  for (const userId of userIds) {
+    const calendarId = calendarIdByUser.get(userId);
+    result.set(userId, (calendarId && keysByCalendar.get(calendarId)) || new Set());
+  }
+
+  return result;
+}
+
+// A month after a log date covers its past-due window of 5 working days, holidays included
+const PAST_DUE_WINDOW_DAYS = 31;
+
+/**
+ * Public holidays per user covering the past-due window of each of their work logs, for
+ * `calculateIsPastDue`
+ */
+export async function getPastDueHolidaysByUser(
+  logs: { userId: string; date: Date }[]
+): Promise<Map<string, HolidaySet>> {
+  if (logs.length === 0) {
+    return new Map();
+  }
+
+  const times = logs.map((log) => new Date(log.date).getTime());
+  const from = new Date(Math.min(...times));
+  const to = new Date(Math.max(...times));
+  to.setDate(to.getDate() + PAST_DUE_WINDOW_DAYS);
+
+  return getHolidaysByUser(Array.from(new Set(logs.map((log) => log.userId))), from, to);
+}
@@ -0,0 +1,584 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { toDateKey } from '../utils/dateUtils.js';
+import { countAbsenceWorkingDays } from '../utils/absenceUtils.js';
+import { getHolidaysForUser } from './holidayService.js';
+import { getLeavePolicyResolver, LeavePolicyResolver } from './leavePolicyService.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Leave ledger:
+ * - Balances are never stored; they are the sum of ledger entries per user, leave type and leave year
+ * - Entries are append-only; corrections are posted as new entries
+ * - Accruals, usage of approved absences and year-end carryover/expiry are posted by
+ *   `syncLeaveLedger`, which is idempotent and runs before balances are read
+ * - Closed years are corrected when their balance changes later, so late usage reaches the
+ *   following years through carryover and expiry corrections
+ */
+
+export type LedgerLeaveType = 'vacation' | 'sick_leave';
+export type LedgerEntryKind = 'accrual' | 'usage' | 'carryover' | 'expiry' | 'adjustment';
+
+export const LEDGER_LEAVE_TYPES: LedgerLeaveType[] = ['vacation', 'sick_leave'];
+
+const AMOUNT_EPSILON = 0.0001;
+
+export interface LeaveYearSummary {
+  leaveType: LedgerLeaveType;
+  year: number;
+  accrued: number;
+  used: number;
+  carriedOver: number;
+  expired: number;
+  adjusted: number;
+  balance: number;
+}
+
+type NewLedgerEntry = Prisma.LeaveLedgerEntryCreateManyInput;
+
+function roundDays(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toUtcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function formatMonth(year: number, month: number): string {
+  return toUtcDate(year, month, 1).toLocaleString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function getLeaveTypeLabel(leaveType: LedgerLeaveType): string {
+  return leaveType === 'vacation' ? 'Vacation' : 'Sick Leave';
+}
+
+function describeAbsence(absence: { type: string; from: Date; to: Date }): string {
+  const from = toDateKey(new Date(absence.from));
+  const to = toDateKey(new Date(absence.to));
+  const label = getLeaveTypeLabel(absence.type as LedgerLeaveType);
+  return from === to ? `${label} ${from}` : `${label} ${from} – ${to}`;
+}
+
+/**
+ * First month a leave type accrues for, based on the hire date.
+ * Vacation starts on the first full month; sick leave includes the hire month.
+ */
+function getAccrualStart(leaveType: LedgerLeaveType, hireDate: Date): { year: number; month: number } {
+  const skipHireMonth = leaveType === 'vacation' && hireDate.getDate() > 1;
+  const start = new Date(hireDate.getFullYear(), hireDate.getMonth() + (skipHireMonth ? 1 : 0), 1);
+  return { year: start.getFullYear(), month: start.getMonth() };
+}
+
+function buildAccrualEntries(
+  userId: string,
+  hireDate: Date,
+  asOf: Date,
+  resolvePolicy: LeavePolicyResolver,
+  existing: Array<{ leaveType: string; kind: string; leaveYear: number; amount: number }>,
+  existingKeys: Set<string>
+): NewLedgerEntry[] {
+  const entries: NewLedgerEntry[] = [];
+
+  for (const leaveType of LEDGER_LEAVE_TYPES) {
+    const start = getAccrualStart(leaveType, hireDate);
+    // Accrued per leave year so far, to enforce the vacation annual cap
+    const accruedByYear = new Map<number, number>();
+    for (const entry of existing) {
+      if (entry.leaveType === leaveType && entry.kind === 'accrual') {
+        accruedByYear.set(entry.leaveYear, (accruedByYear.get(entry.leaveYear) ?? 0) + entry.amount);
+      }
+    }
+
+    // Accrual happens on the first day of each month, so the current month is included
+    for (
+      let cursor = new Date(start.year, start.month, 1);
+      cursor <= asOf;
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+    ) {
+      const year = cursor.getFullYear();
+      const month = cursor.getMonth();
+      const sourceKey = `accrual:${leaveType}:${year}-${String(month + 1).padStart(2, '0')}`;
+      if (existingKeys.has(sourceKey)) {
+        continue;
+      }
+
+      // Accrue at the policy rate in force on the accrual date
+      const policy = resolvePolicy(cursor);
+      const accrued = accruedByYear.get(year) ?? 0;
+      const amount =
+        leaveType === 'vacation'
+          ? Math.min(policy.vacationDaysPerMonth, Math.max(0, policy.vacationAnnualCap - accrued))
+          : policy.sickLeaveDaysPerYear / 12;
+
+      if (amount <= AMOUNT_EPSILON) {
+        continue;
+      }
+
+      accruedByYear.set(year, accrued + amount);
+
+      entries.push({
+        userId,
+        leaveType,
+        kind: 'accrual',
+        amount,
+        leaveYear: year,
+        effectiveDate: toUtcDate(year, month, 1),
+        description: `Monthly accrual for ${formatMonth(year, month)}`,
+        sourceKey,
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Post usage for approved vacation and sick leave absences.
+ * Each absence is split by leave year; if an absence is no longer approved or its
+ * working days changed, the difference is posted so the ledger stays append-only.
+ */
+async function buildUsageEntries(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  postedUsage: Array<{ absenceId: string | null; leaveType: string; leaveYear: number; amount: number }>
+): Promise<NewLedgerEntry[]> {
+  const absences = await tx.absence.findMany({
+    where: {
+      userId,
+      OR: [
+        { type: { in: LEDGER_LEAVE_TYPES } },
+        { id: { in: postedUsage.map((entry) => entry.absenceId).filter((id): id is string => !!id) } },
+      ],
+    },
+  });
+
+  if (absences.length === 0) {
+    return [];
+  }
+
+  const earliest = absences.reduce(
+    (min, absence) => (new Date(absence.from) < min ? new Date(absence.from) : min),
+    new Date(absences[0].from)
+  );
+  const latest = absences.reduce(
+    (max, absence) => (new Date(absence.to) > max ? new Date(absence.to) : max),
+    new Date(absences[0].to)
+  );
+  const holidays = await getHolidaysForUser(userId, earliest, latest);
+
+  const posted = new Map<string, number>();
+  for (const entry of postedUsage) {
+    if (!entry.absenceId) continue;
+    const key = `${entry.absenceId}|${entry.leaveType}|${entry.leaveYear}`;
+    posted.set(key, (posted.get(key) ?? 0) + entry.amount);
+  }
+
+  const targets = new Map<string, number>();
+  for (const absence of absences) {
+    if (absence.status !== 'approved' || !LEDGER_LEAVE_TYPES.includes(absence.type as LedgerLeaveType)) {
+      continue;
+    }
+
+    const from = new Date(absence.from);
+    const to = new Date(absence.to);
+    for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+      const yearStart = new Date(year, 0, 1);
+      const yearEnd = new Date(year, 11, 31, 23, 59, 59, 999);
+      const days = countAbsenceWorkingDays(absence, holidays, yearStart, yearEnd);
+      if (days > 0) {
+        targets.set(`${absence.id}|${absence.type}|${year}`, -days);
+      }
+    }
+  }
+
+  const absencesById = new Map(absences.map((absence) => [absence.id, absence]));
+  const entries: NewLedgerEntry[] = [];
+
+  for (const key of new Set([...posted.keys(), ...targets.keys()])) {
+    const [absenceId, leaveType, yearValue] = key.split('|');
+    const year = Number(yearValue);
+    const target = targets.get(key) ?? 0;
+    const current = posted.get(key) ?? 0;
+    const delta = target - current;
+
+    if (Math.abs(delta) < AMOUNT_EPSILON) {
+      continue;
+    }
+
+    const absence = absencesById.get(absenceId);
+    const label = absence ? describeAbsence(absence) : getLeaveTypeLabel(leaveType as LedgerLeaveType);
+    const description =
+      target === 0
+        ? `Reversal of ${label} (no longer approved)`
+        : current === 0
+        ? label
+        : `Correction of ${label}`;
+
+    const absenceStart = absence ? new Date(absence.from) : new Date(year, 0, 1);
+    const effective = absenceStart.getFullYear() === year ? absenceStart : new Date(year, 0, 1);
+
+    entries.push({
+      userId,
+      leaveType: leaveType as LedgerLeaveType,
+      kind: 'usage',
+      amount: delta,
+      leaveYear: year,
+      effectiveDate: toUtcDate(effective.getFullYear(), effective.getMonth(), effective.getDate()),
+      description,
+      absenceId: absence ? absenceId : null,
+    });
+  }
+
+  return entries;
+}
+
+// Whether an entry is part of the closing of a leave year: carryover out of it or its expiry
+function isYearEndKey(sourceKey: string | null | undefined, leaveType: string, year: number): boolean {
+  if (!sourceKey) {
+    return false;
+  }
+  return [`carryover:${leaveType}:${year}`, `expiry:${leaveType}:${year}`].some(
+    (key) => sourceKey === key || sourceKey.startsWith(`${key}:correction:`)
+  );
+}
+
+// Next free key for a correction of a year-end entry, e.g. `expiry:vacation:2024:correction:2`
+function getCorrectionKey(key: string, existingKeys: Set<string>): string {
+  let index = 1;
+  while (existingKeys.has(`${key}:correction:${index}`)) {
+    index++;
+  }
+  return `${key}:correction:${index}`;
+}
+
+/**
+ * Close every finished leave year: the unused balance is carried into the next year
+ * up to the carryover limit (vacation only) and the rest expires.
+ * When the closing balance of a closed year changes later (e.g. an absence in it is approved,
+ * changed or cancelled after year end), the difference is posted as corrections to its
+ * carryover and expiry, and so reaches the following years.
+ */
+function buildYearEndEntries(
+  userId: string,
+  entries: Array<{
+    leaveType: string;
+    leaveYear: number;
+    amount: number;
+    sourceKey?: string | null;
+  }>,
+  asOf: Date,
+  resolvePolicy: LeavePolicyResolver,
+  existingKeys: Set<string>
+): NewLedgerEntry[] {
+  const result: NewLedgerEntry[] = [];
+
+  for (const leaveType of LEDGER_LEAVE_TYPES) {
+    // Per leave year: the balance before closing, and what its closing already posted
+    const totals = new Map<number, number>();
+    const postedCarried = new Map<number, number>();
+    const postedExpired = new Map<number, number>();
+    for (const entry of entries) {
+      if (entry.leaveType !== leaveType) {
+        continue;
+      }
+      const year = entry.leaveYear;
+      if (!isYearEndKey(entry.sourceKey, leaveType, year)) {
+        totals.set(year, (totals.get(year) ?? 0) + entry.amount);
+      } else if (entry.sourceKey!.startsWith('carryover:')) {
+        postedCarried.set(year, (postedCarried.get(year) ?? 0) - entry.amount);
+      } else {
+        postedExpired.set(year, (postedExpired.get(year) ?? 0) - entry.amount);
+      }
+    }
+
+    if (totals.size === 0) {
+      continue;
+    }
+
+    const firstYear = Math.min(...totals.keys());
+
+    for (let year = firstYear; year < asOf.getFullYear(); year++) {
+      // Carryover limit in force on the last day of the year being closed; sick leave never carries over
+      const carryoverLimit =
+        leaveType === 'vacation' ? resolvePolicy(new Date(year, 11, 31)).vacationCarryoverLimit : 0;
+      const closing = totals.get(year) ?? 0;
+      const carryoverKey = `carryover:${leaveType}:${year}`;
+      const expiryKey = `expiry:${leaveType}:${year}`;
+
+      // Overdrawn balances are not carried into the next year
+      const carried = closing > AMOUNT_EPSILON ? Math.min(closing, carryoverLimit) : 0;
+      const expired = closing > AMOUNT_EPSILON ? closing - carried : 0;
+      const carriedDelta = carried - (postedCarried.get(year) ?? 0);
+      const expiredDelta = expired - (postedExpired.get(year) ?? 0);
+      const yearEnd = toUtcDate(year, 11, 31);
+
+      if (Math.abs(carriedDelta) > AMOUNT_EPSILON) {
+        const isCorrection = postedCarried.has(year);
+        const sourceKey = isCorrection ? getCorrectionKey(carryoverKey, existingKeys) : carryoverKey;
+        result.push(
+          {
+            userId,
+            leaveType,
+            kind: 'carryover',
+            amount: -carriedDelta,
+            leaveYear: year,
+            effectiveDate: yearEnd,
+            description: isCorrection
+              ? `Correction of carryover to ${year + 1}`
+              : `Carried over to ${year + 1}`,
+            sourceKey,
+          },
+          {
+            userId,
+            leaveType,
+            kind: 'carryover',
+            amount: carriedDelta,
+            leaveYear: year + 1,
+            effectiveDate: toUtcDate(year + 1, 0, 1),
+            description: isCorrection
+              ? `Correction of carryover from ${year}`
+              : `Carried over from ${year}`,
+            sourceKey: `${sourceKey}:in`,
+          }
+        );
+        totals.set(year + 1, (totals.get(year + 1) ?? 0) + carriedDelta);
+      }
+
+      if (Math.abs(expiredDelta) > AMOUNT_EPSILON) {
+        const isCorrection = postedExpired.has(year);
+        const description =
+          carryoverLimit > 0
+            ? `Expired at end of ${year} (carryover limit ${carryoverLimit} days)`
+            : `Expired at end of ${year}`;
+        result.push({
+          userId,
+          leaveType,
+          kind: 'expiry',
+          amount: -expiredDelta,
+          leaveYear: year,
+          effectiveDate: yearEnd,
+          description: isCorrection ? `Correction of expiry at end of ${year}` : description,
+          sourceKey: isCorrection ? getCorrectionKey(expiryKey, existingKeys) : expiryKey,
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Post any missing accrual, usage and year-end entries for a user up to `asOf`.
+ * Safe to call repeatedly; entries that already exist are not posted again.
+ */
+export async function syncLeaveLedger(userId: string, asOf: Date = new Date()): Promise<void> {
+  const resolvePolicy = await getLeavePolicyResolver(userId);
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Serialize syncs per user so concurrent requests can't post the same usage twice
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { id: true, hireDate: true },
+      });
+
+      if (!user) {
+        return;
+      }
+
+      const existing = await tx.leaveLedgerEntry.findMany({
+        where: { userId },
+        select: {
+          leaveType: true,
+          kind: true,
+          amount: true,
+          leaveYear: true,
+          absenceId: true,
+          sourceKey: true,
+        },
+      });
+      const existingKeys = new Set(
+        existing.map((entry) => entry.sourceKey).filter((key): key is string => !!key)
+      );
+
+      const accruals = user.hireDate
+        ? buildAccrualEntries(
+            userId,
+            new Date(user.hireDate),
+            asOf,
+            resolvePolicy,
+            existing,
+            existingKeys
+          )
+        : [];
+      const usage = await buildUsageEntries(
+        tx,
+        userId,
+        existing.filter((entry) => entry.kind === 'usage')
+      );
+      const yearEnd = buildYearEndEntries(
+        userId,
+        [...existing, ...accruals, ...usage],
+        asOf,
+        resolvePolicy,
+        existingKeys
+      );
+
+      const newEntries = [...accruals, ...usage, ...yearEnd];
+      if (newEntries.length > 0) {
+        await tx.leaveLedgerEntry.createMany({
+          data: newEntries,
+          skipDuplicates: true,
+        });
+      }
+    },
+    { timeout: 15000 }
+  );
+}
+
+/**
+ * Post a manual credit (positive amount) or debit (negative amount) to a user's balance.
+ * The entry lands in the leave year of its effective date.
+ */
+export async function createLeaveAdjustment(data: {
+  userId: string;
+  leaveType: LedgerLeaveType;
+  amount: number;
+  effectiveDate: Date;
+  reason: string;
+  adminId: string;
+}) {
+  return prisma.leaveLedgerEntry.create({
+    data: {
+      userId: data.userId,
+      leaveType: data.leaveType,
+      kind: 'adjustment',
+      amount: data.amount,
+      leaveYear: data.effectiveDate.getUTCFullYear(),
+      effectiveDate: data.effectiveDate,
+      description: data.reason,
+      createdById: data.adminId,
+    },
+    include: {
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * All manual adjustments for a user, newest first
+ */
+export async function getLeaveAdjustments(userId: string) {
+  return prisma.leaveLedgerEntry.findMany({
+    where: { userId, kind: 'adjustment' },
+    include: {
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+    orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+  });
+}
+
+/**
+ * Sum a user's ledger for one leave type and year, broken down by entry kind
+ */
+export async function getLeaveYearSummary(
+  userId: string,
+  leaveType: LedgerLeaveType,
+  year: number
+): Promise<LeaveYearSummary> {
+  const groups = await prisma.leaveLedgerEntry.groupBy({
+    by: ['kind'],
+    where: { userId, leaveType, leaveYear: year },
+    _sum: { amount: true },
+  });
+
+  const totals: Record<LedgerEntryKind, number> = {
+    accrual: 0,
+    usage: 0,
+    carryover: 0,
+    expiry: 0,
+    adjustment: 0,
+  };
+  for (const group of groups) {
+    totals[group.kind] = group._sum.amount ?? 0;
+  }
+
+  const balance = Object.values(totals).reduce((sum, value) => sum + value, 0);
+
+  return {
+    leaveType,
+    year,
+    accrued: roundDays(totals.accrual),
+    used: roundDays(-totals.usage),
+    carriedOver: roundDays(totals.carryover),
+    expired: roundDays(-totals.expiry),
+    adjusted: roundDays(totals.adjustment),
+    balance: roundDays(balance),
+  };
+}
+
+/**
+ * Full statement for one leave type and year: every entry in order with the running balance
+ */
+export async function getLeaveStatement(userId: string, leaveType: LedgerLeaveType, year: number) {
+  await syncLeaveLedger(userId);
+
+  const [entries, summary, years] = await Promise.all([
+    prisma.leaveLedgerEntry.findMany({
+      where: { userId, leaveType, leaveYear: year },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+      orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+    }),
+    getLeaveYearSummary(userId, leaveType, year),
+    prisma.leaveLedgerEntry.findMany({
+      where: { userId, leaveType },
+      distinct: ['leaveYear'],
+      select: { leaveYear: true },
+      orderBy: { leaveYear: 'desc' },
+    }),
+  ]);
+
+  let running = 0;
+  const statement = entries.map((entry) => {
+    running += entry.amount;
+    return {
+      ...entry,
+      amount: roundDays(entry.amount),
+      balance: roundDays(running),
+    };
+  });
+
+  return {
+    leaveType,
+    year,
+    years: years.map((entry) => entry.leaveYear),
+    summary,
+    entries: statement,
+  };
+}
@@ -0,0 +1,138 @@
+import { PrismaClient, LeavePolicy } from '@prisma/client';
+import { getSettingsTimeline, resolveSettings } from './settingsService.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Leave policies:
+ * - A user's policy is resolved by assignment: user, then position, then country
+ * - Users without an assigned policy get the default policy, built from the
+ *   global settings version in force plus the company-wide defaults below
+ */
+
+/**
+ * Default policy values not covered by global settings:
+ * - 18 vacation days per year (1.5 days per month)
+ * - 10 sick leave days per year
+ * - Sick leave of 2 or more days requires a certificate
+ * - 3 month trial period before vacation can be requested
+ */
+const DEFAULT_VACATION_ANNUAL_CAP = 18;
+const DEFAULT_SICK_LEAVE_DAYS_PER_YEAR = 10;
+const DEFAULT_SICK_LEAVE_CERTIFICATE_AFTER_DAYS = 1;
+const DEFAULT_TRIAL_PERIOD_MONTHS = 3;
+
+export interface LeavePolicyValues {
+  policyId: string | null; // null for the default policy
+  policyName: string;
+  vacationDaysPerMonth: number;
+  vacationAnnualCap: number;
+  vacationCarryoverLimit: number;
+  sickLeaveDaysPerYear: number;
+  sickLeaveWithoutCertificateLimit: number;
+  sickLeaveWithCertificateLimit: number;
+  sickLeaveCertificateAfterDays: number;
+  trialPeriodMonths: number;
+}
+
+/**
+ * Returns the policy values in force on a given date
+ */
+export type LeavePolicyResolver = (date: Date) => LeavePolicyValues;
+
+function toPolicyValues(policy: LeavePolicy): LeavePolicyValues {
+  return {
+    policyId: policy.id,
+    policyName: policy.name,
+    vacationDaysPerMonth: policy.vacationDaysPerMonth,
+    vacationAnnualCap: policy.vacationAnnualCap,
+    vacationCarryoverLimit: policy.vacationCarryoverLimit,
+    sickLeaveDaysPerYear: policy.sickLeaveDaysPerYear,
+    sickLeaveWithoutCertificateLimit: policy.sickLeaveWithoutCertificateLimit,
+    sickLeaveWithCertificateLimit: policy.sickLeaveWithCertificateLimit,
+    sickLeaveCertificateAfterDays: policy.sickLeaveCertificateAfterDays,
+    trialPeriodMonths: policy.trialPeriodMonths,
+  };
+}
+
+/**
+ * Find the policy assigned to a user, following user > position > country precedence
+ */
+export async function findAssignedLeavePolicy(user: {
+  id: string;
+  positionId: string | null;
+  country: string | null;
+}): Promise<LeavePolicy | null> {
+  const assignments = await prisma.leavePolicyAssignment.findMany({
+    where: {
+      OR: [
+        { scope: 'user', userId: user.id },
+        ...(user.positionId ? [{ scope: 'position' as const, positionId: user.positionId }] : []),
+        ...(user.country && user.country.trim() !== ''
+          ? [
+              {
+                scope: 'country' as const,
+                country: { equals: user.country.trim(), mode: 'insensitive' as const },
+              },
+            ]
+          : []),
+      ],
+    },
+    include: {
+      policy: true,
+    },
+  });
+
+  for (const scope of ['user', 'position', 'country'] as const) {
+    const assignment = assignments.find((item) => item.scope === scope);
+    if (assignment) {
+      return assignment.policy;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load everything needed to resolve a user's leave policy for any date
+ */
+export async function getLeavePolicyResolver(userId: string): Promise<LeavePolicyResolver> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, positionId: true, country: true },
+  });
+
+  const policy = user ? await findAssignedLeavePolicy(user) : null;
+  if (policy) {
+    const values = toPolicyValues(policy);
+    return () => values;
+  }
+
+  const settingsTimeline = await getSettingsTimeline();
+  return (date: Date) => {
+    const settings = resolveSettings(settingsTimeline, date);
+    return {
+      policyId: null,
+      policyName: 'Default',
+      vacationDaysPerMonth: settings.vacationFutureAccrueDays,
+      vacationAnnualCap: DEFAULT_VACATION_ANNUAL_CAP,
+      vacationCarryoverLimit: settings.vacationCarryoverLimit,
+      sickLeaveDaysPerYear: DEFAULT_SICK_LEAVE_DAYS_PER_YEAR,
+      sickLeaveWithoutCertificateLimit: settings.sickLeaveWithoutCertificateLimit,
+      sickLeaveWithCertificateLimit: settings.sickLeaveWithCertificateLimit,
+      sickLeaveCertificateAfterDays: DEFAULT_SICK_LEAVE_CERTIFICATE_AFTER_DAYS,
+      trialPeriodMonths: DEFAULT_TRIAL_PERIOD_MONTHS,
+    };
+  };
+}
+
+/**
+ * Leave policy values for a user on a date (today by default)
+ */
+export async function getLeavePolicyForUser(
+  userId: string,
+  date: Date = new Date()
+): Promise<LeavePolicyValues> {
+  const resolve = await getLeavePolicyResolver(userId);
+  return resolve(date);
+}
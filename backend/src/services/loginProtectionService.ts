@@ -0,0 +1,128 @@
+import { LoginMethod, LoginOutcome, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Brute-force protection for logins:
+ * - Every attempt is recorded with IP, user agent and outcome; this is the user's login history
+ * - Per account: after MAX_FAILED_LOGINS consecutive failures (wrong password or 2FA code) the
+ *   account is locked for LOCKOUT_MINUTES; a successful login resets the counter
+ * - Per IP: after MAX_FAILED_LOGINS_PER_IP failures within IP_WINDOW_MINUTES, further attempts
+ *   from that address are refused until the window moves on
+ * - Administrators can unlock an account early
+ */
+
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 15;
+const MAX_FAILED_LOGINS_PER_IP = 20;
+const IP_WINDOW_MINUTES = 15;
+const LOGIN_HISTORY_LIMIT = 50;
+
+const FAILED_OUTCOMES: LoginOutcome[] = [
+  'invalid_password',
+  'invalid_two_factor',
+  'unknown_user',
+  'locked',
+];
+
+export interface LoginAttemptInfo {
+  userId?: string;
+  email: string;
+  ipAddress?: string;
+  userAgent?: string;
+  method?: LoginMethod;
+  outcome: LoginOutcome;
+}
+
+export async function recordLoginAttempt(attempt: LoginAttemptInfo): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: {
+      userId: attempt.userId,
+      email: attempt.email,
+      ipAddress: attempt.ipAddress,
+      userAgent: attempt.userAgent?.slice(0, 500),
+      method: attempt.method,
+      outcome: attempt.outcome,
+    },
+  });
+}
+
+/**
+ * Seconds until the IP may try again, or 0 when it is not throttled.
+ * Refused attempts are not counted, so the window always runs out.
+ */
+export async function getIpRetryAfterSeconds(ipAddress: string | undefined): Promise<number> {
+  if (!ipAddress) {
+    return 0;
+  }
+
+  const windowMs = IP_WINDOW_MINUTES * 60 * 1000;
+  const failures = await prisma.loginAttempt.findMany({
+    where: {
+      ipAddress,
+      outcome: { in: FAILED_OUTCOMES },
+      createdAt: { gte: new Date(Date.now() - windowMs) },
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_FAILED_LOGINS_PER_IP,
+  });
+
+  if (failures.length < MAX_FAILED_LOGINS_PER_IP) {
+    return 0;
+  }
+
+  // Allowed again once the oldest of the last N failures leaves the window
+  const oldest = failures[failures.length - 1].createdAt;
+  return Math.max(1, Math.ceil((oldest.getTime() + windowMs - Date.now()) / 1000));
+}
+
+export const isAccountLocked = (user: { lockedUntil: Date | null }) =>
+  !!user.lockedUntil && user.lockedUntil > new Date();
+
+/**
+ * Count a failed login; locks the account when the limit is reached.
+ * Returns the end of the lockout, or null when the account is not locked.
+ */
+export async function registerFailedLogin(userId: string): Promise<Date | null> {
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+
+  if (failedLoginCount < MAX_FAILED_LOGINS) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil },
+  });
+  return lockedUntil;
+}
+
+// After a successful login, or when an administrator unlocks the account
+export async function resetFailedLogins(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
+
+export async function getLoginHistory(userId: string) {
+  return prisma.loginAttempt.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      ipAddress: true,
+      userAgent: true,
+      method: true,
+      outcome: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: LOGIN_HISTORY_LIMIT,
+  });
+}
@@ -0,0 +1,19 @@
+import type { Mailer, MailMessage } from './mailer.js';
+
+export class ConsoleMailer implements Mailer {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        '--- Outgoing mail ---',
+        `From: ${this.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '---------------------',
+      ].join('\n')
+    );
+  }
+}
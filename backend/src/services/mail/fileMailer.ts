@@ -0,0 +1,31 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import type { Mailer, MailMessage } from './mailer.js';
+
+export class FileMailer implements Mailer {
+  constructor(
+    private outboxDir: string,
+    private from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const sentAt = new Date();
+    // Timestamp prefix keeps the outbox sorted by send time
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${sentAt.toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      '',
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), content);
+  }
+}
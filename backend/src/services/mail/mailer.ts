@@ -0,0 +1,35 @@
+import path from 'path';
+import { ConsoleMailer } from './consoleMailer.js';
+import { FileMailer } from './fileMailer.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Mail transport chosen by `MAIL_TRANSPORT`, sending from `MAIL_FROM`:
+ * - `console` (default): print messages to the server log
+ * - `file`: write each message to `MAIL_FILE_DIR` (default `mail-outbox`) as an .eml file
+ * Other transports only need to implement `Mailer`.
+ */
+export function createMailer(): Mailer {
+  const from = process.env.MAIL_FROM || 'no-reply@localhost';
+
+  switch (process.env.MAIL_TRANSPORT || 'console') {
+    case 'file':
+      return new FileMailer(
+        path.resolve(process.cwd(), process.env.MAIL_FILE_DIR || 'mail-outbox'),
+        from
+      );
+    case 'console':
+      return new ConsoleMailer(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+}
@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE):
+ * - Starting a login stores state, nonce and PKCE verifier and redirects to the identity provider
+ * - The callback exchanges the code, verifies the ID token with the provider's JWKS and
+ *   matches the user by email, ignoring case
+ * - Unknown emails are refused, or provisioned just in time when OIDC_JIT_PROVISIONING is on,
+ *   with the default position and project; provisioned users can only sign in through SSO
+ * - The browser goes back to the frontend with a one-time code that it exchanges for a normal
+ *   session, so access and refresh tokens never appear in URLs
+ */
+
+const AUTH_REQUEST_TTL_MINUTES = 10;
+const HANDOFF_TTL_MINUTES = 2;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  providerName: string;
+  jitProvisioning: boolean;
+  defaultPositionName?: string;
+  defaultProjectName?: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+export type OidcCallbackResult =
+  | { handoffCode: string; userId: string; email: string }
+  | { error: string; userId?: string; email?: string };
+
+let cachedMetadata: { issuer: string; metadata: ProviderMetadata } | null = null;
+let cachedKeys: crypto.JsonWebKey[] = [];
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * SSO settings from the environment; null when SSO is not configured
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${frontendUrl}/api/auth/oidc/callback`,
+    providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+    jitProvisioning: process.env.OIDC_JIT_PROVISIONING === 'true',
+    defaultPositionName: process.env.OIDC_DEFAULT_POSITION || undefined,
+    defaultProjectName: process.env.OIDC_DEFAULT_PROJECT || undefined,
+  };
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function getProviderMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+  if (cachedMetadata?.issuer !== config.issuer) {
+    const metadata = await fetchJson<ProviderMetadata>(
+      `${config.issuer}/.well-known/openid-configuration`
+    );
+    cachedMetadata = { issuer: config.issuer, metadata };
+    cachedKeys = [];
+  }
+  return cachedMetadata.metadata;
+}
+
+// Signing key for an ID token; the key set is fetched again once when the key id is unknown,
+// which picks up key rotation at the provider
+async function getSigningKey(metadata: ProviderMetadata, kid?: string): Promise<crypto.KeyObject | null> {
+  const findKey = () =>
+    cachedKeys.find((key) => key.kty === 'RSA' && (!kid || key.kid === kid) && key.use !== 'enc');
+
+  if (!findKey()) {
+    const jwks = await fetchJson<{ keys: crypto.JsonWebKey[] }>(metadata.jwks_uri);
+    cachedKeys = jwks.keys;
+  }
+
+  const jwk = findKey();
+  return jwk ? crypto.createPublicKey({ key: jwk, format: 'jwk' }) : null;
+}
+
+/**
+ * Start a login: remember state, nonce and PKCE verifier, and return the provider URL
+ */
+export async function createAuthorizationUrl(config: OidcConfig): Promise<string> {
+  const metadata = await getProviderMetadata(config);
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  // Finished and abandoned sign-ins are not needed any more
+  await prisma.oidcAuthRequest.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+  await prisma.oidcAuthRequest.create({
+    data: {
+      state,
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + AUTH_REQUEST_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+}
+
+async function exchangeCode(
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: codeVerifier,
+    }),
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('OIDC token response has no ID token');
+  }
+  return tokens.id_token;
+}
+
+async function verifyIdToken(
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  idToken: string,
+  nonce: string
+): Promise<IdTokenClaims | null> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    return null;
+  }
+
+  const key = await getSigningKey(metadata, decoded.header.kid);
+  if (!key) {
+    return null;
+  }
+
+  try {
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      issuer: metadata.issuer,
+      audience: config.clientId,
+    }) as IdTokenClaims;
+    return claims.nonce === nonce ? claims : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function namesFromClaims(claims: IdTokenClaims, email: string) {
+  const [first, ...rest] = (claims.name || '').trim().split(/\s+/);
+  return {
+    firstName: claims.given_name || first || email.split('@')[0],
+    lastName: claims.family_name || rest.join(' ') || '-',
+  };
+}
+
+// Create a user for a first SSO login, with the configured default position and project
+async function provisionUser(config: OidcConfig, claims: IdTokenClaims, email: string) {
+  const position = config.defaultPositionName
+    ? await prisma.position.findUnique({ where: { name: config.defaultPositionName } })
+    : null;
+  const project = config.defaultProjectName
+    ? await prisma.project.findFirst({ where: { name: config.defaultProjectName } })
+    : null;
+
+  // The account cannot sign in with a password, so the hash only fills the column
+  const passwordHash = await bcrypt.hash(randomToken(), 10);
+
+  return prisma.user.create({
+    data: {
+      ...namesFromClaims(claims, email),
+      email,
+      passwordHash,
+      passwordLoginDisabled: true,
+      hireDate: new Date(new Date().toISOString().split('T')[0]),
+      positionId: position?.id ?? null,
+      projects: project ? { connect: [{ id: project.id }] } : undefined,
+    },
+  });
+}
+
+/**
+ * Finish a login at the redirect from the provider. On success returns a one-time code
+ * for the frontend; errors are meant to be shown to the user.
+ */
+export async function handleOidcCallback(
+  config: OidcConfig,
+  code: string,
+  state: string
+): Promise<OidcCallbackResult> {
+  const authRequest = await prisma.oidcAuthRequest.findUnique({ where: { state } });
+  if (!authRequest || authRequest.userId || authRequest.expiresAt <= new Date()) {
+    return { error: 'The sign-in request is invalid or has expired. Please try again' };
+  }
+
+  const metadata = await getProviderMetadata(config);
+  const idToken = await exchangeCode(config, metadata, code, authRequest.codeVerifier);
+  const claims = await verifyIdToken(config, metadata, idToken, authRequest.nonce);
+  if (!claims) {
+    return { error: 'The identity provider response could not be verified' };
+  }
+
+  const email = claims.email?.trim();
+  if (!email || claims.email_verified === false) {
+    return { error: 'The identity provider did not return a verified email' };
+  }
+
+  const existing = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+  });
+
+  if (existing?.deletedAt) {
+    return { error: 'This account has been deactivated', userId: existing.id, email };
+  }
+
+  let user = existing;
+  if (!user) {
+    if (!config.jitProvisioning) {
+      return { error: `No account exists for ${email}. Ask an administrator to create one`, email };
+    }
+    user = await provisionUser(config, claims, email);
+  }
+
+  const handoffCode = randomToken();
+
+  // Claiming the state makes a replayed callback fail
+  const claimed = await prisma.oidcAuthRequest.updateMany({
+    where: { id: authRequest.id, userId: null },
+    data: {
+      userId: user.id,
+      handoffCodeHash: hashCode(handoffCode),
+      expiresAt: new Date(Date.now() + HANDOFF_TTL_MINUTES * 60 * 1000),
+    },
+  });
+  if (claimed.count === 0) {
+    return { error: 'The sign-in request is invalid or has expired. Please try again' };
+  }
+
+  return { handoffCode, userId: user.id, email: user.email };
+}
+
+/**
+ * Exchange the one-time code from the callback; returns the user id, or null when the code
+ * is unknown, expired or already used
+ */
+export async function redeemHandoffCode(code: string): Promise<string | null> {
+  const authRequest = await prisma.oidcAuthRequest.findUnique({
+    where: { handoffCodeHash: hashCode(code) },
+  });
+
+  if (!authRequest?.userId || authRequest.completedAt || authRequest.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const redeemed = await prisma.oidcAuthRequest.updateMany({
+    where: { id: authRequest.id, completedAt: null },
+    data: { completedAt: new Date() },
+  });
+
+  return redeemed.count > 0 ? authRequest.userId : null;
+}
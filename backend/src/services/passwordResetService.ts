@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { createMailer } from './mail/mailer.js';
+import { revokeUserSessions } from './sessionService.js';
+
+const prisma = new PrismaClient();
+const mailer = createMailer();
+
+/**
+ * Self-service password reset:
+ * - A request creates a random token that expires after an hour; only its SHA-256 hash is stored
+ * - Requesting a new link invalidates the previous ones
+ * - Using a token sets the new password, marks the token used and signs the user out everywhere
+ * - Unknown emails, and accounts that sign in through SSO only, are ignored silently so the
+ *   endpoint does not reveal who has an account; the email is sent in the background so a
+ *   slow or failing mailer does not reveal it either
+ */
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export async function requestPasswordReset(email: string, requestedIp?: string): Promise<void> {
+  const user = await prisma.user.findFirst({
+    where: { email, deletedAt: null, passwordLoginDisabled: false },
+    select: { id: true, email: true, firstName: true },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+        requestedIp,
+      },
+    }),
+  ]);
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const resetUrl = `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  mailer
+    .send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Someone asked to reset the password of your account. To choose a new password, open:',
+        resetUrl,
+        '',
+        `The link works once and expires in ${RESET_TOKEN_TTL_MINUTES} minutes.`,
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    })
+    .catch((error) => console.error('Error sending password reset email:', error));
+}
+
+/**
+ * Set a new password with a reset token. Returns false when the token is unknown,
+ * expired, already used or belongs to a deleted user.
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<boolean> {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { deletedAt: true } } },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date() || resetToken.user.deletedAt) {
+    return false;
+  }
+
+  const passwordHash = await bcrypt.hash(newPassword, 10);
+
+  const used = await prisma.$transaction(async (tx) => {
+    // Marking the token used first makes concurrent resets with the same link fail
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { passwordHash },
+    });
+    return true;
+  });
+
+  if (used) {
+    await revokeUserSessions(resetToken.userId);
+  }
+
+  return used;
+}
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client';
+import { isTwoFactorSetupRequired } from './twoFactorService.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Role-based access control:
+ * - Permissions are fixed keys checked by `requirePermission` and `hasPermission`
+ * - Roles are named sets of permissions stored in the `roles` table; users can have several
+ * - Administrators (`users.isAdmin`) have every permission
+ * - Users without roles are plain employees: they manage their own data only
+ * - When 2FA is mandatory for elevated accounts, a user without 2FA gets no permissions
+ *   until they enroll
+ */
+
+export const PERMISSIONS = [
+  'users.manage',
+  'settings.manage',
+  'roles.manage',
+  'absences.approve',
+  'reports.view',
+  'projects.manage',
+  'projects.manage_own',
+  'worklogs.approve',
+  'worklogs.manage',
+  'audit.view',
+  'billing.manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'users.manage': 'Create, edit and delete users; leave statements and adjustments',
+  'settings.manage':
+    'Accrual settings, leave policies, holiday calendars, positions and technologies',
+  'roles.manage': 'Create roles, change their permissions and assign them to users',
+  'absences.approve': 'Decide any absence approval step (HR) and read attached certificates',
+  'reports.view': 'Read-only access to all work logs, monthly reports and exports',
+  'projects.manage': 'Create, edit and delete any project',
+  'projects.manage_own': 'Edit projects the user leads',
+  'worklogs.approve': 'Review work logs and timesheets of members of projects the user leads',
+  'worklogs.manage': "Edit and delete anyone's work logs; approve and reopen any timesheet",
+  'audit.view': 'Read the audit log of all data changes',
+  'billing.manage': 'Hourly rates, project billing reports and invoice snapshots',
+};
+
+interface SystemRole {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+export const SYSTEM_ROLES: SystemRole[] = [
+  {
+    key: 'hr',
+    name: 'HR',
+    description: 'Manages users, leave settings and absence approvals',
+    permissions: ['users.manage', 'settings.manage', 'absences.approve', 'reports.view'],
+  },
+  {
+    key: 'accountant',
+    name: 'Accountant',
+    description: 'Reads reports and exports; manages billing rates and invoices',
+    permissions: ['reports.view', 'billing.manage'],
+  },
+  {
+    key: 'project_manager',
+    name: 'Project Manager',
+    description: 'Manages the projects they lead and reviews their work logs',
+    permissions: ['projects.manage_own', 'worklogs.approve'],
+  },
+];
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Create the system roles that don't exist yet; existing ones keep their edited permissions
+ */
+export async function ensureSystemRoles(): Promise<void> {
+  for (const role of SYSTEM_ROLES) {
+    await prisma.role.upsert({
+      where: { key: role.key },
+      update: {},
+      create: { ...role, isSystem: true },
+    });
+  }
+}
+
+/**
+ * Effective permissions of a user: the union of their roles' permissions,
+ * or every permission for administrators
+ */
+export async function getUserPermissions(userId: string, isAdmin: boolean | undefined): Promise<Permission[]> {
+  if (isAdmin) {
+    return [...PERMISSIONS];
+  }
+
+  const roles = await prisma.role.findMany({
+    where: { users: { some: { id: userId } } },
+    select: { permissions: true },
+  });
+
+  return [...new Set(roles.flatMap((role) => role.permissions).filter(isPermission))];
+}
+
+/**
+ * Whether a user is an administrator or has any role. Only users with `roles.manage` may
+ * change the sign-in of such an account or delete it, so `users.manage` alone cannot take
+ * over an account with more access
+ */
+export async function hasElevatedAccess(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isAdmin: true, _count: { select: { roles: true } } },
+  });
+
+  return !!user && (user.isAdmin || user._count.roles > 0);
+}
+
+export interface EffectiveAccess {
+  permissions: Permission[];
+  twoFactorSetupRequired: boolean;
+}
+
+/**
+ * Permissions the user may use right now, taking the 2FA policy into account
+ */
+export async function getEffectiveAccess(
+  userId: string,
+  isAdmin: boolean | undefined,
+  twoFactorEnabled: boolean
+): Promise<EffectiveAccess> {
+  const permissions = await getUserPermissions(userId, isAdmin);
+  const twoFactorSetupRequired = await isTwoFactorSetupRequired(permissions, twoFactorEnabled);
+
+  return {
+    permissions: twoFactorSetupRequired ? [] : permissions,
+    twoFactorSetupRequired,
+  };
+}
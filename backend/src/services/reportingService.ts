@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+import { toEffectiveDate } from './settingsService.js';
+import { Permission } from './permissionService.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Reporting lines and approval delegation:
+ * - `users.managerId` points to the user's manager; managers approve their reports' requests
+ * - A manager can delegate approvals to another user for a date range (dates stored as
+ *   UTC midnight, both ends inclusive)
+ * - While a delegation is active the delegate acts for the delegator: they decide the
+ *   delegator's approval steps and see the delegator's reports
+ */
+
+/**
+ * The user plus everyone who has delegated their approvals to the user on `date`
+ */
+export async function getActingApproverIds(userId: string, date: Date = new Date()): Promise<string[]> {
+  const day = toEffectiveDate(date);
+  const delegations = await prisma.approvalDelegation.findMany({
+    where: {
+      delegateId: userId,
+      from: { lte: day },
+      to: { gte: day },
+    },
+    select: { delegatorId: true },
+  });
+
+  return [userId, ...new Set(delegations.map((delegation) => delegation.delegatorId))];
+}
+
+/**
+ * Direct reports of the given managers
+ */
+export async function getReportIds(managerIds: string[]): Promise<string[]> {
+  const reports = await prisma.user.findMany({
+    where: {
+      managerId: { in: managerIds },
+      deletedAt: null,
+    },
+    select: { id: true },
+  });
+
+  return reports.map((report) => report.id);
+}
+
+/**
+ * Users whose timesheets `userId` may see: own reports, those of active delegators and,
+ * with `worklogs.approve`, members of projects the user leads. Null with `reports.view`,
+ * which covers everyone.
+ */
+export async function getManagedUserIds(
+  userId: string,
+  permissions: Permission[]
+): Promise<string[] | null> {
+  if (permissions.includes('reports.view')) {
+    return null;
+  }
+
+  const managedUserIds = new Set(await getReportIds(await getActingApproverIds(userId)));
+
+  if (permissions.includes('worklogs.approve')) {
+    const members = await prisma.user.findMany({
+      where: {
+        deletedAt: null,
+        projects: { some: { leadId: userId } },
+      },
+      select: { id: true },
+    });
+    members.forEach((member) => managedUserIds.add(member.id));
+  }
+
+  // A delegate can be one of the delegator's reports; they never manage themselves
+  managedUserIds.delete(userId);
+
+  return [...managedUserIds];
+}
+
+/**
+ * Whether making `managerId` the manager of `userId` would close a loop in the reporting line
+ */
+export async function wouldCreateReportingCycle(userId: string, managerId: string): Promise<boolean> {
+  return isInReportingLine(managerId, userId);
+}
+
+/**
+ * Whether `userId` is `managerId` or reports to them, directly or further down the line
+ */
+export async function isInReportingLine(userId: string, managerId: string): Promise<boolean> {
+  const visited = new Set<string>();
+  let currentId: string | null = userId;
+
+  while (currentId && !visited.has(currentId)) {
+    if (currentId === managerId) {
+      return true;
+    }
+    visited.add(currentId);
+
+    const manager: { managerId: string | null } | null = await prisma.user.findUnique({
+      where: { id: currentId },
+      select: { managerId: true },
+    });
+    currentId = manager?.managerId ?? null;
+  }
+
+  return false;
+}
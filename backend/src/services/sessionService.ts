@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Login sessions:
+ * - Login creates a session and returns a short-lived access token (JWT carrying the session id)
+ *   plus a refresh token `<sessionId>.<secret>`; only a hash of the secret is stored
+ * - Every refresh rotates the secret and extends the session; presenting an already rotated
+ *   secret means the token was copied, so the whole session is revoked
+ * - Revoked or expired sessions, and sessions of deleted users, reject their access tokens
+ *   on the next request
+ */
+
+export const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+export interface AccessTokenPayload {
+  userId: string;
+  isAdmin: boolean;
+  sessionId: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export function signAccessToken(payload: AccessTokenPayload): string {
+  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+export async function createSession(
+  user: { id: string; isAdmin: boolean },
+  client: SessionClientInfo
+): Promise<SessionTokens> {
+  const secret = newSecret();
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: client.userAgent?.slice(0, 500),
+      ipAddress: client.ipAddress,
+      expiresAt: refreshExpiry(),
+    },
+  });
+
+  return {
+    token: signAccessToken({ userId: user.id, isAdmin: user.isAdmin, sessionId: session.id }),
+    refreshToken: `${session.id}.${secret}`,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair. Returns null when the token is unknown,
+ * expired, revoked or belongs to a deleted user.
+ */
+export async function refreshSession(
+  refreshToken: string,
+  client: SessionClientInfo
+): Promise<SessionTokens | null> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret) {
+    return null;
+  }
+
+  const session = await findActiveSession(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const nextSecret = newSecret();
+  // Compare-and-swap so two refreshes with the same token cannot both succeed
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hashSecret(secret), revokedAt: null },
+    data: {
+      refreshTokenHash: hashSecret(nextSecret),
+      lastUsedAt: new Date(),
+      expiresAt: refreshExpiry(),
+      ipAddress: client.ipAddress ?? session.ipAddress,
+    },
+  });
+
+  if (rotated.count === 0) {
+    // An old refresh token was replayed
+    await revokeSession(session.id);
+    return null;
+  }
+
+  return {
+    token: signAccessToken({
+      userId: session.userId,
+      isAdmin: session.user.isAdmin,
+      sessionId: session.id,
+    }),
+    refreshToken: `${session.id}.${nextSecret}`,
+  };
+}
+
+/**
+ * Session that is neither revoked nor expired, of a user that is not deleted
+ */
+export async function findActiveSession(sessionId: string) {
+  return prisma.session.findFirst({
+    where: {
+      id: sessionId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      user: { deletedAt: null },
+    },
+    include: {
+      user: {
+        select: {
+          isAdmin: true,
+          twoFactor: { select: { enabledAt: true } },
+        },
+      },
+    },
+  });
+}
+
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke the session a refresh token belongs to, if the token is its current one
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret) {
+    return;
+  }
+
+  await prisma.session.updateMany({
+    where: { id: sessionId, refreshTokenHash: hashSecret(secret), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function revokeUserSessions(userId: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
@@ -0,0 +1,153 @@
+import { PrismaClient, TimesheetPeriodType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Accrual settings are versioned: each version applies from its `effectiveFrom`
+ * date until the next one. Past versions are never rewritten, so accruals and
+ * limits for a given month always use the values that were in force then.
+ */
+
+export const SETTINGS_ID = 'global';
+
+const BASELINE_EFFECTIVE_FROM = new Date(Date.UTC(1970, 0, 1));
+
+export interface SettingsValues {
+  vacationFutureAccrueDays: number;
+  sickLeaveWithoutCertificateLimit: number;
+  sickLeaveWithCertificateLimit: number;
+  vacationCarryoverLimit: number;
+}
+
+export interface SettingsVersionData extends SettingsValues {
+  id: string;
+  effectiveFrom: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DEFAULT_SETTINGS: SettingsValues = {
+  vacationFutureAccrueDays: 1.5,
+  sickLeaveWithoutCertificateLimit: 5,
+  sickLeaveWithCertificateLimit: 5,
+  vacationCarryoverLimit: 0,
+};
+
+/**
+ * Calendar date of `date` (local time) as UTC midnight, matching how `effectiveFrom` is stored
+ */
+export function toEffectiveDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+async function getOrCreateSettings() {
+  const settings = await prisma.settings.findUnique({
+    where: { id: SETTINGS_ID },
+  });
+
+  if (settings) {
+    return settings;
+  }
+
+  return prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    update: {},
+    create: {
+      id: SETTINGS_ID,
+      ...DEFAULT_SETTINGS,
+    },
+  });
+}
+
+/**
+ * All settings versions, oldest first. Creates the baseline version on first use.
+ */
+export async function getSettingsTimeline(): Promise<SettingsVersionData[]> {
+  const versions = await prisma.settingsVersion.findMany({
+    where: { settingsId: SETTINGS_ID },
+    orderBy: { effectiveFrom: 'asc' },
+  });
+
+  if (versions.length > 0) {
+    return versions;
+  }
+
+  const settings = await getOrCreateSettings();
+  const baseline = await prisma.settingsVersion.upsert({
+    where: {
+      settingsId_effectiveFrom: {
+        settingsId: SETTINGS_ID,
+        effectiveFrom: BASELINE_EFFECTIVE_FROM,
+      },
+    },
+    update: {},
+    create: {
+      settingsId: SETTINGS_ID,
+      effectiveFrom: BASELINE_EFFECTIVE_FROM,
+      vacationFutureAccrueDays: settings.vacationFutureAccrueDays,
+      sickLeaveWithoutCertificateLimit: settings.sickLeaveWithoutCertificateLimit,
+      sickLeaveWithCertificateLimit: settings.sickLeaveWithCertificateLimit,
+      vacationCarryoverLimit: settings.vacationCarryoverLimit,
+    },
+  });
+
+  return [baseline];
+}
+
+/**
+ * Version in force on a date, from a timeline loaded with `getSettingsTimeline`
+ */
+export function resolveSettings(timeline: SettingsVersionData[], date: Date): SettingsVersionData {
+  const effectiveDate = toEffectiveDate(date).getTime();
+  let current = timeline[0];
+
+  for (const version of timeline) {
+    if (version.effectiveFrom.getTime() <= effectiveDate) {
+      current = version;
+    } else {
+      break;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Settings in force on a date (today by default)
+ */
+export async function getSettingsForDate(date: Date = new Date()): Promise<SettingsVersionData> {
+  const timeline = await getSettingsTimeline();
+  return resolveSettings(timeline, date);
+}
+
+/**
+ * Whether users with any permission must use two-factor authentication (not versioned)
+ */
+export async function getRequireTwoFactorForElevated(): Promise<boolean> {
+  const settings = await getOrCreateSettings();
+  return settings.requireTwoFactorForElevated;
+}
+
+export async function setRequireTwoFactorForElevated(required: boolean): Promise<void> {
+  await getOrCreateSettings();
+  await prisma.settings.update({
+    where: { id: SETTINGS_ID },
+    data: { requireTwoFactorForElevated: required },
+  });
+}
+
+/**
+ * Length of timesheet periods (not versioned; periods already submitted keep their dates)
+ */
+export async function getTimesheetPeriodType(): Promise<TimesheetPeriodType> {
+  const settings = await getOrCreateSettings();
+  return settings.timesheetPeriod;
+}
+
+export async function setTimesheetPeriodType(periodType: TimesheetPeriodType): Promise<void> {
+  await getOrCreateSettings();
+  await prisma.settings.update({
+    where: { id: SETTINGS_ID },
+    data: { timesheetPeriod: periodType },
+  });
+}
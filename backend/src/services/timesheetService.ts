@@ -0,0 +1,334 @@
+import { PrismaClient, Timesheet, TimesheetStatus } from '@prisma/client';
+import { getTimesheetPeriodType, toEffectiveDate } from './settingsService.js';
+import { getManagedUserIds } from './reportingService.js';
+import { getPastDueHolidaysByUser } from './holidayService.js';
+import { Permission } from './permissionService.js';
+import {
+  getPeriodWorkLogRange,
+  getTimesheetPeriod,
+  listTimesheetPeriods,
+  periodsOverlap,
+  TimesheetPeriod,
+  toLocalDay,
+} from '../utils/timesheetUtils.js';
+import { HolidaySet } from '../utils/dateUtils.js';
+import { calculateIsPastDue, getWorkLogHours } from '../utils/workLogUtils.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Timesheet periods (weekly or monthly, see `settings.timesheetPeriod`):
+ * - Employees submit a period; an approver (see `getTimesheetReviewScope`) approves it or
+ *   sends it back with a comment
+ * - Work logs in a submitted or approved period cannot be created, edited or deleted; a
+ *   period sent back can be edited and submitted again
+ * - Users with `worklogs.manage` can reopen an approved period
+ * - A period that is not submitted is missing once its last day is past due
+ *   (see `calculateIsPastDue`)
+ */
+
+export const LOCKED_TIMESHEET_STATUSES: TimesheetStatus[] = ['submitted', 'approved'];
+
+const decidedBySelect = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+  },
+} as const;
+
+export interface TimesheetPeriodSummary extends TimesheetPeriod {
+  id: string | null;
+  status: TimesheetStatus | null;
+  isMissing: boolean;
+  hours: number;
+  comment: string | null;
+  submittedAt: Date | null;
+  decidedAt: Date | null;
+  decidedBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+/**
+ * A period is missing when it was never submitted (or was sent back or reopened) and its
+ * work logs are past due
+ */
+export function isTimesheetMissing(
+  period: TimesheetPeriod,
+  status: TimesheetStatus | null,
+  holidays?: HolidaySet,
+  now: Date = new Date()
+): boolean {
+  if (status && LOCKED_TIMESHEET_STATUSES.includes(status)) {
+    return false;
+  }
+  return calculateIsPastDue(toLocalDay(period.periodEnd), now, holidays);
+}
+
+/**
+ * The submitted or approved timesheet covering a work log date, if any
+ */
+export async function findLockingTimesheet(userId: string, date: Date): Promise<Timesheet | null> {
+  const day = toEffectiveDate(date);
+  return prisma.timesheet.findFirst({
+    where: {
+      userId,
+      status: { in: LOCKED_TIMESHEET_STATUSES },
+      periodStart: { lte: day },
+      periodEnd: { gte: day },
+    },
+  });
+}
+
+/**
+ * Users whose timesheets `userId` may approve: everyone with `worklogs.manage`, otherwise
+ * the people the user manages (see `getManagedUserIds`; `reports.view` alone only grants
+ * read access). Null means every user. Never includes the user's own timesheets.
+ */
+export async function getTimesheetReviewScope(
+  userId: string,
+  permissions: Permission[]
+): Promise<string[] | null> {
+  if (permissions.includes('worklogs.manage')) {
+    return null;
+  }
+
+  const managedUserIds = await getManagedUserIds(
+    userId,
+    permissions.filter((permission) => permission !== 'reports.view')
+  );
+  return (managedUserIds ?? []).filter((managedUserId) => managedUserId !== userId);
+}
+
+/**
+ * Work log hours per period of each user, in one query
+ */
+async function getHoursByUserPeriods(
+  periodsByUser: Map<string, TimesheetPeriod[]>
+): Promise<Map<string, number[]>> {
+  const ranges = [...periodsByUser]
+    .filter(([, periods]) => periods.length > 0)
+    .map(([userId, periods]) => {
+      const first = periods.reduce((a, b) => (a.periodStart <= b.periodStart ? a : b));
+      const last = periods.reduce((a, b) => (a.periodEnd >= b.periodEnd ? a : b));
+      return {
+        userId,
+        date: { gte: getPeriodWorkLogRange(first).gte, lt: getPeriodWorkLogRange(last).lt },
+      };
+    });
+  const workLogs =
+    ranges.length > 0
+      ? await prisma.workLog.findMany({
+          where: { OR: ranges },
+          select: { userId: true, date: true, start: true, end: true, breakMinutes: true },
+        })
+      : [];
+
+  const logsByUser = new Map<string, typeof workLogs>();
+  for (const log of workLogs) {
+    const userLogs = logsByUser.get(log.userId) ?? [];
+    userLogs.push(log);
+    logsByUser.set(log.userId, userLogs);
+  }
+
+  const hoursByUser = new Map<string, number[]>();
+  for (const [userId, periods] of periodsByUser) {
+    const userLogs = logsByUser.get(userId) ?? [];
+    hoursByUser.set(
+      userId,
+      periods.map((period) => {
+        const { gte, lt } = getPeriodWorkLogRange(period);
+        return userLogs
+          .filter((log) => log.date >= gte && log.date < lt)
+          .reduce((sum, log) => sum + getWorkLogHours(log), 0);
+      })
+    );
+  }
+  return hoursByUser;
+}
+
+/**
+ * Work log hours of each timesheet, in the given order
+ */
+export async function getTimesheetsHours(timesheets: Timesheet[]): Promise<number[]> {
+  const periodsByUser = new Map<string, Timesheet[]>();
+  for (const timesheet of timesheets) {
+    const userTimesheets = periodsByUser.get(timesheet.userId) ?? [];
+    userTimesheets.push(timesheet);
+    periodsByUser.set(timesheet.userId, userTimesheets);
+  }
+
+  const hoursByUser = await getHoursByUserPeriods(periodsByUser);
+  const hoursById = new Map<string, number>();
+  for (const [userId, userTimesheets] of periodsByUser) {
+    userTimesheets.forEach((timesheet, index) =>
+      hoursById.set(timesheet.id, hoursByUser.get(userId)![index])
+    );
+  }
+  return timesheets.map((timesheet) => hoursById.get(timesheet.id) ?? 0);
+}
+
+/**
+ * A user's periods between two dates (UTC midnight): submitted ones as stored, the rest
+ * as periods of the current type
+ */
+export async function listUserTimesheets(
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<TimesheetPeriodSummary[]> {
+  return (await listTimesheetsByUser([userId], from, to)).get(userId) ?? [];
+}
+
+/**
+ * `listUserTimesheets` for several users at once, with a fixed number of queries
+ */
+export async function listTimesheetsByUser(
+  userIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, TimesheetPeriodSummary[]>> {
+  if (userIds.length === 0) {
+    return new Map();
+  }
+
+  const periodType = await getTimesheetPeriodType();
+  const timesheets = await prisma.timesheet.findMany({
+    where: { userId: { in: userIds }, periodStart: { lte: to }, periodEnd: { gte: from } },
+    include: { decidedBy: decidedBySelect },
+  });
+
+  const holidaysByUser = await getPastDueHolidaysByUser(
+    userIds.flatMap((userId) => [
+      { userId, date: toLocalDay(from) },
+      { userId, date: toLocalDay(to) },
+    ])
+  );
+  const allPeriods = listTimesheetPeriods(from, to, periodType);
+
+  const periodsByUser = new Map<string, Omit<TimesheetPeriodSummary, 'hours'>[]>();
+  for (const userId of userIds) {
+    const holidays = holidaysByUser.get(userId);
+    const userTimesheets = timesheets.filter((timesheet) => timesheet.userId === userId);
+
+    // Stored periods win, e.g. weeks submitted before the setting changed to months
+    const unsubmitted = allPeriods.filter(
+      (period) => !userTimesheets.some((timesheet) => periodsOverlap(timesheet, period))
+    );
+
+    periodsByUser.set(
+      userId,
+      [
+        ...userTimesheets.map((timesheet) => ({
+          id: timesheet.id,
+          periodStart: timesheet.periodStart,
+          periodEnd: timesheet.periodEnd,
+          status: timesheet.status,
+          isMissing: isTimesheetMissing(timesheet, timesheet.status, holidays),
+          comment: timesheet.comment,
+          submittedAt: timesheet.submittedAt,
+          decidedAt: timesheet.decidedAt,
+          decidedBy: timesheet.decidedBy,
+        })),
+        ...unsubmitted.map((period) => ({
+          ...period,
+          id: null,
+          status: null,
+          isMissing: isTimesheetMissing(period, null, holidays),
+          comment: null,
+          submittedAt: null,
+          decidedAt: null,
+          decidedBy: null,
+        })),
+      ].sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime())
+    );
+  }
+
+  const hoursByUser = await getHoursByUserPeriods(periodsByUser);
+  return new Map(
+    [...periodsByUser].map(([userId, periods]) => [
+      userId,
+      periods.map((period, index) => ({ ...period, hours: hoursByUser.get(userId)![index] })),
+    ])
+  );
+}
+
+/**
+ * Submit the period containing `day` (UTC midnight) for approval
+ */
+export async function submitTimesheet(
+  userId: string,
+  day: Date
+): Promise<{ timesheet: Timesheet } | { error: string }> {
+  const existing = await prisma.timesheet.findFirst({
+    where: { userId, periodStart: { lte: day }, periodEnd: { gte: day } },
+  });
+
+  if (existing && LOCKED_TIMESHEET_STATUSES.includes(existing.status)) {
+    return { error: 'This period is already submitted' };
+  }
+
+  const period = existing ?? getTimesheetPeriod(day, await getTimesheetPeriodType());
+  if (period.periodStart > toEffectiveDate(new Date())) {
+    return { error: 'Future periods cannot be submitted' };
+  }
+
+  if (!existing) {
+    // A period of the current type can overlap weeks submitted under an earlier setting
+    const overlapping = await prisma.timesheet.findFirst({
+      where: {
+        userId,
+        periodStart: { lte: period.periodEnd },
+        periodEnd: { gte: period.periodStart },
+      },
+    });
+    if (overlapping) {
+      return { error: 'This period overlaps a timesheet submitted with different dates' };
+    }
+  }
+
+  const submission = {
+    status: 'submitted' as const,
+    submittedAt: new Date(),
+    decidedById: null,
+    decidedAt: null,
+  };
+
+  const timesheet = existing
+    ? await prisma.timesheet.update({ where: { id: existing.id }, data: submission })
+    : await prisma.timesheet.create({
+        data: { userId, periodStart: period.periodStart, periodEnd: period.periodEnd, ...submission },
+      });
+
+  return { timesheet };
+}
+
+/**
+ * Keep only work logs in approved periods of their user
+ */
+export async function filterApprovedWorkLogs<T extends { userId: string; date: Date }>(
+  workLogs: T[]
+): Promise<T[]> {
+  if (workLogs.length === 0) {
+    return [];
+  }
+
+  const days = workLogs.map((log) => toEffectiveDate(log.date).getTime());
+  const approved = await prisma.timesheet.findMany({
+    where: {
+      userId: { in: [...new Set(workLogs.map((log) => log.userId))] },
+      status: 'approved',
+      periodStart: { lte: new Date(Math.max(...days)) },
+      periodEnd: { gte: new Date(Math.min(...days)) },
+    },
+    select: { userId: true, periodStart: true, periodEnd: true },
+  });
+
+  return workLogs.filter((log, index) =>
+    approved.some(
+      (timesheet) =>
+        timesheet.userId === log.userId &&
+        timesheet.periodStart.getTime() <= days[index] &&
+        timesheet.periodEnd.getTime() >= days[index]
+    )
+  );
+}
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+import { PrismaClient } from '@prisma/client';
+import { getRequireTwoFactorForElevated } from './settingsService.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * TOTP two-factor authentication:
+ * - Enrollment stores a pending secret and shows it as a QR code; the first valid code
+ *   from the authenticator app enables 2FA and issues recovery codes
+ * - Codes are 6 digits, 30-second steps, one step of clock drift allowed; an accepted
+ *   step cannot be used again
+ * - Recovery codes are single use and stored hashed
+ * - When the global policy requires it, users with any permission must enroll; until they do,
+ *   they only have employee access
+ */
+
+authenticator.options = { window: 1 };
+
+const ISSUER = process.env.TOTP_ISSUER || 'Stellars Tech';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = '5m';
+const TOTP_STEP_SECONDS = 30;
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const currentStep = () => Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+// "k3f9qz7m2d" -> "k3f9q-z7m2d"
+function generateRecoveryCode(): string {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  const bytes = crypto.randomBytes(10);
+  const chars = Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Short-lived token proving the password step of a login passed; exchanged for a session
+ * together with a 2FA code. It carries no session id, so it is not an access token.
+ */
+export function signTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ userId, purpose: 'two_factor' }, process.env.JWT_SECRET!, {
+    expiresIn: CHALLENGE_TTL,
+  });
+}
+
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string; purpose?: string };
+    return decoded.purpose === 'two_factor' ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await prisma.userTwoFactor.findUnique({
+    where: { userId },
+    select: { enabledAt: true },
+  });
+  return !!twoFactor?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+
+  return {
+    enabled: !!twoFactor?.enabledAt,
+    enabledAt: twoFactor?.enabledAt ?? null,
+    recoveryCodesLeft: twoFactor?.enabledAt ? twoFactor.recoveryCodeHashes.length : 0,
+  };
+}
+
+/**
+ * Whether a user with these permissions must enroll before getting them
+ */
+export async function isTwoFactorSetupRequired(
+  permissions: readonly string[],
+  twoFactorEnabled: boolean
+): Promise<boolean> {
+  if (twoFactorEnabled || permissions.length === 0) {
+    return false;
+  }
+  return getRequireTwoFactorForElevated();
+}
+
+export async function startEnrollment(userId: string, email: string): Promise<TwoFactorEnrollment> {
+  const secret = authenticator.generateSecret();
+
+  await prisma.userTwoFactor.upsert({
+    where: { userId },
+    update: { pendingSecret: secret },
+    create: { userId, pendingSecret: secret },
+  });
+
+  const otpauthUrl = authenticator.keyuri(email, ISSUER, secret);
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Enable 2FA with the first code from the app. Returns the recovery codes, or null when
+ * there is no enrollment in progress or the code is wrong.
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+  if (!twoFactor?.pendingSecret) {
+    return null;
+  }
+
+  const delta = authenticator.checkDelta(code, twoFactor.pendingSecret);
+  if (delta === null) {
+    return null;
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.userTwoFactor.update({
+    where: { userId },
+    data: {
+      secret: twoFactor.pendingSecret,
+      pendingSecret: null,
+      enabledAt: new Date(),
+      recoveryCodeHashes: hashes,
+      lastUsedStep: currentStep() + delta,
+    },
+  });
+
+  return codes;
+}
+
+/**
+ * Check a code from the authenticator app; each time step is accepted only once
+ */
+export async function verifyTotpCode(userId: string, code: string): Promise<boolean> {
+  const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+  if (!twoFactor?.enabledAt || !twoFactor.secret) {
+    return false;
+  }
+
+  const delta = authenticator.checkDelta(code.replace(/\s/g, ''), twoFactor.secret);
+  if (delta === null) {
+    return false;
+  }
+
+  const step = currentStep() + delta;
+  const accepted = await prisma.userTwoFactor.updateMany({
+    where: {
+      userId,
+      OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+    },
+    data: { lastUsedStep: step },
+  });
+
+  return accepted.count > 0;
+}
+
+/**
+ * Use up a recovery code instead of a TOTP code
+ */
+export async function redeemRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+  if (!twoFactor?.enabledAt) {
+    return false;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!twoFactor.recoveryCodeHashes.includes(hash)) {
+    return false;
+  }
+
+  // Only succeed if the code list is unchanged since it was read
+  const redeemed = await prisma.userTwoFactor.updateMany({
+    where: { userId, updatedAt: twoFactor.updatedAt },
+    data: {
+      recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter((existing) => existing !== hash),
+    },
+  });
+
+  return redeemed.count > 0;
+}
+
+export async function verifyTwoFactorCode(
+  userId: string,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (code) {
+    return verifyTotpCode(userId, code);
+  }
+  if (recoveryCode) {
+    return redeemRecoveryCode(userId, recoveryCode);
+  }
+  return false;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.userTwoFactor.update({
+    where: { userId },
+    data: { recoveryCodeHashes: hashes },
+  });
+  return codes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.userTwoFactor.deleteMany({ where: { userId } });
+}
@@ -0,0 +1,288 @@
+import { PrismaClient } from '@prisma/client';
+import { findLockingTimesheet } from './timesheetService.js';
+import { getPastDueHolidaysByUser } from './holidayService.js';
+import {
+  calculateIsPastDue,
+  getWorkLogHours,
+  MAX_WORK_HOURS_PER_DAY,
+  workLogsOverlap,
+} from '../utils/workLogUtils.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Rules shared by work logs entered by hand and those created by stopping a timer:
+ * - Entries of a user cannot overlap; one may start exactly when another ends
+ * - A day's entries together stay within MAX_WORK_HOURS_PER_DAY
+ * - Days in a submitted or approved timesheet period are locked
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Where the weekly grid puts a new entry on a day without other entries (hours after midnight)
+const GRID_DAY_START_HOUR = 9;
+
+/**
+ * Hours for one project on one day, as entered in the weekly grid. `date` is local midnight,
+ * as the client sends it for manual entries.
+ */
+export interface WorkLogHoursEntry {
+  date: Date;
+  projectId: string;
+  hours: number;
+}
+
+export interface WorkLogHoursResult {
+  created: string[];
+  updated: string[];
+  deleted: string[];
+}
+
+/**
+ * Check an entry against the rest of the user's day: its time range must not overlap
+ * another entry, and the day's entries together cannot exceed MAX_WORK_HOURS_PER_DAY
+ */
+export async function validateWorkLogEntry({
+  userId,
+  date,
+  start,
+  end,
+  breakMinutes,
+  excludeWorkLogId,
+}: {
+  userId: string;
+  date: Date;
+  start: Date;
+  end: Date;
+  breakMinutes: number;
+  excludeWorkLogId?: string;
+}): Promise<string | null> {
+  if (end <= start) {
+    return 'End time must be after start time';
+  }
+
+  const lockedError = await getLockedWorkLogError(userId, date);
+  if (lockedError) {
+    return lockedError;
+  }
+
+  const hours = getWorkLogHours({ start, end, breakMinutes });
+  if (hours <= 0) {
+    return 'Break must be shorter than the time worked';
+  }
+
+  const otherLogs = await prisma.workLog.findMany({
+    where: {
+      userId,
+      id: excludeWorkLogId ? { not: excludeWorkLogId } : undefined,
+      OR: [{ date }, { start: { lt: end }, end: { gt: start } }],
+    },
+    orderBy: { start: 'asc' },
+  });
+
+  if (otherLogs.some((log) => workLogsOverlap(log, { start, end }))) {
+    return 'This time range overlaps another work log';
+  }
+
+  const dayHours = otherLogs
+    .filter((log) => log.date.getTime() === date.getTime())
+    .reduce((sum, log) => sum + getWorkLogHours(log), hours);
+  if (dayHours > MAX_WORK_HOURS_PER_DAY) {
+    return `Total worked hours cannot exceed ${MAX_WORK_HOURS_PER_DAY} hours per day`;
+  }
+
+  return null;
+}
+
+/**
+ * Check a log's task and activity type: the task must belong to the log's project, and
+ * archived ones can only stay on logs that already had them
+ */
+export async function validateWorkLogCategories(
+  {
+    projectId,
+    taskId,
+    activityTypeId,
+  }: { projectId: string | null; taskId: string | null; activityTypeId: string | null },
+  existingLog?: { taskId: string | null; activityTypeId: string | null }
+): Promise<string | null> {
+  if (taskId) {
+    const task = await prisma.projectTask.findUnique({ where: { id: taskId } });
+    if (!task || task.projectId !== projectId) {
+      return 'Task does not belong to the selected project';
+    }
+    if (task.isArchived && taskId !== existingLog?.taskId) {
+      return 'This task is archived';
+    }
+  }
+
+  if (activityTypeId) {
+    const activityType = await prisma.activityType.findUnique({ where: { id: activityTypeId } });
+    if (!activityType) {
+      return 'Activity type not found';
+    }
+    if (activityType.isArchived && activityTypeId !== existingLog?.activityTypeId) {
+      return 'This activity type is archived';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Why work logs of this user and date cannot change, or null when they can
+ */
+export async function getLockedWorkLogError(userId: string, date: Date): Promise<string | null> {
+  const timesheet = await findLockingTimesheet(userId, date);
+  if (!timesheet) {
+    return null;
+  }
+  return timesheet.status === 'approved'
+    ? 'This timesheet period is approved and locked. Ask an admin to reopen it.'
+    : 'This timesheet period is submitted and locked until it is approved or sent back.';
+}
+
+/**
+ * Save a week of grid cells in one transaction. A cell stands for the project's entry on that
+ * day: an existing entry keeps its start and break and gets a new end, zero hours deletes it,
+ * and a new entry starts after the day's last entry (9:00 on an empty day). Cells whose project
+ * has several entries on that day cannot be edited in the grid. The whole week is checked like
+ * single entries before anything is written; `date` on an error is the day that failed.
+ */
+export async function saveWorkLogHours(
+  userId: string,
+  entries: WorkLogHoursEntry[]
+): Promise<WorkLogHoursResult | { error: string; date?: Date }> {
+  const dayTimes = [...new Set(entries.map((entry) => entry.date.getTime()))].sort(
+    (a, b) => a - b
+  );
+  if (dayTimes.length === 0) {
+    return { created: [], updated: [], deleted: [] };
+  }
+  if (dayTimes[dayTimes.length - 1] - dayTimes[0] >= 7 * DAY_MS) {
+    return { error: 'Entries must be within one week' };
+  }
+
+  for (const time of dayTimes) {
+    const lockedError = await getLockedWorkLogError(userId, new Date(time));
+    if (lockedError) {
+      return { error: lockedError, date: new Date(time) };
+    }
+  }
+
+  const holidays = (
+    await getPastDueHolidaysByUser(dayTimes.map((time) => ({ userId, date: new Date(time) })))
+  ).get(userId);
+
+  return prisma.$transaction(async (tx) => {
+    const rangeStart = new Date(dayTimes[0]);
+    const rangeEnd = new Date(dayTimes[dayTimes.length - 1] + DAY_MS);
+    const existingLogs = await tx.workLog.findMany({
+      where: {
+        userId,
+        OR: [
+          { date: { in: dayTimes.map((time) => new Date(time)) } },
+          { start: { lt: rangeEnd }, end: { gt: rangeStart } },
+        ],
+      },
+      orderBy: { start: 'asc' },
+    });
+
+    // The week as it will be after saving: kept and updated entries, then new ones
+    const planned = existingLogs.map((log) => ({ ...log, isDeleted: false, isChanged: false }));
+    const created: { date: Date; projectId: string; start: Date; end: Date }[] = [];
+
+    for (const entry of entries) {
+      const cellLogs = planned.filter(
+        (log) => log.date.getTime() === entry.date.getTime() && log.projectId === entry.projectId
+      );
+      if (cellLogs.length > 1) {
+        return {
+          error: 'This project has several entries on this day; edit them in the day view',
+          date: entry.date,
+        };
+      }
+
+      const minutes = Math.round(entry.hours * 60);
+      const [log] = cellLogs;
+      if (log && minutes === 0) {
+        log.isDeleted = true;
+      } else if (log) {
+        log.end = new Date(log.start.getTime() + (minutes + log.breakMinutes) * MINUTE_MS);
+        log.isChanged = true;
+      }
+    }
+
+    for (const entry of entries) {
+      const minutes = Math.round(entry.hours * 60);
+      const hasLog = planned.some(
+        (log) => log.date.getTime() === entry.date.getTime() && log.projectId === entry.projectId
+      );
+      if (hasLog || minutes === 0) {
+        continue;
+      }
+
+      const dayEnds = [...planned.filter((log) => !log.isDeleted), ...created]
+        .filter((log) => log.date.getTime() === entry.date.getTime())
+        .map((log) => log.end.getTime());
+      const start = new Date(
+        Math.max(entry.date.getTime() + GRID_DAY_START_HOUR * 60 * MINUTE_MS, ...dayEnds)
+      );
+      created.push({
+        date: entry.date,
+        projectId: entry.projectId,
+        start,
+        end: new Date(start.getTime() + minutes * MINUTE_MS),
+      });
+    }
+
+    const weekLogs = [...planned.filter((log) => !log.isDeleted), ...created].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
+    );
+    for (const time of dayTimes) {
+      const dayLogs = weekLogs.filter((log) => log.date.getTime() === time);
+      const date = new Date(time);
+
+      if (dayLogs.some((log) => log.end.getTime() > time + DAY_MS)) {
+        return { error: 'Not enough time left on this day for these hours', date };
+      }
+      if (dayLogs.reduce((sum, log) => sum + getWorkLogHours(log), 0) > MAX_WORK_HOURS_PER_DAY) {
+        return {
+          error: `Total worked hours cannot exceed ${MAX_WORK_HOURS_PER_DAY} hours per day`,
+          date,
+        };
+      }
+    }
+    for (let index = 1; index < weekLogs.length; index++) {
+      if (workLogsOverlap(weekLogs[index - 1], weekLogs[index])) {
+        return { error: 'These hours would overlap another work log', date: weekLogs[index].date };
+      }
+    }
+
+    const deleted = planned.filter((log) => log.isDeleted).map((log) => log.id);
+    const updated = planned.filter((log) => log.isChanged && !log.isDeleted);
+
+    await tx.workLog.deleteMany({ where: { id: { in: deleted } } });
+    for (const log of updated) {
+      await tx.workLog.update({ where: { id: log.id }, data: { end: log.end } });
+    }
+    const createdLogs = await Promise.all(
+      created.map((log) =>
+        tx.workLog.create({
+          data: {
+            userId,
+            ...log,
+            isPastDue: calculateIsPastDue(log.date, new Date(), holidays),
+          },
+        })
+      )
+    );
+
+    return {
+      created: createdLogs.map((log) => log.id),
+      updated: updated.map((log) => log.id),
+      deleted,
+    };
+  });
+}
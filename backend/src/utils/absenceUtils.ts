@@ -0,0 +1,60 @@
+/**
+ * Utility functions for absence durations (full, half-day and hourly absences)
+ */
+import { countWorkingDays, HolidaySet, isWorkingDay } from './dateUtils.js';
+
+/**
+ * Working hours in a full day, used to convert between days and hours
+ */
+export const WORKING_HOURS_PER_DAY = 8;
+
+export type AbsencePortion = 'full_day' | 'half_day_am' | 'half_day_pm' | 'hours';
+
+export interface AbsenceDuration {
+  from: Date;
+  to: Date;
+  portion?: AbsencePortion | null;
+  hours?: number | null;
+}
+
+/**
+ * Fraction of a day taken by a partial absence, or null for full-day absences
+ */
+export function getPartialDayFraction(absence: Pick<AbsenceDuration, 'portion' | 'hours'>): number | null {
+  switch (absence.portion) {
+    case 'half_day_am':
+    case 'half_day_pm':
+      return 0.5;
+    case 'hours':
+      return Math.min(absence.hours ?? 0, WORKING_HOURS_PER_DAY) / WORKING_HOURS_PER_DAY;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Count working days used by an absence, optionally clipped to a range.
+ * Partial absences count their fraction of a day when it falls on a working day.
+ */
+export function countAbsenceWorkingDays(
+  absence: AbsenceDuration,
+  holidays?: HolidaySet,
+  rangeStart?: Date,
+  rangeEnd?: Date
+): number {
+  const from = new Date(absence.from);
+  const to = new Date(absence.to);
+  const start = rangeStart ? new Date(Math.max(from.getTime(), rangeStart.getTime())) : from;
+  const end = rangeEnd ? new Date(Math.min(to.getTime(), rangeEnd.getTime())) : to;
+
+  if (end < start) {
+    return 0;
+  }
+
+  const fraction = getPartialDayFraction(absence);
+  if (fraction !== null) {
+    return isWorkingDay(start, holidays) ? fraction : 0;
+  }
+
+  return countWorkingDays(start, end, holidays);
+}
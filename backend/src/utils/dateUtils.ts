@@ -2,6 +2,8 @@
  * Utility functions for date calculations
  */
 
+import { z } from 'zod';
+
 /**
  * Check if a date is a weekend (Saturday or Sunday)
  */
@@ -11,10 +13,50 @@ export function isWeekend(date: Date): boolean {
 }
 
 /**
- * Count working days between two dates (excluding weekends)
- * Note: Public holidays are not considered in this basic implementation
+ * Set of holiday dates keyed by `toDateKey` (YYYY-MM-DD)
+ */
+export type HolidaySet = ReadonlySet<string>;
+
+/**
+ * Format a date as a YYYY-MM-DD key (local time) for holiday lookups
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Request field for a YYYY-MM-DD date; an ISO datetime is accepted and its time ignored
+ */
+export const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}/, 'Invalid date format. Use YYYY-MM-DD');
+
+/**
+ * Parse a YYYY-MM-DD date (or the date part of an ISO datetime) as UTC midnight,
+ * the way date-only columns (periods, budgets, rates, holidays) are stored
+ */
+export function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Check if a date is a working day (not a weekend and not a public holiday)
+ */
+export function isWorkingDay(date: Date, holidays?: HolidaySet): boolean {
+  if (isWeekend(date)) {
+    return false;
+  }
+  return !holidays || !holidays.has(toDateKey(date));
+}
+
+/**
+ * Count working days between two dates (excluding weekends and the given public holidays)
  */
-export function countWorkingDays(from: Date, to: Date): number {
+export function countWorkingDays(from: Date, to: Date, holidays?: HolidaySet): number {
   let count = 0;
   const current = new Date(from);
   current.setHours(0, 0, 0, 0);
@@ -23,7 +65,7 @@ export function countWorkingDays(from: Date, to: Date): number {
   end.setHours(23, 59, 59, 999);
 
   while (current <= end) {
-    if (!isWeekend(current)) {
+    if (isWorkingDay(current, holidays)) {
       count++;
     }
     current.setDate(current.getDate() + 1);
@@ -35,13 +77,13 @@ export function countWorkingDays(from: Date, to: Date): number {
 /**
  * Get the date that is N working days from the given date
  */
-export function addWorkingDays(date: Date, workingDays: number): Date {
+export function addWorkingDays(date: Date, workingDays: number, holidays?: HolidaySet): Date {
   const result = new Date(date);
   let daysAdded = 0;
   
   while (daysAdded < workingDays) {
     result.setDate(result.getDate() + 1);
-    if (!isWeekend(result)) {
+    if (isWorkingDay(result, holidays)) {
       daysAdded++;
     }
   }
@@ -50,20 +92,20 @@ export function addWorkingDays(date: Date, workingDays: number): Date {
 }
 
 /**
- * Check if user has completed trial period (3 months from hireDate)
+ * Check if user has completed trial period (3 months from hireDate by default)
  */
-export function hasCompletedTrialPeriod(hireDate: Date | null): boolean {
+export function hasCompletedTrialPeriod(hireDate: Date | null, trialPeriodMonths: number = 3): boolean {
   if (!hireDate) {
     return false; // If no hire date, consider trial not completed
   }
   
-  const threeMonthsLater = new Date(hireDate);
-  threeMonthsLater.setMonth(threeMonthsLater.getMonth() + 3);
+  const trialEnd = new Date(hireDate);
+  trialEnd.setMonth(trialEnd.getMonth() + trialPeriodMonths);
   
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   
-  return today >= threeMonthsLater;
+  return today >= trialEnd;
 }
 
 /**
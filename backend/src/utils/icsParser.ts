@@ -0,0 +1,114 @@
+/**
+ * Minimal iCalendar (.ics) parser for importing public holidays
+ */
+
+export interface ParsedHoliday {
+  date: Date; // UTC midnight
+  name: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Unfold continuation lines (RFC 5545: lines starting with a space or tab continue the previous one)
+ */
+function unfoldLines(content: string): string[] {
+  const rawLines = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const lines: string[] = [];
+
+  for (const line of rawLines) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\')
+    .trim();
+}
+
+/**
+ * Parse a DTSTART/DTEND value into a UTC midnight date.
+ * Both DATE (YYYYMMDD) and DATE-TIME (YYYYMMDDTHHMMSS[Z]) values are accepted;
+ * the time part is ignored because holidays are whole days.
+ */
+function parseDateValue(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Extract holidays from VEVENT blocks. Multi-day events are expanded into one
+ * holiday per day (DTEND is exclusive, as in all-day iCalendar events).
+ */
+export function parseIcsHolidays(content: string): ParsedHoliday[] {
+  const lines = unfoldLines(content);
+  const holidays: ParsedHoliday[] = [];
+
+  let inEvent = false;
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let summary = '';
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      inEvent = true;
+      start = null;
+      end = null;
+      summary = '';
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      inEvent = false;
+      if (!start) {
+        continue;
+      }
+
+      const name = summary || 'Holiday';
+      const lastDay = end && end > start ? new Date(end.getTime() - DAY_MS) : start;
+      for (let time = start.getTime(); time <= lastDay.getTime(); time += DAY_MS) {
+        holidays.push({ date: new Date(time), name });
+      }
+      continue;
+    }
+
+    if (!inEvent) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    // Property name may carry parameters, e.g. DTSTART;VALUE=DATE:20250101
+    const property = line.slice(0, separatorIndex).split(';')[0].toUpperCase();
+    const value = line.slice(separatorIndex + 1);
+
+    if (property === 'DTSTART') {
+      start = parseDateValue(value);
+    } else if (property === 'DTEND') {
+      end = parseDateValue(value);
+    } else if (property === 'SUMMARY') {
+      summary = unescapeText(value);
+    }
+  }
+
+  return holidays;
+}
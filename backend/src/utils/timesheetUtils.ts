@@ -0,0 +1,69 @@
+/**
+ * Utility functions for timesheet periods. Period dates are calendar dates stored as
+ * UTC midnight; `periodEnd` is the last day of the period.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TimesheetPeriodType = 'week' | 'month';
+
+export interface TimesheetPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * The period of the given type containing `day` (UTC midnight). Weeks run Monday to Sunday.
+ */
+export function getTimesheetPeriod(day: Date, periodType: TimesheetPeriodType): TimesheetPeriod {
+  if (periodType === 'month') {
+    return {
+      periodStart: new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1)),
+      periodEnd: new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)),
+    };
+  }
+
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  const periodStart = new Date(day.getTime() - daysSinceMonday * DAY_MS);
+  return { periodStart, periodEnd: new Date(periodStart.getTime() + 6 * DAY_MS) };
+}
+
+/**
+ * Periods of the given type covering `from` to `to` (UTC midnight, inclusive)
+ */
+export function listTimesheetPeriods(
+  from: Date,
+  to: Date,
+  periodType: TimesheetPeriodType
+): TimesheetPeriod[] {
+  const periods: TimesheetPeriod[] = [];
+  let period = getTimesheetPeriod(from, periodType);
+
+  while (period.periodStart <= to) {
+    periods.push(period);
+    period = getTimesheetPeriod(new Date(period.periodEnd.getTime() + DAY_MS), periodType);
+  }
+
+  return periods;
+}
+
+export const periodsOverlap = (a: TimesheetPeriod, b: TimesheetPeriod) =>
+  a.periodStart <= b.periodEnd && b.periodStart <= a.periodEnd;
+
+/**
+ * Local midnight of a UTC-midnight calendar date, for comparing with work log dates
+ * (which are local midnight)
+ */
+export function toLocalDay(day: Date): Date {
+  return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+}
+
+/**
+ * Local-time bounds of a period for querying work logs: `gte` its first day, `lt` the day after
+ */
+export function getPeriodWorkLogRange(period: TimesheetPeriod): { gte: Date; lt: Date } {
+  return {
+    gte: toLocalDay(period.periodStart),
+    lt: toLocalDay(new Date(period.periodEnd.getTime() + DAY_MS)),
+  };
+}
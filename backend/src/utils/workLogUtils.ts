@@ -0,0 +1,112 @@
+/**
+ * Utility functions for work log time ranges (start/end with an unpaid break) and their hours
+ */
+import { addWorkingDays, HolidaySet } from './dateUtils.js';
+
+/**
+ * Most hours a user can log on one day, across all of that day's entries
+ */
+export const MAX_WORK_HOURS_PER_DAY = 16;
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export interface WorkLogTimeRange {
+  start: Date;
+  end: Date;
+  breakMinutes?: number | null;
+}
+
+/**
+ * Hours worked in an entry: its time range minus the break
+ */
+export function getWorkLogHours(log: WorkLogTimeRange): number {
+  const rangeHours = (new Date(log.end).getTime() - new Date(log.start).getTime()) / HOUR_MS;
+  return Math.max(0, rangeHours - (log.breakMinutes ?? 0) / 60);
+}
+
+/**
+ * Whether two time ranges share any time; touching ends (9:00-12:00 and 12:00-13:00) do not
+ */
+export function workLogsOverlap(a: WorkLogTimeRange, b: WorkLogTimeRange): boolean {
+  return new Date(a.start) < new Date(b.end) && new Date(b.start) < new Date(a.end);
+}
+
+/**
+ * Whether a log for this date was entered late (more than 5 working days after it)
+ */
+export function calculateIsPastDue(
+  logDate: Date,
+  now: Date = new Date(),
+  holidays?: HolidaySet
+): boolean {
+  const normalizedLogDate = new Date(logDate);
+  normalizedLogDate.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const pastDueDate = addWorkingDays(normalizedLogDate, 5, holidays);
+  return today > pastDueDate;
+}
+
+export interface WorkLogBreakdownItem {
+  hours: number;
+}
+
+export interface ActivityTypeBreakdownItem extends WorkLogBreakdownItem {
+  activityTypeId: string | null;
+  name: string | null;
+}
+
+export interface TaskBreakdownItem extends WorkLogBreakdownItem {
+  projectId: string | null;
+  projectName: string | null;
+  taskId: string | null;
+  taskName: string | null;
+}
+
+interface CategorizedWorkLog extends WorkLogTimeRange {
+  project?: { id: string; name: string } | null;
+  task?: { id: string; name: string } | null;
+  activityType?: { id: string; name: string } | null;
+}
+
+/**
+ * Hours per activity type and per project task, most hours first. Logs without an
+ * activity type or task are grouped under null.
+ */
+export function getWorkLogBreakdown(logs: CategorizedWorkLog[]): {
+  byActivityType: ActivityTypeBreakdownItem[];
+  byTask: TaskBreakdownItem[];
+} {
+  const byActivityType = new Map<string, ActivityTypeBreakdownItem>();
+  const byTask = new Map<string, TaskBreakdownItem>();
+
+  for (const log of logs) {
+    const hours = getWorkLogHours(log);
+
+    const activityKey = log.activityType?.id ?? '';
+    const activity = byActivityType.get(activityKey) ?? {
+      activityTypeId: log.activityType?.id ?? null,
+      name: log.activityType?.name ?? null,
+      hours: 0,
+    };
+    activity.hours += hours;
+    byActivityType.set(activityKey, activity);
+
+    const taskKey = `${log.project?.id ?? ''}|${log.task?.id ?? ''}`;
+    const task = byTask.get(taskKey) ?? {
+      projectId: log.project?.id ?? null,
+      projectName: log.project?.name ?? null,
+      taskId: log.task?.id ?? null,
+      taskName: log.task?.name ?? null,
+      hours: 0,
+    };
+    task.hours += hours;
+    byTask.set(taskKey, task);
+  }
+
+  const byHours = (a: WorkLogBreakdownItem, b: WorkLogBreakdownItem) => b.hours - a.hours;
+  return {
+    byActivityType: [...byActivityType.values()].sort(byHours),
+    byTask: [...byTask.values()].sort(byHours),
+  };
+}
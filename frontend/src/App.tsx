@@ -1,16 +1,25 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { AuthProvider, useAuth, hasPermission } from './contexts/AuthContext';
 import Login from './pages/Login';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import SsoCallback from './pages/SsoCallback';
 import Home from './pages/Home';
 import Employees from './pages/Employees';
 import EmployeeProfile from './pages/EmployeeProfile';
 import Entitlement from './pages/Entitlement';
 import Admin from './pages/Admin';
 import Timesheets from './pages/Timesheets';
+import Approvals from './pages/Approvals';
 import Reports from './pages/Reports';
 import Projects from './pages/Projects';
 import Technologies from './pages/Technologies';
 import Settings from './pages/Settings';
+import HolidayCalendars from './pages/HolidayCalendars';
+import LeavePolicies from './pages/LeavePolicies';
+import Roles from './pages/Roles';
+import AuditLog from './pages/AuditLog';
+import Billing from './pages/Billing';
 import Layout from './components/Layout';
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
@@ -27,7 +36,14 @@ function PrivateRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
-function AdminRoute({ children }: { children: React.ReactNode }) {
+// Allows the page when the user has any of the given permissions
+function PermissionRoute({
+  permissions,
+  children,
+}: {
+  permissions: string[];
+  children: React.ReactNode;
+}) {
   const { user, loading } = useAuth();
 
   if (loading) {
@@ -38,7 +54,7 @@ function AdminRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" />;
   }
 
-  if (!user.isAdmin) {
+  if (!permissions.some((permission) => hasPermission(user, permission))) {
     return <Navigate to="/" />;
   }
 
@@ -51,6 +67,9 @@ function App() {
       <BrowserRouter>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/sso/callback" element={<SsoCallback />} />
           <Route
             path="/"
             element={
@@ -64,44 +83,79 @@ function App() {
             <Route path="employees/:id" element={<EmployeeProfile />} />
             <Route path="entitlement" element={<Entitlement />} />
             <Route path="timesheets" element={<Timesheets />} />
+            <Route path="approvals" element={<Approvals />} />
             <Route
               path="technologies"
               element={
-                <AdminRoute>
+                <PermissionRoute permissions={['settings.manage']}>
                   <Technologies />
-                </AdminRoute>
+                </PermissionRoute>
               }
             />
             <Route
               path="admin"
               element={
-                <AdminRoute>
+                <PermissionRoute permissions={['users.manage']}>
                   <Admin />
-                </AdminRoute>
-              }
-            />
-            <Route
-              path="reports"
-              element={
-                <AdminRoute>
-                  <Reports />
-                </AdminRoute>
+                </PermissionRoute>
               }
             />
+            {/* Report readers see everyone, managers and project leads their people (scoped by the API) */}
+            <Route path="reports" element={<Reports />} />
             <Route
               path="projects"
               element={
-                <AdminRoute>
+                <PermissionRoute permissions={['projects.manage', 'projects.manage_own']}>
                   <Projects />
-                </AdminRoute>
+                </PermissionRoute>
               }
             />
             <Route
               path="settings"
               element={
-                <AdminRoute>
+                <PermissionRoute permissions={['settings.manage']}>
                   <Settings />
-                </AdminRoute>
+                </PermissionRoute>
+              }
+            />
+            <Route
+              path="holidays"
+              element={
+                <PermissionRoute permissions={['settings.manage']}>
+                  <HolidayCalendars />
+                </PermissionRoute>
+              }
+            />
+            <Route
+              path="leave-policies"
+              element={
+                <PermissionRoute permissions={['settings.manage']}>
+                  <LeavePolicies />
+                </PermissionRoute>
+              }
+            />
+            <Route
+              path="roles"
+              element={
+                <PermissionRoute permissions={['roles.manage']}>
+                  <Roles />
+                </PermissionRoute>
+              }
+            />
+            <Route
+              path="audit"
+              element={
+                <PermissionRoute permissions={['audit.view']}>
+                  <AuditLog />
+                </PermissionRoute>
+              }
+            />
+            <Route
+              path="billing"
+              element={
+                <PermissionRoute permissions={['billing.manage']}>
+                  <Billing />
+                </PermissionRoute>
               }
             />
           </Route>
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import './ApiTokensSettings.css';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+interface ScopeInfo {
+  key: string;
+  description: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const EMPTY_FORM = { name: '', scopes: [] as string[], expiresInDays: 30 };
+
+const formatTokenTime = (value: string) => format(new Date(value), 'MMM dd, yyyy HH:mm');
+
+// Personal API tokens section of the user's own profile
+export function ApiTokensSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopes, setScopes] = useState<ScopeInfo[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await axios.get('/api/api-tokens');
+      setTokens(response.data.tokens);
+      setScopes(response.data.scopes);
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((existing) => existing !== scope)
+        : [...prev.scopes, scope],
+    }));
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post('/api/api-tokens', formData);
+      setNewToken(response.data.token);
+      setIsCreating(false);
+      setFormData(EMPTY_FORM);
+      fetchTokens();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to create API token');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke the API token "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/api-tokens/${token.id}`);
+      fetchTokens();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to revoke API token');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+    } catch (error) {
+      console.error('Error copying API token:', error);
+    }
+  };
+
+  return (
+    <div className="profile-section">
+      <div className="profile-section-header">
+        <h2>API Tokens</h2>
+        {!isCreating && (
+          <button type="button" className="profile-edit-button" onClick={() => setIsCreating(true)}>
+            New Token
+          </button>
+        )}
+      </div>
+
+      <p className="api-tokens-text">
+        Tokens let scripts call the API as you. Send them as{' '}
+        <code>Authorization: Bearer &lt;token&gt;</code>. A token can only use the endpoints of
+        its scopes, and only with the access you have.
+      </p>
+
+      {newToken && (
+        <div className="api-token-created">
+          <p>Copy the new token now. It will not be shown again.</p>
+          <div className="api-token-value">
+            <code>{newToken}</code>
+            <button type="button" className="profile-cancel-button" onClick={handleCopy}>
+              Copy
+            </button>
+          </div>
+          <div className="profile-actions">
+            <button
+              type="button"
+              className="profile-cancel-button"
+              onClick={() => setNewToken(null)}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isCreating && (
+        <div className="api-token-form">
+          <div className="info-grid">
+            <div className="info-item">
+              <label>Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Finance monthly export"
+              />
+            </div>
+            <div className="info-item">
+              <label>Expires In</label>
+              <select
+                value={formData.expiresInDays}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, expiresInDays: Number(e.target.value) }))
+                }
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.days} value={option.days}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="api-token-scopes">
+            {scopes.map((scope) => (
+              <label key={scope.key} className="api-token-scope">
+                <input
+                  type="checkbox"
+                  checked={formData.scopes.includes(scope.key)}
+                  onChange={() => toggleScope(scope.key)}
+                />
+                <span>
+                  <strong>{scope.key}</strong> — {scope.description}
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="profile-actions">
+            <button
+              type="button"
+              className="profile-cancel-button"
+              onClick={() => {
+                setIsCreating(false);
+                setFormData(EMPTY_FORM);
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="profile-save-button"
+              onClick={handleCreate}
+              disabled={isSaving || !formData.name.trim() || formData.scopes.length === 0}
+            >
+              {isSaving ? 'Creating...' : 'Create Token'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length === 0 ? (
+        <p className="no-projects">No API tokens</p>
+      ) : (
+        <table className="api-tokens-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Token</th>
+              <th>Scopes</th>
+              <th>Expires</th>
+              <th>Last Used</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => {
+              const isExpired = new Date(token.expiresAt) <= new Date();
+              return (
+                <tr key={token.id}>
+                  <td>{token.name}</td>
+                  <td>
+                    <code>{token.tokenPrefix}…</code>
+                  </td>
+                  <td>{token.scopes.join(', ')}</td>
+                  <td className={isExpired ? 'api-token-expired' : ''}>
+                    {isExpired ? 'Expired' : formatTokenTime(token.expiresAt)}
+                  </td>
+                  <td>
+                    {token.lastUsedAt
+                      ? `${formatTokenTime(token.lastUsedAt)}${token.lastUsedIp ? ` (${token.lastUsedIp})` : ''}`
+                      : 'Never'}
+                  </td>
+                  <td className="api-token-actions">
+                    <button
+                      type="button"
+                      className="profile-cancel-button"
+                      onClick={() => handleRevoke(token)}
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { format } from 'date-fns';
+import './ApprovalTrail.css';
+
+export type ApprovalStepStatus = 'pending' | 'approved' | 'rejected' | 'skipped';
+
+interface ApprovalUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ApprovalStep {
+  id: string;
+  step: number;
+  label: string;
+  status: ApprovalStepStatus;
+  approver: ApprovalUser | null;
+  decidedBy: ApprovalUser | null;
+  decidedAt: string | null;
+  comment: string | null;
+}
+
+interface ApprovalTrailProps {
+  approvals: ApprovalStep[];
+}
+
+const getStatusLabel = (status: ApprovalStepStatus) => {
+  switch (status) {
+    case 'approved':
+      return 'Approved';
+    case 'rejected':
+      return 'Rejected';
+    case 'skipped':
+      return 'Skipped';
+    default:
+      return 'Waiting';
+  }
+};
+
+const formatUser = (user: ApprovalUser) => `${user.firstName} ${user.lastName}`;
+
+export function ApprovalTrail({ approvals }: ApprovalTrailProps) {
+  if (approvals.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="approval-trail">
+      {approvals.map((approval) => (
+        <li key={approval.id} className={`approval-step approval-step-${approval.status}`}>
+          <span className="approval-step-label">{approval.label}</span>
+          <span className="approval-step-status">{getStatusLabel(approval.status)}</span>
+          <span className="approval-step-meta">
+            {approval.decidedBy && approval.decidedAt
+              ? `${formatUser(approval.decidedBy)} · ${format(new Date(approval.decidedAt), 'MMM dd, yyyy HH:mm')}`
+              : approval.approver
+                ? formatUser(approval.approver)
+                : 'Any admin'}
+          </span>
+          {approval.comment && <span className="approval-step-comment">“{approval.comment}”</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
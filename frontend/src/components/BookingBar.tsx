@@ -1,5 +1,6 @@
 import { type MouseEvent } from 'react';
 import { getUserColor, getTextColor } from '../utils/colorUtils';
+import { AbsencePortion, getPortionLabel, getPortionShortLabel } from '../utils/absenceUtils';
 import './BookingBar.css';
 
 interface BookingBarProps {
@@ -7,6 +8,8 @@ interface BookingBarProps {
   lastName: string;
   userId: string;
   type: 'vacation' | 'day_off' | 'sick_leave';
+  portion?: AbsencePortion;
+  hours?: number | null;
   onClick?: (event: MouseEvent<HTMLDivElement>) => void;
   compact?: boolean;
 }
@@ -16,6 +19,8 @@ export function BookingBar({
   lastName,
   userId,
   type,
+  portion = 'full_day',
+  hours,
   onClick,
   compact = false,
 }: BookingBarProps) {
@@ -24,10 +29,22 @@ export function BookingBar({
   const displayName = compact 
     ? `${firstName.charAt(0)}${lastName.charAt(0)}`
     : `${firstName} ${lastName}`;
+  const portionShortLabel = getPortionShortLabel(portion, hours);
+  const portionLabel = getPortionLabel(portion, hours);
+  const title = `${firstName} ${lastName} - ${type}${portionLabel ? ` (${portionLabel})` : ''}`;
+  // Half days fill the matching half of the cell; hourly absences get a dashed outline
+  const portionClass =
+    portion === 'half_day_am'
+      ? 'booking-bar-half booking-bar-am'
+      : portion === 'half_day_pm'
+        ? 'booking-bar-half booking-bar-pm'
+        : portion === 'hours'
+          ? 'booking-bar-hours'
+          : '';
 
   return (
     <div
-      className={`booking-bar ${compact ? 'booking-bar-compact' : ''}`}
+      className={`booking-bar ${compact ? 'booking-bar-compact' : ''} ${portionClass}`}
       style={{
         backgroundColor: color,
         color: textColor,
@@ -41,10 +58,11 @@ export function BookingBar({
           onClick(e as unknown as MouseEvent<HTMLDivElement>);
         }
       }}
-      aria-label={`${firstName} ${lastName} - ${type}`}
-      title={`${firstName} ${lastName} - ${type}`}
+      aria-label={title}
+      title={title}
     >
       <span className="booking-bar-name">{displayName}</span>
+      {portionShortLabel && <span className="booking-bar-portion">{portionShortLabel}</span>}
       {!compact && (
         <span className="booking-bar-type">{type.replace('_', ' ')}</span>
       )}
@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import './BurnDownChart.css';
+
+interface BurnDownPoint {
+  date: string; // YYYY-MM-DD
+  remaining: number;
+}
+
+interface BurnDownChartProps {
+  amount: number;
+  points: BurnDownPoint[];
+  // A dated budget's period; the chart then spans it and shows the ideal burn
+  periodStart?: string | null;
+  periodEnd?: string | null;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+const PADDING = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime();
+
+export function BurnDownChart({ amount, points, periodStart, periodEnd }: BurnDownChartProps) {
+  const chart = useMemo(() => {
+    if (points.length === 0) {
+      return null;
+    }
+
+    const start = toTime(periodStart || points[0].date);
+    const end = toTime(periodEnd || points[points.length - 1].date);
+    const span = Math.max(end - start, DAY_MS);
+    const lowest = Math.min(0, ...points.map((point) => point.remaining));
+    const range = amount - lowest || 1;
+
+    const x = (time: number) => PADDING + ((time - start) / span) * (WIDTH - 2 * PADDING);
+    const y = (value: number) => PADDING + ((amount - value) / range) * (HEIGHT - 2 * PADDING);
+
+    return {
+      line: points.map((point) => `${x(toTime(point.date))},${y(point.remaining)}`).join(' '),
+      ideal: periodStart && periodEnd ? `${x(start)},${y(amount)} ${x(end)},${y(0)}` : null,
+      zeroY: y(0),
+      isOver: points[points.length - 1].remaining < 0,
+    };
+  }, [amount, points, periodStart, periodEnd]);
+
+  if (!chart) {
+    return <p className="burn-down-empty">Nothing logged yet</p>;
+  }
+
+  return (
+    <svg
+      className="burn-down-chart"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Burn-down of the remaining budget"
+    >
+      <line className="burn-down-zero" x1={0} x2={WIDTH} y1={chart.zeroY} y2={chart.zeroY} />
+      {chart.ideal && <polyline className="burn-down-ideal" points={chart.ideal} />}
+      <polyline
+        className={`burn-down-remaining ${chart.isOver ? 'over' : ''}`}
+        points={chart.line}
+      />
+    </svg>
+  );
+}
@@ -1,5 +1,6 @@
 import { format } from 'date-fns';
 import { getUserColor } from '../utils/colorUtils';
+import { AbsencePortion, getPortionLabel } from '../utils/absenceUtils';
 import './DayBookingsModal.css';
 
 interface Booking {
@@ -10,6 +11,8 @@ interface Booking {
   type: 'vacation' | 'day_off' | 'sick_leave';
   from: string;
   to: string;
+  portion?: AbsencePortion;
+  hours?: number | null;
   status: 'pending' | 'approved' | 'rejected';
 }
 
@@ -76,6 +79,7 @@ export function DayBookingsModal({ date, bookings, onClose }: DayBookingsModalPr
                 const fromDate = new Date(booking.from);
                 const toDate = new Date(booking.to);
                 const isRange = format(fromDate, 'yyyy-MM-dd') !== format(toDate, 'yyyy-MM-dd');
+                const portionLabel = getPortionLabel(booking.portion, booking.hours);
 
                 return (
                   <div key={booking.id} className="booking-item">
@@ -105,6 +109,7 @@ export function DayBookingsModal({ date, bookings, onClose }: DayBookingsModalPr
                         {!isRange && (
                           <span className="booking-item-dates">
                             {format(fromDate, 'MMM dd, yyyy')}
+                            {portionLabel && ` · ${portionLabel}`}
                           </span>
                         )}
                       </div>
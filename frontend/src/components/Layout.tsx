@@ -1,8 +1,9 @@
 import { Outlet, Link, useNavigate, useLocation } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import axios from 'axios';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, hasPermission } from '../contexts/AuthContext';
 import Logo from './Logo';
+import { WorkTimer } from './WorkTimer';
 import './Layout.css';
 
 export default function Layout() {
@@ -10,6 +11,7 @@ export default function Layout() {
   const navigate = useNavigate();
   const location = useLocation();
   const [pendingCount, setPendingCount] = useState(0);
+  const [hasReports, setHasReports] = useState(false);
 
   const handleLogout = () => {
     logout();
@@ -23,20 +25,56 @@ export default function Layout() {
   const adminLinkClass = (active: boolean) =>
     `admin-only${active ? ' active' : ''}`;
 
+  const canManageUsers = hasPermission(user, 'users.manage');
+  const canManageSettings = hasPermission(user, 'settings.manage');
+  const canManageRoles = hasPermission(user, 'roles.manage');
+  const canViewAllReports = hasPermission(user, 'reports.view');
+  const canViewAuditLog = hasPermission(user, 'audit.view');
+  const canManageBilling = hasPermission(user, 'billing.manage');
+  const canManageProjects =
+    hasPermission(user, 'projects.manage') || hasPermission(user, 'projects.manage_own');
+  const hasAdminLinks =
+    canManageUsers ||
+    canManageSettings ||
+    canManageRoles ||
+    canViewAllReports ||
+    canManageProjects ||
+    canViewAuditLog ||
+    canManageBilling;
+  const roleLabel = user?.isAdmin
+    ? 'ADMIN'
+    : user?.roles?.length
+    ? user.roles.map((role) => role.name.toUpperCase()).join(', ')
+    : 'EMPLOYEE';
+
   useEffect(() => {
-    if (user?.isAdmin) {
+    // Absence approvers (HR) see every pending request; other users only those awaiting their approval
+    // (as manager, delegate or project lead)
+    if (user) {
       fetchPendingCount();
       // Refresh count every 30 seconds
       const interval = setInterval(fetchPendingCount, 30000);
-      // Also refresh when navigating to/from admin page
-      if (location.pathname === '/admin') {
-        fetchPendingCount();
-      }
       return () => {
         clearInterval(interval);
       };
     }
-  }, [user?.isAdmin, location.pathname]);
+  }, [user?.id, location.pathname]);
+
+  useEffect(() => {
+    // Managers (and their delegates) get the reports of the people they manage
+    if (user && !canViewAllReports) {
+      fetchHasReports();
+    }
+  }, [user?.id]);
+
+  const fetchHasReports = async () => {
+    try {
+      const response = await axios.get('/api/employees/reports');
+      setHasReports(response.data.length > 0);
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+    }
+  };
 
   const fetchPendingCount = async () => {
     try {
@@ -54,9 +92,10 @@ export default function Layout() {
           <Logo size="medium" showText={true} />
           <div className="user-info">
             <span>{user?.firstName} {user?.lastName}</span>
-            <span className="user-role">{user?.isAdmin ? 'ADMIN' : 'EMPLOYEE'}</span>
+            <span className="user-role">{roleLabel}</span>
           </div>
         </div>
+        <WorkTimer />
         <ul className="nav-menu">
           <li>
             <Link to="/" className={isActive('/') ? 'active' : ''}>
@@ -90,47 +129,111 @@ export default function Layout() {
               Timesheets
             </Link>
           </li>
-          {user?.isAdmin && (
+          {!canManageUsers && (
+            <li>
+              <Link to="/approvals" className={isActive('/approvals') ? 'active' : ''}>
+                Approvals
+                {pendingCount > 0 && (
+                  <span className="notification-badge">{pendingCount}</span>
+                )}
+              </Link>
+            </li>
+          )}
+          {!canViewAllReports && (hasReports || hasPermission(user, 'worklogs.approve')) && (
+            <li>
+              <Link to="/reports" className={isActive('/reports') ? 'active' : ''}>
+                Reports
+              </Link>
+            </li>
+          )}
+          {hasAdminLinks && (
+            <li className="nav-separator" aria-hidden="true">
+              <hr className="nav-separator-line" />
+            </li>
+          )}
+          {canManageSettings && (
+            <li>
+              <Link to="/technologies" className={adminLinkClass(isActive('/technologies'))}>
+                Technologies
+              </Link>
+            </li>
+          )}
+          {canManageUsers && (
+            <li>
+              <Link to="/admin" className={adminLinkClass(isActive('/admin'))}>
+                Admin
+                {pendingCount > 0 && (
+                  <span className="notification-badge">{pendingCount}</span>
+                )}
+              </Link>
+            </li>
+          )}
+          {canManageRoles && (
+            <li>
+              <Link to="/roles" className={adminLinkClass(isActive('/roles'))}>
+                Roles
+              </Link>
+            </li>
+          )}
+          {canManageSettings && (
             <>
-              <li className="nav-separator" aria-hidden="true">
-                <hr className="nav-separator-line" />
-              </li>
-              <li>
-                <Link to="/technologies" className={adminLinkClass(isActive('/technologies'))}>
-                  Technologies
-                </Link>
-              </li>
-              <li>
-                <Link to="/admin" className={adminLinkClass(isActive('/admin'))}>
-                  Admin
-                  {pendingCount > 0 && (
-                    <span className="notification-badge">{pendingCount}</span>
-                  )}
-                </Link>
-              </li>
               <li>
                 <Link to="/settings" className={adminLinkClass(isActive('/settings'))}>
                   Settings
                 </Link>
               </li>
               <li>
-                <Link to="/reports" className={adminLinkClass(isActive('/reports'))}>
-                  Reports
+                <Link to="/holidays" className={adminLinkClass(isActive('/holidays'))}>
+                  Holidays
                 </Link>
               </li>
               <li>
-                <Link to="/projects" className={adminLinkClass(isActive('/projects'))}>
-                  Projects
+                <Link to="/leave-policies" className={adminLinkClass(isActive('/leave-policies'))}>
+                  Leave Policies
                 </Link>
               </li>
             </>
           )}
+          {canViewAllReports && (
+            <li>
+              <Link to="/reports" className={adminLinkClass(isActive('/reports'))}>
+                Reports
+              </Link>
+            </li>
+          )}
+          {canManageProjects && (
+            <li>
+              <Link to="/projects" className={adminLinkClass(isActive('/projects'))}>
+                Projects
+              </Link>
+            </li>
+          )}
+          {canManageBilling && (
+            <li>
+              <Link to="/billing" className={adminLinkClass(isActive('/billing'))}>
+                Billing
+              </Link>
+            </li>
+          )}
+          {canViewAuditLog && (
+            <li>
+              <Link to="/audit" className={adminLinkClass(isActive('/audit'))}>
+                Audit Log
+              </Link>
+            </li>
+          )}
         </ul>
         <button className="logout-btn" onClick={handleLogout}>
           Logout
         </button>
       </nav>
       <main className="content">
+        {user?.twoFactorSetupRequired && (
+          <div className="two-factor-banner">
+            Your role requires two-factor authentication. Until you set it up, you only have
+            employee access. <Link to={`/employees/${user.id}`}>Set it up on your profile</Link>
+          </div>
+        )}
         <Outlet />
       </main>
     </div>
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import './LeaveStatementModal.css';
+
+type LeaveType = 'vacation' | 'sick_leave';
+type LedgerEntryKind = 'accrual' | 'usage' | 'carryover' | 'expiry' | 'adjustment';
+
+interface LedgerEntry {
+  id: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  balance: number;
+  effectiveDate: string;
+  description: string;
+  createdBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+interface LeaveStatement {
+  user: { id: string; firstName: string; lastName: string; email: string };
+  leaveType: LeaveType;
+  year: number;
+  years: number[];
+  summary: {
+    accrued: number;
+    used: number;
+    carriedOver: number;
+    expired: number;
+    adjusted: number;
+    balance: number;
+  };
+  entries: LedgerEntry[];
+}
+
+interface LeaveStatementModalProps {
+  userId: string;
+  onClose: () => void;
+}
+
+// Ledger dates are stored as UTC midnight; format them without shifting to local time
+const formatLedgerDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
+const formatAmount = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const getKindLabel = (kind: LedgerEntryKind) => {
+  switch (kind) {
+    case 'accrual':
+      return 'Accrual';
+    case 'usage':
+      return 'Usage';
+    case 'carryover':
+      return 'Carryover';
+    case 'expiry':
+      return 'Expiry';
+    case 'adjustment':
+      return 'Adjustment';
+    default:
+      return kind;
+  }
+};
+
+export function LeaveStatementModal({ userId, onClose }: LeaveStatementModalProps) {
+  const [leaveType, setLeaveType] = useState<LeaveType>('vacation');
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [statement, setStatement] = useState<LeaveStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adjustment, setAdjustment] = useState({
+    amount: '',
+    effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+    reason: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [userId, leaveType, year]);
+
+  const fetchStatement = async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/admin/users/${userId}/leave-statement`, {
+        params: { leaveType, year },
+      });
+      setStatement(response.data);
+    } catch (error: any) {
+      console.error('Error fetching leave statement:', error);
+      alert(error.response?.data?.error || 'Failed to load leave statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await axios.post(`/api/admin/users/${userId}/leave-adjustments`, {
+        leaveType,
+        amount: Number(adjustment.amount),
+        effectiveDate: adjustment.effectiveDate,
+        reason: adjustment.reason,
+      });
+      setAdjustment({ ...adjustment, amount: '', reason: '' });
+      const adjustmentYear = Number(adjustment.effectiveDate.split('-')[0]);
+      if (adjustmentYear !== year) {
+        setYear(adjustmentYear);
+      } else {
+        fetchStatement();
+      }
+    } catch (error: any) {
+      console.error('Error creating leave adjustment:', error);
+      alert(error.response?.data?.error || 'Failed to adjust balance');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const years = Array.from(new Set([new Date().getFullYear(), year, ...(statement?.years || [])])).sort(
+    (a, b) => b - a
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content large" onClick={(e) => e.stopPropagation()}>
+        <h2>
+          Leave Statement
+          {statement && ` — ${statement.user.firstName} ${statement.user.lastName}`}
+        </h2>
+
+        <div className="statement-filters">
+          <select value={leaveType} onChange={(e) => setLeaveType(e.target.value as LeaveType)}>
+            <option value="vacation">Vacation</option>
+            <option value="sick_leave">Sick Leave</option>
+          </select>
+          <select value={year} onChange={(e) => setYear(Number(e.target.value))}>
+            {years.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {loading || !statement ? (
+          <div className="loading">Loading...</div>
+        ) : (
+          <>
+            <div className="statement-summary">
+              <div className="statement-summary-item">
+                <span className="statement-summary-label">Accrued</span>
+                <span className="statement-summary-value">{statement.summary.accrued}</span>
+              </div>
+              <div className="statement-summary-item">
+                <span className="statement-summary-label">Carryover</span>
+                <span className="statement-summary-value">{statement.summary.carriedOver}</span>
+              </div>
+              <div className="statement-summary-item">
+                <span className="statement-summary-label">Adjusted</span>
+                <span className="statement-summary-value">{statement.summary.adjusted}</span>
+              </div>
+              <div className="statement-summary-item">
+                <span className="statement-summary-label">Used</span>
+                <span className="statement-summary-value">{statement.summary.used}</span>
+              </div>
+              <div className="statement-summary-item">
+                <span className="statement-summary-label">Expired</span>
+                <span className="statement-summary-value">{statement.summary.expired}</span>
+              </div>
+              <div className="statement-summary-item total">
+                <span className="statement-summary-label">Balance</span>
+                <span className="statement-summary-value">{statement.summary.balance}</span>
+              </div>
+            </div>
+
+            {statement.entries.length === 0 ? (
+              <p className="no-data">No ledger entries for {statement.year}</p>
+            ) : (
+              <table className="statement-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Type</th>
+                    <th>Description</th>
+                    <th className="statement-number">Days</th>
+                    <th className="statement-number">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statement.entries.map((entry) => (
+                    <tr key={entry.id}>
+                      <td>{formatLedgerDate(entry.effectiveDate)}</td>
+                      <td>
+                        <span className={`statement-kind statement-kind-${entry.kind}`}>
+                          {getKindLabel(entry.kind)}
+                        </span>
+                      </td>
+                      <td>
+                        {entry.description}
+                        {entry.createdBy && (
+                          <span className="statement-author">
+                            by {entry.createdBy.firstName} {entry.createdBy.lastName}
+                          </span>
+                        )}
+                      </td>
+                      <td className={`statement-number ${entry.amount < 0 ? 'negative' : 'positive'}`}>
+                        {formatAmount(entry.amount)}
+                      </td>
+                      <td className="statement-number">{entry.balance}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+
+        <form className="statement-adjust-form" onSubmit={handleAdjust}>
+          <h3>Adjust {leaveType === 'vacation' ? 'Vacation' : 'Sick Leave'} Balance</h3>
+          <div className="statement-adjust-fields">
+            <div className="form-group">
+              <label htmlFor="adjustment-amount">Days *</label>
+              <input
+                type="number"
+                id="adjustment-amount"
+                step="0.5"
+                value={adjustment.amount}
+                onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+                placeholder="e.g., 1 or -0.5"
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="adjustment-date">Effective Date *</label>
+              <input
+                type="date"
+                id="adjustment-date"
+                value={adjustment.effectiveDate}
+                onChange={(e) => setAdjustment({ ...adjustment, effectiveDate: e.target.value })}
+                required
+              />
+            </div>
+            <div className="form-group full-width">
+              <label htmlFor="adjustment-reason">Reason *</label>
+              <input
+                type="text"
+                id="adjustment-reason"
+                value={adjustment.reason}
+                onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                placeholder="e.g., Bonus day for on-call weekend"
+                required
+              />
+            </div>
+          </div>
+          <p className="statement-adjust-hint">
+            Positive values credit the balance, negative values debit it.
+          </p>
+          <button type="submit" className="btn-primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Add Adjustment'}
+          </button>
+        </form>
+
+        <div className="modal-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
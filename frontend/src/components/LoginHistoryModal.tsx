@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import './SessionsModal.css';
+
+type LoginOutcome =
+  | 'success'
+  | 'invalid_password'
+  | 'invalid_two_factor'
+  | 'unknown_user'
+  | 'locked'
+  | 'throttled'
+  | 'password_disabled';
+
+interface LoginAttempt {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  method: 'password' | 'sso';
+  outcome: LoginOutcome;
+  createdAt: string;
+}
+
+interface LoginHistoryModalProps {
+  userId: string;
+  userName: string;
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<LoginOutcome, string> = {
+  success: 'Success',
+  invalid_password: 'Wrong password',
+  invalid_two_factor: 'Wrong 2FA code',
+  unknown_user: 'Unknown account',
+  locked: 'Account locked',
+  throttled: 'Too many attempts',
+  password_disabled: 'Password login disabled',
+};
+
+export function LoginHistoryModal({ userId, userName, onClose }: LoginHistoryModalProps) {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [userId]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/admin/users/${userId}/login-history`);
+      setAttempts(response.data);
+    } catch (error: any) {
+      console.error('Error fetching login history:', error);
+      alert(error.response?.data?.error || 'Failed to load login history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content large" onClick={(e) => e.stopPropagation()}>
+        <h2>Login History — {userName}</h2>
+
+        {loading ? (
+          <div className="loading">Loading...</div>
+        ) : attempts.length === 0 ? (
+          <p className="no-data">No login attempts</p>
+        ) : (
+          <table className="sessions-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Outcome</th>
+                <th>Method</th>
+                <th>IP Address</th>
+                <th>Device</th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map((attempt) => (
+                <tr key={attempt.id}>
+                  <td>{format(new Date(attempt.createdAt), 'MMM dd, yyyy HH:mm')}</td>
+                  <td
+                    className={
+                      attempt.outcome === 'success' ? 'login-outcome-success' : 'login-outcome-failed'
+                    }
+                  >
+                    {OUTCOME_LABELS[attempt.outcome]}
+                  </td>
+                  <td>{attempt.method === 'sso' ? 'SSO' : 'Password'}</td>
+                  <td>{attempt.ipAddress || '-'}</td>
+                  <td className="sessions-device">{attempt.userAgent || 'Unknown'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="modal-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, startOfWeek, endOfWeek } from 'date-fns';
 import { BookingBar } from './BookingBar';
 import { DayBookingsModal } from './DayBookingsModal';
+import { AbsencePortion } from '../utils/absenceUtils';
 import './MonthlyCalendar.css';
 
 interface Absence {
@@ -9,6 +10,8 @@ interface Absence {
   type: 'sick_leave' | 'day_off' | 'vacation';
   from: string;
   to: string;
+  portion?: AbsencePortion;
+  hours?: number | null;
   status: 'pending' | 'approved' | 'rejected';
   user: {
     id: string;
@@ -212,6 +215,8 @@ export function MonthlyCalendar({
                         lastName={booking.user.lastName}
                         userId={booking.user.id}
                         type={booking.type}
+                        portion={booking.portion}
+                        hours={booking.hours}
                         compact={true}
                         onClick={(event) => {
                           event.stopPropagation();
@@ -246,6 +251,8 @@ export function MonthlyCalendar({
             type: booking.type,
             from: booking.from,
             to: booking.to,
+            portion: booking.portion,
+            hours: booking.hours,
             status: booking.status,
           }))}
           onClose={() => setSelectedDate(null)}
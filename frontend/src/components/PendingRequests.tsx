@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { AbsencePortion, CoverageConflict, getPortionLabel } from '../utils/absenceUtils';
+import { ApprovalStep, ApprovalTrail } from './ApprovalTrail';
+import './PendingRequests.css';
+
+interface PendingRequest {
+  id: string;
+  type: 'sick_leave' | 'day_off' | 'vacation' | 'work_from_home';
+  from: string;
+  to: string;
+  portion?: AbsencePortion;
+  hours?: number | null;
+  status: 'pending' | 'approved';
+  isBackdated?: boolean;
+  canDecide: boolean;
+  currentStep: ApprovalStep | null;
+  approvals: ApprovalStep[];
+  files?: { id: string; originalName: string }[];
+  changeRequests: ChangeRequest[];
+  coverageConflicts: CoverageConflict[];
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+}
+
+interface ChangeRequest {
+  id: string;
+  kind: 'cancel' | 'modify';
+  from: string | null;
+  to: string | null;
+  portion: AbsencePortion | null;
+  hours: number | null;
+}
+
+const formatDateRange = (from: string, to: string) =>
+  `${format(new Date(from), 'MMM dd, yyyy')} - ${format(new Date(to), 'MMM dd, yyyy')}`;
+
+const getTypeLabel = (type: string) => {
+  switch (type) {
+    case 'vacation':
+      return 'Vacation';
+    case 'sick_leave':
+      return 'Sick Leave';
+    case 'day_off':
+      return 'Day Off';
+    case 'work_from_home':
+      return 'Work from Home';
+    default:
+      return type;
+  }
+};
+
+export function PendingRequests() {
+  const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPendingRequests();
+  }, []);
+
+  const fetchPendingRequests = async () => {
+    try {
+      const response = await axios.get('/api/admin/pending-requests');
+      setPendingRequests(response.data);
+    } catch (error) {
+      console.error('Error fetching pending requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecision = async (id: string, decision: 'approve' | 'reject') => {
+    const comment = comments[id]?.trim() || '';
+    if (decision === 'reject' && !comment) {
+      alert('Please enter a reason for the rejection');
+      return;
+    }
+
+    setDecidingId(id);
+    try {
+      await axios.patch(`/api/admin/requests/${id}/${decision}`, { comment: comment || undefined });
+      setComments({ ...comments, [id]: '' });
+      fetchPendingRequests();
+    } catch (error: any) {
+      alert(
+        error.response?.data?.error ||
+          (decision === 'approve' ? 'Failed to approve request' : 'Failed to reject request')
+      );
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleDownloadFile = async (fileId: string, fileName: string) => {
+    try {
+      const response = await axios.get(`/api/absences/files/${fileId}`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      alert('Failed to download file');
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (pendingRequests.length === 0) {
+    return <p className="no-data">No pending requests</p>;
+  }
+
+  return (
+    <div className="requests-list">
+      {pendingRequests.map((request) => (
+        <div key={request.id} className="request-item">
+          <div className="request-info">
+            <div className="request-user">
+              {request.user.firstName} {request.user.lastName}
+            </div>
+            <div className="request-type">
+              {getTypeLabel(request.type)}
+              {request.isBackdated && <span className="request-badge">Backdated</span>}
+            </div>
+            <div className="request-dates">
+              {formatDateRange(request.from, request.to)}
+              {getPortionLabel(request.portion, request.hours) &&
+                ` · ${getPortionLabel(request.portion, request.hours)}`}
+            </div>
+            {request.changeRequests.map((change) => (
+              <div key={change.id} className="request-change">
+                {change.kind === 'cancel'
+                  ? 'Cancellation requested'
+                  : `New dates requested: ${formatDateRange(change.from!, change.to!)}${
+                      getPortionLabel(change.portion, change.hours)
+                        ? ` · ${getPortionLabel(change.portion, change.hours)}`
+                        : ''
+                    }`}
+              </div>
+            ))}
+            {request.coverageConflicts.length > 0 && (
+              <ul className="request-conflicts">
+                {request.coverageConflicts.map((conflict) => (
+                  <li key={`${conflict.projectId}-${conflict.rule}`} className="request-conflict">
+                    {conflict.message}
+                    <span className="request-conflict-dates">
+                      {conflict.dates
+                        .map((date) => format(new Date(`${date}T00:00:00`), 'MMM dd'))
+                        .join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {request.files && request.files.length > 0 && (
+              <div className="request-files">
+                {request.files.map((file) => (
+                  <button
+                    key={file.id}
+                    className="btn-secondary btn-sm"
+                    onClick={() => handleDownloadFile(file.id, file.originalName)}
+                  >
+                    Download {file.originalName}
+                  </button>
+                ))}
+              </div>
+            )}
+            <ApprovalTrail approvals={request.approvals} />
+          </div>
+          {request.canDecide ? (
+            <div className="request-decision">
+              <textarea
+                rows={2}
+                placeholder="Comment (required to reject)"
+                value={comments[request.id] || ''}
+                onChange={(e) => setComments({ ...comments, [request.id]: e.target.value })}
+              />
+              <div className="request-actions">
+                <button
+                  className="btn-approve"
+                  onClick={() => handleDecision(request.id, 'approve')}
+                  disabled={decidingId === request.id}
+                >
+                  Approve
+                </button>
+                <button
+                  className="btn-reject"
+                  onClick={() => handleDecision(request.id, 'reject')}
+                  disabled={decidingId === request.id}
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="request-waiting">
+              Waiting for {request.currentStep?.label || 'approval'}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
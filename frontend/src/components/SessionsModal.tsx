@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import './SessionsModal.css';
+
+interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+interface SessionsModalProps {
+  userId: string;
+  userName: string;
+  onClose: () => void;
+}
+
+const formatSessionTime = (value: string) => format(new Date(value), 'MMM dd, yyyy HH:mm');
+
+export function SessionsModal({ userId, userName, onClose }: SessionsModalProps) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [userId]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/admin/users/${userId}/sessions`);
+      setSessions(response.data);
+    } catch (error: any) {
+      console.error('Error fetching sessions:', error);
+      alert(error.response?.data?.error || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      await axios.delete(`/api/admin/users/${userId}/sessions/${sessionId}`);
+      fetchSessions();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to revoke session');
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm(`Sign ${userName} out of all sessions?`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/admin/users/${userId}/sessions`);
+      fetchSessions();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to revoke sessions');
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content large" onClick={(e) => e.stopPropagation()}>
+        <h2>Active Sessions — {userName}</h2>
+
+        {loading ? (
+          <div className="loading">Loading...</div>
+        ) : sessions.length === 0 ? (
+          <p className="no-data">No active sessions</p>
+        ) : (
+          <table className="sessions-table">
+            <thead>
+              <tr>
+                <th>Device</th>
+                <th>IP Address</th>
+                <th>Signed In</th>
+                <th>Last Active</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr key={session.id}>
+                  <td className="sessions-device">{session.userAgent || 'Unknown'}</td>
+                  <td>{session.ipAddress || '-'}</td>
+                  <td>{formatSessionTime(session.createdAt)}</td>
+                  <td>{formatSessionTime(session.lastUsedAt)}</td>
+                  <td className="sessions-actions">
+                    <button className="btn-danger btn-sm" onClick={() => handleRevoke(session.id)}>
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="modal-actions">
+          {sessions.length > 0 && (
+            <button className="btn-delete" onClick={handleRevokeAll}>
+              Revoke All
+            </button>
+          )}
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
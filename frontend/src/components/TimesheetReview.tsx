@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useAuth, hasPermission } from '../contexts/AuthContext';
+import './TimesheetReview.css';
+
+interface ReviewUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface ReviewTimesheet {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  status: 'open' | 'submitted' | 'approved' | 'returned';
+  submittedAt: string | null;
+  decidedAt: string | null;
+  comment: string | null;
+  hours: number;
+  user: ReviewUser;
+  decidedBy: ReviewUser | null;
+}
+
+interface MissingTimesheet {
+  user: ReviewUser;
+  periodStart: string;
+  periodEnd: string;
+  status: 'open' | 'returned' | null;
+  hours: number;
+}
+
+// Period dates are stored as UTC midnight; format them without shifting to local time
+const formatPeriodDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
+const formatPeriod = (period: { periodStart: string; periodEnd: string }) =>
+  `${formatPeriodDate(period.periodStart)} - ${formatPeriodDate(period.periodEnd)}`;
+
+// Submitted timesheets the user can approve or send back, and periods not submitted in time
+export function TimesheetReview() {
+  const { user } = useAuth();
+  const canReopen = hasPermission(user, 'worklogs.manage');
+  const [status, setStatus] = useState<'submitted' | 'approved'>('submitted');
+  const [timesheets, setTimesheets] = useState<ReviewTimesheet[]>([]);
+  const [missing, setMissing] = useState<MissingTimesheet[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTimesheets();
+  }, [status]);
+
+  const fetchTimesheets = async () => {
+    try {
+      const response = await axios.get('/api/timesheets/review', { params: { status } });
+      setTimesheets(response.data.timesheets);
+      setMissing(response.data.missing);
+    } catch (error) {
+      console.error('Error fetching timesheets for review:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecision = async (id: string, decision: 'approve' | 'return' | 'reopen') => {
+    const comment = comments[id]?.trim() || '';
+    if (decision === 'return' && !comment) {
+      alert('Please explain what needs to change');
+      return;
+    }
+
+    setDecidingId(id);
+    try {
+      await axios.patch(`/api/timesheets/${id}/${decision}`, { comment: comment || undefined });
+      setComments({ ...comments, [id]: '' });
+      fetchTimesheets();
+    } catch (error: any) {
+      alert(error.response?.data?.error || `Failed to ${decision} timesheet`);
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="timesheet-review">
+      {canReopen && (
+        <div className="timesheet-review-filter">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as 'submitted' | 'approved')}
+          >
+            <option value="submitted">Waiting for approval</option>
+            <option value="approved">Approved</option>
+          </select>
+        </div>
+      )}
+
+      {timesheets.length === 0 ? (
+        <p className="no-data">
+          {status === 'submitted' ? 'No timesheets waiting for approval' : 'No approved timesheets'}
+        </p>
+      ) : (
+        <div className="timesheet-review-list">
+          {timesheets.map((timesheet) => (
+            <div key={timesheet.id} className={`timesheet-review-item ${timesheet.status}`}>
+              <div className="timesheet-review-info">
+                <div className="timesheet-review-user">
+                  {timesheet.user.firstName} {timesheet.user.lastName}
+                </div>
+                <div className="timesheet-review-period">{formatPeriod(timesheet)}</div>
+                <div className="timesheet-review-hours">{timesheet.hours.toFixed(2)}h logged</div>
+                {timesheet.status === 'approved' && timesheet.decidedBy && (
+                  <div className="timesheet-review-decided">
+                    Approved by {timesheet.decidedBy.firstName} {timesheet.decidedBy.lastName}
+                    {timesheet.comment && `: ${timesheet.comment}`}
+                  </div>
+                )}
+              </div>
+              <div className="timesheet-review-decision">
+                <textarea
+                  rows={2}
+                  placeholder={
+                    timesheet.status === 'submitted'
+                      ? 'Comment (required to send back)'
+                      : 'Reason for reopening'
+                  }
+                  value={comments[timesheet.id] || ''}
+                  onChange={(e) => setComments({ ...comments, [timesheet.id]: e.target.value })}
+                />
+                <div className="timesheet-review-actions">
+                  {timesheet.status === 'submitted' ? (
+                    <>
+                      <button
+                        className="btn-approve"
+                        onClick={() => handleDecision(timesheet.id, 'approve')}
+                        disabled={decidingId === timesheet.id}
+                      >
+                        Approve
+                      </button>
+                      <button
+                        className="btn-reject"
+                        onClick={() => handleDecision(timesheet.id, 'return')}
+                        disabled={decidingId === timesheet.id}
+                      >
+                        Send Back
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      className="btn-secondary btn-sm"
+                      onClick={() => handleDecision(timesheet.id, 'reopen')}
+                      disabled={decidingId === timesheet.id}
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <>
+          <h3>Missing Submissions</h3>
+          <ul className="timesheet-missing-list">
+            {missing.map((period) => (
+              <li key={`${period.user.id}-${period.periodStart}`}>
+                <span className="timesheet-review-user">
+                  {period.user.firstName} {period.user.lastName}
+                </span>
+                <span>{formatPeriod(period)}</span>
+                <span>
+                  {period.hours.toFixed(2)}h{period.status === 'returned' && ' · sent back'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
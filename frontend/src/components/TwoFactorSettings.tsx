@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import './TwoFactorSettings.css';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+  mandatory: boolean;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+// Two-factor authentication section of the user's own profile
+export function TwoFactorSettings() {
+  const { refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await axios.get('/api/two-factor');
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setEnrollment(null);
+    setIsDisabling(false);
+    setCode('');
+    setPassword('');
+  };
+
+  const handleStartSetup = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post('/api/two-factor/setup');
+      setEnrollment(response.data);
+      setRecoveryCodes(null);
+      setCode('');
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to start two-factor setup');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post('/api/two-factor/enable', { code });
+      setRecoveryCodes(response.data.recoveryCodes);
+      resetForm();
+      await fetchStatus();
+      // Enrolling may unlock permissions that were held back by the 2FA policy
+      await refreshUser();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to enable two-factor authentication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const newCode = prompt('Enter the current code from your authenticator app');
+    if (!newCode) {
+      return;
+    }
+
+    try {
+      const response = await axios.post('/api/two-factor/recovery-codes', { code: newCode });
+      setRecoveryCodes(response.data.recoveryCodes);
+      fetchStatus();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to regenerate recovery codes');
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSaving(true);
+    try {
+      await axios.post('/api/two-factor/disable', { password, code });
+      resetForm();
+      setRecoveryCodes(null);
+      fetchStatus();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to disable two-factor authentication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="profile-section">
+      <div className="profile-section-header">
+        <h2>Two-Factor Authentication</h2>
+        <span className={`two-factor-badge ${status.enabled ? 'enabled' : ''}`}>
+          {status.enabled ? 'Enabled' : 'Disabled'}
+        </span>
+      </div>
+
+      {status.mandatory && !status.enabled && (
+        <div className="two-factor-notice">
+          Your role requires two-factor authentication. Until you set it up, you only have
+          employee access.
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="two-factor-recovery">
+          <p>
+            Save these recovery codes somewhere safe. Each code lets you log in once without your
+            phone. They will not be shown again.
+          </p>
+          <ul className="two-factor-codes">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="profile-actions">
+            <button
+              type="button"
+              className="profile-cancel-button"
+              onClick={() => setRecoveryCodes(null)}
+            >
+              I have saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!status.enabled && !enrollment && (
+        <>
+          <p className="two-factor-text">
+            Protect your account with a code from an authenticator app in addition to your
+            password.
+          </p>
+          <div className="profile-actions">
+            <button
+              type="button"
+              className="profile-save-button"
+              onClick={handleStartSetup}
+              disabled={isSaving}
+            >
+              Set Up
+            </button>
+          </div>
+        </>
+      )}
+
+      {enrollment && (
+        <div className="two-factor-setup">
+          <img src={enrollment.qrCode} alt="Two-factor QR code" className="two-factor-qr" />
+          <div className="two-factor-setup-steps">
+            <p className="two-factor-text">
+              Scan the QR code with your authenticator app, or enter this key manually:
+            </p>
+            <code className="two-factor-secret">{enrollment.secret}</code>
+            <div className="info-item">
+              <label>Verification Code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                inputMode="numeric"
+              />
+            </div>
+            <div className="profile-actions">
+              <button type="button" className="profile-cancel-button" onClick={resetForm}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="profile-save-button"
+                onClick={handleEnable}
+                disabled={isSaving || !code}
+              >
+                {isSaving ? 'Verifying...' : 'Enable'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <>
+          <div className="info-grid">
+            <div className="info-item">
+              <label>Enabled Since</label>
+              <span>
+                {status.enabledAt ? format(new Date(status.enabledAt), 'MMM dd, yyyy') : '-'}
+              </span>
+            </div>
+            <div className="info-item">
+              <label>Recovery Codes Left</label>
+              <span>{status.recoveryCodesLeft}</span>
+            </div>
+          </div>
+
+          {isDisabling ? (
+            <>
+              <div className="info-grid two-factor-disable">
+                <div className="info-item">
+                  <label>Password</label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
+                </div>
+                <div className="info-item">
+                  <label>Verification Code</label>
+                  <input
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    inputMode="numeric"
+                  />
+                </div>
+              </div>
+              <div className="profile-actions">
+                <button type="button" className="profile-cancel-button" onClick={resetForm}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="profile-save-button two-factor-danger"
+                  onClick={handleDisable}
+                  disabled={isSaving || !password || !code}
+                >
+                  {isSaving ? 'Disabling...' : 'Disable'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="profile-actions">
+              <button type="button" className="profile-cancel-button" onClick={handleRegenerate}>
+                New Recovery Codes
+              </button>
+              {!status.mandatory && (
+                <button
+                  type="button"
+                  className="profile-cancel-button"
+                  onClick={() => setIsDisabling(true)}
+                >
+                  Disable
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
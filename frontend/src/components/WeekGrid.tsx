@@ -0,0 +1,337 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { addDays, addWeeks, endOfWeek, format, startOfWeek } from 'date-fns';
+import { WORK_LOGS_CHANGED_EVENT } from './WorkTimer';
+import './WeekGrid.css';
+
+interface WorkLog {
+  id: string;
+  date: string;
+  start: string;
+  end: string;
+  breakMinutes: number;
+  projectId: string | null;
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface TimesheetPeriod {
+  periodStart: string;
+  periodEnd: string;
+  status: 'open' | 'submitted' | 'approved' | 'returned' | null;
+}
+
+interface WeekGridProps {
+  projects: Project[];
+  onSaved: () => void;
+}
+
+const getLogHours = (log: WorkLog) =>
+  (new Date(log.end).getTime() - new Date(log.start).getTime()) / (1000 * 60 * 60) -
+  (log.breakMinutes || 0) / 60;
+
+const cellKey = (projectId: string, day: Date) => `${projectId}|${format(day, 'yyyy-MM-dd')}`;
+
+const getWeekDays = (weekStart: Date) => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+// Logged hours per project and day, keyed by cellKey, with the number of entries behind each cell
+const groupLogs = (logs: WorkLog[]) => {
+  const cells: Record<string, { hours: number; count: number }> = {};
+  logs.forEach((log) => {
+    if (!log.projectId) return;
+    const key = cellKey(log.projectId, new Date(log.date));
+    const cell = cells[key] ?? { hours: 0, count: 0 };
+    cells[key] = { hours: cell.hours + getLogHours(log), count: cell.count + 1 };
+  });
+  return cells;
+};
+
+const fetchWeekLogs = async (weekStart: Date): Promise<WorkLog[]> => {
+  const response = await axios.get('/api/worklogs/me', {
+    params: {
+      from: weekStart.toISOString(),
+      to: endOfWeek(weekStart, { weekStartsOn: 1 }).toISOString(),
+    },
+  });
+  return response.data;
+};
+
+// Hours per project (rows) and day (columns) for one week, saved together
+export function WeekGrid({ projects, onSaved }: WeekGridProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
+  const [periods, setPeriods] = useState<TimesheetPeriod[]>([]);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [addedProjectIds, setAddedProjectIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const days = getWeekDays(weekStart);
+  const cells = groupLogs(workLogs);
+
+  useEffect(() => {
+    setEdits({});
+    setAddedProjectIds([]);
+    fetchWeek();
+    fetchPeriods();
+  }, [weekStart]);
+
+  useEffect(() => {
+    // Stopping the sidebar timer adds a log
+    window.addEventListener(WORK_LOGS_CHANGED_EVENT, fetchWeek);
+    return () => {
+      window.removeEventListener(WORK_LOGS_CHANGED_EVENT, fetchWeek);
+    };
+  }, [weekStart]);
+
+  const fetchWeek = async () => {
+    try {
+      setLoading(true);
+      setWorkLogs(await fetchWeekLogs(weekStart));
+    } catch (error) {
+      console.error('Error fetching work logs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPeriods = async () => {
+    try {
+      // A week can span two months
+      const months = [...new Set([format(days[0], 'yyyy-MM'), format(days[6], 'yyyy-MM')])];
+      const responses = await Promise.all(
+        months.map((month) => axios.get(`/api/timesheets/me?month=${month}`))
+      );
+      setPeriods(responses.flatMap((response) => response.data.timesheets));
+    } catch (error) {
+      console.error('Error fetching timesheets:', error);
+    }
+  };
+
+  const isDayLocked = (day: Date) => {
+    const dateStr = format(day, 'yyyy-MM-dd');
+    return periods.some(
+      (period) =>
+        (period.status === 'submitted' || period.status === 'approved') &&
+        period.periodStart.slice(0, 10) <= dateStr &&
+        period.periodEnd.slice(0, 10) >= dateStr
+    );
+  };
+
+  // A cell is edited in the grid unless its day is locked or it has several entries
+  const isCellEditable = (projectId: string, day: Date) =>
+    !isDayLocked(day) && (cells[cellKey(projectId, day)]?.count ?? 0) <= 1;
+
+  const getCellValue = (projectId: string, day: Date) => {
+    const key = cellKey(projectId, day);
+    if (key in edits) return edits[key];
+    const hours = cells[key]?.hours;
+    return hours ? String(Math.round(hours * 100) / 100) : '';
+  };
+
+  const getCellHours = (projectId: string, day: Date) => Number(getCellValue(projectId, day)) || 0;
+
+  const rowProjectIds = [
+    ...new Set([
+      ...workLogs.map((log) => log.projectId).filter((id): id is string => Boolean(id)),
+      ...addedProjectIds,
+    ]),
+  ];
+  const rowProjects = rowProjectIds
+    .map((id) => projects.find((project) => project.id === id))
+    .filter((project): project is Project => Boolean(project))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const availableProjects = projects.filter((project) => !rowProjectIds.includes(project.id));
+
+  const changedEntries = rowProjects.flatMap((project) =>
+    days
+      .filter((day) => cellKey(project.id, day) in edits)
+      .filter((day) => getCellHours(project.id, day) !== (cells[cellKey(project.id, day)]?.hours ?? 0))
+      .map((day) => ({
+        date: day.toISOString(),
+        projectId: project.id,
+        hours: getCellHours(project.id, day),
+      }))
+  );
+
+  const handleCopyPreviousWeek = async () => {
+    try {
+      const previousCells = groupLogs(await fetchWeekLogs(addWeeks(weekStart, -1)));
+      const copied: Record<string, string> = {};
+      const copiedProjectIds = new Set<string>();
+
+      Object.entries(previousCells).forEach(([key, cell]) => {
+        const [projectId, dateStr] = key.split('|');
+        const [year, month, dayOfMonth] = dateStr.split('-').map(Number);
+        const day = addDays(new Date(year, month - 1, dayOfMonth), 7);
+        // Never overwrite hours already logged this week
+        if (!isCellEditable(projectId, day) || cells[cellKey(projectId, day)]) return;
+        copied[cellKey(projectId, day)] = String(Math.round(cell.hours * 100) / 100);
+        copiedProjectIds.add(projectId);
+      });
+
+      if (copiedProjectIds.size === 0) {
+        alert('Nothing to copy from the previous week');
+        return;
+      }
+      setEdits((prev) => ({ ...copied, ...prev }));
+      setAddedProjectIds((prev) => [...new Set([...prev, ...copiedProjectIds])]);
+    } catch (error) {
+      console.error('Error copying previous week:', error);
+      alert('Failed to copy previous week');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await axios.put('/api/worklogs/week', { entries: changedEntries });
+      setEdits({});
+      setAddedProjectIds([]);
+      await fetchWeek();
+      onSaved();
+    } catch (error: any) {
+      const data = error.response?.data;
+      alert(
+        data?.date
+          ? `${format(new Date(data.date), 'EEE, MMM d')}: ${data.error}`
+          : data?.error || 'Failed to save work logs'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const grandTotal = rowProjects.reduce(
+    (sum, project) => sum + days.reduce((daySum, day) => daySum + getCellHours(project.id, day), 0),
+    0
+  );
+
+  return (
+    <div className="week-grid">
+      <div className="week-grid-toolbar">
+        <div className="month-selector">
+          <button onClick={() => setWeekStart(addWeeks(weekStart, -1))} className="month-nav-button">
+            ← Prev
+          </button>
+          <h2>
+            {format(days[0], 'MMM d')} – {format(days[6], 'MMM d, yyyy')}
+          </h2>
+          <button onClick={() => setWeekStart(addWeeks(weekStart, 1))} className="month-nav-button">
+            Next →
+          </button>
+        </div>
+        <div className="week-grid-actions">
+          <button className="btn-secondary" onClick={handleCopyPreviousWeek} disabled={isSaving}>
+            Copy Previous Week
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={() => {
+              setEdits({});
+              setAddedProjectIds([]);
+            }}
+            disabled={isSaving || Object.keys(edits).length === 0}
+          >
+            Discard Changes
+          </button>
+          <button
+            className="btn-primary"
+            onClick={handleSave}
+            disabled={isSaving || changedEntries.length === 0}
+          >
+            {isSaving ? 'Saving...' : 'Save Week'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading">Loading...</div>
+      ) : (
+        <div className="week-grid-table-container">
+          <table className="week-grid-table">
+            <thead>
+              <tr>
+                <th>Project</th>
+                {days.map((day) => (
+                  <th key={day.toISOString()} className={isDayLocked(day) ? 'locked' : ''}>
+                    <div>{format(day, 'EEE')}</div>
+                    <div className="week-grid-date">{format(day, 'MMM d')}</div>
+                  </th>
+                ))}
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rowProjects.map((project) => (
+                <tr key={project.id}>
+                  <td className="week-grid-project">{project.name}</td>
+                  {days.map((day) => {
+                    const key = cellKey(project.id, day);
+                    const isEditable = isCellEditable(project.id, day);
+                    const entryCount = cells[key]?.count ?? 0;
+                    return (
+                      <td key={key} className={key in edits ? 'changed' : ''}>
+                        <input
+                          type="number"
+                          min="0"
+                          max="16"
+                          step="0.25"
+                          value={getCellValue(project.id, day)}
+                          disabled={!isEditable}
+                          title={
+                            entryCount > 1
+                              ? `${entryCount} entries; edit them in the month view`
+                              : isDayLocked(day)
+                                ? 'This day is in a submitted or approved timesheet'
+                                : undefined
+                          }
+                          onChange={(e) => setEdits({ ...edits, [key]: e.target.value })}
+                        />
+                      </td>
+                    );
+                  })}
+                  <td className="week-grid-total">
+                    {days.reduce((sum, day) => sum + getCellHours(project.id, day), 0).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="week-grid-add-row">
+                <td colSpan={9}>
+                  <select
+                    value=""
+                    onChange={(e) => setAddedProjectIds([...addedProjectIds, e.target.value])}
+                    disabled={availableProjects.length === 0}
+                  >
+                    <option value="">+ Add project</option>
+                    {availableProjects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            </tbody>
+            <tfoot>
+              <tr>
+                <td>Total</td>
+                {days.map((day) => (
+                  <td key={day.toISOString()} className="week-grid-total">
+                    {rowProjects
+                      .reduce((sum, project) => sum + getCellHours(project.id, day), 0)
+                      .toFixed(2)}
+                  </td>
+                ))}
+                <td className="week-grid-total">{grandTotal.toFixed(2)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,16 +6,27 @@ export interface WorkLogFormData {
   date: string;
   start: string;
   end: string;
+  breakMinutes: number;
   projectId: string;
+  taskId?: string | null;
+  activityTypeId?: string | null;
   note?: string;
+  isBillable?: boolean;
 }
 
+// Minutes since midnight of an "HH:mm" time input value
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
 interface WorkLogFormProps {
   onSubmit: (data: WorkLogFormData) => Promise<void>;
   onCancel: () => void;
   initialValues?: Partial<WorkLogFormData>;
   loading?: boolean;
-  projects?: Array<{ id: string; name: string }>;
+  projects?: Array<{ id: string; name: string; tasks?: Array<{ id: string; name: string }> }>;
+  activityTypes?: Array<{ id: string; name: string }>;
 }
 
 export function WorkLogForm({
@@ -24,51 +35,70 @@ export function WorkLogForm({
   initialValues,
   loading = false,
   projects = [],
+  activityTypes = [],
 }: WorkLogFormProps) {
   const methods = useForm<{
     date: string;
-    hours: number;
+    startTime: string;
+    endTime: string;
+    breakMinutes: number;
     projectId: string;
+    taskId: string;
+    activityTypeId: string;
     note: string;
+    isBillable: boolean;
   }>({
     defaultValues: {
       date: initialValues?.date
         ? format(new Date(initialValues.date), 'yyyy-MM-dd')
         : format(new Date(), 'yyyy-MM-dd'),
-      hours: initialValues?.start && initialValues?.end
-        ? Math.round((new Date(initialValues.end).getTime() - new Date(initialValues.start).getTime()) / (1000 * 60 * 60))
-        : 8,
+      startTime: initialValues?.start ? format(new Date(initialValues.start), 'HH:mm') : '09:00',
+      endTime: initialValues?.end ? format(new Date(initialValues.end), 'HH:mm') : '17:00',
+      breakMinutes: initialValues?.breakMinutes ?? 0,
       projectId: initialValues?.projectId || '',
+      taskId: initialValues?.taskId || '',
+      activityTypeId: initialValues?.activityTypeId || '',
       note: initialValues?.note || '',
+      isBillable: initialValues?.isBillable ?? true,
     },
   });
 
   const {
     register,
     handleSubmit,
+    watch,
+    setValue,
     formState: { errors },
   } = methods;
 
+  const startTime = watch('startTime');
+  const endTime = watch('endTime');
+  const breakMinutes = Number(watch('breakMinutes')) || 0;
+  const tasks = projects.find((project) => project.id === watch('projectId'))?.tasks ?? [];
+  const taskId = watch('taskId');
+  const activityTypeId = watch('activityTypeId');
+  const workedMinutes =
+    startTime && endTime ? toMinutes(endTime) - toMinutes(startTime) - breakMinutes : 0;
+
   const handleFormSubmit = async (data: any) => {
     // Create date from the date input (local date, no time)
     const dateStr = data.date; // format: YYYY-MM-DD
-    const hours = Number(data.hours);
-    
-    // Default start time is 9:00, end is calculated based on hours
-    const startHour = 9;
-    const endHour = startHour + hours;
 
-    // Create date objects at midnight local time, then set hours
+    // Times are local to the entry's date
     const date = new Date(dateStr + 'T00:00:00');
-    const start = new Date(dateStr + `T${String(startHour).padStart(2, '0')}:00:00`);
-    const end = new Date(dateStr + `T${String(endHour).padStart(2, '0')}:00:00`);
+    const start = new Date(`${dateStr}T${data.startTime}:00`);
+    const end = new Date(`${dateStr}T${data.endTime}:00`);
 
     const formData: WorkLogFormData = {
       date: date.toISOString(),
       start: start.toISOString(),
       end: end.toISOString(),
+      breakMinutes: Number(data.breakMinutes) || 0,
       projectId: data.projectId,
+      taskId: data.taskId || null,
+      activityTypeId: data.activityTypeId || null,
       note: data.note || undefined,
+      isBillable: data.isBillable,
     };
 
     await onSubmit(formData);
@@ -95,30 +125,69 @@ export function WorkLogForm({
           </span>
         </div>
 
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="startTime">Start *</label>
+            <input
+              type="time"
+              id="startTime"
+              {...register('startTime', {
+                required: 'Start time is required',
+              })}
+              className={errors.startTime ? 'error' : ''}
+            />
+            {errors.startTime && (
+              <span className="form-error">{errors.startTime.message as string}</span>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="endTime">End *</label>
+            <input
+              type="time"
+              id="endTime"
+              {...register('endTime', {
+                required: 'End time is required',
+                validate: (value, values) =>
+                  !values.startTime ||
+                  toMinutes(value) > toMinutes(values.startTime) ||
+                  'End time must be after start time',
+              })}
+              className={errors.endTime ? 'error' : ''}
+            />
+            {errors.endTime && (
+              <span className="form-error">{errors.endTime.message as string}</span>
+            )}
+          </div>
+        </div>
+
         <div className="form-group">
-          <label htmlFor="hours">Hours Worked *</label>
-          <select
-            id="hours"
-            {...register('hours', {
-              required: 'Hours worked is required',
+          <label htmlFor="breakMinutes">Break (minutes)</label>
+          <input
+            type="number"
+            id="breakMinutes"
+            min={0}
+            step={5}
+            {...register('breakMinutes', {
               valueAsNumber: true,
-              min: { value: 1, message: 'At least 1 hour is required' },
-              max: { value: 24, message: 'Maximum 24 hours per day' },
+              min: { value: 0, message: 'Break cannot be negative' },
+              validate: (value, values) =>
+                !values.startTime ||
+                !values.endTime ||
+                (Number(value) || 0) < toMinutes(values.endTime) - toMinutes(values.startTime) ||
+                'Break must be shorter than the time worked',
             })}
-            className={errors.hours ? 'error' : ''}
-          >
-            {Array.from({ length: 24 }, (_, i) => i + 1).map((hour) => (
-              <option key={hour} value={hour}>
-                {hour} {hour === 1 ? 'hour' : 'hours'}
-              </option>
-            ))}
-          </select>
-          {errors.hours && (
-            <span className="form-error">{errors.hours.message as string}</span>
+            className={errors.breakMinutes ? 'error' : ''}
+          />
+          {errors.breakMinutes ? (
+            <span className="form-error">{errors.breakMinutes.message as string}</span>
+          ) : (
+            <span className="work-log-duration">
+              {workedMinutes > 0
+                ? `${Math.floor(workedMinutes / 60)}h ${String(workedMinutes % 60).padStart(2, '0')}m worked`
+                : '\u00A0'}
+            </span>
           )}
-          <span className={`form-error form-error-empty ${errors.hours ? '' : 'form-error-empty'}`}>
-            {errors.hours?.message || '\u00A0'}
-          </span>
         </div>
 
         <div className="form-group">
@@ -127,6 +196,8 @@ export function WorkLogForm({
             id="projectId"
             {...register('projectId', {
               required: 'Project is required',
+              // Tasks belong to one project
+              onChange: () => setValue('taskId', ''),
             })}
             className={errors.projectId ? 'error' : ''}
           >
@@ -145,6 +216,40 @@ export function WorkLogForm({
           </span>
         </div>
 
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="taskId">Task</label>
+            <select id="taskId" {...register('taskId')} disabled={tasks.length === 0 && !taskId}>
+              <option value="">{tasks.length === 0 ? 'No tasks' : 'No task'}</option>
+              {tasks.map((task) => (
+                <option key={task.id} value={task.id}>
+                  {task.name}
+                </option>
+              ))}
+              {/* Archived tasks are not offered but stay on logs that have them */}
+              {taskId && !tasks.some((task) => task.id === taskId) && (
+                <option value={taskId}>Current task (archived)</option>
+              )}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="activityTypeId">Activity</label>
+            <select id="activityTypeId" {...register('activityTypeId')}>
+              <option value="">No activity</option>
+              {activityTypes.map((activityType) => (
+                <option key={activityType.id} value={activityType.id}>
+                  {activityType.name}
+                </option>
+              ))}
+              {activityTypeId &&
+                !activityTypes.some((activityType) => activityType.id === activityTypeId) && (
+                  <option value={activityTypeId}>Current activity (archived)</option>
+                )}
+            </select>
+          </div>
+        </div>
+
         <div className="form-group">
           <label htmlFor="note">Note</label>
           <textarea
@@ -162,6 +267,11 @@ export function WorkLogForm({
           </span>
         </div>
 
+        <label className="work-log-billable">
+          <input type="checkbox" {...register('isBillable')} />
+          Billable to the client
+        </label>
+
         <div className="form-actions">
           <button type="button" onClick={onCancel} className="btn-secondary" disabled={loading}>
             Cancel
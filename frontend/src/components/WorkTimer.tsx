@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import './WorkTimer.css';
+
+interface Timer {
+  id: string;
+  projectId: string;
+  note: string | null;
+  startedAt: string;
+  pausedAt: string | null;
+  pausedSeconds: number;
+  project: {
+    id: string;
+    name: string;
+  };
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+// Fired after the timer logged time, so open timesheets can refresh
+export const WORK_LOGS_CHANGED_EVENT = 'worklogs-changed';
+
+const TIMER_SYNC_INTERVAL_MS = 60000;
+
+const getElapsedSeconds = (timer: Timer, now: number) => {
+  const until = timer.pausedAt ? new Date(timer.pausedAt).getTime() : now;
+  return Math.max(
+    0,
+    Math.floor((until - new Date(timer.startedAt).getTime()) / 1000) - timer.pausedSeconds
+  );
+};
+
+const formatElapsed = (seconds: number) =>
+  [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+
+// Live time tracking in the sidebar; the timer runs on the server, so it survives closing the tab
+export function WorkTimer() {
+  const [timer, setTimer] = useState<Timer | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [formData, setFormData] = useState({ projectId: '', note: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    fetchTimer();
+    // Picks up a timer started or stopped in another tab
+    const interval = setInterval(fetchTimer, TIMER_SYNC_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!timer || timer.pausedAt) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(interval);
+    };
+  }, [timer]);
+
+  const fetchTimer = async () => {
+    try {
+      const response = await axios.get('/api/timer');
+      setTimer(response.data.timer);
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error fetching timer:', error);
+    }
+  };
+
+  const openStartForm = async () => {
+    setIsStarting(true);
+    try {
+      const response = await axios.get('/api/admin/projects');
+      setProjects(response.data);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error: any) {
+      alert(error.response?.data?.error || failureMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStart = () =>
+    runAction(async () => {
+      const response = await axios.post('/api/timer/start', formData);
+      setTimer(response.data.timer);
+      setNow(Date.now());
+      setIsStarting(false);
+      setFormData({ projectId: '', note: '' });
+    }, 'Failed to start timer');
+
+  const handlePause = () =>
+    runAction(async () => {
+      const response = await axios.post('/api/timer/pause');
+      setTimer(response.data.timer);
+    }, 'Failed to pause timer');
+
+  const handleResume = () =>
+    runAction(async () => {
+      const response = await axios.post('/api/timer/resume');
+      setTimer(response.data.timer);
+      setNow(Date.now());
+    }, 'Failed to resume timer');
+
+  const handleStop = () =>
+    runAction(async () => {
+      // The log goes on the local day the timer started, like a manual entry
+      const startedAt = new Date(timer!.startedAt);
+      const date = new Date(startedAt.getFullYear(), startedAt.getMonth(), startedAt.getDate());
+      await axios.post('/api/timer/stop', { date: date.toISOString() });
+      setTimer(null);
+      window.dispatchEvent(new Event(WORK_LOGS_CHANGED_EVENT));
+    }, 'Failed to stop timer');
+
+  const handleDiscard = () => {
+    if (!confirm('Discard this timer without logging the time?')) {
+      return;
+    }
+    runAction(async () => {
+      await axios.delete('/api/timer');
+      setTimer(null);
+    }, 'Failed to discard timer');
+  };
+
+  if (timer) {
+    return (
+      <div className={`work-timer ${timer.pausedAt ? 'paused' : 'running'}`}>
+        <div className="work-timer-status">
+          <span className="work-timer-dot" aria-hidden="true" />
+          <span className="work-timer-elapsed">{formatElapsed(getElapsedSeconds(timer, now))}</span>
+          {timer.pausedAt && <span className="work-timer-paused-label">Paused</span>}
+        </div>
+        <div className="work-timer-project">{timer.project.name}</div>
+        <div className="work-timer-actions">
+          {timer.pausedAt ? (
+            <button type="button" onClick={handleResume} disabled={isSaving}>
+              Resume
+            </button>
+          ) : (
+            <button type="button" onClick={handlePause} disabled={isSaving}>
+              Pause
+            </button>
+          )}
+          <button type="button" onClick={handleStop} disabled={isSaving}>
+            Stop
+          </button>
+          <button
+            type="button"
+            className="work-timer-discard"
+            onClick={handleDiscard}
+            disabled={isSaving}
+            title="Discard timer"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isStarting) {
+    return (
+      <div className="work-timer">
+        <select
+          value={formData.projectId}
+          onChange={(e) => setFormData((prev) => ({ ...prev, projectId: e.target.value }))}
+        >
+          <option value="">Select a project</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={formData.note}
+          onChange={(e) => setFormData((prev) => ({ ...prev, note: e.target.value }))}
+          placeholder="Note (optional)"
+        />
+        <div className="work-timer-actions">
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isSaving || !formData.projectId}
+          >
+            Start
+          </button>
+          <button type="button" onClick={() => setIsStarting(false)} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <button type="button" className="work-timer-start" onClick={openStartForm}>
+      ▶ Start Timer
+    </button>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 
 interface User {
   id: string;
@@ -8,25 +8,124 @@ interface User {
   email: string;
   isAdmin: boolean;
   role?: 'ADMIN' | 'EMPLOYEE'; // Backward compatibility
+  roles?: { id: string; key: string; name: string }[];
+  permissions?: string[]; // Effective permissions; administrators have all of them
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean; // Role requires 2FA; permissions stay empty until enrolled
   [key: string]: any;
 }
 
+export function hasPermission(user: User | null | undefined, permission: string): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
+// Second login step: a code from the authenticator app or a recovery code
+export interface TwoFactorCode {
+  code?: string;
+  recoveryCode?: string;
+}
+
+interface LoginResult {
+  twoFactorRequired: boolean;
+  challengeToken?: string;
+}
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: TwoFactorCode) => Promise<void>;
+  loginWithSso: (code: string) => Promise<void>;
   logout: () => void;
   updateUser: (updates: Partial<User>) => void;
+  refreshUser: () => Promise<void>;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Requests that must never trigger a token refresh
+const AUTH_ENDPOINTS = ['/api/auth/login', '/api/auth/refresh', '/api/auth/logout', '/api/auth/oidc'];
+
+// Shared by concurrent requests so a refresh token is only used once
+let refreshPromise: Promise<string | null> | null = null;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const storeTokens = (newToken: string, newRefreshToken: string) => {
+    setToken(newToken);
+    localStorage.setItem('token', newToken);
+    localStorage.setItem('refreshToken', newRefreshToken);
+    axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+  };
+
+  const clearSession = () => {
+    setToken(null);
+    setUser(null);
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+    delete axios.defaults.headers.common['Authorization'];
+  };
+
+  const refreshAccessToken = async (): Promise<string | null> => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await axios.post('/api/auth/refresh', { refreshToken });
+      storeTokens(response.data.token, response.data.refreshToken);
+      return response.data.token;
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    // Access tokens are short-lived: on 401 refresh once and retry the request;
+    // a failed refresh (session revoked or expired) signs the user out
+    const interceptor = axios.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+        if (
+          error.response?.status !== 401 ||
+          !original ||
+          original._retried ||
+          AUTH_ENDPOINTS.some((url) => original.url?.startsWith(url))
+        ) {
+          return Promise.reject(error);
+        }
+
+        original._retried = true;
+        refreshPromise =
+          refreshPromise ??
+          refreshAccessToken().finally(() => {
+            refreshPromise = null;
+          });
+        const newToken = await refreshPromise;
+
+        if (!newToken) {
+          clearSession();
+          return Promise.reject(error);
+        }
+
+        original.headers['Authorization'] = `Bearer ${newToken}`;
+        return axios(original);
+      }
+    );
+
+    return () => {
+      axios.interceptors.response.eject(interceptor);
+    };
+  }, []);
+
   useEffect(() => {
     const storedToken = localStorage.getItem('token');
     const storedUser = localStorage.getItem('user');
@@ -35,31 +134,76 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setToken(storedToken);
       setUser(JSON.parse(storedUser));
       axios.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
+      // Pick up role and permission changes made since the user logged in
+      axios
+        .get('/api/auth/me')
+        .then((response) => {
+          setUser(response.data);
+          localStorage.setItem('user', JSON.stringify(response.data));
+        })
+        .catch((error) => console.error('Error refreshing current user:', error))
+        .finally(() => setLoading(false));
+      return;
     }
     setLoading(false);
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const startSession = (data: { token: string; refreshToken: string; user: User }) => {
+    storeTokens(data.token, data.refreshToken);
+    setUser(data.user);
+    localStorage.setItem('user', JSON.stringify(data.user));
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const response = await axios.post('/api/auth/login', { email, password });
-      const { token: newToken, user: newUser } = response.data;
 
-      setToken(newToken);
-      setUser(newUser);
-      localStorage.setItem('token', newToken);
-      localStorage.setItem('user', JSON.stringify(newUser));
-      axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+      if (response.data.twoFactorRequired) {
+        return { twoFactorRequired: true, challengeToken: response.data.challengeToken };
+      }
+
+      startSession(response.data);
+      return { twoFactorRequired: false };
     } catch (error: any) {
       throw new Error(error.response?.data?.error || 'Login failed');
     }
   };
 
+  const verifyTwoFactor = async (challengeToken: string, code: TwoFactorCode) => {
+    try {
+      const response = await axios.post('/api/auth/login/2fa', { challengeToken, ...code });
+      startSession(response.data);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Verification failed');
+    }
+  };
+
   const logout = () => {
-    setToken(null);
-    setUser(null);
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    delete axios.defaults.headers.common['Authorization'];
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      // Revoke the session on the server; the local sign-out does not wait for it
+      axios
+        .post('/api/auth/logout', { refreshToken })
+        .catch((error) => console.error('Error logging out:', error));
+    }
+    clearSession();
+  };
+
+  // Finish an SSO login with the one-time code from the callback redirect
+  const loginWithSso = async (code: string) => {
+    try {
+      const response = await axios.post('/api/auth/oidc/exchange', { code });
+      startSession(response.data);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Sign-in failed');
+    }
+  };
+
+  // Reload the current user, e.g. after enrolling in 2FA unlocks their permissions
+  const refreshUser = async () => {
+    const response = await axios.get('/api/auth/me');
+    setUser(response.data);
+    localStorage.setItem('user', JSON.stringify(response.data));
   };
 
   const updateUser = (updates: Partial<User>) => {
@@ -72,7 +216,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, updateUser, loading }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        token,
+        login,
+        verifyTwoFactor,
+        loginWithSso,
+        logout,
+        updateUser,
+        refreshUser,
+        loading,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
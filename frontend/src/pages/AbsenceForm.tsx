@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, type ChangeEvent } from 'react';
 import axios from 'axios';
 import { useForm, FormProvider } from 'react-hook-form';
 import { DateRangePicker } from '../components/DateRangePicker';
+import { AbsencePortion } from '../utils/absenceUtils';
 import './AbsenceForm.css';
 
 export interface AbsenceFormData {
@@ -10,6 +11,8 @@ export interface AbsenceFormData {
     from: string | null;
     to: string | null;
   };
+  portion: AbsencePortion;
+  hours?: number | null;
   files?: File[];
   existingFiles?: { id: string; originalName: string }[];
 }
@@ -41,6 +44,8 @@ export function AbsenceForm({
     defaultValues: {
       type: initialValues?.type || 'vacation',
       dateRange: initialValues?.dateRange || { from: null, to: null },
+      portion: initialValues?.portion || 'full_day',
+      hours: initialValues?.hours ?? null,
     },
     mode: 'onChange',
   });
@@ -49,6 +54,7 @@ export function AbsenceForm({
     handleSubmit,
     formState: { errors },
     watch,
+    setValue,
   } = methods;
 
   // Past dates are allowed for all types
@@ -56,7 +62,18 @@ export function AbsenceForm({
 
   const dateRange = watch('dateRange');
   const selectedType = watch('type');
+  const selectedPortion = watch('portion');
   const hasValidDateRange = dateRange?.from && dateRange?.to;
+  // Half-day and hourly absences are only possible for a single day
+  const isSingleDay =
+    Boolean(hasValidDateRange) &&
+    new Date(dateRange.from!).toDateString() === new Date(dateRange.to!).toDateString();
+
+  useEffect(() => {
+    if (!isSingleDay && selectedPortion !== 'full_day') {
+      setValue('portion', 'full_day');
+    }
+  }, [isSingleDay, selectedPortion, setValue]);
   const [existingFiles, setExistingFiles] = useState(
     initialValues?.existingFiles ?? []
   );
@@ -112,6 +129,7 @@ export function AbsenceForm({
           from: data.dateRange.from,
           to: data.dateRange.to,
         },
+        hours: data.portion === 'hours' ? Number(data.hours) : null,
         files: selectedFiles,
       });
     }
@@ -159,6 +177,40 @@ export function AbsenceForm({
           disabled={disableDateRange}
         />
 
+        {isSingleDay && (
+          <div className="form-group">
+            <label htmlFor="portion">Duration</label>
+            <select id="portion" {...methods.register('portion')} disabled={disableDateRange}>
+              <option value="full_day">Full day</option>
+              <option value="half_day_am">Half day (morning)</option>
+              <option value="half_day_pm">Half day (afternoon)</option>
+              <option value="hours">Hours</option>
+            </select>
+          </div>
+        )}
+
+        {isSingleDay && selectedPortion === 'hours' && (
+          <div className="form-group">
+            <label htmlFor="hours">Hours</label>
+            <input
+              id="hours"
+              type="number"
+              min="0.5"
+              max="7.5"
+              step="0.5"
+              disabled={disableDateRange}
+              {...methods.register('hours', {
+                required: 'Number of hours is required',
+                min: { value: 0.5, message: 'Minimum is 0.5 hours' },
+                max: { value: 7.5, message: 'Use a full day for 8 hours or more' },
+              })}
+            />
+            <span className={`form-error ${errors.hours ? '' : 'form-error-empty'}`}>
+              {errors.hours?.message || '\u00A0'}
+            </span>
+          </div>
+        )}
+
         {selectedType === 'sick_leave' && (
           <div className="form-group">
             <label htmlFor="files">Upload certificate</label>
@@ -1,43 +1,46 @@
 import { useState, useEffect } from 'react';
 import axios from 'axios';
 import { format } from 'date-fns';
+import { useAuth, hasPermission } from '../contexts/AuthContext';
+import { LeaveStatementModal } from '../components/LeaveStatementModal';
+import { PendingRequests } from '../components/PendingRequests';
+import { TimesheetReview } from '../components/TimesheetReview';
+import { SessionsModal } from '../components/SessionsModal';
+import { LoginHistoryModal } from '../components/LoginHistoryModal';
 import './Admin.css';
 
-interface PendingRequest {
+interface Project {
   id: string;
-  type: 'sick_leave' | 'day_off' | 'vacation';
-  from: string;
-  to: string;
-  status: 'pending';
-  isBackdated?: boolean;
-  files?: { id: string; originalName: string }[];
-  user: {
-    id: string;
-    firstName: string;
-    lastName: string;
-    email: string;
-  };
+  name: string;
 }
 
-interface Project {
+interface Position {
   id: string;
   name: string;
 }
 
-interface Position {
+interface Role {
   id: string;
+  key: string;
   name: string;
 }
 
 export default function Admin() {
-  const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
+  const { user: currentUser } = useAuth();
+  // Only role managers may grant roles or the admin flag
+  const canManageRoles = hasPermission(currentUser, 'roles.manage');
   const [projects, setProjects] = useState<Project[]>([]);
   const [positions, setPositions] = useState<Position[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [selectedRoleIds, setSelectedRoleIds] = useState<string[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showPositionModal, setShowPositionModal] = useState(false);
   const [newPositionName, setNewPositionName] = useState('');
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [statementUserId, setStatementUserId] = useState<string | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<any | null>(null);
+  const [loginHistoryUser, setLoginHistoryUser] = useState<any | null>(null);
   const [editingUser, setEditingUser] = useState<any | null>(null);
   const [loading, setLoading] = useState(true);
   const [newUser, setNewUser] = useState({
@@ -50,10 +53,12 @@ export default function Admin() {
     birthDate: '',
     hireDate: '',
     positionId: '',
+    managerId: '',
     gender: '',
     city: '',
     country: '',
     isAdmin: false,
+    passwordLoginDisabled: false,
     projectIds: [] as string[],
   });
   const [users, setUsers] = useState<any[]>([]);
@@ -62,25 +67,16 @@ export default function Admin() {
     const loadData = async () => {
       setLoading(true);
       await Promise.all([
-        fetchPendingRequests(),
         fetchProjects(),
         fetchUsers(),
         fetchPositions(),
+        canManageRoles ? fetchRoles() : Promise.resolve(),
       ]);
       setLoading(false);
     };
     void loadData();
   }, []);
 
-  const fetchPendingRequests = async () => {
-    try {
-      const response = await axios.get('/api/admin/pending-requests');
-      setPendingRequests(response.data);
-    } catch (error) {
-      console.error('Error fetching pending requests:', error);
-    }
-  };
-
   const fetchProjects = async () => {
     try {
       const response = await axios.get('/api/admin/projects');
@@ -108,47 +104,24 @@ export default function Admin() {
     }
   };
 
-  const handleApprove = async (id: string) => {
+  const fetchRoles = async () => {
     try {
-      await axios.patch(`/api/admin/requests/${id}/approve`);
-      fetchPendingRequests();
+      const response = await axios.get('/api/roles');
+      setRoles(response.data.roles);
     } catch (error) {
-      alert('Failed to approve request');
-    }
-  };
-
-  const handleReject = async (id: string) => {
-    try {
-      await axios.patch(`/api/admin/requests/${id}/reject`);
-      fetchPendingRequests();
-    } catch (error) {
-      alert('Failed to reject request');
-    }
-  };
-
-  const handleDownloadFile = async (fileId: string, fileName: string) => {
-    try {
-      const response = await axios.get(`/api/absences/files/${fileId}`, {
-        responseType: 'blob',
-      });
-
-      const url = window.URL.createObjectURL(response.data);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(url);
-    } catch (error) {
-      alert('Failed to download file');
+      console.error('Error fetching roles:', error);
     }
   };
 
   const handleCreateUser = async () => {
     try {
-      await axios.post('/api/admin/users', newUser);
+      await axios.post('/api/admin/users', {
+        ...newUser,
+        managerId: newUser.managerId || null,
+        roleIds: canManageRoles ? selectedRoleIds : undefined,
+      });
       setShowCreateModal(false);
+      setSelectedRoleIds([]);
       setNewUser({
         firstName: '',
         lastName: '',
@@ -159,10 +132,12 @@ export default function Admin() {
         birthDate: '',
         hireDate: '',
         positionId: '',
+        managerId: '',
         gender: '',
         city: '',
         country: '',
         isAdmin: false,
+        passwordLoginDisabled: false,
         projectIds: [],
       });
       fetchUsers();
@@ -183,24 +158,60 @@ export default function Admin() {
       birthDate: user.birthDate ? new Date(user.birthDate).toISOString().split('T')[0] : '',
       hireDate: user.hireDate ? new Date(user.hireDate).toISOString().split('T')[0] : '',
       positionId: user.positionId || '',
+      managerId: user.managerId || '',
       gender: user.gender || '',
       city: user.city || '',
       country: user.country || '',
       isAdmin: user.isAdmin || false,
+      passwordLoginDisabled: user.passwordLoginDisabled || false,
       projectIds: user.projects?.map((p: any) => p.id) || [],
     });
+    setSelectedRoleIds(user.roles?.map((role: Role) => role.id) || []);
     setShowCreateModal(true);
   };
 
+  const runningTimerCount = users.filter((user) => user.workTimer).length;
+
+  const isLocked = (user: any) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  const handleUnlock = async (user: any) => {
+    try {
+      await axios.post(`/api/admin/users/${user.id}/unlock`);
+      fetchUsers();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to unlock account');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: any) => {
+    if (
+      !confirm(
+        `Reset two-factor authentication for ${user.firstName} ${user.lastName}? They will log in with their password only until they set it up again.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/two-factor/users/${user.id}`);
+      fetchUsers();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to reset two-factor authentication');
+    }
+  };
+
   const handleUpdateUser = async () => {
     if (!editingUser) return;
     try {
       await axios.put(`/api/admin/users/${editingUser.id}`, {
         ...newUser,
         password: newUser.password || undefined, // Don't send empty password
+        managerId: newUser.managerId || null,
+        roleIds: canManageRoles ? selectedRoleIds : undefined,
       });
       setShowCreateModal(false);
       setEditingUser(null);
+      setSelectedRoleIds([]);
       setNewUser({
         firstName: '',
         lastName: '',
@@ -211,10 +222,12 @@ export default function Admin() {
         birthDate: '',
         hireDate: '',
         positionId: '',
+        managerId: '',
         gender: '',
         city: '',
         country: '',
         isAdmin: false,
+        passwordLoginDisabled: false,
         projectIds: [],
       });
       fetchUsers();
@@ -250,19 +263,6 @@ export default function Admin() {
     }
   };
 
-  const getTypeLabel = (type: string) => {
-    switch (type) {
-      case 'vacation':
-        return 'Vacation';
-      case 'sick_leave':
-        return 'Sick Leave';
-      case 'day_off':
-        return 'Day Off';
-      default:
-        return type;
-    }
-  };
-
   if (loading) {
     return <div className="loading">Loading...</div>;
   }
@@ -280,60 +280,22 @@ export default function Admin() {
 
       <div className="admin-section">
         <h2>Pending Requests</h2>
-        {pendingRequests.length === 0 ? (
-          <p className="no-data">No pending requests</p>
-        ) : (
-          <div className="requests-list">
-            {pendingRequests.map((request) => (
-              <div key={request.id} className="request-item">
-                <div className="request-info">
-                  <div className="request-user">
-                    {request.user.firstName} {request.user.lastName}
-                  </div>
-                  <div className="request-type">
-                    {getTypeLabel(request.type)}
-                    {request.isBackdated && <span className="request-badge">Backdated</span>}
-                  </div>
-                  <div className="request-dates">
-                    {format(new Date(request.from), 'MMM dd, yyyy')} -{' '}
-                    {format(new Date(request.to), 'MMM dd, yyyy')}
-                  </div>
-                  {request.files && request.files.length > 0 && (
-                    <div className="request-files">
-                      {request.files.map((file) => (
-                        <button
-                          key={file.id}
-                          className="btn-secondary btn-sm"
-                          onClick={() => handleDownloadFile(file.id, file.originalName)}
-                        >
-                          Download {file.originalName}
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                </div>
-                <div className="request-actions">
-                  <button
-                    className="btn-approve"
-                    onClick={() => handleApprove(request.id)}
-                  >
-                    Approve
-                  </button>
-                  <button
-                    className="btn-reject"
-                    onClick={() => handleReject(request.id)}
-                  >
-                    Reject
-                  </button>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
+        <PendingRequests />
+      </div>
+
+      <div className="admin-section">
+        <h2>Timesheets</h2>
+        <TimesheetReview />
       </div>
 
       <div className="admin-section">
         <h2>Users</h2>
+        {runningTimerCount > 0 && (
+          <p className="users-timer-summary">
+            {runningTimerCount} {runningTimerCount === 1 ? 'user has' : 'users have'} a timer
+            running
+          </p>
+        )}
         <div className="users-list">
           {users.map((user) => (
             <div key={user.id} className="user-item">
@@ -345,8 +307,69 @@ export default function Admin() {
                 {user.position && (
                   <span className="user-position">{user.position.name}</span>
                 )}
+                {user.manager && (
+                  <span className="user-manager">
+                    Reports to {user.manager.firstName} {user.manager.lastName}
+                  </span>
+                )}
+                {(user.isAdmin || user.roles?.length > 0) && (
+                  <span className="user-roles">
+                    {[
+                      ...(user.isAdmin ? ['Admin'] : []),
+                      ...(user.roles ?? []).map((role: Role) => role.name),
+                    ].join(', ')}
+                  </span>
+                )}
+                {user.twoFactor?.enabledAt && <span className="user-two-factor">2FA enabled</span>}
+                {user.passwordLoginDisabled && <span className="user-sso-only">SSO only</span>}
+                {isLocked(user) && (
+                  <span className="user-locked">
+                    Locked until {format(new Date(user.lockedUntil), 'MMM dd, HH:mm')}
+                  </span>
+                )}
+                {user.workTimer && (
+                  <span className="user-timer">
+                    {user.workTimer.pausedAt ? 'Timer paused' : 'Timer running'} on{' '}
+                    {user.workTimer.project.name} since{' '}
+                    {format(new Date(user.workTimer.startedAt), 'MMM dd, HH:mm')}
+                  </span>
+                )}
               </div>
               <div className="user-actions">
+                <button
+                  className="btn-secondary"
+                  onClick={() => setStatementUserId(user.id)}
+                >
+                  Statement
+                </button>
+                <button
+                  className="btn-secondary"
+                  onClick={() => setSessionsUser(user)}
+                >
+                  Sessions
+                </button>
+                <button
+                  className="btn-secondary"
+                  onClick={() => setLoginHistoryUser(user)}
+                >
+                  Logins
+                </button>
+                {isLocked(user) && (
+                  <button
+                    className="btn-secondary"
+                    onClick={() => handleUnlock(user)}
+                  >
+                    Unlock
+                  </button>
+                )}
+                {canManageRoles && user.twoFactor?.enabledAt && (
+                  <button
+                    className="btn-secondary"
+                    onClick={() => handleResetTwoFactor(user)}
+                  >
+                    Reset 2FA
+                  </button>
+                )}
                 <button
                   className="btn-edit"
                   onClick={() => handleEditUser(user)}
@@ -481,6 +504,22 @@ export default function Admin() {
                   </button>
                 </div>
               </div>
+              <div className="form-group">
+                <label>Manager</label>
+                <select
+                  value={newUser.managerId}
+                  onChange={(e) => setNewUser({ ...newUser, managerId: e.target.value })}
+                >
+                  <option value="">No manager</option>
+                  {users
+                    .filter((user) => user.id !== editingUser?.id)
+                    .map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.firstName} {user.lastName}
+                      </option>
+                    ))}
+                </select>
+              </div>
               <div className="form-group">
                 <label>Gender</label>
                 <select
@@ -513,12 +552,49 @@ export default function Admin() {
                 <label className="checkbox-pill">
                   <input
                     type="checkbox"
-                    checked={newUser.isAdmin}
-                    onChange={(e) => setNewUser({ ...newUser, isAdmin: e.target.checked })}
+                    checked={newUser.passwordLoginDisabled}
+                    onChange={(e) =>
+                      setNewUser({ ...newUser, passwordLoginDisabled: e.target.checked })
+                    }
                   />
-                  <span>Is Admin</span>
+                  <span>SSO only (no password login)</span>
                 </label>
               </div>
+              {canManageRoles && (
+                <div className="form-group admin-checkbox">
+                  <label className="checkbox-pill">
+                    <input
+                      type="checkbox"
+                      checked={newUser.isAdmin}
+                      onChange={(e) => setNewUser({ ...newUser, isAdmin: e.target.checked })}
+                    />
+                    <span>Is Admin</span>
+                  </label>
+                </div>
+              )}
+              {canManageRoles && (
+                <div className="form-group full-width">
+                  <label>Roles</label>
+                  <div className="checkbox-list">
+                    {roles.map((role) => (
+                      <label key={role.id} className="checkbox-item">
+                        <input
+                          type="checkbox"
+                          checked={selectedRoleIds.includes(role.id)}
+                          onChange={(e) =>
+                            setSelectedRoleIds(
+                              e.target.checked
+                                ? [...selectedRoleIds, role.id]
+                                : selectedRoleIds.filter((id) => id !== role.id)
+                            )
+                          }
+                        />
+                        {role.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="form-group full-width">
                 <label>Projects</label>
                 <div className="checkbox-list">
@@ -551,6 +627,7 @@ export default function Admin() {
               <button className="btn-secondary" onClick={() => {
                 setShowCreateModal(false);
                 setEditingUser(null);
+                setSelectedRoleIds([]);
               }}>
                 Cancel
               </button>
@@ -579,6 +656,29 @@ export default function Admin() {
         </div>
       )}
 
+      {statementUserId && (
+        <LeaveStatementModal
+          userId={statementUserId}
+          onClose={() => setStatementUserId(null)}
+        />
+      )}
+
+      {sessionsUser && (
+        <SessionsModal
+          userId={sessionsUser.id}
+          userName={`${sessionsUser.firstName} ${sessionsUser.lastName}`}
+          onClose={() => setSessionsUser(null)}
+        />
+      )}
+
+      {loginHistoryUser && (
+        <LoginHistoryModal
+          userId={loginHistoryUser.id}
+          userName={`${loginHistoryUser.firstName} ${loginHistoryUser.lastName}`}
+          onClose={() => setLoginHistoryUser(null)}
+        />
+      )}
+
       {showPositionModal && (
         <div className="modal-overlay">
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { PendingRequests } from '../components/PendingRequests';
+import { TimesheetReview } from '../components/TimesheetReview';
+import './Approvals.css';
+
+interface DelegationUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface Delegation {
+  id: string;
+  from: string;
+  to: string;
+  delegate?: DelegationUser;
+  delegator?: DelegationUser;
+}
+
+// Delegation dates are stored as UTC midnight; format them without shifting to local time
+const formatDelegationDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
+export default function Approvals() {
+  const { user } = useAuth();
+  const [given, setGiven] = useState<Delegation[]>([]);
+  const [received, setReceived] = useState<Delegation[]>([]);
+  const [employees, setEmployees] = useState<DelegationUser[]>([]);
+  const [form, setForm] = useState({ delegateId: '', from: '', to: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchDelegations();
+    fetchEmployees();
+  }, []);
+
+  const fetchDelegations = async () => {
+    try {
+      const response = await axios.get('/api/delegations');
+      setGiven(response.data.given);
+      setReceived(response.data.received);
+    } catch (error) {
+      console.error('Error fetching delegations:', error);
+    }
+  };
+
+  const fetchEmployees = async () => {
+    try {
+      const response = await axios.get('/api/employees');
+      setEmployees(response.data);
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const handleCreateDelegation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await axios.post('/api/delegations', form);
+      setForm({ delegateId: '', from: '', to: '' });
+      fetchDelegations();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delegate approvals');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteDelegation = async (id: string) => {
+    if (!confirm('Remove this delegation?')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/delegations/${id}`);
+      fetchDelegations();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to remove delegation');
+    }
+  };
+
+  return (
+    <div className="approvals-page">
+      <div className="page-header">
+        <h1>Approvals</h1>
+      </div>
+
+      <div className="info-box">
+        <p>
+          Requests from your reports and from members of projects you lead wait here for your
+          decision before they move on to HR. A reason is required when rejecting a request.
+        </p>
+      </div>
+
+      <div className="approvals-section">
+        <PendingRequests />
+      </div>
+
+      <div className="approvals-section">
+        <h2>Timesheets</h2>
+        <p className="delegation-hint">
+          Approving a timesheet locks its work logs. Send it back with a comment when something
+          needs to change.
+        </p>
+        <TimesheetReview />
+      </div>
+
+      <div className="approvals-section">
+        <h2>Delegate My Approvals</h2>
+        <p className="delegation-hint">
+          While you are away, the person you choose decides your approval steps and sees your
+          reports.
+        </p>
+        <form className="delegation-form" onSubmit={handleCreateDelegation}>
+          <select
+            value={form.delegateId}
+            onChange={(e) => setForm({ ...form, delegateId: e.target.value })}
+            required
+          >
+            <option value="">Select person</option>
+            {employees
+              .filter((employee) => employee.id !== user?.id)
+              .map((employee) => (
+                <option key={employee.id} value={employee.id}>
+                  {employee.firstName} {employee.lastName}
+                </option>
+              ))}
+          </select>
+          <input
+            type="date"
+            value={form.from}
+            onChange={(e) => setForm({ ...form, from: e.target.value })}
+            required
+          />
+          <input
+            type="date"
+            value={form.to}
+            min={form.from || undefined}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+            required
+          />
+          <button type="submit" className="btn-primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Delegate'}
+          </button>
+        </form>
+
+        {given.length === 0 ? (
+          <p className="no-data">No delegations</p>
+        ) : (
+          <div className="delegation-list">
+            {given.map((delegation) => (
+              <div key={delegation.id} className="delegation-item">
+                <span>
+                  {delegation.delegate?.firstName} {delegation.delegate?.lastName}
+                </span>
+                <span className="delegation-dates">
+                  {formatDelegationDate(delegation.from)} - {formatDelegationDate(delegation.to)}
+                </span>
+                <button
+                  className="btn-danger btn-sm"
+                  onClick={() => handleDeleteDelegation(delegation.id)}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {received.length > 0 && (
+          <>
+            <h3>Acting For</h3>
+            <div className="delegation-list">
+              {received.map((delegation) => (
+                <div key={delegation.id} className="delegation-item">
+                  <span>
+                    {delegation.delegator?.firstName} {delegation.delegator?.lastName}
+                  </span>
+                  <span className="delegation-dates">
+                    {formatDelegationDate(delegation.from)} - {formatDelegationDate(delegation.to)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import './AuditLog.css';
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  route: string;
+  ipAddress: string | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  } | null;
+}
+
+interface Employee {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+const EMPTY_FILTERS = { actorId: '', entityType: '', entityId: '', from: '', to: '' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEmployees();
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [filters, page]);
+
+  const fetchEmployees = async () => {
+    try {
+      const response = await axios.get('/api/employees');
+      setEmployees(response.data);
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get('/api/audit-logs', { params: { ...filters, page } });
+      setEntries(response.data.entries);
+      setEntityTypes(response.data.entityTypes);
+      setTotal(response.data.total);
+      setPageSize(response.data.pageSize);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (field: keyof typeof EMPTY_FILTERS, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="audit-log-page">
+      <div className="page-header">
+        <h1>Audit Log</h1>
+      </div>
+
+      <div className="audit-log-filters">
+        <div className="filter-group">
+          <label>User</label>
+          <select
+            className="filter-select"
+            value={filters.actorId}
+            onChange={(e) => updateFilter('actorId', e.target.value)}
+          >
+            <option value="">All users</option>
+            {employees.map((employee) => (
+              <option key={employee.id} value={employee.id}>
+                {employee.firstName} {employee.lastName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label>Entity</label>
+          <select
+            className="filter-select"
+            value={filters.entityType}
+            onChange={(e) => updateFilter('entityType', e.target.value)}
+          >
+            <option value="">All entities</option>
+            {entityTypes.map((entityType) => (
+              <option key={entityType} value={entityType}>
+                {entityType}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label>Entity ID</label>
+          <input
+            type="text"
+            className="filter-select"
+            value={filters.entityId}
+            onChange={(e) => updateFilter('entityId', e.target.value.trim())}
+            placeholder="Any"
+          />
+        </div>
+        <div className="filter-group">
+          <label>From</label>
+          <input
+            type="date"
+            className="filter-select"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+          />
+        </div>
+        <div className="filter-group">
+          <label>To</label>
+          <input
+            type="date"
+            className="filter-select"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading">Loading...</div>
+      ) : entries.length === 0 ? (
+        <p className="no-data">No audit entries found</p>
+      ) : (
+        <div className="audit-log-table-container">
+          <table className="audit-log-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>User</th>
+                <th>Action</th>
+                <th>Entity</th>
+                <th>Changes</th>
+                <th>IP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="audit-log-time">
+                    {format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm:ss')}
+                  </td>
+                  <td>
+                    {entry.actor
+                      ? `${entry.actor.firstName} ${entry.actor.lastName}`
+                      : <span className="audit-log-muted">System</span>}
+                  </td>
+                  <td>
+                    <span className="audit-log-action">{entry.action}</span>
+                  </td>
+                  <td>
+                    <div>{entry.entityType}</div>
+                    {entry.entityId && (
+                      <button
+                        type="button"
+                        className="audit-log-entity-id"
+                        title="Show the history of this record"
+                        onClick={() => updateFilter('entityId', entry.entityId!)}
+                      >
+                        {entry.entityId}
+                      </button>
+                    )}
+                    <div className="audit-log-muted">{entry.route}</div>
+                  </td>
+                  <td>
+                    {entry.changes ? (
+                      <ul className="audit-log-changes">
+                        {Object.entries(entry.changes).map(([field, change]) => (
+                          <li key={field}>
+                            <strong>{field}</strong>: {formatValue(change.from)} →{' '}
+                            {formatValue(change.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span className="audit-log-muted">—</span>
+                    )}
+                  </td>
+                  <td>{entry.ipAddress || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {total > pageSize && (
+            <div className="audit-log-pagination">
+              <button
+                className="btn-secondary"
+                onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                disabled={page === 1}
+              >
+                Prev
+              </button>
+              <span className="pagination-info">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                className="btn-secondary"
+                onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+                disabled={page === totalPages}
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
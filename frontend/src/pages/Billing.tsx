@@ -0,0 +1,761 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import './Billing.css';
+
+type RateScope = 'project' | 'position' | 'user';
+
+interface NamedItem {
+  id: string;
+  name: string;
+}
+
+interface Employee {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface HourlyRate {
+  id: string;
+  scope: RateScope;
+  rate: number;
+  effectiveFrom: string;
+  project: NamedItem | null;
+  position: NamedItem | null;
+  user: Employee | null;
+}
+
+interface BillingLine {
+  workLogId: string;
+  date: string;
+  userId: string;
+  userName: string;
+  taskName: string | null;
+  activityTypeName: string | null;
+  note: string | null;
+  hours: number;
+  rate: number | null;
+  amount: number;
+}
+
+interface SnapshotSummary {
+  id: string;
+  projectId: string | null;
+  projectName: string;
+  periodStart: string;
+  periodEnd: string;
+  approvedOnly: boolean;
+  reference: string | null;
+  totalHours: number;
+  totalAmount: number;
+  createdAt: string;
+  createdBy: Employee | null;
+}
+
+interface SnapshotDetails extends SnapshotSummary {
+  lines: BillingLine[];
+  changes: {
+    added: number;
+    removed: number;
+    modified: number;
+    totalHours: number;
+    totalAmount: number;
+  } | null;
+}
+
+interface BillingReport {
+  projectName: string;
+  lines: BillingLine[];
+  byUser: { userId: string; userName: string; hours: number; amount: number }[];
+  totalHours: number;
+  totalAmount: number;
+  unratedHours: number;
+  nonBillableHours: number;
+  snapshots: SnapshotSummary[];
+}
+
+const EMPTY_RATE_FORM = {
+  scope: 'project' as RateScope,
+  targetId: '',
+  projectId: '',
+  rate: '',
+  effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+};
+
+// Billing dates are stored as UTC midnight; format them without shifting to local time
+const formatBillingDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
+const formatPeriod = (snapshot: { periodStart: string; periodEnd: string }) =>
+  `${formatBillingDate(snapshot.periodStart)} - ${formatBillingDate(snapshot.periodEnd)}`;
+
+const formatMoney = (amount: number) => amount.toFixed(2);
+
+const describeRateTarget = (rate: HourlyRate) => {
+  if (rate.scope === 'user' && rate.user) {
+    return `${rate.user.firstName} ${rate.user.lastName}`;
+  }
+  if (rate.scope === 'position' && rate.position) {
+    return rate.position.name;
+  }
+  return rate.project?.name || '-';
+};
+
+const sanitizeFilePart = (value: string) =>
+  value.trim().replace(/[^a-zA-Z0-9-_]+/g, '_').replace(/_+/g, '_');
+
+const downloadLinesCsv = (lines: BillingLine[], filename: string) => {
+  const headers = ['Date', 'Employee', 'Task', 'Activity', 'Hours', 'Rate', 'Amount', 'Note'];
+  const rows = lines.map((line) => [
+    line.date,
+    line.userName,
+    line.taskName || '',
+    line.activityTypeName || '',
+    line.hours.toFixed(2),
+    line.rate !== null ? formatMoney(line.rate) : '',
+    formatMoney(line.amount),
+    line.note || '',
+  ]);
+  rows.push([
+    'TOTAL',
+    '',
+    '',
+    '',
+    lines.reduce((sum, line) => sum + line.hours, 0).toFixed(2),
+    '',
+    formatMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+    '',
+  ]);
+
+  const csvContent = [
+    headers.join(','),
+    ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')),
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.setAttribute('href', URL.createObjectURL(blob));
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export default function Billing() {
+  const [projects, setProjects] = useState<NamedItem[]>([]);
+  const [positions, setPositions] = useState<NamedItem[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [rates, setRates] = useState<HourlyRate[]>([]);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [report, setReport] = useState<BillingReport | null>(null);
+  const [selectedSnapshot, setSelectedSnapshot] = useState<SnapshotDetails | null>(null);
+  const [projectId, setProjectId] = useState('');
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [reference, setReference] = useState('');
+  const [rateForm, setRateForm] = useState(EMPTY_RATE_FORM);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchProjects();
+    fetchPositions();
+    fetchEmployees();
+    fetchRates();
+  }, []);
+
+  useEffect(() => {
+    fetchSnapshots();
+    fetchReport();
+  }, [projectId, from, to, approvedOnly]);
+
+  const fetchProjects = async () => {
+    try {
+      const response = await axios.get('/api/admin/projects');
+      setProjects(response.data);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const fetchPositions = async () => {
+    try {
+      const response = await axios.get('/api/positions');
+      setPositions(response.data);
+    } catch (error) {
+      console.error('Error fetching positions:', error);
+    }
+  };
+
+  const fetchEmployees = async () => {
+    try {
+      const response = await axios.get('/api/employees');
+      setEmployees(response.data);
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const fetchRates = async () => {
+    try {
+      const response = await axios.get('/api/billing/rates');
+      setRates(response.data);
+    } catch (error) {
+      console.error('Error fetching hourly rates:', error);
+    }
+  };
+
+  const fetchSnapshots = async () => {
+    try {
+      const response = await axios.get('/api/billing/snapshots', {
+        params: projectId ? { projectId } : {},
+      });
+      setSnapshots(response.data);
+    } catch (error) {
+      console.error('Error fetching invoice snapshots:', error);
+    }
+  };
+
+  const fetchReport = async () => {
+    if (!projectId || !from || !to) {
+      setReport(null);
+      return;
+    }
+
+    setLoadingReport(true);
+    try {
+      const response = await axios.get('/api/billing/report', {
+        params: { projectId, from, to, approvedOnly: approvedOnly ? 'true' : undefined },
+      });
+      setReport(response.data);
+    } catch (error: any) {
+      setReport(null);
+      alert(error.response?.data?.error || 'Failed to load billing report');
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleCreateSnapshot = async () => {
+    if (!confirm('Freeze the billable work of this period as an invoice snapshot?')) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await axios.post('/api/billing/snapshots', {
+        projectId,
+        from,
+        to,
+        approvedOnly,
+        reference: reference || null,
+      });
+      setReference('');
+      fetchSnapshots();
+      fetchReport();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to create invoice snapshot');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleViewSnapshot = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/billing/snapshots/${id}`);
+      setSelectedSnapshot(response.data);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to load invoice snapshot');
+    }
+  };
+
+  const handleExportSnapshot = (snapshot: SnapshotDetails) => {
+    const period = `${snapshot.periodStart.slice(0, 10)}-${snapshot.periodEnd.slice(0, 10)}`;
+    downloadLinesCsv(
+      snapshot.lines,
+      `invoice-${sanitizeFilePart(snapshot.projectName)}-${period}.csv`
+    );
+  };
+
+  const handleDeleteSnapshot = async (snapshot: SnapshotSummary) => {
+    if (
+      !confirm(
+        `Delete the invoice snapshot of ${snapshot.projectName} for ${formatPeriod(snapshot)}? ` +
+          'The period can then be invoiced again.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/billing/snapshots/${snapshot.id}`);
+      setSelectedSnapshot(null);
+      fetchSnapshots();
+      fetchReport();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete invoice snapshot');
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const payload =
+      rateForm.scope === 'project'
+        ? { scope: 'project', projectId: rateForm.targetId }
+        : {
+            scope: rateForm.scope,
+            [rateForm.scope === 'user' ? 'userId' : 'positionId']: rateForm.targetId,
+            projectId: rateForm.projectId || null,
+          };
+
+    try {
+      await axios.post('/api/billing/rates', {
+        ...payload,
+        rate: Number(rateForm.rate),
+        effectiveFrom: rateForm.effectiveFrom,
+      });
+      setRateForm(EMPTY_RATE_FORM);
+      fetchRates();
+      fetchReport();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to add hourly rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditRate = async (rate: HourlyRate) => {
+    const value = prompt('Hourly rate', String(rate.rate));
+    if (value === null || value.trim() === '' || Number(value) === rate.rate) {
+      return;
+    }
+    if (Number.isNaN(Number(value))) {
+      alert('Please enter a number');
+      return;
+    }
+
+    try {
+      await axios.put(`/api/billing/rates/${rate.id}`, { rate: Number(value) });
+      fetchRates();
+      fetchReport();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update hourly rate');
+    }
+  };
+
+  const handleDeleteRate = async (rate: HourlyRate) => {
+    if (!confirm(`Delete the ${rate.scope} rate for ${describeRateTarget(rate)}?`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/billing/rates/${rate.id}`);
+      fetchRates();
+      fetchReport();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete hourly rate');
+    }
+  };
+
+  const rateTargets: { id: string; label: string }[] =
+    rateForm.scope === 'project'
+      ? projects.map((project) => ({ id: project.id, label: project.name }))
+      : rateForm.scope === 'position'
+        ? positions.map((position) => ({ id: position.id, label: position.name }))
+        : employees.map((employee) => ({
+            id: employee.id,
+            label: `${employee.firstName} ${employee.lastName}`,
+          }));
+
+  const snapshotChanges = selectedSnapshot?.changes;
+
+  return (
+    <div className="billing-page">
+      <div className="page-header">
+        <h1>Billing</h1>
+        <button
+          className="btn-primary"
+          onClick={() =>
+            report &&
+            downloadLinesCsv(
+              report.lines,
+              `billing-${sanitizeFilePart(report.projectName)}-${from}-${to}.csv`
+            )
+          }
+          disabled={!report || report.lines.length === 0}
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="billing-filters">
+        <div className="filter-group">
+          <label htmlFor="billingProject">Project</label>
+          <select
+            id="billingProject"
+            className="filter-select"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+          >
+            <option value="">Select a project</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label htmlFor="billingFrom">From</label>
+          <input
+            id="billingFrom"
+            type="date"
+            className="filter-select"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="filter-group">
+          <label htmlFor="billingTo">To</label>
+          <input
+            id="billingTo"
+            type="date"
+            className="filter-select"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+        <div className="filter-group">
+          <label className="filter-checkbox">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+            />
+            Approved time only
+          </label>
+        </div>
+      </div>
+
+      <div className="billing-section">
+        <h2>Project Billing</h2>
+        {!projectId ? (
+          <p className="no-data">Select a project to see its billable time</p>
+        ) : loadingReport ? (
+          <div className="loading">Loading...</div>
+        ) : (
+          report && (
+            <>
+              <div className="billing-totals">
+                <div className="billing-total">
+                  <span className="billing-total-label">Billable hours</span>
+                  <span className="billing-total-value">{report.totalHours.toFixed(2)}</span>
+                </div>
+                <div className="billing-total">
+                  <span className="billing-total-label">Amount</span>
+                  <span className="billing-total-value">{formatMoney(report.totalAmount)}</span>
+                </div>
+                <div className="billing-total">
+                  <span className="billing-total-label">Non-billable hours</span>
+                  <span className="billing-total-value">{report.nonBillableHours.toFixed(2)}</span>
+                </div>
+                <div className={`billing-total ${report.unratedHours > 0 ? 'warning' : ''}`}>
+                  <span className="billing-total-label">Hours without a rate</span>
+                  <span className="billing-total-value">{report.unratedHours.toFixed(2)}</span>
+                </div>
+              </div>
+
+              {report.snapshots.length > 0 && (
+                <p className="billing-notice">
+                  Already invoiced:{' '}
+                  {report.snapshots
+                    .map((snapshot) =>
+                      snapshot.reference
+                        ? `${formatPeriod(snapshot)} (${snapshot.reference})`
+                        : formatPeriod(snapshot)
+                    )
+                    .join(', ')}
+                </p>
+              )}
+
+              {report.byUser.length === 0 ? (
+                <p className="no-data">No billable work logs in this period</p>
+              ) : (
+                <table className="billing-table">
+                  <thead>
+                    <tr>
+                      <th>Employee</th>
+                      <th>Hours</th>
+                      <th>Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byUser.map((item) => (
+                      <tr key={item.userId}>
+                        <td>{item.userName}</td>
+                        <td>{item.hours.toFixed(2)}</td>
+                        <td>{formatMoney(item.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="billing-snapshot-form">
+                <input
+                  type="text"
+                  placeholder="Invoice number or note (optional)"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                />
+                <button
+                  className="btn-primary"
+                  onClick={handleCreateSnapshot}
+                  disabled={isSaving || report.lines.length === 0}
+                >
+                  Create Invoice Snapshot
+                </button>
+              </div>
+            </>
+          )
+        )}
+      </div>
+
+      <div className="billing-section">
+        <h2>Invoice Snapshots</h2>
+        {snapshots.length === 0 ? (
+          <p className="no-data">No invoice snapshots</p>
+        ) : (
+          <table className="billing-table">
+            <thead>
+              <tr>
+                <th>Project</th>
+                <th>Period</th>
+                <th>Reference</th>
+                <th>Hours</th>
+                <th>Amount</th>
+                <th>Created</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {snapshots.map((snapshot) => (
+                <tr key={snapshot.id}>
+                  <td>{snapshot.projectName}</td>
+                  <td>
+                    {formatPeriod(snapshot)}
+                    {snapshot.approvedOnly && (
+                      <span className="billing-muted"> · approved only</span>
+                    )}
+                  </td>
+                  <td>{snapshot.reference || '-'}</td>
+                  <td>{snapshot.totalHours.toFixed(2)}</td>
+                  <td>{formatMoney(snapshot.totalAmount)}</td>
+                  <td>
+                    {format(new Date(snapshot.createdAt), 'MMM dd, yyyy')}
+                    {snapshot.createdBy &&
+                      ` by ${snapshot.createdBy.firstName} ${snapshot.createdBy.lastName}`}
+                  </td>
+                  <td className="billing-row-actions">
+                    <button
+                      className="btn-secondary btn-sm"
+                      onClick={() => handleViewSnapshot(snapshot.id)}
+                    >
+                      View
+                    </button>
+                    <button
+                      className="btn-danger btn-sm"
+                      onClick={() => handleDeleteSnapshot(snapshot)}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="billing-section">
+        <h2>Hourly Rates</h2>
+        <form className="billing-rate-form" onSubmit={handleAddRate}>
+          <select
+            value={rateForm.scope}
+            onChange={(e) =>
+              setRateForm({ ...rateForm, scope: e.target.value as RateScope, targetId: '' })
+            }
+          >
+            <option value="project">Project</option>
+            <option value="position">Position</option>
+            <option value="user">Employee</option>
+          </select>
+          <select
+            value={rateForm.targetId}
+            onChange={(e) => setRateForm({ ...rateForm, targetId: e.target.value })}
+            required
+          >
+            <option value="">Select...</option>
+            {rateTargets.map((target) => (
+              <option key={target.id} value={target.id}>
+                {target.label}
+              </option>
+            ))}
+          </select>
+          {rateForm.scope !== 'project' && (
+            <select
+              value={rateForm.projectId}
+              onChange={(e) => setRateForm({ ...rateForm, projectId: e.target.value })}
+            >
+              <option value="">On every project</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  On {project.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Rate per hour"
+            value={rateForm.rate}
+            onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+            required
+          />
+          <input
+            type="date"
+            value={rateForm.effectiveFrom}
+            onChange={(e) => setRateForm({ ...rateForm, effectiveFrom: e.target.value })}
+            required
+          />
+          <button type="submit" className="btn-primary" disabled={isSaving}>
+            Add Rate
+          </button>
+        </form>
+        <p className="billing-hint">
+          A work log is billed at the most specific rate in force on its day: the employee's, then
+          their position's, then the project's. A rate for the log's project beats one for every
+          project.
+        </p>
+        {rates.length === 0 ? (
+          <p className="no-data">No hourly rates</p>
+        ) : (
+          <table className="billing-table">
+            <thead>
+              <tr>
+                <th>Applies to</th>
+                <th>Project</th>
+                <th>Rate</th>
+                <th>Effective from</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((rate) => (
+                <tr key={rate.id}>
+                  <td>
+                    <span className={`billing-scope-badge ${rate.scope}`}>{rate.scope}</span>{' '}
+                    {describeRateTarget(rate)}
+                  </td>
+                  <td>{rate.scope === 'project' ? '-' : rate.project?.name || 'Every project'}</td>
+                  <td>{formatMoney(rate.rate)}</td>
+                  <td>{formatBillingDate(rate.effectiveFrom)}</td>
+                  <td className="billing-row-actions">
+                    <button className="btn-secondary btn-sm" onClick={() => handleEditRate(rate)}>
+                      Edit
+                    </button>
+                    <button className="btn-danger btn-sm" onClick={() => handleDeleteRate(rate)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selectedSnapshot && (
+        <div className="modal-overlay" onClick={() => setSelectedSnapshot(null)}>
+          <div
+            className="modal-content billing-snapshot-modal"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2>
+              {selectedSnapshot.projectName}: {formatPeriod(selectedSnapshot)}
+            </h2>
+            {selectedSnapshot.reference && (
+              <p className="billing-muted">Reference: {selectedSnapshot.reference}</p>
+            )}
+            {snapshotChanges &&
+              (snapshotChanges.added > 0 ||
+                snapshotChanges.removed > 0 ||
+                snapshotChanges.modified > 0) && (
+                <p className="billing-notice warning">
+                  Work logs changed since this snapshot: {snapshotChanges.added} added,{' '}
+                  {snapshotChanges.removed} removed, {snapshotChanges.modified} modified. The
+                  period now totals {snapshotChanges.totalHours.toFixed(2)} hours and{' '}
+                  {formatMoney(snapshotChanges.totalAmount)}. The snapshot below is unchanged.
+                </p>
+              )}
+            <div className="billing-snapshot-lines">
+              <table className="billing-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Employee</th>
+                    <th>Task</th>
+                    <th>Hours</th>
+                    <th>Rate</th>
+                    <th>Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedSnapshot.lines.map((line) => (
+                    <tr key={line.workLogId}>
+                      <td>{formatBillingDate(line.date)}</td>
+                      <td>{line.userName}</td>
+                      <td>{line.taskName || '-'}</td>
+                      <td>{line.hours.toFixed(2)}</td>
+                      <td>{line.rate !== null ? formatMoney(line.rate) : '-'}</td>
+                      <td>{formatMoney(line.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr>
+                    <td colSpan={3}>Total</td>
+                    <td>{selectedSnapshot.totalHours.toFixed(2)}</td>
+                    <td></td>
+                    <td>{formatMoney(selectedSnapshot.totalAmount)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+            <div className="modal-actions">
+              <button
+                className="btn-secondary"
+                onClick={() => handleExportSnapshot(selectedSnapshot)}
+              >
+                Export CSV
+              </button>
+              <button className="btn-secondary" onClick={() => setSelectedSnapshot(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
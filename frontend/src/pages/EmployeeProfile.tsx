@@ -2,7 +2,9 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import { format } from 'date-fns';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, hasPermission } from '../contexts/AuthContext';
+import { TwoFactorSettings } from '../components/TwoFactorSettings';
+import { ApiTokensSettings } from '../components/ApiTokensSettings';
 import './EmployeeProfile.css';
 
 interface Employee {
@@ -114,7 +116,8 @@ export default function EmployeeProfile() {
     }
   };
 
-  const canEdit = Boolean(user?.isAdmin || (user?.id && user.id === id));
+  const canManageUsers = hasPermission(user, 'users.manage');
+  const canEdit = Boolean(canManageUsers || (user?.id && user.id === id));
   const isSelf = Boolean(user?.id && user.id === id);
 
   const handleInputChange = (field: keyof typeof formData, value: string) => {
@@ -126,7 +129,7 @@ export default function EmployeeProfile() {
     setIsSaving(true);
     try {
       const basePayload = { ...formData };
-      const payload = user?.isAdmin
+      const payload = canManageUsers
         ? basePayload
         : (({ hireDate, ...rest }) => rest)(basePayload);
       const response = await axios.put(`/api/employees/${id}`, payload);
@@ -348,7 +351,7 @@ export default function EmployeeProfile() {
             </div>
             <div className="info-item">
               <label>Hire Date</label>
-              {isEditing && user?.isAdmin ? (
+              {isEditing && canManageUsers ? (
                 <input
                   type="date"
                   value={formData.hireDate}
@@ -568,6 +571,10 @@ export default function EmployeeProfile() {
           </div>
         )}
 
+        {isSelf && <TwoFactorSettings />}
+
+        {isSelf && <ApiTokensSettings />}
+
         <div className="profile-section">
           <div className="profile-section-header">
             <h2>Projects</h2>
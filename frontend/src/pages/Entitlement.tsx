@@ -1,24 +1,33 @@
 import { useState, useEffect } from 'react';
 import axios from 'axios';
 import { format } from 'date-fns';
+import { AbsencePortion, getCoverageWarningText, getPortionLabel } from '../utils/absenceUtils';
+import { ApprovalStep, ApprovalTrail } from '../components/ApprovalTrail';
+import { AbsenceForm, AbsenceFormData } from './AbsenceForm';
 import './Entitlement.css';
 
 interface VacationEntitlement {
   type: 'vacation';
+  policyName: string;
+  annualAllowance: number;
   currentlyAllowed: number;
   futureAccrue: number;
   pendingForApproval: number;
   approved: number;
+  adjusted: number;
   nextAccrueDate: string | null;
   nextAccrueAmount: number;
 }
 
 interface SickLeaveEntitlement {
   type: 'sick_leave';
+  policyName: string;
+  annualAllowance: number;
   currentlyAllowed: number;
   futureAccrue: number;
   pendingForApproval: number;
   approved: number;
+  adjusted: number;
   remainingWithCertificate: number;
   remainingWithoutCertificate: number;
 }
@@ -40,12 +49,47 @@ interface Absence {
   type: 'sick_leave' | 'day_off' | 'vacation' | 'work_from_home';
   from: string;
   to: string;
-  status: 'pending' | 'approved' | 'rejected';
+  portion?: AbsencePortion;
+  hours?: number | null;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  approvals?: ApprovalStep[];
+  changeRequests?: AbsenceChangeRequest[];
 }
 
+interface AbsenceChangeRequest {
+  id: string;
+  kind: 'cancel' | 'modify';
+  from: string | null;
+  to: string | null;
+  portion: AbsencePortion | null;
+  hours: number | null;
+}
+
+interface LeaveAdjustment {
+  id: string;
+  leaveType: 'vacation' | 'sick_leave';
+  amount: number;
+  effectiveDate: string;
+  description: string;
+  createdBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+type HistoryItem =
+  | { kind: 'absence'; date: string; absence: Absence }
+  | { kind: 'adjustment'; date: string; adjustment: LeaveAdjustment };
+
+// Adjustment dates are stored as UTC midnight; format them without shifting to local time
+const formatAdjustmentDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
 export default function Entitlement() {
   const [entitlements, setEntitlements] = useState<EntitlementDetails[]>([]);
   const [history, setHistory] = useState<Absence[]>([]);
+  const [adjustments, setAdjustments] = useState<LeaveAdjustment[]>([]);
+  const [editingAbsence, setEditingAbsence] = useState<Absence | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -57,6 +101,7 @@ export default function Entitlement() {
       const response = await axios.get('/api/entitlements/me');
       setEntitlements(response.data.entitlements);
       setHistory(response.data.history);
+      setAdjustments(response.data.adjustments || []);
     } catch (error) {
       console.error('Error fetching entitlements:', error);
     } finally {
@@ -64,6 +109,54 @@ export default function Entitlement() {
     }
   };
 
+  const handleUpdateAbsence = async (data: AbsenceFormData) => {
+    if (!editingAbsence || !data.dateRange?.from || !data.dateRange?.to) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await axios.put(`/api/absences/${editingAbsence.id}`, {
+        from: data.dateRange.from,
+        to: data.dateRange.to,
+        portion: data.portion,
+        hours: data.portion === 'hours' ? data.hours : undefined,
+      });
+      const coverageWarning = getCoverageWarningText(response.data.coverageWarnings);
+      if (coverageWarning) {
+        alert(coverageWarning);
+      }
+      if (editingAbsence.status === 'approved') {
+        alert('Your change was sent for approval. The approved dates stay in place until then.');
+      }
+      setEditingAbsence(null);
+      fetchEntitlements();
+    } catch (error: any) {
+      console.error('Error updating absence:', error);
+      alert(error.response?.data?.error || 'Failed to update absence');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelAbsence = async (absence: Absence) => {
+    const message =
+      absence.status === 'approved'
+        ? 'Request cancellation of this approved absence? It stays in place until the cancellation is approved.'
+        : 'Cancel this request?';
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      await axios.patch(`/api/absences/${absence.id}/cancel`);
+      fetchEntitlements();
+    } catch (error: any) {
+      console.error('Error cancelling absence:', error);
+      alert(error.response?.data?.error || 'Failed to cancel absence');
+    }
+  };
+
   const getTypeLabel = (type: string) => {
     switch (type) {
       case 'vacation':
@@ -102,6 +195,8 @@ export default function Entitlement() {
         return '#e74c3c';
       case 'pending':
         return '#f39c12';
+      case 'cancelled':
+        return '#7f8c8d';
       default:
         return '#95a5a6';
     }
@@ -123,9 +218,9 @@ export default function Entitlement() {
       );
     }
 
-    const isVacation = entitlement.type === 'vacation';
-    const maxDays = isVacation ? 18 : 10; // Max days per year
-    const percentage = Math.min(100, (entitlement.currentlyAllowed / maxDays) * 100);
+    const maxDays = entitlement.annualAllowance; // Days per year under the employee's leave policy
+    const percentage =
+      maxDays > 0 ? Math.min(100, (entitlement.currentlyAllowed / maxDays) * 100) : 0;
 
     return (
       <div className="progress-bar-container">
@@ -215,6 +310,18 @@ export default function Entitlement() {
                     : '0 Days'}
                 </span>
               </div>
+              {entitlement.adjusted !== 0 && (
+                <div className="detail-item">
+                  <span className="detail-label">Adjustments:</span>
+                  <span className="detail-value">
+                    {`${entitlement.adjusted > 0 ? '+' : ''}${entitlement.adjusted.toFixed(2)} Days`}
+                  </span>
+                </div>
+              )}
+              <div className="detail-item">
+                <span className="detail-label">Policy:</span>
+                <span className="detail-value">{entitlement.policyName}</span>
+              </div>
             </>
           )}
         </div>
@@ -222,6 +329,16 @@ export default function Entitlement() {
     );
   };
 
+  // Requests and manual adjustments in one list, newest first
+  const historyItems: HistoryItem[] = [
+    ...history.map((absence) => ({ kind: 'absence' as const, date: absence.from, absence })),
+    ...adjustments.map((adjustment) => ({
+      kind: 'adjustment' as const,
+      date: adjustment.effectiveDate,
+      adjustment,
+    })),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
   if (loading) {
     return <div className="loading">Loading...</div>;
   }
@@ -239,28 +356,115 @@ export default function Entitlement() {
 
       <div className="history-section">
         <h2>Requests History</h2>
-        {history.length === 0 ? (
+        {historyItems.length === 0 ? (
           <p className="no-history">No history available</p>
         ) : (
           <div className="history-list">
-            {history.map((absence) => (
-              <div key={absence.id} className="history-item">
-                <div className="history-type">{getTypeLabel(absence.type)}</div>
-                <div className="history-dates">
-                  {format(new Date(absence.from), 'MMM dd, yyyy')} -{' '}
-                  {format(new Date(absence.to), 'MMM dd, yyyy')}
+            {historyItems.map((item) =>
+              item.kind === 'adjustment' ? (
+                <div key={item.adjustment.id} className="history-item history-adjustment">
+                  <div className="history-type">{getTypeLabel(item.adjustment.leaveType)}</div>
+                  <div className="history-dates">
+                    {formatAdjustmentDate(item.adjustment.effectiveDate)}
+                    <span className="history-adjustment-amount">
+                      {`${item.adjustment.amount > 0 ? '+' : ''}${item.adjustment.amount} Days`}
+                    </span>
+                    <span className="history-adjustment-reason">
+                      {item.adjustment.description}
+                      {item.adjustment.createdBy &&
+                        ` · by ${item.adjustment.createdBy.firstName} ${item.adjustment.createdBy.lastName}`}
+                    </span>
+                  </div>
+                  <div className="history-status history-status-adjustment">Adjustment</div>
                 </div>
-                <div
-                  className="history-status"
-                  style={{ color: getStatusColor(absence.status) }}
-                >
-                  {absence.status.toUpperCase()}
+              ) : (
+                <div key={item.absence.id} className="history-item">
+                  <div className="history-type">{getTypeLabel(item.absence.type)}</div>
+                  <div className="history-dates">
+                    {format(new Date(item.absence.from), 'MMM dd, yyyy')} -{' '}
+                    {format(new Date(item.absence.to), 'MMM dd, yyyy')}
+                    {getPortionLabel(item.absence.portion, item.absence.hours) && (
+                      <span className="history-portion">
+                        {getPortionLabel(item.absence.portion, item.absence.hours)}
+                      </span>
+                    )}
+                    {item.absence.changeRequests?.map((change) => (
+                      <span key={change.id} className="history-change-request">
+                        {change.kind === 'cancel'
+                          ? 'Cancellation waiting for approval'
+                          : `Change to ${format(new Date(change.from!), 'MMM dd, yyyy')} - ${format(
+                              new Date(change.to!),
+                              'MMM dd, yyyy'
+                            )}${
+                              getPortionLabel(change.portion, change.hours)
+                                ? ` (${getPortionLabel(change.portion, change.hours)})`
+                                : ''
+                            } waiting for approval`}
+                      </span>
+                    ))}
+                    <ApprovalTrail approvals={item.absence.approvals || []} />
+                  </div>
+                  <div className="history-side">
+                    <div
+                      className="history-status"
+                      style={{ color: getStatusColor(item.absence.status) }}
+                    >
+                      {item.absence.status.toUpperCase()}
+                    </div>
+                    {(item.absence.status === 'pending' || item.absence.status === 'approved') &&
+                      !item.absence.changeRequests?.length && (
+                        <div className="history-actions">
+                          <button
+                            className="btn-secondary btn-sm"
+                            onClick={() => setEditingAbsence(item.absence)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            className="btn-danger btn-sm"
+                            onClick={() => handleCancelAbsence(item.absence)}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              )
+            )}
           </div>
         )}
       </div>
+
+      {editingAbsence && (
+        <div className="modal-overlay">
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <h2>Edit Absence</h2>
+            {editingAbsence.status === 'approved' && (
+              <p className="entitlement-edit-hint">
+                This absence is already approved. The new dates need to be approved again.
+              </p>
+            )}
+            <AbsenceForm
+              onSubmit={handleUpdateAbsence}
+              onCancel={() => setEditingAbsence(null)}
+              initialValues={{
+                type: editingAbsence.type as AbsenceFormData['type'],
+                dateRange: {
+                  from: new Date(editingAbsence.from).toISOString(),
+                  to: new Date(editingAbsence.to).toISOString(),
+                },
+                portion: editingAbsence.portion,
+                hours: editingAbsence.hours,
+              }}
+              loading={isSaving}
+              disableType
+              submitLabel="Save"
+              submittingLabel="Saving..."
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import Logo from '../components/Logo';
+import './Login.css';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setLoading(true);
+
+    try {
+      const response = await axios.post('/api/auth/forgot-password', { email });
+      setMessage(response.data.message);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to request password reset');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <div className="login-card">
+        <Logo size="large" showText={true} />
+        <h2>Forgot Password</h2>
+        <form onSubmit={handleSubmit}>
+          {error && <div className="error-message">{error}</div>}
+          {message && <div className="success-message">{message}</div>}
+          <p className="login-hint">
+            Enter the email of your account and we will send you a link to choose a new password.
+          </p>
+          <div className="form-group">
+            <label htmlFor="email">Email</label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoComplete="email"
+            />
+          </div>
+          <button type="submit" disabled={loading} className="login-button">
+            {loading ? 'Sending...' : 'Send Reset Link'}
+          </button>
+        </form>
+        <div className="login-links">
+          <Link to="/login">Back to login</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import './HolidayCalendars.css';
+
+interface HolidayCalendar {
+  id: string;
+  name: string;
+  country: string | null;
+  holidayCount: number;
+}
+
+interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+// Holidays are stored as UTC midnight; format them without shifting to local time
+const formatHolidayDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'EEE, MMM dd, yyyy');
+};
+
+export default function HolidayCalendars() {
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(null);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [showModal, setShowModal] = useState(false);
+  const [editingCalendar, setEditingCalendar] = useState<HolidayCalendar | null>(null);
+  const [formData, setFormData] = useState({ name: '', country: '' });
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCalendars();
+  }, []);
+
+  useEffect(() => {
+    if (selectedCalendarId) {
+      fetchHolidays(selectedCalendarId);
+    } else {
+      setHolidays([]);
+    }
+  }, [selectedCalendarId, year]);
+
+  const selectedCalendar = calendars.find((calendar) => calendar.id === selectedCalendarId) || null;
+
+  const fetchCalendars = async () => {
+    try {
+      const response = await axios.get('/api/holiday-calendars');
+      setCalendars(response.data);
+      if (!selectedCalendarId && response.data.length > 0) {
+        setSelectedCalendarId(response.data[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching holiday calendars:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHolidays = async (calendarId: string) => {
+    try {
+      const response = await axios.get(`/api/holiday-calendars/${calendarId}`, {
+        params: { year },
+      });
+      setHolidays(response.data.holidays);
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+    }
+  };
+
+  const refresh = async () => {
+    await fetchCalendars();
+    if (selectedCalendarId) {
+      await fetchHolidays(selectedCalendarId);
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingCalendar(null);
+    setFormData({ name: '', country: '' });
+    setShowModal(true);
+  };
+
+  const handleEdit = (calendar: HolidayCalendar) => {
+    setEditingCalendar(calendar);
+    setFormData({ name: calendar.name, country: calendar.country || '' });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      if (editingCalendar) {
+        await axios.put(`/api/holiday-calendars/${editingCalendar.id}`, formData);
+      } else {
+        const response = await axios.post('/api/holiday-calendars', formData);
+        setSelectedCalendarId(response.data.id);
+      }
+      setShowModal(false);
+      fetchCalendars();
+    } catch (error: any) {
+      console.error('Error saving holiday calendar:', error);
+      alert(error.response?.data?.error || 'Failed to save holiday calendar');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this calendar and all of its holidays?')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/holiday-calendars/${id}`);
+      if (selectedCalendarId === id) {
+        setSelectedCalendarId(null);
+      }
+      fetchCalendars();
+    } catch (error: any) {
+      console.error('Error deleting holiday calendar:', error);
+      alert(error.response?.data?.error || 'Failed to delete holiday calendar');
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCalendarId) return;
+
+    try {
+      await axios.post(`/api/holiday-calendars/${selectedCalendarId}/holidays`, newHoliday);
+      setNewHoliday({ date: '', name: '' });
+      refresh();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to add holiday');
+    }
+  };
+
+  const handleDeleteHoliday = async (holidayId: string) => {
+    if (!selectedCalendarId) return;
+
+    try {
+      await axios.delete(`/api/holiday-calendars/${selectedCalendarId}/holidays/${holidayId}`);
+      refresh();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete holiday');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!selectedCalendarId || !importFile) return;
+
+    const formDataToSend = new FormData();
+    formDataToSend.append('file', importFile);
+    formDataToSend.append('replaceExisting', String(replaceExisting));
+
+    try {
+      const response = await axios.post(
+        `/api/holiday-calendars/${selectedCalendarId}/import`,
+        formDataToSend,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+      );
+      alert(
+        `Imported ${response.data.imported} holidays` +
+          (response.data.skipped > 0 ? ` (${response.data.skipped} already existed)` : '')
+      );
+      setImportFile(null);
+      setReplaceExisting(false);
+      refresh();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to import holidays');
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="holidays-page">
+      <div className="page-header">
+        <h1>Holiday Calendars</h1>
+        <button className="btn-primary" onClick={handleCreate}>
+          Create Calendar
+        </button>
+      </div>
+
+      <div className="info-box">
+        <p>
+          Employees get the calendar whose country matches their profile country. Holidays are
+          excluded from vacation and sick leave balances and from report hours.
+        </p>
+      </div>
+
+      <div className="holidays-layout">
+        <div className="holiday-calendars-list">
+          {calendars.length === 0 ? (
+            <p className="no-data">No holiday calendars yet</p>
+          ) : (
+            calendars.map((calendar) => (
+              <div
+                key={calendar.id}
+                className={`holiday-calendar-item${calendar.id === selectedCalendarId ? ' selected' : ''}`}
+                onClick={() => setSelectedCalendarId(calendar.id)}
+              >
+                <div className="holiday-calendar-info">
+                  <span className="holiday-calendar-name">{calendar.name}</span>
+                  <span className="holiday-calendar-meta">
+                    {calendar.country || 'No country'} · {calendar.holidayCount} holidays
+                  </span>
+                </div>
+                <div className="tech-actions">
+                  <button
+                    className="btn-secondary btn-sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleEdit(calendar);
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    className="btn-danger btn-sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(calendar.id);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {selectedCalendar && (
+          <div className="holiday-details">
+            <div className="holiday-details-header">
+              <h2>{selectedCalendar.name}</h2>
+              <div className="holiday-year-nav">
+                <button className="btn-secondary btn-sm" onClick={() => setYear(year - 1)}>
+                  ←
+                </button>
+                <span>{year}</span>
+                <button className="btn-secondary btn-sm" onClick={() => setYear(year + 1)}>
+                  →
+                </button>
+              </div>
+            </div>
+
+            <form className="holiday-add-form" onSubmit={handleAddHoliday}>
+              <input
+                type="date"
+                value={newHoliday.date}
+                onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                required
+              />
+              <input
+                type="text"
+                placeholder="Holiday name"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                required
+              />
+              <button type="submit" className="btn-primary">
+                Add
+              </button>
+            </form>
+
+            <div className="holiday-import">
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+              />
+              <label className="holiday-import-replace">
+                <input
+                  type="checkbox"
+                  checked={replaceExisting}
+                  onChange={(e) => setReplaceExisting(e.target.checked)}
+                />
+                Replace existing holidays
+              </label>
+              <button className="btn-secondary" onClick={handleImport} disabled={!importFile}>
+                Import .ics
+              </button>
+            </div>
+
+            {holidays.length === 0 ? (
+              <p className="no-data">No holidays in {year}</p>
+            ) : (
+              <div className="holiday-list">
+                {holidays.map((holiday) => (
+                  <div key={holiday.id} className="holiday-item">
+                    <span className="holiday-date">{formatHolidayDate(holiday.date)}</span>
+                    <span className="holiday-name">{holiday.name}</span>
+                    <button
+                      className="btn-danger btn-sm"
+                      onClick={() => handleDeleteHoliday(holiday.id)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="modal-overlay">
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <h2>{editingCalendar ? 'Edit Calendar' : 'Create Calendar'}</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label htmlFor="calendar-name">Calendar Name *</label>
+                <input
+                  type="text"
+                  id="calendar-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="calendar-country">Country</label>
+                <input
+                  type="text"
+                  id="calendar-country"
+                  value={formData.country}
+                  onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                  placeholder="e.g., Ukraine"
+                />
+              </div>
+
+              <div className="form-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setShowModal(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingCalendar ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { startOfMonth, endOfMonth } from 'date-fns';
 import { AbsenceForm, AbsenceFormData } from './AbsenceForm';
 import { MonthlyCalendar } from '../components/MonthlyCalendar';
 import { CalendarLegend } from '../components/CalendarLegend';
+import { AbsencePortion, getCoverageWarningText } from '../utils/absenceUtils';
 import './Home.css';
 
 interface Absence {
@@ -11,6 +12,8 @@ interface Absence {
   type: 'sick_leave' | 'day_off' | 'vacation';
   from: string;
   to: string;
+  portion?: AbsencePortion;
+  hours?: number | null;
   status: 'pending' | 'approved' | 'rejected';
   files?: { id: string; originalName: string }[];
   user: {
@@ -106,6 +109,7 @@ export default function Home() {
     }
 
     setIsCreating(true);
+    let coverageWarning: string | null = null;
     try {
       if (selectedAbsence) {
         if (selectedAbsence.type !== 'sick_leave') {
@@ -133,6 +137,10 @@ export default function Home() {
         formData.append('type', data.type);
         formData.append('from', data.dateRange.from);
         formData.append('to', data.dateRange.to);
+        formData.append('portion', data.portion);
+        if (data.portion === 'hours' && data.hours) {
+          formData.append('hours', String(data.hours));
+        }
 
         if (data.files && data.files.length > 0) {
           data.files.forEach((file) => {
@@ -140,19 +148,26 @@ export default function Home() {
           });
         }
 
-        await axios.post('/api/absences', formData, {
+        const response = await axios.post('/api/absences', formData, {
           headers: {
             'Content-Type': 'multipart/form-data',
           },
         });
+        coverageWarning = getCoverageWarningText(response.data.coverageWarnings);
       } else {
         const payload = {
           type: data.type,
           from: data.dateRange.from,
           to: data.dateRange.to,
+          portion: data.portion,
+          hours: data.portion === 'hours' ? data.hours : undefined,
         };
 
-        await axios.post('/api/absences', payload);
+        const response = await axios.post('/api/absences', payload);
+        coverageWarning = getCoverageWarningText(response.data.coverageWarnings);
+      }
+      if (coverageWarning) {
+        alert(coverageWarning);
       }
       setShowModal(false);
       setInitialAbsenceValues(undefined);
@@ -218,6 +233,8 @@ export default function Home() {
         from: new Date(absence.from).toISOString(),
         to: new Date(absence.to).toISOString(),
       },
+      portion: absence.portion,
+      hours: absence.hours,
       existingFiles: absence.files?.map((file) => ({
         id: file.id,
         originalName: file.originalName,
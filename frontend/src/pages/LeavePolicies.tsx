@@ -0,0 +1,497 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import './LeavePolicies.css';
+
+type AssignmentScope = 'country' | 'position' | 'user';
+
+interface LeavePolicyAssignment {
+  id: string;
+  scope: AssignmentScope;
+  country: string | null;
+  position: { id: string; name: string } | null;
+  user: { id: string; firstName: string; lastName: string; email: string } | null;
+}
+
+interface LeavePolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  vacationDaysPerMonth: number;
+  vacationAnnualCap: number;
+  vacationCarryoverLimit: number;
+  sickLeaveDaysPerYear: number;
+  sickLeaveWithoutCertificateLimit: number;
+  sickLeaveWithCertificateLimit: number;
+  sickLeaveCertificateAfterDays: number;
+  trialPeriodMonths: number;
+  assignments: LeavePolicyAssignment[];
+}
+
+interface Position {
+  id: string;
+  name: string;
+}
+
+interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+type PolicyValueField =
+  | 'vacationDaysPerMonth'
+  | 'vacationAnnualCap'
+  | 'vacationCarryoverLimit'
+  | 'sickLeaveDaysPerYear'
+  | 'sickLeaveWithoutCertificateLimit'
+  | 'sickLeaveWithCertificateLimit'
+  | 'sickLeaveCertificateAfterDays'
+  | 'trialPeriodMonths';
+
+const POLICY_FIELDS: Array<{ field: PolicyValueField; label: string; step: string }> = [
+  { field: 'vacationDaysPerMonth', label: 'Vacation Days per Month', step: '0.1' },
+  { field: 'vacationAnnualCap', label: 'Vacation Annual Cap', step: '0.5' },
+  { field: 'vacationCarryoverLimit', label: 'Vacation Carryover Limit', step: '1' },
+  { field: 'sickLeaveDaysPerYear', label: 'Sick Leave Days per Year', step: '0.5' },
+  {
+    field: 'sickLeaveWithoutCertificateLimit',
+    label: 'Sick Leave without Certificate (days/year)',
+    step: '1',
+  },
+  {
+    field: 'sickLeaveWithCertificateLimit',
+    label: 'Sick Leave with Certificate (days/year)',
+    step: '1',
+  },
+  {
+    field: 'sickLeaveCertificateAfterDays',
+    label: 'Certificate Required After (days)',
+    step: '1',
+  },
+  { field: 'trialPeriodMonths', label: 'Trial Period (months)', step: '1' },
+];
+
+const EMPTY_FORM: Record<PolicyValueField, string> & { name: string; description: string } = {
+  name: '',
+  description: '',
+  vacationDaysPerMonth: '1.5',
+  vacationAnnualCap: '18',
+  vacationCarryoverLimit: '0',
+  sickLeaveDaysPerYear: '10',
+  sickLeaveWithoutCertificateLimit: '5',
+  sickLeaveWithCertificateLimit: '5',
+  sickLeaveCertificateAfterDays: '1',
+  trialPeriodMonths: '3',
+};
+
+const getAssignmentLabel = (assignment: LeavePolicyAssignment) => {
+  switch (assignment.scope) {
+    case 'country':
+      return assignment.country;
+    case 'position':
+      return assignment.position?.name;
+    case 'user':
+      return assignment.user
+        ? `${assignment.user.firstName} ${assignment.user.lastName}`
+        : 'Unknown user';
+    default:
+      return '';
+  }
+};
+
+const getScopeLabel = (scope: AssignmentScope) => {
+  switch (scope) {
+    case 'country':
+      return 'Country';
+    case 'position':
+      return 'Position';
+    case 'user':
+      return 'Employee';
+    default:
+      return scope;
+  }
+};
+
+export default function LeavePolicies() {
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [selectedPolicyId, setSelectedPolicyId] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LeavePolicy | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [newAssignment, setNewAssignment] = useState<{ scope: AssignmentScope; value: string }>({
+    scope: 'country',
+    value: '',
+  });
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPolicies();
+    fetchPositions();
+    fetchUsers();
+  }, []);
+
+  const selectedPolicy = policies.find((policy) => policy.id === selectedPolicyId) || null;
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await axios.get('/api/leave-policies');
+      setPolicies(response.data);
+      if (!selectedPolicyId && response.data.length > 0) {
+        setSelectedPolicyId(response.data[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching leave policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPositions = async () => {
+    try {
+      const response = await axios.get('/api/positions');
+      setPositions(response.data);
+    } catch (error) {
+      console.error('Error fetching positions:', error);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const response = await axios.get('/api/employees');
+      setUsers(response.data);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingPolicy(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (policy: LeavePolicy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      name: policy.name,
+      description: policy.description || '',
+      vacationDaysPerMonth: String(policy.vacationDaysPerMonth),
+      vacationAnnualCap: String(policy.vacationAnnualCap),
+      vacationCarryoverLimit: String(policy.vacationCarryoverLimit),
+      sickLeaveDaysPerYear: String(policy.sickLeaveDaysPerYear),
+      sickLeaveWithoutCertificateLimit: String(policy.sickLeaveWithoutCertificateLimit),
+      sickLeaveWithCertificateLimit: String(policy.sickLeaveWithCertificateLimit),
+      sickLeaveCertificateAfterDays: String(policy.sickLeaveCertificateAfterDays),
+      trialPeriodMonths: String(policy.trialPeriodMonths),
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const payload = {
+      name: formData.name,
+      description: formData.description,
+      ...Object.fromEntries(POLICY_FIELDS.map(({ field }) => [field, Number(formData[field])])),
+    };
+
+    try {
+      if (editingPolicy) {
+        await axios.put(`/api/leave-policies/${editingPolicy.id}`, payload);
+      } else {
+        const response = await axios.post('/api/leave-policies', payload);
+        setSelectedPolicyId(response.data.id);
+      }
+      setShowModal(false);
+      fetchPolicies();
+    } catch (error: any) {
+      console.error('Error saving leave policy:', error);
+      alert(error.response?.data?.error || 'Failed to save leave policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (
+      !confirm(
+        'Are you sure you want to delete this policy? Assigned employees will fall back to another matching policy or the default.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/leave-policies/${id}`);
+      if (selectedPolicyId === id) {
+        setSelectedPolicyId(null);
+      }
+      fetchPolicies();
+    } catch (error: any) {
+      console.error('Error deleting leave policy:', error);
+      alert(error.response?.data?.error || 'Failed to delete leave policy');
+    }
+  };
+
+  const handleAddAssignment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPolicyId) return;
+
+    const { scope, value } = newAssignment;
+    const payload =
+      scope === 'country'
+        ? { scope, country: value }
+        : scope === 'position'
+          ? { scope, positionId: value }
+          : { scope, userId: value };
+
+    try {
+      await axios.post(`/api/leave-policies/${selectedPolicyId}/assignments`, payload);
+      setNewAssignment({ scope, value: '' });
+      fetchPolicies();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to assign policy');
+    }
+  };
+
+  const handleDeleteAssignment = async (assignmentId: string) => {
+    if (!selectedPolicyId) return;
+
+    try {
+      await axios.delete(`/api/leave-policies/${selectedPolicyId}/assignments/${assignmentId}`);
+      fetchPolicies();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to remove assignment');
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="leave-policies-page">
+      <div className="page-header">
+        <h1>Leave Policies</h1>
+        <button className="btn-primary" onClick={handleCreate}>
+          Create Policy
+        </button>
+      </div>
+
+      <div className="info-box">
+        <p>
+          Each employee gets the policy assigned to them directly, otherwise the one assigned to
+          their position, otherwise the one assigned to their country. Employees without a
+          matching policy use the defaults from Settings.
+        </p>
+      </div>
+
+      <div className="leave-policies-layout">
+        <div className="leave-policies-list">
+          {policies.length === 0 ? (
+            <p className="no-data">No leave policies yet</p>
+          ) : (
+            policies.map((policy) => (
+              <div
+                key={policy.id}
+                className={`leave-policy-item${policy.id === selectedPolicyId ? ' selected' : ''}`}
+                onClick={() => setSelectedPolicyId(policy.id)}
+              >
+                <div className="leave-policy-info">
+                  <span className="leave-policy-name">{policy.name}</span>
+                  <span className="leave-policy-meta">
+                    {policy.vacationAnnualCap} vacation · {policy.sickLeaveDaysPerYear} sick ·{' '}
+                    {policy.assignments.length} assignments
+                  </span>
+                </div>
+                <div className="tech-actions">
+                  <button
+                    className="btn-secondary btn-sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleEdit(policy);
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    className="btn-danger btn-sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(policy.id);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {selectedPolicy && (
+          <div className="leave-policy-details">
+            <div className="leave-policy-details-header">
+              <h2>{selectedPolicy.name}</h2>
+            </div>
+            {selectedPolicy.description && (
+              <p className="leave-policy-description">{selectedPolicy.description}</p>
+            )}
+
+            <div className="leave-policy-values">
+              {POLICY_FIELDS.map(({ field, label }) => (
+                <div key={field} className="leave-policy-value">
+                  <span className="leave-policy-value-label">{label}</span>
+                  <span className="leave-policy-value-number">{selectedPolicy[field]}</span>
+                </div>
+              ))}
+            </div>
+
+            <h3>Assignments</h3>
+            <form className="leave-policy-assign-form" onSubmit={handleAddAssignment}>
+              <select
+                value={newAssignment.scope}
+                onChange={(e) =>
+                  setNewAssignment({ scope: e.target.value as AssignmentScope, value: '' })
+                }
+              >
+                <option value="country">Country</option>
+                <option value="position">Position</option>
+                <option value="user">Employee</option>
+              </select>
+              {newAssignment.scope === 'country' && (
+                <input
+                  type="text"
+                  placeholder="e.g., Ukraine"
+                  value={newAssignment.value}
+                  onChange={(e) => setNewAssignment({ ...newAssignment, value: e.target.value })}
+                  required
+                />
+              )}
+              {newAssignment.scope === 'position' && (
+                <select
+                  value={newAssignment.value}
+                  onChange={(e) => setNewAssignment({ ...newAssignment, value: e.target.value })}
+                  required
+                >
+                  <option value="">Select position</option>
+                  {positions.map((position) => (
+                    <option key={position.id} value={position.id}>
+                      {position.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {newAssignment.scope === 'user' && (
+                <select
+                  value={newAssignment.value}
+                  onChange={(e) => setNewAssignment({ ...newAssignment, value: e.target.value })}
+                  required
+                >
+                  <option value="">Select employee</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.firstName} {user.lastName} ({user.email})
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button type="submit" className="btn-primary">
+                Assign
+              </button>
+            </form>
+
+            {selectedPolicy.assignments.length === 0 ? (
+              <p className="no-data">This policy is not assigned yet</p>
+            ) : (
+              <div className="leave-policy-assignments">
+                {selectedPolicy.assignments.map((assignment) => (
+                  <div key={assignment.id} className="leave-policy-assignment">
+                    <span className={`leave-policy-scope leave-policy-scope-${assignment.scope}`}>
+                      {getScopeLabel(assignment.scope)}
+                    </span>
+                    <span className="leave-policy-assignment-name">
+                      {getAssignmentLabel(assignment)}
+                    </span>
+                    <button
+                      className="btn-danger btn-sm"
+                      onClick={() => handleDeleteAssignment(assignment.id)}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="modal-overlay">
+          <div className="modal-content large" onClick={(e) => e.stopPropagation()}>
+            <h2>{editingPolicy ? 'Edit Policy' : 'Create Policy'}</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label htmlFor="policy-name">Policy Name *</label>
+                <input
+                  type="text"
+                  id="policy-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="policy-description">Description</label>
+                <input
+                  type="text"
+                  id="policy-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Employees based in Poland"
+                />
+              </div>
+              <div className="leave-policy-form-grid">
+                {POLICY_FIELDS.map(({ field, label, step }) => (
+                  <div key={field} className="form-group">
+                    <label htmlFor={`policy-${field}`}>{label} *</label>
+                    <input
+                      type="number"
+                      id={`policy-${field}`}
+                      min="0"
+                      step={step}
+                      value={formData[field]}
+                      onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="form-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setShowModal(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingPolicy ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
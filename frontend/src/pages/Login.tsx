@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
 import Logo from '../components/Logo';
 import './Login.css';
@@ -7,18 +8,40 @@ import './Login.css';
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [searchParams] = useSearchParams();
+  // Set by the backend when an SSO login fails
+  const [error, setError] = useState(searchParams.get('ssoError') || '');
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const [ssoProviderName, setSsoProviderName] = useState<string | null>(null);
+  // Set after the password step when the account uses two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTwoFactor } = useAuth();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    axios
+      .get('/api/auth/oidc/config')
+      .then((response) => {
+        if (response.data.enabled) {
+          setSsoProviderName(response.data.providerName);
+        }
+      })
+      .catch((err) => console.error('Error fetching SSO config:', err));
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      await login(email, password);
+      const result = await login(email, password);
+      if (result.twoFactorRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
       navigate('/');
     } catch (err: any) {
       setError(err.message || 'Login failed');
@@ -27,6 +50,80 @@ export default function Login() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      await verifyTwoFactor(challengeToken, useRecoveryCode ? { recoveryCode: code } : { code });
+      navigate('/');
+    } catch (err: any) {
+      setError(err.message || 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackToPassword = () => {
+    setChallengeToken(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="login-container">
+        <div className="login-card">
+          <Logo size="large" showText={true} />
+          <h2>Two-Factor Authentication</h2>
+          <form onSubmit={handleVerify}>
+            {error && <div className="error-message">{error}</div>}
+            <p className="login-hint">
+              {useRecoveryCode
+                ? 'Enter one of your recovery codes. Each code works once.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </p>
+            <div className="form-group">
+              <label htmlFor="code">{useRecoveryCode ? 'Recovery Code' : 'Verification Code'}</label>
+              <input
+                type="text"
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              />
+            </div>
+            <button type="submit" disabled={loading} className="login-button">
+              {loading ? 'Verifying...' : 'Verify'}
+            </button>
+          </form>
+          <div className="login-links">
+            <button
+              type="button"
+              className="login-link-button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+              }}
+            >
+              {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+            </button>
+            {' · '}
+            <button type="button" className="login-link-button" onClick={handleBackToPassword}>
+              Back to login
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="login-container">
       <div className="login-card">
@@ -60,6 +157,17 @@ export default function Login() {
             {loading ? 'Logging in...' : 'Login'}
           </button>
         </form>
+        {ssoProviderName && (
+          <>
+            <div className="login-divider">or</div>
+            <a href="/api/auth/oidc/login" className="login-button sso-button">
+              Sign in with {ssoProviderName}
+            </a>
+          </>
+        )}
+        <div className="login-links">
+          <Link to="/forgot-password">Forgot password?</Link>
+        </div>
       </div>
     </div>
   );
@@ -1,22 +1,103 @@
 import { useState, useEffect } from 'react';
 import axios from 'axios';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { useAuth, hasPermission } from '../contexts/AuthContext';
+import { BurnDownChart } from '../components/BurnDownChart';
 import './Projects.css';
 
 interface Project {
   id: string;
   name: string;
+  leadId: string | null;
+  lead: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  } | null;
   users: Array<{
     id: string;
     firstName: string;
     lastName: string;
     email: string;
   }>;
+  maxConcurrentAbsences: number | null;
+  coverageEnforcement: 'warn' | 'block';
+  criticalMembers: Array<{
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  }>;
   technologies: Array<{
     id: string;
     name: string;
   }>;
+  tasks: ProjectTask[];
+  budgetAlertThresholds: number[];
+  budgets: ProjectBudget[];
+}
+
+interface ProjectTask {
+  id: string;
+  name: string;
+  isArchived: boolean;
+}
+
+interface ProjectBudget {
+  id: string;
+  kind: 'hours' | 'money';
+  amount: number;
+  name: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  burn: {
+    used: number;
+    remaining: number;
+    percentUsed: number;
+    forecast: number | null;
+    forecastPercent: number | null;
+    reachedThreshold: number | null;
+    status: 'ok' | 'warning' | 'over';
+    burnDown: Array<{ date: string; remaining: number }>;
+  };
 }
 
+type BudgetPeriodType = 'project' | 'month' | 'phase';
+
+const emptyBudgetForm = () => ({
+  kind: 'hours' as ProjectBudget['kind'],
+  amount: '',
+  periodType: 'project' as BudgetPeriodType,
+  month: format(new Date(), 'yyyy-MM'),
+  name: '',
+  from: format(new Date(), 'yyyy-MM-dd'),
+  to: format(endOfMonth(new Date()), 'yyyy-MM-dd'),
+});
+
+const formatBudgetDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
+const formatBudgetValue = (budget: ProjectBudget, value: number) =>
+  budget.kind === 'hours' ? `${value.toFixed(1)} h` : value.toFixed(2);
+
+// Phase name, month or period of a budget
+const describeBudget = (budget: ProjectBudget) => {
+  if (!budget.periodStart || !budget.periodEnd) {
+    return budget.name || 'Whole project';
+  }
+  const [year, month, day] = budget.periodStart.split('T')[0].split('-').map(Number);
+  const start = new Date(year, month - 1, day);
+  const isMonth =
+    day === 1 && format(endOfMonth(start), 'yyyy-MM-dd') === budget.periodEnd.split('T')[0];
+  const period = isMonth
+    ? format(start, 'MMMM yyyy')
+    : `${formatBudgetDate(budget.periodStart)} - ${formatBudgetDate(budget.periodEnd)}`;
+  return budget.name ? `${budget.name} (${period})` : period;
+};
+
 interface User {
   id: string;
   firstName: string;
@@ -30,6 +111,9 @@ interface Technology {
 }
 
 export default function Projects() {
+  const { user } = useAuth();
+  // Project managers with only `projects.manage_own` edit the projects they lead
+  const canManageAllProjects = hasPermission(user, 'projects.manage');
   const [projects, setProjects] = useState<Project[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [technologies, setTechnologies] = useState<Technology[]>([]);
@@ -37,11 +121,19 @@ export default function Projects() {
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [formData, setFormData] = useState({
     name: '',
+    leadId: '',
     userIds: [] as string[],
     technologyIds: [] as string[],
+    maxConcurrentAbsences: '',
+    coverageEnforcement: 'warn' as 'warn' | 'block',
+    criticalMemberIds: [] as string[],
+    budgetAlertThresholds: '80, 100',
   });
   const [userSearchQuery, setUserSearchQuery] = useState('');
   const [techSearchQuery, setTechSearchQuery] = useState('');
+  const [newTaskNames, setNewTaskNames] = useState<Record<string, string>>({});
+  const [budgetProject, setBudgetProject] = useState<Project | null>(null);
+  const [budgetForm, setBudgetForm] = useState(emptyBudgetForm);
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -64,7 +156,7 @@ export default function Projects() {
 
   const fetchUsers = async () => {
     try {
-      const response = await axios.get('/api/admin/users');
+      const response = await axios.get('/api/employees');
       setUsers(response.data);
     } catch (error) {
       console.error('Error fetching users:', error);
@@ -84,8 +176,13 @@ export default function Projects() {
     setEditingProject(null);
     setFormData({
       name: '',
+      leadId: '',
       userIds: [],
       technologyIds: [],
+      maxConcurrentAbsences: '',
+      coverageEnforcement: 'warn',
+      criticalMemberIds: [],
+      budgetAlertThresholds: '80, 100',
     });
     setUserSearchQuery('');
     setTechSearchQuery('');
@@ -96,8 +193,13 @@ export default function Projects() {
     setEditingProject(project);
     setFormData({
       name: project.name,
+      leadId: project.leadId || '',
       userIds: project.users.map((u) => u.id),
       technologyIds: project.technologies.map((t) => t.id),
+      maxConcurrentAbsences: project.maxConcurrentAbsences?.toString() ?? '',
+      coverageEnforcement: project.coverageEnforcement,
+      criticalMemberIds: project.criticalMembers.map((u) => u.id),
+      budgetAlertThresholds: project.budgetAlertThresholds.join(', '),
     });
     setUserSearchQuery('');
     setTechSearchQuery('');
@@ -108,11 +210,24 @@ export default function Projects() {
     e.preventDefault();
     setIsSaving(true);
 
+    const payload = {
+      ...formData,
+      leadId: formData.leadId || null,
+      maxConcurrentAbsences: formData.maxConcurrentAbsences
+        ? Number(formData.maxConcurrentAbsences)
+        : null,
+      budgetAlertThresholds: formData.budgetAlertThresholds
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map(Number),
+    };
+
     try {
       if (editingProject) {
-        await axios.put(`/api/projects/${editingProject.id}`, formData);
+        await axios.put(`/api/projects/${editingProject.id}`, payload);
       } else {
-        await axios.post('/api/projects', formData);
+        await axios.post('/api/projects', payload);
       }
       setShowModal(false);
       fetchProjects();
@@ -138,15 +253,168 @@ export default function Projects() {
     }
   };
 
+  const handleAddTask = async (projectId: string) => {
+    const name = newTaskNames[projectId]?.trim();
+    if (!name) {
+      return;
+    }
+
+    try {
+      await axios.post(`/api/projects/${projectId}/tasks`, { name });
+      setNewTaskNames({ ...newTaskNames, [projectId]: '' });
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to add task');
+    }
+  };
+
+  const handleRenameTask = async (projectId: string, task: ProjectTask) => {
+    const name = prompt('Task name', task.name)?.trim();
+    if (!name || name === task.name) {
+      return;
+    }
+
+    try {
+      await axios.put(`/api/projects/${projectId}/tasks/${task.id}`, { name });
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to rename task');
+    }
+  };
+
+  const handleToggleTaskArchived = async (projectId: string, task: ProjectTask) => {
+    try {
+      await axios.put(`/api/projects/${projectId}/tasks/${task.id}`, {
+        isArchived: !task.isArchived,
+      });
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update task');
+    }
+  };
+
+  const handleDeleteTask = async (projectId: string, task: ProjectTask) => {
+    if (!confirm(`Delete task "${task.name}"?`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/projects/${projectId}/tasks/${task.id}`);
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete task');
+    }
+  };
+
+  const handleAddBudget = (project: Project) => {
+    setBudgetProject(project);
+    setBudgetForm(emptyBudgetForm());
+  };
+
+  const handleSubmitBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!budgetProject) {
+      return;
+    }
+
+    let period: { from: string | null; to: string | null } = { from: null, to: null };
+    if (budgetForm.periodType === 'month') {
+      const [year, month] = budgetForm.month.split('-').map(Number);
+      const monthStart = new Date(year, month - 1, 1);
+      period = {
+        from: format(startOfMonth(monthStart), 'yyyy-MM-dd'),
+        to: format(endOfMonth(monthStart), 'yyyy-MM-dd'),
+      };
+    } else if (budgetForm.periodType === 'phase') {
+      period = { from: budgetForm.from, to: budgetForm.to };
+    }
+
+    setIsSaving(true);
+    try {
+      await axios.post(`/api/projects/${budgetProject.id}/budgets`, {
+        kind: budgetForm.kind,
+        amount: Number(budgetForm.amount),
+        name: budgetForm.periodType === 'phase' ? budgetForm.name : null,
+        ...period,
+      });
+      setBudgetProject(null);
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to add budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditBudgetAmount = async (projectId: string, budget: ProjectBudget) => {
+    const value = prompt('Budget amount', budget.amount.toString())?.trim();
+    if (!value || Number(value) === budget.amount) {
+      return;
+    }
+
+    try {
+      await axios.put(`/api/projects/${projectId}/budgets/${budget.id}`, {
+        amount: Number(value),
+      });
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update budget');
+    }
+  };
+
+  const handleDeleteBudget = async (projectId: string, budget: ProjectBudget) => {
+    if (!confirm(`Delete budget "${describeBudget(budget)}"?`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/projects/${projectId}/budgets/${budget.id}`);
+      fetchProjects();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete budget');
+    }
+  };
+
   const toggleUser = (userId: string) => {
+    setFormData((prev) =>
+      prev.userIds.includes(userId)
+        ? {
+            ...prev,
+            userIds: prev.userIds.filter((id) => id !== userId),
+            // Only project members can be critical members
+            criticalMemberIds: prev.criticalMemberIds.filter((id) => id !== userId),
+          }
+        : { ...prev, userIds: [...prev.userIds, userId] }
+    );
+  };
+
+  const toggleCriticalMember = (userId: string) => {
     setFormData((prev) => ({
       ...prev,
-      userIds: prev.userIds.includes(userId)
-        ? prev.userIds.filter((id) => id !== userId)
-        : [...prev.userIds, userId],
+      criticalMemberIds: prev.criticalMemberIds.includes(userId)
+        ? prev.criticalMemberIds.filter((id) => id !== userId)
+        : [...prev.criticalMemberIds, userId],
     }));
   };
 
+  const describeCoverage = (project: Project) => {
+    const rules = [];
+    if (project.maxConcurrentAbsences !== null) {
+      rules.push(`at most ${project.maxConcurrentAbsences} away at once`);
+    }
+    if (project.criticalMembers.length > 0) {
+      rules.push(
+        `no overlap between ${project.criticalMembers
+          .map((user) => `${user.firstName} ${user.lastName}`)
+          .join(', ')}`
+      );
+    }
+    if (rules.length === 0) {
+      return 'No rules';
+    }
+    return `${rules.join('; ')} (${project.coverageEnforcement === 'block' ? 'blocks requests' : 'warns only'})`;
+  };
+
   const toggleTechnology = (techId: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -164,9 +432,11 @@ export default function Projects() {
     <div className="projects-page">
       <div className="page-header">
         <h1>Projects</h1>
-        <button className="btn-primary" onClick={handleCreate}>
-          Create Project
-        </button>
+        {canManageAllProjects && (
+          <button className="btn-primary" onClick={handleCreate}>
+            Create Project
+          </button>
+        )}
       </div>
 
       <div className="projects-list">
@@ -184,15 +454,26 @@ export default function Projects() {
                   >
                     Edit
                   </button>
-                  <button
-                    className="btn-danger btn-sm"
-                    onClick={() => handleDelete(project.id)}
-                  >
-                    Delete
-                  </button>
+                  {canManageAllProjects && (
+                    <button
+                      className="btn-danger btn-sm"
+                      onClick={() => handleDelete(project.id)}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
 
+              <p className="project-lead">
+                Lead:{' '}
+                {project.lead
+                  ? `${project.lead.firstName} ${project.lead.lastName}`
+                  : 'Not set (requests go straight to HR)'}
+              </p>
+
+              <p className="project-coverage">Coverage: {describeCoverage(project)}</p>
+
               <div className="project-content">
                 <div className="project-section">
                   <h3>People ({project.users.length})</h3>
@@ -223,6 +504,144 @@ export default function Projects() {
                     </div>
                   )}
                 </div>
+
+                <div className="project-section">
+                  <h3>Tasks ({project.tasks.filter((task) => !task.isArchived).length})</h3>
+                  {project.tasks.length === 0 ? (
+                    <p className="empty-section">No tasks yet</p>
+                  ) : (
+                    <ul className="project-tasks">
+                      {project.tasks.map((task) => (
+                        <li key={task.id} className={task.isArchived ? 'archived' : ''}>
+                          <span className="project-task-name">
+                            {task.name}
+                            {task.isArchived && ' (archived)'}
+                          </span>
+                          <div className="project-task-actions">
+                            <button
+                              className="btn-secondary btn-sm"
+                              onClick={() => handleRenameTask(project.id, task)}
+                            >
+                              Rename
+                            </button>
+                            <button
+                              className="btn-secondary btn-sm"
+                              onClick={() => handleToggleTaskArchived(project.id, task)}
+                            >
+                              {task.isArchived ? 'Restore' : 'Archive'}
+                            </button>
+                            <button
+                              className="btn-danger btn-sm"
+                              onClick={() => handleDeleteTask(project.id, task)}
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="project-task-add">
+                    <input
+                      type="text"
+                      placeholder="New task name"
+                      value={newTaskNames[project.id] || ''}
+                      onChange={(e) =>
+                        setNewTaskNames({ ...newTaskNames, [project.id]: e.target.value })
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleAddTask(project.id);
+                        }
+                      }}
+                    />
+                    <button
+                      className="btn-secondary btn-sm"
+                      onClick={() => handleAddTask(project.id)}
+                      disabled={!newTaskNames[project.id]?.trim()}
+                    >
+                      Add Task
+                    </button>
+                  </div>
+                </div>
+
+                <div className="project-section">
+                  <h3>Budgets ({project.budgets.length})</h3>
+                  {project.budgets.length === 0 ? (
+                    <p className="empty-section">No budgets</p>
+                  ) : (
+                    <ul className="project-budgets">
+                      {project.budgets.map((budget) => (
+                        <li key={budget.id} className={`project-budget ${budget.burn.status}`}>
+                          <div className="project-budget-header">
+                            <span className="project-budget-name">
+                              {describeBudget(budget)}
+                              <span className="project-budget-kind">
+                                {budget.kind === 'hours' ? 'Hours' : 'Money'}
+                              </span>
+                            </span>
+                            <span className={`budget-status-badge ${budget.burn.status}`}>
+                              {budget.burn.percentUsed.toFixed(0)}%
+                            </span>
+                          </div>
+                          <div className="project-budget-bar">
+                            <div
+                              className="project-budget-bar-fill"
+                              style={{ width: `${Math.min(budget.burn.percentUsed, 100)}%` }}
+                            />
+                          </div>
+                          <p className="project-budget-usage">
+                            {formatBudgetValue(budget, budget.burn.used)} of{' '}
+                            {formatBudgetValue(budget, budget.amount)} used,{' '}
+                            {formatBudgetValue(budget, budget.burn.remaining)} left
+                          </p>
+                          {budget.burn.forecast !== null &&
+                            budget.burn.forecastPercent !== null &&
+                            budget.burn.forecastPercent > 100 && (
+                              <p className="project-budget-forecast">
+                                At this pace {formatBudgetValue(budget, budget.burn.forecast)} (
+                                {budget.burn.forecastPercent.toFixed(0)}%) will be used by the end
+                                of the period
+                              </p>
+                            )}
+                          <BurnDownChart
+                            amount={budget.amount}
+                            points={budget.burn.burnDown}
+                            periodStart={budget.periodStart}
+                            periodEnd={budget.periodEnd}
+                          />
+                          <div className="project-budget-actions">
+                            <button
+                              className="btn-secondary btn-sm"
+                              onClick={() => handleEditBudgetAmount(project.id, budget)}
+                            >
+                              Change Amount
+                            </button>
+                            <button
+                              className="btn-danger btn-sm"
+                              onClick={() => handleDeleteBudget(project.id, budget)}
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="project-budget-add">
+                    <button
+                      className="btn-secondary btn-sm"
+                      onClick={() => handleAddBudget(project)}
+                    >
+                      Add Budget
+                    </button>
+                    <span className="form-hint">
+                      {project.budgetAlertThresholds.length > 0
+                        ? `Lead alerted at ${project.budgetAlertThresholds.join('%, ')}%`
+                        : 'No budget alerts'}
+                    </span>
+                  </div>
+                </div>
               </div>
             </div>
           ))
@@ -245,6 +664,23 @@ export default function Projects() {
                 />
               </div>
 
+              <div className="form-group">
+                <label htmlFor="leadId">Project Lead</label>
+                <select
+                  id="leadId"
+                  value={formData.leadId}
+                  onChange={(e) => setFormData({ ...formData, leadId: e.target.value })}
+                  disabled={!canManageAllProjects}
+                >
+                  <option value="">No lead</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.firstName} {user.lastName} ({user.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="form-group">
                 <label>People</label>
                 <input
@@ -279,6 +715,73 @@ export default function Projects() {
                 </div>
               </div>
 
+              <div className="form-group">
+                <label>Coverage Rules</label>
+                <div className="coverage-rule-row">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Max people away at once (no limit)"
+                    value={formData.maxConcurrentAbsences}
+                    onChange={(e) =>
+                      setFormData({ ...formData, maxConcurrentAbsences: e.target.value })
+                    }
+                  />
+                  <select
+                    value={formData.coverageEnforcement}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        coverageEnforcement: e.target.value as 'warn' | 'block',
+                      })
+                    }
+                  >
+                    <option value="warn">Warn on conflicts</option>
+                    <option value="block">Block conflicting requests</option>
+                  </select>
+                </div>
+                <span className="form-hint">
+                  Critical members cannot be away at the same time as each other.
+                </span>
+                <div className="multi-select-list">
+                  {formData.userIds.length === 0 ? (
+                    <p className="empty-section">Add people to pick critical members</p>
+                  ) : (
+                    users
+                      .filter((user) => formData.userIds.includes(user.id))
+                      .map((user) => (
+                        <label key={user.id} className="checkbox-item">
+                          <input
+                            type="checkbox"
+                            checked={formData.criticalMemberIds.includes(user.id)}
+                            onChange={() => toggleCriticalMember(user.id)}
+                          />
+                          <span>
+                            {user.firstName} {user.lastName}
+                          </span>
+                        </label>
+                      ))
+                  )}
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="budgetAlertThresholds">Budget Alert Thresholds (%)</label>
+                <input
+                  type="text"
+                  id="budgetAlertThresholds"
+                  placeholder="80, 100"
+                  value={formData.budgetAlertThresholds}
+                  onChange={(e) =>
+                    setFormData({ ...formData, budgetAlertThresholds: e.target.value })
+                  }
+                />
+                <span className="form-hint">
+                  The project lead is emailed when a budget reaches each of these percentages.
+                </span>
+              </div>
+
               <div className="form-group">
                 <label>Technologies</label>
                 <input
@@ -323,6 +826,120 @@ export default function Projects() {
           </div>
         </div>
       )}
+
+      {budgetProject && (
+        <div className="modal-overlay">
+          <div className="modal-content project-modal" onClick={(e) => e.stopPropagation()}>
+            <h2>Add Budget to {budgetProject.name}</h2>
+            <form onSubmit={handleSubmitBudget}>
+              <div className="form-group">
+                <label>Budget *</label>
+                <div className="budget-amount-row">
+                  <select
+                    value={budgetForm.kind}
+                    onChange={(e) =>
+                      setBudgetForm({
+                        ...budgetForm,
+                        kind: e.target.value as ProjectBudget['kind'],
+                      })
+                    }
+                  >
+                    <option value="hours">Hours</option>
+                    <option value="money">Money (billable amount)</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    placeholder="Amount"
+                    value={budgetForm.amount}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, amount: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="budgetPeriodType">Period</label>
+                <select
+                  id="budgetPeriodType"
+                  value={budgetForm.periodType}
+                  onChange={(e) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      periodType: e.target.value as BudgetPeriodType,
+                    })
+                  }
+                >
+                  <option value="project">Whole project</option>
+                  <option value="month">Month</option>
+                  <option value="phase">Phase</option>
+                </select>
+              </div>
+
+              {budgetForm.periodType === 'month' && (
+                <div className="form-group">
+                  <label htmlFor="budgetMonth">Month *</label>
+                  <input
+                    type="month"
+                    id="budgetMonth"
+                    value={budgetForm.month}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, month: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+
+              {budgetForm.periodType === 'phase' && (
+                <>
+                  <div className="form-group">
+                    <label htmlFor="budgetName">Phase Name</label>
+                    <input
+                      type="text"
+                      id="budgetName"
+                      placeholder="e.g. Discovery"
+                      value={budgetForm.name}
+                      onChange={(e) => setBudgetForm({ ...budgetForm, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>From - To *</label>
+                    <div className="budget-amount-row">
+                      <input
+                        type="date"
+                        value={budgetForm.from}
+                        onChange={(e) => setBudgetForm({ ...budgetForm, from: e.target.value })}
+                        required
+                      />
+                      <input
+                        type="date"
+                        value={budgetForm.to}
+                        min={budgetForm.from}
+                        onChange={(e) => setBudgetForm({ ...budgetForm, to: e.target.value })}
+                        required
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div className="form-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setBudgetProject(null)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Add Budget'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import axios from 'axios';
 import { format } from 'date-fns';
+import { AbsencePortion, getPortionShortLabel } from '../utils/absenceUtils';
+import { useAuth, hasPermission } from '../contexts/AuthContext';
 import './Reports.css';
 
 interface WorkLog {
@@ -8,8 +10,10 @@ interface WorkLog {
   date: string;
   start: string;
   end: string;
+  breakMinutes: number;
   projectId: string | null;
   note: string | null;
+  isBillable: boolean;
   isPastDue: boolean;
   user: {
     id: string;
@@ -21,6 +25,14 @@ interface WorkLog {
     id: string;
     name: string;
   } | null;
+  task?: {
+    id: string;
+    name: string;
+  } | null;
+  activityType?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 interface SummaryItem {
@@ -36,11 +48,27 @@ interface SummaryItem {
   dayOffHours: number;
 }
 
+interface Breakdown {
+  byActivityType: {
+    activityTypeId: string | null;
+    name: string | null;
+    hours: number;
+  }[];
+  byTask: {
+    projectId: string | null;
+    projectName: string | null;
+    taskId: string | null;
+    taskName: string | null;
+    hours: number;
+  }[];
+}
+
 interface AbsenceItem {
   id: string;
   type: 'sick_leave' | 'day_off' | 'vacation' | 'work_from_home';
   from: string;
   to: string;
+  portion?: AbsencePortion;
   status: 'pending' | 'approved' | 'rejected';
   user: {
     id: string;
@@ -65,9 +93,11 @@ interface User {
 }
 
 export default function Reports() {
+  const { user } = useAuth();
   const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
   const [absences, setAbsences] = useState<AbsenceItem[]>([]);
   const [summary, setSummary] = useState<SummaryItem[]>([]);
+  const [breakdown, setBreakdown] = useState<Breakdown>({ byActivityType: [], byTask: [] });
   const [selectedWorkLog, setSelectedWorkLog] = useState<WorkLog | null>(null);
   const [showNoteModal, setShowNoteModal] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
@@ -76,6 +106,7 @@ export default function Reports() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedUserId, setSelectedUserId] = useState<string>('');
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
+  const [approvedOnly, setApprovedOnly] = useState(false);
   const [loading, setLoading] = useState(true);
   
   // Search states
@@ -111,7 +142,7 @@ export default function Reports() {
   useEffect(() => {
     setCurrentPage(1);
     fetchReport();
-  }, [currentMonth, selectedUserId, selectedProjectId]);
+  }, [currentMonth, selectedUserId, selectedProjectId, approvedOnly]);
 
   const fetchReport = async () => {
     try {
@@ -120,10 +151,12 @@ export default function Reports() {
       const params = new URLSearchParams({ month });
       if (selectedUserId) params.append('userId', selectedUserId);
       if (selectedProjectId) params.append('projectId', selectedProjectId);
+      if (approvedOnly) params.append('approvedOnly', 'true');
 
       const response = await axios.get(`/api/worklogs/report?${params}`);
       setWorkLogs(response.data.workLogs);
       setSummary(response.data.summary);
+      setBreakdown(response.data.breakdown);
       setAbsences(response.data.absences || []);
     } catch (error) {
       console.error('Error fetching report:', error);
@@ -143,7 +176,10 @@ export default function Reports() {
 
   const fetchUsers = async () => {
     try {
-      const response = await axios.get('/api/employees');
+      // Managers and project leads can only report on the people they manage
+      const response = await axios.get(
+        hasPermission(user, 'reports.view') ? '/api/employees' : '/api/employees/reports'
+      );
       setUsers(response.data);
     } catch (error) {
       console.error('Error fetching users:', error);
@@ -155,11 +191,17 @@ export default function Reports() {
     const headers = [
       'Date',
       'Employee',
+      'Start',
+      'End',
+      'Break (min)',
       'Hours',
       'Sick Leave Hours',
       'Vacation Hours',
       'Day Off Hours',
       'Project',
+      'Task',
+      'Activity',
+      'Billable',
       'Note',
     ];
     const sortedLogs = [...workLogs].sort(
@@ -170,11 +212,17 @@ export default function Reports() {
       row: [
         format(new Date(log.date), 'yyyy-MM-dd'),
         `${log.user.firstName} ${log.user.lastName}`,
+        format(new Date(log.start), 'HH:mm'),
+        format(new Date(log.end), 'HH:mm'),
+        String(log.breakMinutes),
         calculateHours(log).toFixed(2),
         '0.00',
         '0.00',
         '0.00',
         log.project?.name || '',
+        log.task?.name || '',
+        log.activityType?.name || '',
+        log.isBillable ? 'Yes' : 'No',
         log.note || '',
       ],
     }));
@@ -198,12 +246,18 @@ export default function Reports() {
           row: [
             dateLabel,
             `${absence.user.firstName} ${absence.user.lastName}`,
+            '',
+            '',
+            '',
             '0.00',
             sickLeaveHours.toFixed(2),
             vacationHours.toFixed(2),
             dayOffHours.toFixed(2),
             getAbsenceLabel(absence.type),
             '',
+            '',
+            '',
+            '',
           ],
         };
       });
@@ -245,6 +299,7 @@ export default function Reports() {
       format(currentMonth, 'yyyy-MM'),
       userPart ? sanitizeFilePart(userPart) : '',
       projectPart ? sanitizeFilePart(projectPart) : '',
+      approvedOnly ? 'approved' : '',
     ].filter(Boolean);
     link.setAttribute('href', url);
     link.setAttribute('download', `${filenameParts.join('-')}.csv`);
@@ -266,7 +321,7 @@ export default function Reports() {
     const start = new Date(log.start);
     const end = new Date(log.end);
     const totalMs = end.getTime() - start.getTime();
-    return totalMs / (1000 * 60 * 60);
+    return totalMs / (1000 * 60 * 60) - (log.breakMinutes || 0) / 60;
   };
 
   const getSelectedEmployeeName = () => {
@@ -491,6 +546,17 @@ export default function Reports() {
             )}
           </div>
         </div>
+
+        <div className="filter-group">
+          <label className="filter-checkbox">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+            />
+            Approved time only
+          </label>
+        </div>
       </div>
 
       {loading ? (
@@ -533,6 +599,52 @@ export default function Reports() {
             </div>
           )}
 
+          {(breakdown.byActivityType.length > 0 || breakdown.byTask.length > 0) && (
+            <div className="summary-section">
+              <h2>Breakdown</h2>
+              <div className="breakdown-tables">
+                <div className="summary-table-container">
+                  <table className="summary-table">
+                    <thead>
+                      <tr>
+                        <th>Activity</th>
+                        <th>Hours</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakdown.byActivityType.map((item) => (
+                        <tr key={item.activityTypeId ?? 'none'}>
+                          <td>{item.name || 'Unspecified'}</td>
+                          <td>{item.hours.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="summary-table-container">
+                  <table className="summary-table">
+                    <thead>
+                      <tr>
+                        <th>Project</th>
+                        <th>Task</th>
+                        <th>Hours</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakdown.byTask.map((item) => (
+                        <tr key={`${item.projectId ?? 'none'}-${item.taskId ?? 'none'}`}>
+                          <td>{item.projectName || '-'}</td>
+                          <td>{item.taskName || '-'}</td>
+                          <td>{item.hours.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="work-logs-section">
             <h2>Work Logs</h2>
             {workLogs.length === 0 && absences.length === 0 ? (
@@ -544,6 +656,7 @@ export default function Reports() {
                     <tr>
                       <th>Date</th>
                       <th>Employee</th>
+                      <th>Time</th>
                       <th>Hours</th>
                       <th>Project</th>
                     </tr>
@@ -572,8 +685,18 @@ export default function Reports() {
                               <td>
                                 {row.log.user.firstName} {row.log.user.lastName}
                               </td>
+                              <td>
+                                {format(new Date(row.log.start), 'HH:mm')}–
+                                {format(new Date(row.log.end), 'HH:mm')}
+                                {row.log.breakMinutes > 0 && ` (${row.log.breakMinutes}m break)`}
+                              </td>
                               <td>{hours.toFixed(2)}</td>
-                              <td>{row.log.project?.name || '-'}</td>
+                              <td>
+                                {row.log.project?.name || '-'}
+                                {row.log.task && (
+                                  <span className="worklog-task"> / {row.log.task.name}</span>
+                                )}
+                              </td>
                             </tr>
                           );
                         }
@@ -598,8 +721,13 @@ export default function Reports() {
                             <td>
                               {row.absence.user.firstName} {row.absence.user.lastName}
                             </td>
+                            <td>-</td>
                             <td>{row.absence.hours.toFixed(2)}</td>
-                            <td>{getAbsenceLabel(row.absence.type)}</td>
+                            <td>
+                              {getAbsenceLabel(row.absence.type)}
+                              {row.absence.portion && row.absence.portion !== 'full_day' &&
+                                ` (${getPortionShortLabel(row.absence.portion, row.absence.hours)})`}
+                            </td>
                           </tr>
                         );
                       })}
@@ -662,6 +790,22 @@ export default function Reports() {
                 <span className="detail-label">Project:</span>
                 <span className="detail-value">{selectedWorkLog.project?.name || '-'}</span>
               </div>
+              {selectedWorkLog.task && (
+                <div className="detail-row">
+                  <span className="detail-label">Task:</span>
+                  <span className="detail-value">{selectedWorkLog.task.name}</span>
+                </div>
+              )}
+              <div className="detail-row">
+                <span className="detail-label">Billable:</span>
+                <span className="detail-value">{selectedWorkLog.isBillable ? 'Yes' : 'No'}</span>
+              </div>
+              {selectedWorkLog.activityType && (
+                <div className="detail-row">
+                  <span className="detail-label">Activity:</span>
+                  <span className="detail-value">{selectedWorkLog.activityType.name}</span>
+                </div>
+              )}
               <div className="detail-row note-row">
                 <span className="detail-label">Note:</span>
                 <div className="detail-note">
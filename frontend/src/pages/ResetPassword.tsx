@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import Logo from '../components/Logo';
+import './Login.css';
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await axios.post('/api/auth/reset-password', { token, password });
+      setDone(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <div className="login-card">
+        <Logo size="large" showText={true} />
+        <h2>Choose a New Password</h2>
+        {!token ? (
+          <div className="error-message">
+            This reset link is incomplete. Open the link from the email again.
+          </div>
+        ) : done ? (
+          <div className="success-message">
+            Your password has been updated. You can now log in with the new password.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {error && <div className="error-message">{error}</div>}
+            <div className="form-group">
+              <label htmlFor="password">New Password</label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={6}
+                required
+                autoComplete="new-password"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="confirm-password">Confirm Password</label>
+              <input
+                type="password"
+                id="confirm-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                minLength={6}
+                required
+                autoComplete="new-password"
+              />
+            </div>
+            <button type="submit" disabled={loading} className="login-button">
+              {loading ? 'Saving...' : 'Set Password'}
+            </button>
+          </form>
+        )}
+        <div className="login-links">
+          <Link to="/login">Back to login</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
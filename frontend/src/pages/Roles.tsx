@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import './Roles.css';
+
+interface Role {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  isSystem: boolean;
+  _count: { users: number };
+}
+
+interface PermissionInfo {
+  key: string;
+  description: string;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  permissions: [] as string[],
+};
+
+export default function Roles() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+  const [selectedRoleId, setSelectedRoleId] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
+
+  useEffect(() => {
+    fetchRoles();
+    fetchTwoFactorPolicy();
+  }, []);
+
+  const selectedRole = roles.find((role) => role.id === selectedRoleId) || null;
+
+  const fetchRoles = async () => {
+    try {
+      const response = await axios.get('/api/roles');
+      setRoles(response.data.roles);
+      setPermissions(response.data.permissions);
+      if (!selectedRoleId && response.data.roles.length > 0) {
+        setSelectedRoleId(response.data.roles[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTwoFactorPolicy = async () => {
+    try {
+      const response = await axios.get('/api/two-factor/policy');
+      setRequireTwoFactor(response.data.requireTwoFactorForElevated);
+    } catch (error) {
+      console.error('Error fetching two-factor policy:', error);
+    }
+  };
+
+  const handleTwoFactorPolicyChange = async (required: boolean) => {
+    try {
+      const response = await axios.put('/api/two-factor/policy', {
+        requireTwoFactorForElevated: required,
+      });
+      setRequireTwoFactor(response.data.requireTwoFactorForElevated);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update two-factor policy');
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingRole(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (role: Role) => {
+    setEditingRole(role);
+    setFormData({
+      name: role.name,
+      description: role.description || '',
+      permissions: role.permissions,
+    });
+    setShowModal(true);
+  };
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      permissions: checked
+        ? [...formData.permissions, permission]
+        : formData.permissions.filter((key) => key !== permission),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      if (editingRole) {
+        await axios.put(`/api/roles/${editingRole.id}`, formData);
+      } else {
+        const response = await axios.post('/api/roles', formData);
+        setSelectedRoleId(response.data.id);
+      }
+      setShowModal(false);
+      fetchRoles();
+    } catch (error: any) {
+      console.error('Error saving role:', error);
+      alert(error.response?.data?.error || 'Failed to save role');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (
+      !confirm(
+        `Are you sure you want to delete this role? ${role._count.users} user(s) will lose its permissions.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/roles/${role.id}`);
+      if (selectedRoleId === role.id) {
+        setSelectedRoleId(null);
+      }
+      fetchRoles();
+    } catch (error: any) {
+      console.error('Error deleting role:', error);
+      alert(error.response?.data?.error || 'Failed to delete role');
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="roles-page">
+      <div className="page-header">
+        <h1>Roles</h1>
+        <button className="btn-primary" onClick={handleCreate}>
+          Create Role
+        </button>
+      </div>
+
+      <div className="info-box">
+        <p>
+          A user's permissions are the combined permissions of all their roles. Administrators
+          have every permission; users without roles only manage their own data. Roles are
+          assigned on the Admin page.
+        </p>
+        <label className="two-factor-policy">
+          <input
+            type="checkbox"
+            checked={requireTwoFactor}
+            onChange={(e) => handleTwoFactorPolicyChange(e.target.checked)}
+          />
+          Require two-factor authentication for every user with at least one permission
+        </label>
+      </div>
+
+      <div className="roles-layout">
+        <div className="roles-list">
+          {roles.map((role) => (
+            <div
+              key={role.id}
+              className={`role-item${role.id === selectedRoleId ? ' selected' : ''}`}
+              onClick={() => setSelectedRoleId(role.id)}
+            >
+              <div className="role-info">
+                <span className="role-name">
+                  {role.name}
+                  {role.isSystem && <span className="role-system-badge">System</span>}
+                </span>
+                <span className="role-meta">
+                  {role.permissions.length} permissions · {role._count.users} users
+                </span>
+              </div>
+              <div className="tech-actions">
+                <button
+                  className="btn-secondary btn-sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleEdit(role);
+                  }}
+                >
+                  Edit
+                </button>
+                {!role.isSystem && (
+                  <button
+                    className="btn-danger btn-sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(role);
+                    }}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selectedRole && (
+          <div className="role-details">
+            <div className="role-details-header">
+              <h2>{selectedRole.name}</h2>
+            </div>
+            {selectedRole.description && (
+              <p className="role-description">{selectedRole.description}</p>
+            )}
+
+            <h3>Permissions</h3>
+            {selectedRole.permissions.length === 0 ? (
+              <p className="no-data">This role grants no permissions</p>
+            ) : (
+              <div className="role-permissions">
+                {permissions
+                  .filter((permission) => selectedRole.permissions.includes(permission.key))
+                  .map((permission) => (
+                    <div key={permission.key} className="role-permission">
+                      <span className="role-permission-key">{permission.key}</span>
+                      <span className="role-permission-description">{permission.description}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="modal-overlay">
+          <div className="modal-content large" onClick={(e) => e.stopPropagation()}>
+            <h2>{editingRole ? 'Edit Role' : 'Create Role'}</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label htmlFor="role-name">Role Name *</label>
+                <input
+                  type="text"
+                  id="role-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="role-description">Description</label>
+                <input
+                  type="text"
+                  id="role-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Reads reports for the finance team"
+                />
+              </div>
+              <div className="form-group">
+                <label>Permissions</label>
+                <div className="role-permission-options">
+                  {permissions.map((permission) => (
+                    <label key={permission.key} className="role-permission-option">
+                      <input
+                        type="checkbox"
+                        checked={formData.permissions.includes(permission.key)}
+                        onChange={(e) => togglePermission(permission.key, e.target.checked)}
+                      />
+                      <span>
+                        <span className="role-permission-key">{permission.key}</span>
+                        <span className="role-permission-description">
+                          {permission.description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="form-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setShowModal(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingRole ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
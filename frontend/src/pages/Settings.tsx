@@ -3,7 +3,9 @@ import axios from 'axios';
 import { format } from 'date-fns';
 import './Settings.css';
 
-interface SettingsData {
+interface SettingsVersion {
+  id: string;
+  effectiveFrom: string;
   vacationFutureAccrueDays: number;
   sickLeaveWithoutCertificateLimit: number;
   sickLeaveWithCertificateLimit: number;
@@ -11,6 +13,10 @@ interface SettingsData {
   updatedAt: string;
 }
 
+interface SettingsData extends SettingsVersion {
+  upcoming: SettingsVersion[];
+}
+
 interface SettingsLog {
   id: string;
   createdAt: string;
@@ -22,6 +28,7 @@ interface SettingsLog {
   newSickLeaveWithCertificateLimit?: number | null;
   previousVacationCarryoverLimit?: number | null;
   newVacationCarryoverLimit?: number | null;
+  effectiveFrom?: string | null;
   admin: {
     id: string;
     firstName: string;
@@ -30,6 +37,18 @@ interface SettingsLog {
   };
 }
 
+interface ActivityType {
+  id: string;
+  name: string;
+  isArchived: boolean;
+}
+
+// Effective dates are stored as UTC midnight; format them without shifting to local time
+const formatEffectiveDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+};
+
 export default function Settings() {
   const [settings, setSettings] = useState<SettingsData | null>(null);
   const [logs, setLogs] = useState<SettingsLog[]>([]);
@@ -37,26 +56,32 @@ export default function Settings() {
   const [sickLeaveWithoutCertificateLimit, setSickLeaveWithoutCertificateLimit] = useState('');
   const [sickLeaveWithCertificateLimit, setSickLeaveWithCertificateLimit] = useState('');
   const [vacationCarryoverLimit, setVacationCarryoverLimit] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [timesheetPeriod, setTimesheetPeriod] = useState<'week' | 'month'>('week');
+  const [activityTypes, setActivityTypes] = useState<ActivityType[]>([]);
+  const [newActivityTypeName, setNewActivityTypeName] = useState('');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     fetchSettings();
     fetchLogs();
+    fetchTimesheetPolicy();
+    fetchActivityTypes();
   }, []);
 
+  const applySettings = (data: SettingsData) => {
+    setSettings(data);
+    setVacationFutureAccrueDays(data.vacationFutureAccrueDays.toString());
+    setSickLeaveWithoutCertificateLimit(data.sickLeaveWithoutCertificateLimit.toString());
+    setSickLeaveWithCertificateLimit(data.sickLeaveWithCertificateLimit.toString());
+    setVacationCarryoverLimit(data.vacationCarryoverLimit.toString());
+  };
+
   const fetchSettings = async () => {
     try {
       const response = await axios.get('/api/admin/settings');
-      setSettings(response.data);
-      setVacationFutureAccrueDays(response.data.vacationFutureAccrueDays.toString());
-      setSickLeaveWithoutCertificateLimit(
-        response.data.sickLeaveWithoutCertificateLimit.toString()
-      );
-      setSickLeaveWithCertificateLimit(
-        response.data.sickLeaveWithCertificateLimit.toString()
-      );
-      setVacationCarryoverLimit(response.data.vacationCarryoverLimit.toString());
+      applySettings(response.data);
     } catch (error) {
       console.error('Error fetching settings:', error);
     } finally {
@@ -73,6 +98,86 @@ export default function Settings() {
     }
   };
 
+  const fetchTimesheetPolicy = async () => {
+    try {
+      const response = await axios.get('/api/timesheets/policy');
+      setTimesheetPeriod(response.data.timesheetPeriod);
+    } catch (error) {
+      console.error('Error fetching timesheet policy:', error);
+    }
+  };
+
+  const fetchActivityTypes = async () => {
+    try {
+      const response = await axios.get('/api/activity-types?includeArchived=true');
+      setActivityTypes(response.data);
+    } catch (error) {
+      console.error('Error fetching activity types:', error);
+    }
+  };
+
+  const handleAddActivityType = async () => {
+    const name = newActivityTypeName.trim();
+    if (!name) {
+      return;
+    }
+
+    try {
+      await axios.post('/api/activity-types', { name });
+      setNewActivityTypeName('');
+      fetchActivityTypes();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to add activity type');
+    }
+  };
+
+  const handleRenameActivityType = async (activityType: ActivityType) => {
+    const name = prompt('Activity type name', activityType.name)?.trim();
+    if (!name || name === activityType.name) {
+      return;
+    }
+
+    try {
+      await axios.put(`/api/activity-types/${activityType.id}`, { name });
+      fetchActivityTypes();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to rename activity type');
+    }
+  };
+
+  const handleToggleActivityTypeArchived = async (activityType: ActivityType) => {
+    try {
+      await axios.put(`/api/activity-types/${activityType.id}`, {
+        isArchived: !activityType.isArchived,
+      });
+      fetchActivityTypes();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update activity type');
+    }
+  };
+
+  const handleDeleteActivityType = async (activityType: ActivityType) => {
+    if (!confirm(`Delete activity type "${activityType.name}"?`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/activity-types/${activityType.id}`);
+      fetchActivityTypes();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete activity type');
+    }
+  };
+
+  const handleTimesheetPeriodChange = async (period: 'week' | 'month') => {
+    try {
+      const response = await axios.put('/api/timesheets/policy', { timesheetPeriod: period });
+      setTimesheetPeriod(response.data.timesheetPeriod);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update timesheet period');
+    }
+  };
+
   const handleSave = async () => {
     const vacationValue = Number(vacationFutureAccrueDays);
     const withoutCertificateLimit = Number(sickLeaveWithoutCertificateLimit);
@@ -106,8 +211,10 @@ export default function Settings() {
         sickLeaveWithoutCertificateLimit: withoutCertificateLimit,
         sickLeaveWithCertificateLimit: withCertificateLimit,
         vacationCarryoverLimit: carryoverLimit,
+        effectiveFrom,
       });
-      setSettings(response.data);
+      applySettings(response.data);
+      setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'));
       await fetchLogs();
     } catch (error: any) {
       alert(error.response?.data?.error || 'Failed to update settings');
@@ -116,6 +223,19 @@ export default function Settings() {
     }
   };
 
+  const handleCancelScheduled = async (id: string) => {
+    if (!confirm('Cancel this scheduled settings change?')) {
+      return;
+    }
+
+    try {
+      const response = await axios.delete(`/api/admin/settings/versions/${id}`);
+      applySettings(response.data);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to cancel scheduled change');
+    }
+  };
+
   if (loading) {
     return <div className="loading">Loading...</div>;
   }
@@ -128,6 +248,9 @@ export default function Settings() {
 
       <div className="settings-section">
         <h2>Accrual Settings</h2>
+        <p className="settings-hint">
+          Apply to employees without an assigned leave policy (see Leave Policies).
+        </p>
         <div className="settings-grid">
           <div className="settings-field">
             <label>Vacation Future Accrue (days)</label>
@@ -169,7 +292,20 @@ export default function Settings() {
               onChange={(e) => setVacationCarryoverLimit(e.target.value)}
             />
           </div>
+          <div className="settings-field">
+            <label>Effective From</label>
+            <input
+              type="date"
+              min={format(new Date(), 'yyyy-MM-dd')}
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+            />
+          </div>
         </div>
+        <p className="settings-hint">
+          Changes apply from the effective date onward; months before it keep the values that were
+          in force at the time.
+        </p>
         <div className="settings-actions">
           <button className="btn-primary" onClick={handleSave} disabled={saving}>
             {saving ? 'Saving...' : 'Save'}
@@ -182,6 +318,120 @@ export default function Settings() {
         </div>
       </div>
 
+      <div className="settings-section">
+        <h2>Timesheets</h2>
+        <div className="settings-grid">
+          <div className="settings-field">
+            <label>Submission Period</label>
+            <select
+              value={timesheetPeriod}
+              onChange={(e) => handleTimesheetPeriodChange(e.target.value as 'week' | 'month')}
+            >
+              <option value="week">Weekly (Monday to Sunday)</option>
+              <option value="month">Monthly</option>
+            </select>
+          </div>
+        </div>
+        <p className="settings-hint">
+          Employees submit their work logs per period for approval. Periods already submitted keep
+          their dates when this changes.
+        </p>
+      </div>
+
+      <div className="settings-section">
+        <h2>Activity Types</h2>
+        {activityTypes.length === 0 ? (
+          <p className="no-data">No activity types</p>
+        ) : (
+          <ul className="activity-type-list">
+            {activityTypes.map((activityType) => (
+              <li key={activityType.id} className={activityType.isArchived ? 'archived' : ''}>
+                <span className="activity-type-name">
+                  {activityType.name}
+                  {activityType.isArchived && ' (archived)'}
+                </span>
+                <div className="activity-type-actions">
+                  <button
+                    className="btn-secondary btn-sm"
+                    onClick={() => handleRenameActivityType(activityType)}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    className="btn-secondary btn-sm"
+                    onClick={() => handleToggleActivityTypeArchived(activityType)}
+                  >
+                    {activityType.isArchived ? 'Restore' : 'Archive'}
+                  </button>
+                  <button
+                    className="btn-danger btn-sm"
+                    onClick={() => handleDeleteActivityType(activityType)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="settings-actions">
+          <input
+            type="text"
+            className="activity-type-input"
+            placeholder="New activity type"
+            value={newActivityTypeName}
+            onChange={(e) => setNewActivityTypeName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleAddActivityType();
+              }
+            }}
+          />
+          <button
+            className="btn-primary"
+            onClick={handleAddActivityType}
+            disabled={!newActivityTypeName.trim()}
+          >
+            Add Activity Type
+          </button>
+        </div>
+        <p className="settings-hint">
+          Employees pick an activity when logging work. Archived types stay on existing work logs but
+          can no longer be chosen.
+        </p>
+      </div>
+
+      <div className="settings-section">
+        <h2>Scheduled Changes</h2>
+        {!settings || settings.upcoming.length === 0 ? (
+          <p className="no-data">No scheduled changes</p>
+        ) : (
+          <div className="settings-log">
+            {settings.upcoming.map((version) => (
+              <div key={version.id} className="settings-log-item">
+                <div className="log-header">
+                  <div className="log-admin">
+                    Effective {formatEffectiveDate(version.effectiveFrom)}
+                  </div>
+                  <button
+                    className="btn-secondary btn-sm"
+                    onClick={() => handleCancelScheduled(version.id)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="log-details">
+                  <div>Vacation: {version.vacationFutureAccrueDays.toFixed(2)} days per month</div>
+                  <div>Sick Leave w/o Certificate: {version.sickLeaveWithoutCertificateLimit}</div>
+                  <div>Sick Leave w/ Certificate: {version.sickLeaveWithCertificateLimit}</div>
+                  <div>Vacation Carryover: {version.vacationCarryoverLimit}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="settings-section">
         <h2>Change Log</h2>
         {logs.length === 0 ? (
@@ -196,6 +446,8 @@ export default function Settings() {
                   </div>
                   <div className="log-date">
                     {format(new Date(log.createdAt), 'MMM dd, yyyy HH:mm')}
+                    {log.effectiveFrom &&
+                      ` · effective ${formatEffectiveDate(log.effectiveFrom)}`}
                   </div>
                 </div>
                 <div className="log-details">
@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import Logo from '../components/Logo';
+import './Login.css';
+
+// Landing page after the identity provider; trades the one-time code for a session
+export default function SsoCallback() {
+  const [searchParams] = useSearchParams();
+  const code = searchParams.get('code') || '';
+  const [error, setError] = useState('');
+  const { loginWithSso } = useAuth();
+  const navigate = useNavigate();
+  // The code works once, so it must never be sent twice
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    if (!code || exchanged.current) return;
+    exchanged.current = true;
+
+    loginWithSso(code)
+      .then(() => navigate('/', { replace: true }))
+      .catch((err: any) => setError(err.message || 'Sign-in failed'));
+  }, [code]);
+
+  return (
+    <div className="login-container">
+      <div className="login-card">
+        <Logo size="large" showText={true} />
+        <h2>Single Sign-On</h2>
+        {!code ? (
+          <div className="error-message">This sign-in link is incomplete.</div>
+        ) : error ? (
+          <div className="error-message">{error}</div>
+        ) : (
+          <p className="login-hint">Signing you in...</p>
+        )}
+        {(!code || error) && (
+          <div className="login-links">
+            <Link to="/login">Back to login</Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
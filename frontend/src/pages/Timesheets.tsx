@@ -4,6 +4,8 @@ import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, start
 import { WorkLogForm, WorkLogFormData } from '../components/WorkLogForm';
 import { AbsenceForm, AbsenceFormData } from './AbsenceForm';
 import { BookingBar } from '../components/BookingBar';
+import { WORK_LOGS_CHANGED_EVENT } from '../components/WorkTimer';
+import { WeekGrid } from '../components/WeekGrid';
 import { useAuth } from '../contexts/AuthContext';
 import './Timesheets.css';
 
@@ -12,18 +14,51 @@ interface WorkLog {
   date: string;
   start: string;
   end: string;
+  breakMinutes: number;
   projectId: string | null;
+  taskId: string | null;
+  activityTypeId: string | null;
   note: string | null;
+  isBillable: boolean;
   isPastDue: boolean;
   project?: {
     id: string;
     name: string;
   } | null;
+  task?: {
+    id: string;
+    name: string;
+  } | null;
+  activityType?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 interface Project {
   id: string;
   name: string;
+  tasks?: { id: string; name: string }[];
+}
+
+interface ActivityType {
+  id: string;
+  name: string;
+}
+
+interface TimesheetPeriod {
+  id: string | null;
+  periodStart: string;
+  periodEnd: string;
+  status: 'open' | 'submitted' | 'approved' | 'returned' | null;
+  isMissing: boolean;
+  hours: number;
+  comment: string | null;
+  decidedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
 }
 
 interface Absence {
@@ -35,11 +70,32 @@ interface Absence {
   files?: { id: string; originalName: string }[];
 }
 
+// Period dates come as UTC midnight; compare them as calendar dates
+const toPeriodDay = (value: string) => value.slice(0, 10);
+
+const formatPeriodDay = (value: string) => {
+  const [year, month, day] = toPeriodDay(value).split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM d');
+};
+
+const isPeriodLocked = (period: TimesheetPeriod) =>
+  period.status === 'submitted' || period.status === 'approved';
+
+const getPeriodBadge = (period: TimesheetPeriod) => {
+  if (period.status === 'submitted') return { label: 'Submitted', className: 'status-submitted' };
+  if (period.status === 'approved') return { label: 'Approved', className: 'status-approved' };
+  if (period.isMissing) return { label: 'Missing', className: 'status-missing' };
+  if (period.status === 'returned') return { label: 'Returned', className: 'status-returned' };
+  return { label: 'Open', className: 'status-open' };
+};
+
 export default function Timesheets() {
   const { user } = useAuth();
   const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
+  const [periods, setPeriods] = useState<TimesheetPeriod[]>([]);
   const [absences, setAbsences] = useState<Absence[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [activityTypes, setActivityTypes] = useState<ActivityType[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [showNoteModal, setShowNoteModal] = useState(false);
   const [showAbsenceModal, setShowAbsenceModal] = useState(false);
@@ -50,14 +106,30 @@ export default function Timesheets() {
   const [canDeleteAbsenceFiles, setCanDeleteAbsenceFiles] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [view, setView] = useState<'month' | 'week'>('month');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    fetchWorkLogs();
+    refreshWorkLogs();
     fetchAbsences();
     fetchProjects();
+    fetchActivityTypes();
   }, [currentMonth]);
 
+  useEffect(() => {
+    // Stopping the sidebar timer adds a log
+    window.addEventListener(WORK_LOGS_CHANGED_EVENT, refreshWorkLogs);
+    return () => {
+      window.removeEventListener(WORK_LOGS_CHANGED_EVENT, refreshWorkLogs);
+    };
+  }, [currentMonth]);
+
+  // Period hours follow the work logs
+  const refreshWorkLogs = () => {
+    fetchWorkLogs();
+    fetchTimesheets();
+  };
+
   const fetchWorkLogs = async () => {
     try {
       setLoading(true);
@@ -71,6 +143,29 @@ export default function Timesheets() {
     }
   };
 
+  const fetchTimesheets = async () => {
+    try {
+      const month = format(currentMonth, 'yyyy-MM');
+      const response = await axios.get(`/api/timesheets/me?month=${month}`);
+      setPeriods(response.data.timesheets);
+    } catch (error) {
+      console.error('Error fetching timesheets:', error);
+    }
+  };
+
+  const handleSubmitPeriod = async (period: TimesheetPeriod) => {
+    if (!confirm('Submit this period for approval? Its work logs cannot be changed afterwards.')) {
+      return;
+    }
+    try {
+      await axios.post('/api/timesheets/submit', { date: toPeriodDay(period.periodStart) });
+      fetchTimesheets();
+    } catch (error: any) {
+      console.error('Error submitting timesheet:', error);
+      alert(error.response?.data?.error || 'Failed to submit timesheet');
+    }
+  };
+
   const fetchAbsences = async () => {
     try {
       const start = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
@@ -97,6 +192,15 @@ export default function Timesheets() {
     }
   };
 
+  const fetchActivityTypes = async () => {
+    try {
+      const response = await axios.get('/api/activity-types');
+      setActivityTypes(response.data);
+    } catch (error) {
+      console.error('Error fetching activity types:', error);
+    }
+  };
+
   const handleCreateOrUpdate = async (data: WorkLogFormData) => {
     setIsSaving(true);
     try {
@@ -108,7 +212,7 @@ export default function Timesheets() {
       setShowModal(false);
       setEditingLog(null);
       setSelectedDate(null);
-      fetchWorkLogs();
+      refreshWorkLogs();
     } catch (error: any) {
       console.error('Error saving work log:', error);
       alert(error.response?.data?.error || 'Failed to save work log');
@@ -163,7 +267,7 @@ export default function Timesheets() {
     const start = new Date(log.start);
     const end = new Date(log.end);
     const totalMs = end.getTime() - start.getTime();
-    return totalMs / (1000 * 60 * 60);
+    return totalMs / (1000 * 60 * 60) - (log.breakMinutes || 0) / 60;
   };
 
   const getWorkLogsForDate = (date: Date): WorkLog[] => {
@@ -191,6 +295,16 @@ export default function Timesheets() {
     });
   };
 
+  const isDateLocked = (date: Date): boolean => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return periods.some(
+      (period) =>
+        isPeriodLocked(period) &&
+        toPeriodDay(period.periodStart) <= dateStr &&
+        toPeriodDay(period.periodEnd) >= dateStr
+    );
+  };
+
   const handleAbsenceClick = (absence: Absence) => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -220,7 +334,7 @@ export default function Timesheets() {
       // Show list of logs for this date
       setSelectedDate(date);
       setShowNoteModal(true);
-    } else {
+    } else if (!isDateLocked(date)) {
       // Create new log for this date
       setSelectedDate(date);
       setEditingLog(null);
@@ -255,99 +369,148 @@ export default function Timesheets() {
         </button>
       </div>
 
-      <div className="timesheets-controls">
-        <div className="month-selector">
-          <button onClick={goToPreviousMonth} className="month-nav-button">
-            ← Prev
-          </button>
-          <h2>{format(currentMonth, 'MMMM yyyy')}</h2>
-          <button
-            onClick={goToNextMonth}
-            className="month-nav-button"
-            disabled={format(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1), 'yyyy-MM') > format(new Date(), 'yyyy-MM')}
-          >
-            Next →
-          </button>
-        </div>
-        <div className="summary">
-          <span className="summary-label">Total Hours:</span>
-          <span className="summary-value">{totalHours.toFixed(2)}</span>
-        </div>
+      <div className="timesheets-view-toggle">
+        <button className={view === 'month' ? 'active' : ''} onClick={() => setView('month')}>
+          Month
+        </button>
+        <button className={view === 'week' ? 'active' : ''} onClick={() => setView('week')}>
+          Week
+        </button>
       </div>
 
-      {loading ? (
-        <div className="loading">Loading...</div>
+      {view === 'week' ? (
+        <WeekGrid projects={projects} onSaved={refreshWorkLogs} />
       ) : (
-        <div className="timesheets-calendar-container">
-          <div className="calendar-grid">
-            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day, index) => (
-              <div key={day} className={`calendar-day-header ${index === 0 || index === 6 ? 'weekend-header' : ''}`}>
-                {day}
-              </div>
-            ))}
-            
-            {(() => {
-              const monthStart = startOfMonth(currentMonth);
-              const monthEnd = endOfMonth(currentMonth);
-              const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
-              const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
-              const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
-
-              return calendarDays.map((date) => {
-                const logs = getWorkLogsForDate(date);
-                const dayAbsences = getAbsencesForDate(date);
-                const isCurrentMonth = isSameMonth(date, currentMonth);
-                const dayOfWeek = date.getDay();
-                const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-                const totalHours = logs.reduce((sum, log) => sum + calculateHours(log), 0);
-                const isToday = isSameDay(date, new Date());
-                const hasPastDue = logs.some(log => log.isPastDue);
+        <>
+          <div className="timesheets-controls">
+            <div className="month-selector">
+              <button onClick={goToPreviousMonth} className="month-nav-button">
+                ← Prev
+              </button>
+              <h2>{format(currentMonth, 'MMMM yyyy')}</h2>
+              <button
+                onClick={goToNextMonth}
+                className="month-nav-button"
+                disabled={format(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1), 'yyyy-MM') > format(new Date(), 'yyyy-MM')}
+              >
+                Next →
+              </button>
+            </div>
+            <div className="summary">
+              <span className="summary-label">Total Hours:</span>
+              <span className="summary-value">{totalHours.toFixed(2)}</span>
+            </div>
+          </div>
+
+          {periods.length > 0 && (
+            <div className="timesheet-periods">
+              {periods.map((period) => {
+                const badge = getPeriodBadge(period);
+                const canSubmit =
+                  !isPeriodLocked(period) && toPeriodDay(period.periodStart) <= format(new Date(), 'yyyy-MM-dd');
 
                 return (
-                  <div
-                    key={date.toISOString()}
-                    className={`calendar-day-cell ${isWeekend ? 'weekend' : ''} ${!isCurrentMonth ? 'other-month' : ''} ${logs.length > 0 ? 'has-log' : ''} ${dayAbsences.length > 0 ? 'has-absence' : ''} ${isToday ? 'today' : ''} ${hasPastDue ? 'past-due' : ''}`}
-                    onClick={() => handleDayClick(date)}
-                  >
-                    <div className="calendar-day-number">{format(date, 'd')}</div>
-                    {logs.length > 0 && (
-                      <div className="calendar-day-content">
-                        <div className="calendar-day-hours">{totalHours.toFixed(1)}h</div>
-                        {logs.length > 1 && (
-                          <div className="calendar-day-projects">{logs.length} projects</div>
-                        )}
-                        {hasPastDue && (
-                          <div className="calendar-day-past-due">Past Due</div>
-                        )}
-                      </div>
-                    )}
-                    {dayAbsences.length > 0 && (
-                      <div className="calendar-day-bookings">
-                        {dayAbsences.map((absence: Absence) => (
-                          <BookingBar
-                            key={absence.id}
-                            firstName={user?.firstName || ''}
-                            lastName={user?.lastName || ''}
-                            userId={user?.id || ''}
-                            type={absence.type}
-                            compact={true}
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              handleAbsenceClick(absence);
-                            }}
-                          />
-                        ))}
+                  <div key={period.periodStart} className="timesheet-period">
+                    <div className="timesheet-period-header">
+                      <span className="timesheet-period-dates">
+                        {formatPeriodDay(period.periodStart)} – {formatPeriodDay(period.periodEnd)}
+                      </span>
+                      <span className={`status-badge ${badge.className}`}>{badge.label}</span>
+                    </div>
+                    <div className="timesheet-period-hours">{period.hours.toFixed(2)}h</div>
+                    {period.comment && (
+                      <div className="timesheet-period-comment">
+                        {period.decidedBy && `${period.decidedBy.firstName} ${period.decidedBy.lastName}: `}
+                        {period.comment}
                       </div>
                     )}
-                    {logs.length === 0 && !dayAbsences.length && isCurrentMonth && (
-                      <div className="calendar-day-empty">Click to log</div>
+                    {canSubmit && (
+                      <button className="btn-primary btn-sm" onClick={() => handleSubmitPeriod(period)}>
+                        Submit
+                      </button>
                     )}
                   </div>
                 );
-              });
-            })()}
-          </div>
-        </div>
+              })}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="loading">Loading...</div>
+          ) : (
+            <div className="timesheets-calendar-container">
+              <div className="calendar-grid">
+                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day, index) => (
+                  <div key={day} className={`calendar-day-header ${index === 0 || index === 6 ? 'weekend-header' : ''}`}>
+                    {day}
+                  </div>
+                ))}
+            
+                {(() => {
+                  const monthStart = startOfMonth(currentMonth);
+                  const monthEnd = endOfMonth(currentMonth);
+                  const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
+                  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
+                  const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
+
+                  return calendarDays.map((date) => {
+                    const logs = getWorkLogsForDate(date);
+                    const dayAbsences = getAbsencesForDate(date);
+                    const isCurrentMonth = isSameMonth(date, currentMonth);
+                    const dayOfWeek = date.getDay();
+                    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+                    const totalHours = logs.reduce((sum, log) => sum + calculateHours(log), 0);
+                    const isToday = isSameDay(date, new Date());
+                    const hasPastDue = logs.some(log => log.isPastDue);
+                    const isLocked = isDateLocked(date);
+
+                    return (
+                      <div
+                        key={date.toISOString()}
+                        className={`calendar-day-cell ${isWeekend ? 'weekend' : ''} ${!isCurrentMonth ? 'other-month' : ''} ${logs.length > 0 ? 'has-log' : ''} ${dayAbsences.length > 0 ? 'has-absence' : ''} ${isToday ? 'today' : ''} ${hasPastDue ? 'past-due' : ''} ${isLocked ? 'locked' : ''}`}
+                        onClick={() => handleDayClick(date)}
+                      >
+                        <div className="calendar-day-number">{format(date, 'd')}</div>
+                        {logs.length > 0 && (
+                          <div className="calendar-day-content">
+                            <div className="calendar-day-hours">{totalHours.toFixed(1)}h</div>
+                            {logs.length > 1 && (
+                              <div className="calendar-day-projects">{logs.length} entries</div>
+                            )}
+                            {hasPastDue && (
+                              <div className="calendar-day-past-due">Past Due</div>
+                            )}
+                          </div>
+                        )}
+                        {dayAbsences.length > 0 && (
+                          <div className="calendar-day-bookings">
+                            {dayAbsences.map((absence: Absence) => (
+                              <BookingBar
+                                key={absence.id}
+                                firstName={user?.firstName || ''}
+                                lastName={user?.lastName || ''}
+                                userId={user?.id || ''}
+                                type={absence.type}
+                                compact={true}
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  handleAbsenceClick(absence);
+                                }}
+                              />
+                            ))}
+                          </div>
+                        )}
+                        {logs.length === 0 && !dayAbsences.length && isCurrentMonth && !isLocked && (
+                          <div className="calendar-day-empty">Click to log</div>
+                        )}
+                      </div>
+                    );
+                  });
+                })()}
+              </div>
+            </div>
+          )}
+        </>
       )}
 
       {showNoteModal && selectedDate && (
@@ -358,19 +521,22 @@ export default function Timesheets() {
           <div className="modal-content note-modal" onClick={(e) => e.stopPropagation()}>
             <div className="modal-header-with-action">
               <h2>Work Logs - {format(selectedDate, 'MMM dd, yyyy')}</h2>
-              <button
-                className="btn-primary btn-sm"
-                onClick={() => {
-                  setShowNoteModal(false);
-                  setEditingLog(null);
-                  setShowModal(true);
-                }}
-              >
-                + Add Log
-              </button>
+              {!isDateLocked(selectedDate) && (
+                <button
+                  className="btn-primary btn-sm"
+                  onClick={() => {
+                    setShowNoteModal(false);
+                    setEditingLog(null);
+                    setShowModal(true);
+                  }}
+                >
+                  + Add Log
+                </button>
+              )}
             </div>
             {(() => {
               const logs = getWorkLogsForDate(selectedDate);
+              const isLocked = isDateLocked(selectedDate);
               if (logs.length === 0) {
                 return (
                   <div className="work-log-list-empty">
@@ -393,6 +559,13 @@ export default function Timesheets() {
                   {logs.map((log) => (
                     <div key={log.id} className="work-log-item">
                       <div className="work-log-details">
+                        <div className="detail-row">
+                          <span className="detail-label">Time:</span>
+                          <span className="detail-value">
+                            {format(new Date(log.start), 'HH:mm')}–{format(new Date(log.end), 'HH:mm')}
+                            {log.breakMinutes > 0 && ` (${log.breakMinutes} min break)`}
+                          </span>
+                        </div>
                         <div className="detail-row">
                           <span className="detail-label">Hours:</span>
                           <span className="detail-value">{calculateHours(log).toFixed(2)}h</span>
@@ -401,6 +574,24 @@ export default function Timesheets() {
                           <span className="detail-label">Project:</span>
                           <span className="detail-value">{log.project?.name || '-'}</span>
                         </div>
+                        {log.task && (
+                          <div className="detail-row">
+                            <span className="detail-label">Task:</span>
+                            <span className="detail-value">{log.task.name}</span>
+                          </div>
+                        )}
+                        {log.activityType && (
+                          <div className="detail-row">
+                            <span className="detail-label">Activity:</span>
+                            <span className="detail-value">{log.activityType.name}</span>
+                          </div>
+                        )}
+                        {!log.isBillable && (
+                          <div className="detail-row">
+                            <span className="detail-label"></span>
+                            <span className="detail-value non-billable-badge">Non-billable</span>
+                          </div>
+                        )}
                         {log.isPastDue && (
                           <div className="detail-row">
                             <span className="detail-label"></span>
@@ -414,39 +605,41 @@ export default function Timesheets() {
                           </div>
                         )}
                       </div>
-                      <div className="work-log-item-actions">
-                        <button
-                          onClick={() => {
-                            setEditingLog(log);
-                            setShowNoteModal(false);
-                            setSelectedDate(null);
-                            setShowModal(true);
-                          }}
-                          className="btn-secondary btn-sm"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={async () => {
-                            if (confirm('Are you sure you want to delete this work log?')) {
-                              try {
-                                await axios.delete(`/api/worklogs/${log.id}`);
-                                fetchWorkLogs();
-                                if (logs.length === 1) {
-                                  setShowNoteModal(false);
-                                  setSelectedDate(null);
+                      {!isLocked && (
+                        <div className="work-log-item-actions">
+                          <button
+                            onClick={() => {
+                              setEditingLog(log);
+                              setShowNoteModal(false);
+                              setSelectedDate(null);
+                              setShowModal(true);
+                            }}
+                            className="btn-secondary btn-sm"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={async () => {
+                              if (confirm('Are you sure you want to delete this work log?')) {
+                                try {
+                                  await axios.delete(`/api/worklogs/${log.id}`);
+                                  refreshWorkLogs();
+                                  if (logs.length === 1) {
+                                    setShowNoteModal(false);
+                                    setSelectedDate(null);
+                                  }
+                                } catch (error: any) {
+                                  console.error('Error deleting work log:', error);
+                                  alert(error.response?.data?.error || 'Failed to delete work log');
                                 }
-                              } catch (error: any) {
-                                console.error('Error deleting work log:', error);
-                                alert(error.response?.data?.error || 'Failed to delete work log');
                               }
-                            }
-                          }}
-                          className="btn-danger btn-sm"
-                        >
-                          Delete
-                        </button>
-                      </div>
+                            }}
+                            className="btn-danger btn-sm"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -506,13 +699,18 @@ export default function Timesheets() {
                 date: editingLog.date,
                 start: editingLog.start,
                 end: editingLog.end,
+                breakMinutes: editingLog.breakMinutes,
                 projectId: editingLog.projectId || undefined,
+                taskId: editingLog.taskId,
+                activityTypeId: editingLog.activityTypeId,
+                isBillable: editingLog.isBillable,
                 note: editingLog.note || undefined,
               } : selectedDate ? {
                 date: format(selectedDate, 'yyyy-MM-dd'),
               } : undefined}
               loading={isSaving}
               projects={projects}
+              activityTypes={activityTypes}
             />
           </div>
         </div>
@@ -0,0 +1,69 @@
+export type AbsencePortion = 'full_day' | 'half_day_am' | 'half_day_pm' | 'hours';
+
+/**
+ * Short label for a partial absence (e.g. "AM", "PM", "3h")
+ * @param portion - The absence portion
+ * @param hours - Number of hours for hourly absences
+ * @returns Label, or null for full-day absences
+ */
+export function getPortionShortLabel(
+  portion?: AbsencePortion | null,
+  hours?: number | null
+): string | null {
+  switch (portion) {
+    case 'half_day_am':
+      return 'AM';
+    case 'half_day_pm':
+      return 'PM';
+    case 'hours':
+      return `${hours ?? 0}h`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Human-readable description of an absence portion
+ * @param portion - The absence portion
+ * @param hours - Number of hours for hourly absences
+ * @returns Description, or null for full-day absences
+ */
+export function getPortionLabel(
+  portion?: AbsencePortion | null,
+  hours?: number | null
+): string | null {
+  switch (portion) {
+    case 'half_day_am':
+      return 'Half day (morning)';
+    case 'half_day_pm':
+      return 'Half day (afternoon)';
+    case 'hours':
+      return `${hours ?? 0} hour${hours === 1 ? '' : 's'}`;
+    default:
+      return null;
+  }
+}
+
+export interface CoverageConflict {
+  projectId: string;
+  projectName: string;
+  rule: 'max_concurrent' | 'critical_overlap';
+  enforcement: 'warn' | 'block';
+  message: string;
+  dates: string[];
+  users: { id: string; firstName: string; lastName: string }[];
+}
+
+/**
+ * Alert text for coverage rules a request breaks without being blocked
+ * @param warnings - Conflicts returned with the saved absence
+ * @returns Text to show, or null when there are no warnings
+ */
+export function getCoverageWarningText(warnings?: CoverageConflict[] | null): string | null {
+  if (!warnings || warnings.length === 0) {
+    return null;
+  }
+  return `Request saved, but it conflicts with project coverage rules:\n${warnings
+    .map((warning) => `- ${warning.message}`)
+    .join('\n')}`;
+}